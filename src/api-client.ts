@@ -0,0 +1,348 @@
+/**
+ * Shared HTTP client for the rechtsinformationen.bund.de API
+ *
+ * Every upstream request goes through this client so that timeouts,
+ * throttling, retries and the circuit breaker apply uniformly:
+ * - Throttling: request starts are spaced by at least `rateLimitDelay` ms
+ * - Retries: 429, 5xx and network errors are retried with exponential
+ *   backoff and full jitter (Retry-After is honoured for 429/503)
+ * - Circuit breaker: after `circuitBreakerThreshold` consecutive failures
+ *   the client fails fast for `circuitBreakerCooldown` ms, then lets a
+ *   single trial request through (half-open)
+ *
+ * - Caching: successful responses are cached (see response-cache.ts); when
+ *   the API fails, expired entries are served and flagged as stale
+ *
+ * 4xx responses other than 429 are returned to the caller unchanged
+ * (as axios errors) and do not count as failures.
+ *
+ * Requests made during a tool call with `explain: true` are recorded in its
+ * search trace (see search-trace.ts). Upstream statuses and cache lookups are
+ * counted in the metrics (see metrics.ts).
+ */
+
+import axios, { AxiosError } from 'axios';
+import { Config, config as defaultConfig } from './config.js';
+import { CacheKind, ResponseCache } from './response-cache.js';
+import { describeFailure, errorFields, logger } from './logger.js';
+import { CacheLookup, Metrics, metrics as defaultMetrics, upstreamEndpoint } from './metrics.js';
+import { currentTrace, traceParams } from './search-trace.js';
+
+export interface ApiRequestOptions {
+  params?: Record<string, any> | URLSearchParams;
+  headers?: Record<string, string>;
+  timeout?: number;
+  /** Override the cache TTL class; derived from the URL when omitted */
+  cacheKind?: CacheKind;
+  /** Skip the cache for this request */
+  noCache?: boolean;
+}
+
+export interface ApiResponse<T = any> {
+  data: T;
+  status: number;
+  contentType?: string;
+  /** Served from the cache instead of the API */
+  fromCache: boolean;
+  /** Served from an expired cache entry because the API failed */
+  stale: boolean;
+  /** When the response was fetched from the API (epoch ms) */
+  fetchedAt: number;
+}
+
+type CircuitState = 'closed' | 'open' | 'half-open';
+
+export class CircuitOpenError extends Error {
+  readonly retryAfterMs: number;
+
+  constructor(retryAfterMs: number) {
+    super(
+      `rechtsinformationen.bund.de API is currently unavailable (circuit breaker open after repeated failures). ` +
+      `Retry in ${Math.ceil(retryAfterMs / 1000)}s.`
+    );
+    this.name = 'CircuitOpenError';
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+const RETRYABLE_NETWORK_CODES = new Set([
+  'ECONNABORTED',
+  'ECONNRESET',
+  'ECONNREFUSED',
+  'ETIMEDOUT',
+  'EAI_AGAIN',
+  'ENOTFOUND',
+  'ERR_NETWORK',
+]);
+
+// Collection endpoints return search results; everything else is a document
+const SEARCH_ENDPOINT = /\/v1\/(legislation|case-law|document)\/?$/;
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+export class ApiClient {
+  private readonly settings: Config;
+  private nextSlot = 0;
+  private consecutiveFailures = 0;
+  private circuitState: CircuitState = 'closed';
+  private circuitOpenedAt = 0;
+  private trialInFlight = false;
+  private readonly cache: ResponseCache | null;
+  private readonly metrics: Metrics;
+
+  constructor(settings: Config = defaultConfig, metrics: Metrics = defaultMetrics) {
+    this.settings = settings;
+    this.metrics = metrics;
+    this.cache = settings.cacheEnabled
+      ? new ResponseCache({
+          maxEntries: settings.cacheMaxEntries,
+          searchTtl: settings.cacheSearchTtl,
+          documentTtl: settings.cacheDocumentTtl,
+          maxStale: settings.cacheMaxStale,
+          directory: settings.cacheDir,
+          maxDiskEntries: settings.cacheMaxDiskEntries,
+        })
+      : null;
+  }
+
+  /**
+   * Circuit breaker and cache state, for health checks
+   */
+  status(): { circuit: CircuitState; consecutiveFailures: number; cachedResponses: number | null } {
+    return {
+      circuit: this.circuitState,
+      consecutiveFailures: this.consecutiveFailures,
+      cachedResponses: this.cache ? this.cache.size : null,
+    };
+  }
+
+  /**
+   * Resolve a request target to a full URL.
+   *
+   * Accepts full URLs, absolute API paths ("/v1/legislation/..."), and
+   * paths relative to the API base URL ("/legislation").
+   */
+  resolveUrl(path: string): string {
+    if (/^https?:\/\//i.test(path)) return path;
+    if (path.startsWith('/v1/')) return `${this.settings.portalOrigin}${path}`;
+    return `${this.settings.apiBaseUrl}${path.startsWith('/') ? '' : '/'}${path}`;
+  }
+
+  async get<T = any>(path: string, options: ApiRequestOptions = {}): Promise<ApiResponse<T>> {
+    const trace = currentTrace();
+    if (!trace) return this.request<T>(path, options);
+
+    const started = Date.now();
+    const traced = { url: this.resolveUrl(path), params: traceParams(options.params) };
+    try {
+      const response = await this.request<T>(path, options);
+      const data: any = response.data;
+      trace.requests.push({
+        ...traced,
+        status: response.status,
+        latencyMs: Date.now() - started,
+        hits: Array.isArray(data?.member) ? data.member.length : undefined,
+        totalItems: typeof data?.totalItems === 'number' ? data.totalItems : undefined,
+        fromCache: response.fromCache,
+        stale: response.stale,
+      });
+      return response;
+    } catch (error) {
+      trace.requests.push({
+        ...traced,
+        status: axios.isAxiosError(error) ? error.response?.status : undefined,
+        latencyMs: Date.now() - started,
+        fromCache: false,
+        stale: false,
+        error: describeFailure(error),
+      });
+      throw error;
+    }
+  }
+
+  private async request<T>(path: string, options: ApiRequestOptions): Promise<ApiResponse<T>> {
+    const url = this.resolveUrl(path);
+    const cache = this.cache;
+
+    if (!cache || options.noCache) {
+      return this.fetch<T>(url, options);
+    }
+
+    const key = ResponseCache.key(url, options.params, options.headers?.Accept);
+    const cached = await cache.lookup(key);
+    if (cached && !cached.stale) {
+      this.metrics.recordCacheLookup('hit');
+      return this.fromEntry<T>(cached.entry.data, cached.entry, false);
+    }
+
+    let lookup: CacheLookup = 'miss';
+    return cache.dedupe(key, async () => {
+      try {
+        const response = await this.fetch<T>(url, options);
+        const kind = options.cacheKind ?? (SEARCH_ENDPOINT.test(new URL(url).pathname) ? 'search' : 'document');
+        await cache.store(key, kind, response.data, response.status, response.contentType);
+        return response;
+      } catch (error) {
+        if (cached && this.isUpstreamFailure(error)) {
+          lookup = 'stale';
+          return this.fromEntry<T>(cached.entry.data, cached.entry, true);
+        }
+        throw error;
+      }
+    }).finally(() => this.metrics.recordCacheLookup(lookup));
+  }
+
+  private fromEntry<T>(data: T, entry: { status: number; contentType?: string; storedAt: number }, stale: boolean): ApiResponse<T> {
+    return {
+      data,
+      status: entry.status,
+      contentType: entry.contentType,
+      fromCache: true,
+      stale,
+      fetchedAt: entry.storedAt,
+    };
+  }
+
+  private async fetch<T>(url: string, options: ApiRequestOptions): Promise<ApiResponse<T>> {
+    this.checkCircuit();
+
+    let attempt = 0;
+    const endpoint = upstreamEndpoint(url);
+
+    while (true) {
+      await this.throttle();
+
+      const started = Date.now();
+      try {
+        const response = await axios.get<T>(url, {
+          params: options.params,
+          headers: options.headers,
+          timeout: options.timeout ?? this.settings.apiTimeout,
+        });
+        this.metrics.recordUpstream(endpoint, response.status);
+        logger.debug('Upstream request', { url, status: response.status, durationMs: Date.now() - started, attempt });
+        this.recordSuccess();
+        const contentType = response.headers['content-type'];
+        return {
+          data: response.data,
+          status: response.status,
+          contentType: typeof contentType === 'string' ? contentType : undefined,
+          fromCache: false,
+          stale: false,
+          fetchedAt: Date.now(),
+        };
+      } catch (error) {
+        const status = axios.isAxiosError(error) ? error.response?.status : undefined;
+        this.metrics.recordUpstream(endpoint, status ?? 'error');
+        logger.debug('Upstream request failed', { ...errorFields(error), url, durationMs: Date.now() - started, attempt });
+
+        if (!this.isRetryable(error)) {
+          // Client errors mean the API is up; they must not trip the breaker
+          this.recordSuccess();
+          throw error;
+        }
+
+        if (attempt >= this.settings.maxRetries) {
+          this.recordFailure();
+          throw error;
+        }
+
+        const delay = this.backoffDelay(attempt, error as AxiosError);
+        logger.warn('Retrying upstream request', { url, reason: describeFailure(error), attempt: attempt + 1, delayMs: delay });
+        await sleep(delay);
+        attempt++;
+      }
+    }
+  }
+
+  private checkCircuit(): void {
+    if (this.circuitState === 'closed') return;
+
+    // Only one trial request may probe the API while half-open
+    if (this.circuitState === 'half-open') {
+      if (this.trialInFlight) throw new CircuitOpenError(this.settings.rateLimitDelay);
+      this.trialInFlight = true;
+      return;
+    }
+
+    const elapsed = Date.now() - this.circuitOpenedAt;
+    if (elapsed >= this.settings.circuitBreakerCooldown) {
+      this.circuitState = 'half-open';
+      this.trialInFlight = true;
+      return;
+    }
+    throw new CircuitOpenError(this.settings.circuitBreakerCooldown - elapsed);
+  }
+
+  private recordSuccess(): void {
+    this.consecutiveFailures = 0;
+    this.circuitState = 'closed';
+    this.trialInFlight = false;
+  }
+
+  private recordFailure(): void {
+    this.consecutiveFailures++;
+    this.trialInFlight = false;
+    if (
+      this.circuitState === 'half-open' ||
+      (this.settings.circuitBreakerThreshold > 0 &&
+        this.consecutiveFailures >= this.settings.circuitBreakerThreshold)
+    ) {
+      this.circuitState = 'open';
+      this.circuitOpenedAt = Date.now();
+      logger.warn('Circuit breaker opened', { consecutiveFailures: this.consecutiveFailures, cooldownMs: this.settings.circuitBreakerCooldown });
+    }
+  }
+
+  private async throttle(): Promise<void> {
+    const now = Date.now();
+    const start = Math.max(now, this.nextSlot);
+    this.nextSlot = start + this.settings.rateLimitDelay;
+    if (start > now) {
+      await sleep(start - now);
+    }
+  }
+
+  /**
+   * Failures that justify serving stale data: the API is down or overloaded,
+   * not a client error like 404
+   */
+  private isUpstreamFailure(error: unknown): boolean {
+    return error instanceof CircuitOpenError || this.isRetryable(error);
+  }
+
+  private isRetryable(error: unknown): boolean {
+    if (!axios.isAxiosError(error)) return false;
+
+    const status = error.response?.status;
+    if (status !== undefined) {
+      return status === 429 || status >= 500;
+    }
+    return error.code !== undefined && RETRYABLE_NETWORK_CODES.has(error.code);
+  }
+
+  /**
+   * Exponential backoff with full jitter, overridden by Retry-After when present
+   */
+  private backoffDelay(attempt: number, error: AxiosError): number {
+    const retryAfter = this.parseRetryAfter(error.response?.headers?.['retry-after']);
+    if (retryAfter !== null) {
+      return Math.min(retryAfter, this.settings.retryMaxDelay);
+    }
+
+    const ceiling = Math.min(this.settings.retryMaxDelay, this.settings.retryBaseDelay * 2 ** attempt);
+    return Math.round(Math.random() * ceiling);
+  }
+
+  private parseRetryAfter(value: unknown): number | null {
+    if (typeof value !== 'string' || value.trim() === '') return null;
+
+    const seconds = Number(value);
+    if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+
+    const date = Date.parse(value);
+    return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+  }
+}
@@ -0,0 +1,90 @@
+/**
+ * BM25 ranking
+ *
+ * Ranks the merged results of the intelligent search against the user's
+ * query. Documents are the title plus the API's text matches, analysed with
+ * the German text analysis; title terms count double (a simple BM25F). Next
+ * to the raw score every result gets a relevance between 0 and 1: the score
+ * divided by the highest score the query could reach, so values can be
+ * compared across queries and thresholded.
+ */
+
+import { analyzeGerman } from './german.js';
+
+export interface RankableDocument {
+  title: string;
+  /** Text matches or summary */
+  text: string;
+}
+
+export interface RankedDocument<T> {
+  item: T;
+  /** Raw BM25 score */
+  score: number;
+  /** Score relative to the best reachable score for the query, 0-1 */
+  relevance: number;
+  /** Query terms found in the document */
+  matchedTerms: string[];
+}
+
+const K1 = 1.2;
+const B = 0.75;
+const TITLE_WEIGHT = 2;
+
+interface IndexedDocument<T> {
+  item: T;
+  frequencies: Map<string, number>;
+  length: number;
+}
+
+function termFrequencies(terms: string[], weight: number, into: Map<string, number>): void {
+  for (const term of terms) into.set(term, (into.get(term) ?? 0) + weight);
+}
+
+/**
+ * Rank documents by BM25; ties keep their input order. `analyze` turns text
+ * into index terms, e.g. `GermanLexicon.analyze` to match compound parts.
+ */
+export function rankBm25<T>(
+  query: string,
+  items: T[],
+  toDocument: (item: T) => RankableDocument,
+  analyze: (text: string) => string[] = analyzeGerman
+): RankedDocument<T>[] {
+  const queryTerms = [...new Set(analyze(query))];
+
+  const documents: IndexedDocument<T>[] = items.map(item => {
+    const { title, text } = toDocument(item);
+    const titleTerms = analyze(title);
+    const textTerms = analyze(text);
+    const frequencies = new Map<string, number>();
+    termFrequencies(titleTerms, TITLE_WEIGHT, frequencies);
+    termFrequencies(textTerms, 1, frequencies);
+    return { item, frequencies, length: titleTerms.length * TITLE_WEIGHT + textTerms.length };
+  });
+
+  const averageLength = documents.reduce((sum, doc) => sum + doc.length, 0) / Math.max(documents.length, 1) || 1;
+  const idf = new Map(queryTerms.map(term => {
+    const containing = documents.filter(doc => doc.frequencies.has(term)).length;
+    // BM25+ style idf that stays positive for terms in most documents
+    return [term, Math.log(1 + (documents.length - containing + 0.5) / (containing + 0.5))];
+  }));
+  // A document matching every term with a very high frequency approaches this
+  const maxScore = queryTerms.reduce((sum, term) => sum + (idf.get(term) ?? 0) * (K1 + 1), 0);
+
+  return documents
+    .map((doc, index) => {
+      let score = 0;
+      const matchedTerms: string[] = [];
+      for (const term of queryTerms) {
+        const frequency = doc.frequencies.get(term);
+        if (!frequency) continue;
+        matchedTerms.push(term);
+        const norm = K1 * (1 - B + B * doc.length / averageLength);
+        score += (idf.get(term) ?? 0) * frequency * (K1 + 1) / (frequency + norm);
+      }
+      return { item: doc.item, score, relevance: maxScore > 0 ? Math.min(1, score / maxScore) : 0, matchedTerms, index };
+    })
+    .sort((a, b) => b.score - a.score || a.index - b.index)
+    .map(({ index: _index, ...ranked }) => ranked);
+}
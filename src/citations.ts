@@ -0,0 +1,466 @@
+/**
+ * German legal citations
+ *
+ * Parses norm citations in free text into a typed AST:
+ *
+ *   "§§ 44 bis 48 SGB X"             → one citation with a range part
+ *   "§ 44 Abs. 1 und 2 SGB X"        → one citation with two single parts
+ *   "§ 35 Abs. 1 S. 2 Nr. 3 lit. a"  → one part addressing a Buchstabe
+ *   "§ 812 ff. BGB"                  → following: 'ff'
+ *   "§ 22 i.V.m. § 7 SGB II"         → a chain of two citations sharing SGB II
+ *
+ * Law abbreviations are not restricted to a fixed list; any abbreviation-like
+ * token ("BGB", "VwVfG", "SGB II", "KSchG") after the norm is accepted.
+ */
+
+export type CitationKind = 'paragraph' | 'article';
+
+/** The addressed unit, from § / Artikel down to the Halbsatz */
+export interface CitationTarget {
+  /** Number of the §/Artikel including letter suffix, e.g. "44" or "15a" */
+  number: string;
+  absatz?: string;
+  satz?: string;
+  nummer?: string;
+  buchstabe?: string;
+  halbsatz?: string;
+  /** "f." (and the following one) or "ff." (and the following ones) after the last given level */
+  following?: 'f' | 'ff';
+}
+
+export type CitationPart =
+  | { type: 'single'; target: CitationTarget }
+  | { type: 'range'; from: CitationTarget; to: CitationTarget };
+
+export interface Citation {
+  kind: CitationKind;
+  parts: CitationPart[];
+  /** Law abbreviation, whitespace-normalized, e.g. "SGB X" */
+  law?: string;
+  /** True when the law was taken from a later citation of the same i.V.m. chain */
+  lawInherited?: boolean;
+  raw: string;
+  start: number;
+  end: number;
+}
+
+/** Citations connected by "i.V.m." (in Verbindung mit) */
+export interface CitationChain {
+  citations: Citation[];
+  raw: string;
+  start: number;
+  end: number;
+}
+
+/** A single, fully specified norm reference as used by the norm tools */
+export interface NormCitation {
+  /** § (Paragraph) or Art. (Artikel) */
+  kind: CitationKind;
+  /** Number of the §/Artikel including letter suffix, e.g. "44" or "15a" */
+  number: string;
+  absatz?: number;
+  satz?: number;
+  nummer?: string;
+  /** Letter of a list item, e.g. "a" for "lit. a" or "Buchst. a" */
+  buchstabe?: string;
+  halbsatz?: number;
+  /** "f." or "ff." after the norm; the reference then spans more than one norm */
+  following?: 'f' | 'ff';
+  /** Law abbreviation as written, e.g. "SGB X"; empty when the law is only known by its ELI */
+  law: string;
+  raw: string;
+}
+
+type SubLevel = 'absatz' | 'satz' | 'nummer' | 'buchstabe' | 'halbsatz';
+
+const ANCHOR = /(§§|§|Artt\.|Art\.|Artikel)\s*(?=\d)/g;
+// A letter suffix stands alone: "15a", "15 a", but not the "i" of "40 iVm"
+const NUMBER = /\s*(\d+(?:\s?[a-z](?![A-Za-zÄÖÜäöüß.]))?)/y;
+const FOLLOWING = /\s*(ff?)\.(?!\w)/y;
+const SUB_KEYS: Array<[SubLevel, RegExp]> = [
+  ['absatz', /\s*(?:Abs\.|Absatz|Absätze)\s*/y],
+  ['satz', /\s*(?:S\.|Satz|Sätze)\s*/y],
+  ['nummer', /\s*(?:Nr\.|Nrn\.|Nummer|Nummern|Ziff\.|Ziffer)\s*/y],
+  ['buchstabe', /\s*(?:lit\.|Buchst\.|Buchstabe)\s*/y],
+  ['halbsatz', /\s*(?:Hs\.|HS|Halbs\.|Halbsatz)\s*/y],
+];
+// "2. Halbsatz"
+const ORDINAL_HALBSATZ = /\s*(\d)\.\s*(?:Halbsatz|Halbs\.|Hs\.)/y;
+const SUB_VALUE: Record<SubLevel, RegExp> = {
+  absatz: /(\d+[a-z]?)(?!\w)/y,
+  satz: /(\d+)(?!\w)/y,
+  nummer: /(\d+[a-z]?)(?!\w)/y,
+  buchstabe: /([a-z]{1,2})(?:\))?(?![\wäöüß])/y,
+  halbsatz: /(\d)(?!\w)/y,
+};
+const LIST_SEPARATOR = /\s*(?:,|und|sowie|oder)\s*/y;
+const RANGE_SEPARATOR = /\s*(?:bis|-|–)\s*/y;
+const IN_CONNECTION_WITH = /\s*(?:i\.\s?V\.\s?m\.|iVm|in Verbindung mit)\s*/y;
+
+// Abbreviation-like tokens: at least two capitals ("BGB", "VwVfG", "KSchG");
+// the Sozialgesetzbuch additionally takes its book ("SGB II", "SGB-X", "SGB 2")
+const LAW_TOKEN = String.raw`(?:SGB(?:[\s-]*(?:[IVX]{1,4}|\d{1,2})(?![\wÄÖÜäöü]))?|(?=[A-Za-zÄÖÜäöüß]*[A-ZÄÖÜ][a-zäöüß]*[A-ZÄÖÜ])[A-ZÄÖÜ][A-Za-zÄÖÜäöüß]{1,14}(?![\wÄÖÜäöüß]))`;
+const TRAILING_LAW = new RegExp(String.raw`\s*(?:des\s+|der\s+)?(${LAW_TOKEN})`, 'y');
+const PRECEDING_LAW = new RegExp(String.raw`(?:^|[^\wÄÖÜäöüß])(${LAW_TOKEN})\s*$`);
+const STANDALONE_LAW = new RegExp(String.raw`(?<![\wÄÖÜäöüß])(${LAW_TOKEN})`, 'g');
+
+// Court abbreviations look like law abbreviations but are not
+const NOT_A_LAW = new Set([
+  'BVerfG', 'BGH', 'BVerwG', 'BFH', 'BAG', 'BSG', 'BPatG', 'EuGH', 'EGMR',
+  'OLG', 'LG', 'AG', 'OVG', 'VGH', 'VG', 'LSG', 'SG', 'LAG', 'ArbG', 'FG', 'KG',
+  'BGBl', 'ECLI', 'ELI', 'EU', 'EUR', 'NJW', 'DE',
+]);
+
+function normalizeLaw(law: string): string {
+  return law.replace(/[\s-]+/g, ' ').trim();
+}
+
+function isLaw(token: string): boolean {
+  return !NOT_A_LAW.has(token) && !NOT_A_LAW.has(token.replace(/\s.*$/, ''));
+}
+
+class Scanner {
+  constructor(readonly text: string, public pos: number) {}
+
+  match(pattern: RegExp): RegExpExecArray | null {
+    pattern.lastIndex = this.pos;
+    const match = pattern.exec(this.text);
+    if (match) this.pos = pattern.lastIndex;
+    return match;
+  }
+
+  /** Match only if `next` also matches right after `pattern` */
+  matchFollowedBy(pattern: RegExp, next: RegExp): RegExpExecArray | null {
+    const start = this.pos;
+    const match = this.match(pattern);
+    if (!match) return null;
+    next.lastIndex = this.pos;
+    if (next.test(this.text)) return match;
+    this.pos = start;
+    return null;
+  }
+}
+
+function readFollowing(scanner: Scanner): 'f' | 'ff' | undefined {
+  const match = scanner.match(FOLLOWING);
+  return match ? (match[1] as 'f' | 'ff') : undefined;
+}
+
+function readSubKey(scanner: Scanner): SubLevel | null {
+  for (const [level, pattern] of SUB_KEYS) {
+    if (scanner.matchFollowedBy(pattern, SUB_VALUE[level])) return level;
+  }
+  return null;
+}
+
+/**
+ * Parse "44 Abs. 1 und 2 Satz 3" into parts. Lists and ranges on a lower
+ * level expand into sibling parts; deeper levels refine the last of them.
+ */
+function readTarget(scanner: Scanner): CitationPart[] | null {
+  const number = scanner.match(NUMBER);
+  if (!number) return null;
+
+  const base: CitationTarget = { number: number[1].replace(/\s+/g, '').toLowerCase() };
+  const following = readFollowing(scanner);
+  if (following) base.following = following;
+  const parts: CitationPart[] = [{ type: 'single', target: base }];
+
+  for (;;) {
+    let level: SubLevel | null;
+    let values: Array<{ value: string; to?: string; following?: 'f' | 'ff' }> = [];
+
+    const ordinal = scanner.match(ORDINAL_HALBSATZ);
+    if (ordinal) {
+      level = 'halbsatz';
+      values = [{ value: ordinal[1] }];
+    } else {
+      level = readSubKey(scanner);
+      if (!level) break;
+
+      const valuePattern = SUB_VALUE[level];
+      for (;;) {
+        const value = scanner.match(valuePattern);
+        if (!value) break;
+        const entry: { value: string; to?: string; following?: 'f' | 'ff' } = { value: value[1].toLowerCase() };
+        const to = scanner.matchFollowedBy(RANGE_SEPARATOR, valuePattern) ? scanner.match(valuePattern) : null;
+        if (to) entry.to = to[1].toLowerCase();
+        entry.following = readFollowing(scanner);
+        values.push(entry);
+        if (!scanner.matchFollowedBy(LIST_SEPARATOR, valuePattern)) break;
+      }
+    }
+
+    // Refine the last part; a refined range keeps its endpoints ("Abs. 1 bis 3 Satz 2")
+    const last = parts.pop()!;
+    const apply = (target: CitationTarget, value: string, following?: 'f' | 'ff'): CitationTarget => {
+      const refined: CitationTarget = { ...target, [level]: value };
+      delete refined.following;
+      if (following) refined.following = following;
+      return refined;
+    };
+    for (const entry of values) {
+      if (last.type === 'range') {
+        parts.push({ type: 'range', from: apply(last.from, entry.value), to: apply(last.to, entry.value, entry.following) });
+      } else if (entry.to) {
+        parts.push({ type: 'range', from: apply(last.target, entry.value), to: apply(last.target, entry.to, entry.following) });
+      } else {
+        parts.push({ type: 'single', target: apply(last.target, entry.value, entry.following) });
+      }
+    }
+  }
+
+  return parts;
+}
+
+function readCitation(scanner: Scanner, anchor: RegExpExecArray): Citation | null {
+  const start = anchor.index;
+  scanner.pos = anchor.index + anchor[0].length;
+
+  const parts = readTarget(scanner);
+  if (!parts) return null;
+
+  for (;;) {
+    if (scanner.matchFollowedBy(RANGE_SEPARATOR, NUMBER)) {
+      const to = readTarget(scanner);
+      const from = parts.pop()!;
+      if (!to) break;
+      const [first, ...rest] = to;
+      parts.push({
+        type: 'range',
+        from: from.type === 'single' ? from.target : from.from,
+        to: first.type === 'single' ? first.target : first.to,
+      }, ...rest);
+    } else if (scanner.matchFollowedBy(LIST_SEPARATOR, NUMBER)) {
+      const next = readTarget(scanner);
+      if (!next) break;
+      parts.push(...next);
+    } else {
+      break;
+    }
+  }
+
+  const citation: Citation = {
+    kind: anchor[1].startsWith('§') ? 'paragraph' : 'article',
+    parts,
+    raw: '',
+    start,
+    end: scanner.pos,
+  };
+
+  const lawStart = scanner.pos;
+  const law = scanner.match(TRAILING_LAW);
+  if (law && isLaw(law[1])) {
+    citation.law = normalizeLaw(law[1]);
+    citation.end = scanner.pos;
+  } else {
+    scanner.pos = lawStart;
+    // Law-first style: "SGB X § 44", "BGB § 573 Abs. 2"
+    const preceding = scanner.text.substring(Math.max(0, start - 20), start).match(PRECEDING_LAW);
+    if (preceding && isLaw(preceding[1])) {
+      citation.law = normalizeLaw(preceding[1]);
+      citation.start = start - preceding[0].length + preceding[0].indexOf(preceding[1]);
+    }
+  }
+
+  citation.raw = scanner.text.substring(citation.start, citation.end);
+  return citation;
+}
+
+/**
+ * Earlier citations without a law share the next named one:
+ * "§ 44 Abs. 1 i.V.m. § 40 SGB X"
+ */
+function inheritLaw(citations: Citation[], withinChain: boolean): void {
+  for (let i = citations.length - 2; i >= 0; i--) {
+    if (!citations[i].law && citations[i + 1].law) {
+      citations[i].law = citations[i + 1].law;
+      if (withinChain) citations[i].lawInherited = true;
+    }
+  }
+}
+
+/**
+ * Find all citations in a text, grouped into i.V.m. chains
+ */
+export function parseCitations(text: string): CitationChain[] {
+  const input = text || '';
+  const chains: CitationChain[] = [];
+  const scanner = new Scanner(input, 0);
+  const anchor = new RegExp(ANCHOR.source, 'g');
+  // Whether a chain is followed by ", § ..." / "und § ..."
+  const listed: boolean[] = [];
+
+  let match: RegExpExecArray | null;
+  while ((match = anchor.exec(input)) !== null) {
+    const first = readCitation(scanner, match);
+    if (!first) continue;
+
+    const citations = [first];
+    for (;;) {
+      const before = scanner.pos;
+      if (!scanner.match(IN_CONNECTION_WITH)) break;
+      const sticky = new RegExp(ANCHOR.source, 'y');
+      sticky.lastIndex = scanner.pos;
+      const next = sticky.exec(input);
+      const citation = next ? readCitation(scanner, next) : null;
+      if (!citation) {
+        scanner.pos = before;
+        break;
+      }
+      citations.push(citation);
+    }
+
+    inheritLaw(citations, true);
+
+    const start = citations[0].start;
+    const end = citations[citations.length - 1].end;
+    chains.push({ citations, raw: input.substring(start, end), start, end });
+    anchor.lastIndex = Math.max(anchor.lastIndex, end);
+
+    // "§ 573 Abs. 2 Nr. 1, § 574 BGB": enumerated citations share the law as well
+    const sticky = new RegExp(String.raw`${LIST_SEPARATOR.source}${ANCHOR.source}`, 'y');
+    sticky.lastIndex = end;
+    listed.push(sticky.test(input));
+  }
+
+  for (let i = chains.length - 2; i >= 0; i--) {
+    if (listed[i]) inheritLaw([...chains[i].citations, chains[i + 1].citations[0]], false);
+  }
+
+  return chains;
+}
+
+/**
+ * Law abbreviations mentioned anywhere in the text, including those without a §
+ */
+export function findLawAbbreviations(text: string): string[] {
+  const laws = new Set<string>();
+  for (const match of (text || '').matchAll(STANDALONE_LAW)) {
+    if (isLaw(match[1])) laws.add(normalizeLaw(match[1]));
+  }
+  return [...laws];
+}
+
+/**
+ * Parse a citation of exactly one norm. `law` stands in for a law the
+ * citation does not name ("§ 44" with a separate abbreviation); without it
+ * such citations are rejected.
+ */
+export function parseNormCitation(input: string, law?: string): NormCitation | null {
+  const raw = (input || '').replace(/\s+/g, ' ').trim();
+  const citation = parseCitations(raw)[0]?.citations[0];
+  const citedLaw = citation?.law ?? law;
+  if (!citation || citedLaw === undefined || citation.parts.length !== 1 || citation.parts[0].type !== 'single') return null;
+
+  const { target } = citation.parts[0];
+  return {
+    kind: citation.kind,
+    number: target.number,
+    absatz: target.absatz ? parseInt(target.absatz, 10) : undefined,
+    satz: target.satz ? parseInt(target.satz, 10) : undefined,
+    nummer: target.nummer,
+    buchstabe: target.buchstabe,
+    halbsatz: target.halbsatz ? parseInt(target.halbsatz, 10) : undefined,
+    ...(target.following ? { following: target.following } : {}),
+    law: citedLaw,
+    raw,
+  };
+}
+
+/**
+ * Expand a citation into single norm references, e.g. for lookups and links.
+ * Numeric ranges of up to `maxRange` norms are enumerated; longer ranges yield their endpoints.
+ */
+export function toNormCitations(citation: Citation, maxRange = 20): NormCitation[] {
+  if (!citation.law) return [];
+
+  const toNorm = (target: CitationTarget): NormCitation => ({
+    kind: citation.kind,
+    number: target.number,
+    absatz: target.absatz ? parseInt(target.absatz, 10) : undefined,
+    satz: target.satz ? parseInt(target.satz, 10) : undefined,
+    nummer: target.nummer,
+    buchstabe: target.buchstabe,
+    halbsatz: target.halbsatz ? parseInt(target.halbsatz, 10) : undefined,
+    ...(target.following ? { following: target.following } : {}),
+    law: citation.law!,
+    raw: formatCitation({ ...citation, lawInherited: false, parts: [{ type: 'single', target }] }),
+  });
+
+  return citation.parts.flatMap(part => {
+    if (part.type === 'single') return [toNorm(part.target)];
+
+    const from = parseInt(part.from.number, 10);
+    const to = parseInt(part.to.number, 10);
+    const numeric = /^\d+$/.test(part.from.number) && /^\d+$/.test(part.to.number);
+    if (numeric && to > from && to - from < maxRange) {
+      return Array.from({ length: to - from + 1 }, (_, i) => toNorm({ number: String(from + i) }));
+    }
+    return [toNorm(part.from), toNorm(part.to)];
+  });
+}
+
+function targetComponents(target: CitationTarget): string[] {
+  const components = [target.number];
+  if (target.absatz !== undefined) components.push(`Abs. ${target.absatz}`);
+  if (target.satz !== undefined) components.push(`S. ${target.satz}`);
+  if (target.nummer !== undefined) components.push(`Nr. ${target.nummer}`);
+  if (target.buchstabe !== undefined) components.push(`lit. ${target.buchstabe}`);
+  if (target.halbsatz !== undefined) components.push(`Hs. ${target.halbsatz}`);
+  return components;
+}
+
+/**
+ * Render a target, leaving out the levels it shares with the previous one
+ * ("§ 44 Abs. 1 und Abs. 2" rather than "§§ 44 Abs. 1 und 44 Abs. 2")
+ */
+function formatTarget(target: CitationTarget, previous?: CitationTarget): string {
+  const components = targetComponents(target);
+  const before = previous ? targetComponents(previous) : [];
+  let shared = 0;
+  while (shared < components.length - 1 && components[shared] === before[shared]) shared++;
+
+  const rendered = components.slice(shared);
+  if (target.following) rendered.push(`${target.following}.`);
+  return rendered.join(' ');
+}
+
+/**
+ * Canonical German rendering, e.g. "§§ 44 bis 48 SGB X" or "Art. 3 Abs. 1 GG"
+ */
+export function formatCitation(citation: Citation): string {
+  const targets = citation.parts.flatMap(part => part.type === 'single' ? [part.target] : [part.from, part.to]);
+  const plural = new Set(targets.map(target => target.number)).size > 1;
+  const sign = citation.kind === 'paragraph' ? (plural ? '§§' : '§') : (plural ? 'Artt.' : 'Art.');
+
+  let previous: CitationTarget | undefined;
+  const parts = citation.parts.map(part => {
+    const text = part.type === 'single'
+      ? formatTarget(part.target, previous)
+      : `${formatTarget(part.from, previous)} bis ${formatTarget(part.to, part.from)}`;
+    previous = part.type === 'single' ? part.target : part.to;
+    return text;
+  });
+  const list = parts.length > 1 ? `${parts.slice(0, -1).join(', ')} und ${parts[parts.length - 1]}` : parts[0];
+  return [sign, list, citation.lawInherited ? undefined : citation.law].filter(Boolean).join(' ');
+}
+
+export function formatCitationChain(chain: CitationChain): string {
+  return chain.citations.map(formatCitation).join(' i. V. m. ');
+}
+
+/**
+ * Canonical German rendering, e.g. "§ 44 Abs. 1 S. 2 SGB X"
+ */
+export function formatNormCitation(citation: NormCitation): string {
+  const parts = [citation.kind === 'paragraph' ? `§ ${citation.number}` : `Art. ${citation.number}`];
+  if (citation.absatz !== undefined) parts.push(`Abs. ${citation.absatz}`);
+  if (citation.satz !== undefined) parts.push(`S. ${citation.satz}`);
+  if (citation.nummer !== undefined) parts.push(`Nr. ${citation.nummer}`);
+  if (citation.buchstabe !== undefined) parts.push(`lit. ${citation.buchstabe}`);
+  if (citation.halbsatz !== undefined) parts.push(`Hs. ${citation.halbsatz}`);
+  if (citation.following) parts.push(`${citation.following}.`);
+  if (citation.law) parts.push(citation.law);
+  return parts.join(' ');
+}
@@ -0,0 +1,168 @@
+/**
+ * Runtime configuration
+ *
+ * All settings are read from environment variables (see .env.example).
+ * Invalid or missing values fall back to the documented defaults; fallbacks
+ * that would otherwise go unnoticed are listed in configWarnings.
+ */
+
+import { fileURLToPath } from 'url';
+
+const DEFAULT_API_BASE_URL = 'https://testphase.rechtsinformationen.bund.de/v1';
+// Relative to dist/ (and src/ when run with tsx)
+const DEFAULT_LAW_DATA_FILE = fileURLToPath(new URL('../data/law_availability.json', import.meta.url));
+const DEFAULT_KNOWLEDGE_FILE = fileURLToPath(new URL('../data/legal_knowledge.json', import.meta.url));
+
+/**
+ * Problems found while reading the configuration. The logger writes them when
+ * it is created (it depends on this module, so config cannot log itself).
+ */
+export const configWarnings: string[] = [];
+
+function readNumber(name: string, fallback: number): number {
+  const raw = process.env[name];
+  if (raw === undefined || raw.trim() === '') return fallback;
+  const value = Number(raw);
+  return Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+function readString(name: string, fallback: string): string {
+  const raw = process.env[name];
+  return raw && raw.trim() !== '' ? raw.trim() : fallback;
+}
+
+function readBoolean(name: string, fallback: boolean): boolean {
+  const raw = process.env[name];
+  if (raw === undefined || raw.trim() === '') return fallback;
+  return !['0', 'false', 'no', 'off'].includes(raw.trim().toLowerCase());
+}
+
+export interface HttpToken {
+  /** Client name used in logs and quota bookkeeping */
+  name: string;
+  token: string;
+  /** Requests per quota window; falls back to httpQuota */
+  quota?: number;
+}
+
+/**
+ * Bearer tokens from a comma-separated list of "name:token[:quota]" entries;
+ * a bare token is named after its position
+ */
+function readTokens(name: string): HttpToken[] {
+  const raw = process.env[name];
+  if (!raw) return [];
+  return raw
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(Boolean)
+    .map((entry, index) => {
+      const parts = entry.split(':');
+      if (parts.length === 1) return { name: `client-${index + 1}`, token: parts[0] };
+      const quota = parts[2] !== undefined ? Number(parts[2]) : NaN;
+      return {
+        name: parts[0],
+        token: parts[1],
+        quota: Number.isFinite(quota) && quota > 0 ? quota : undefined,
+      };
+    })
+    .filter(token => token.token !== '');
+}
+
+function readList(name: string): string[] {
+  return (process.env[name] ?? '')
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Absolute http(s) URL without trailing slashes
+ */
+function readUrl(name: string, fallback: string): string {
+  const raw = readString(name, fallback).replace(/\/+$/, '');
+  try {
+    if (['http:', 'https:'].includes(new URL(raw).protocol)) return raw;
+  } catch {
+    // Reported below
+  }
+  configWarnings.push(`${name} is not a valid http(s) URL ("${raw}"), using ${fallback}`);
+  return fallback;
+}
+
+const apiBaseUrl = readUrl('API_BASE_URL', DEFAULT_API_BASE_URL);
+
+export const config = {
+  /** API base URL including the /v1 prefix */
+  apiBaseUrl,
+  /** Origin of the portal, used for /v1/... API paths and /norms/... HTML viewer URLs */
+  portalOrigin: new URL(apiBaseUrl).origin,
+  /** Per-request timeout in milliseconds */
+  apiTimeout: readNumber('API_TIMEOUT', 10000),
+  /** Minimum delay between the start of two upstream requests in milliseconds */
+  rateLimitDelay: readNumber('RATE_LIMIT_DELAY', 500),
+  /** Retries after the first attempt for 429, 5xx and network errors */
+  maxRetries: readNumber('API_MAX_RETRIES', 3),
+  /** Base delay for exponential backoff in milliseconds */
+  retryBaseDelay: readNumber('API_RETRY_BASE_DELAY', 500),
+  /** Upper bound for a single backoff delay in milliseconds */
+  retryMaxDelay: readNumber('API_RETRY_MAX_DELAY', 8000),
+  /** Consecutive failed requests before the circuit breaker opens */
+  circuitBreakerThreshold: readNumber('CIRCUIT_BREAKER_THRESHOLD', 5),
+  /** How long the circuit stays open before a trial request is let through, in milliseconds */
+  circuitBreakerCooldown: readNumber('CIRCUIT_BREAKER_COOLDOWN', 30000),
+  /** Enable the response cache */
+  cacheEnabled: readBoolean('CACHE_ENABLED', true),
+  /** Maximum number of responses kept in memory (LRU) */
+  cacheMaxEntries: readNumber('CACHE_MAX_ENTRIES', 500),
+  /** TTL for search results (/legislation, /case-law, /document) in milliseconds */
+  cacheSearchTtl: readNumber('CACHE_SEARCH_TTL', 10 * 60 * 1000),
+  /** TTL for document bodies and metadata in milliseconds */
+  cacheDocumentTtl: readNumber('CACHE_DOCUMENT_TTL', 24 * 60 * 60 * 1000),
+  /** How long past its TTL an entry may still be served when the API fails, in milliseconds */
+  cacheMaxStale: readNumber('CACHE_MAX_STALE', 7 * 24 * 60 * 60 * 1000),
+  /** Directory for the persistent cache; unset keeps the cache in memory only */
+  cacheDir: process.env.CACHE_DIR?.trim() || undefined,
+  /** Files kept in cacheDir; the least recently written are deleted first */
+  cacheMaxDiskEntries: readNumber('CACHE_MAX_DISK_ENTRIES', 10000),
+  /** Searches intelligente_rechtssuche runs at the same time */
+  searchConcurrency: Math.max(1, readNumber('SEARCH_CONCURRENCY', 4)),
+  /** Longest wait for one search term of intelligente_rechtssuche in milliseconds; 0 = no limit */
+  searchTermTimeout: readNumber('SEARCH_TERM_TIMEOUT', 8000),
+  /** Time budget for all search terms of one intelligente_rechtssuche call in milliseconds; 0 = no limit */
+  searchBudget: readNumber('SEARCH_BUDGET', 15000),
+  /** Law list with abbreviations, full names and document IDs (see scripts/check-law-availability.js) */
+  lawDataFile: readString('LAW_DATA_FILE', DEFAULT_LAW_DATA_FILE),
+  /** Translations, concept maps, aliases and rules of the intelligent search (see data/legal_knowledge.schema.json) */
+  knowledgeFile: readString('KNOWLEDGE_FILE', DEFAULT_KNOWLEDGE_FILE),
+  /** Deployment-specific files applied on top of knowledgeFile, in order */
+  knowledgeOverrideFiles: readList('KNOWLEDGE_OVERRIDE_FILES'),
+  /** Minimum time between checks for edited knowledge files in milliseconds; 0 disables reloading */
+  knowledgeCheckInterval: readNumber('KNOWLEDGE_CHECK_INTERVAL', 5000),
+  /** Lowest level written to the log: debug, info (default), warn or error */
+  logLevel: readString('LOG_LEVEL', 'info').toLowerCase(),
+  /** "stdio" (default) or "http"; the --http and --transport= flags take precedence */
+  transport: readString('MCP_TRANSPORT', 'stdio').toLowerCase(),
+  /** Interface the HTTP server binds to */
+  httpHost: readString('HTTP_HOST', '127.0.0.1'),
+  /** Port of the HTTP server; --port= takes precedence */
+  httpPort: readNumber('HTTP_PORT', 3000),
+  /** Accepted bearer tokens */
+  httpTokens: readTokens('HTTP_TOKENS'),
+  /** Allow requests without a token when no tokens are configured */
+  httpAllowAnonymous: readBoolean('HTTP_ALLOW_ANONYMOUS', false),
+  /** Default per-token quota: MCP requests per window */
+  httpQuota: readNumber('HTTP_QUOTA', 120),
+  /** Length of the quota window in milliseconds */
+  httpQuotaWindow: readNumber('HTTP_QUOTA_WINDOW', 60 * 1000),
+  /** Origins allowed to call the HTTP server from a browser; "*" allows any */
+  httpCorsOrigins: readList('HTTP_CORS_ORIGINS'),
+  /** Close HTTP sessions without requests for this long, in milliseconds; 0 keeps them until the client closes them */
+  httpSessionIdleTimeout: readNumber('HTTP_SESSION_IDLE_TIMEOUT', 30 * 60 * 1000),
+  /** Open HTTP sessions per client; the least recently used is closed above it, 0 = no limit */
+  httpMaxSessionsPerClient: readNumber('HTTP_MAX_SESSIONS_PER_CLIENT', 20),
+  /** Serve Prometheus metrics at /metrics (without authentication, like /health) */
+  httpMetrics: readBoolean('HTTP_METRICS', false),
+};
+
+export type Config = typeof config;
@@ -0,0 +1,283 @@
+/**
+ * Registry of German courts
+ *
+ * Full names, abbreviations, jurisdictions (Gerichtsbarkeiten), instance
+ * levels and senates. The case-law endpoint filters by the court
+ * abbreviation only, so user input ("Bundessozialgericht", "BSozG",
+ * "BVerfG 2. Senat") is normalized here before it reaches the API.
+ *
+ * The testphase database contains decisions of the federal courts; state
+ * courts are listed so that "Landessozialgericht" gets a precise answer
+ * instead of an empty result.
+ */
+
+import Fuse from 'fuse.js';
+
+export type Jurisdiction =
+  | 'Verfassungsgerichtsbarkeit'
+  | 'Ordentliche Gerichtsbarkeit'
+  | 'Arbeitsgerichtsbarkeit'
+  | 'Sozialgerichtsbarkeit'
+  | 'Verwaltungsgerichtsbarkeit'
+  | 'Finanzgerichtsbarkeit';
+
+/** Bundesgericht: highest instance; Obergericht: state appeal court; Eingangsgericht: first instance */
+export type InstanceLevel = 'Bundesgericht' | 'Obergericht' | 'Eingangsgericht';
+
+export interface Court {
+  /** Abbreviation the API filters by, e.g. "BSG" */
+  abbreviation: string;
+  name: string;
+  jurisdiction: Jurisdiction;
+  instance: InstanceLevel;
+  /** Federal courts are in the database, state courts are not */
+  federal: boolean;
+  aliases: string[];
+  /** Senates (or other deciding bodies); empty if not tracked */
+  senates: string[];
+}
+
+export interface CourtSelection {
+  court: Court;
+  /** Senate from the input, e.g. "2. Senat" */
+  senate?: string;
+}
+
+const ROMAN = ['I', 'II', 'III', 'IV', 'V', 'VI', 'VII', 'VIII', 'IX', 'X', 'XI', 'XII', 'XIII', 'XIV'];
+
+function numbered(count: number, suffix: string, roman = false): string[] {
+  return Array.from({ length: count }, (_, i) => `${roman ? ROMAN[i] : i + 1}. ${suffix}`);
+}
+
+export const COURTS: Court[] = [
+  {
+    abbreviation: 'BVerfG',
+    name: 'Bundesverfassungsgericht',
+    jurisdiction: 'Verfassungsgerichtsbarkeit',
+    instance: 'Bundesgericht',
+    federal: true,
+    aliases: [],
+    senates: ['1. Senat', '2. Senat', 'Plenum'],
+  },
+  {
+    abbreviation: 'BGH',
+    name: 'Bundesgerichtshof',
+    jurisdiction: 'Ordentliche Gerichtsbarkeit',
+    instance: 'Bundesgericht',
+    federal: true,
+    aliases: [],
+    senates: [
+      ...numbered(13, 'Zivilsenat', true),
+      ...numbered(6, 'Strafsenat'),
+      'Großer Senat für Zivilsachen',
+      'Großer Senat für Strafsachen',
+      'Kartellsenat',
+      'Senat für Anwaltssachen',
+      'Senat für Notarsachen',
+      'Dienstgericht des Bundes',
+    ],
+  },
+  {
+    abbreviation: 'BPatG',
+    name: 'Bundespatentgericht',
+    jurisdiction: 'Ordentliche Gerichtsbarkeit',
+    instance: 'Bundesgericht',
+    federal: true,
+    aliases: [],
+    senates: [],
+  },
+  {
+    abbreviation: 'BAG',
+    name: 'Bundesarbeitsgericht',
+    jurisdiction: 'Arbeitsgerichtsbarkeit',
+    instance: 'Bundesgericht',
+    federal: true,
+    aliases: ['BArbG'],
+    senates: [...numbered(10, 'Senat'), 'Großer Senat'],
+  },
+  {
+    abbreviation: 'BSG',
+    name: 'Bundessozialgericht',
+    jurisdiction: 'Sozialgerichtsbarkeit',
+    instance: 'Bundesgericht',
+    federal: true,
+    aliases: ['BSozG'],
+    senates: [...numbered(14, 'Senat'), 'Großer Senat'],
+  },
+  {
+    abbreviation: 'BVerwG',
+    name: 'Bundesverwaltungsgericht',
+    jurisdiction: 'Verwaltungsgerichtsbarkeit',
+    instance: 'Bundesgericht',
+    federal: true,
+    aliases: [],
+    senates: [...numbered(10, 'Senat'), '1. Wehrdienstsenat', '2. Wehrdienstsenat', 'Großer Senat'],
+  },
+  {
+    abbreviation: 'BFH',
+    name: 'Bundesfinanzhof',
+    jurisdiction: 'Finanzgerichtsbarkeit',
+    instance: 'Bundesgericht',
+    federal: true,
+    aliases: [],
+    senates: [...numbered(11, 'Senat', true), 'Großer Senat'],
+  },
+  { abbreviation: 'OLG', name: 'Oberlandesgericht', jurisdiction: 'Ordentliche Gerichtsbarkeit', instance: 'Obergericht', federal: false, aliases: ['KG', 'Kammergericht'], senates: [] },
+  { abbreviation: 'LG', name: 'Landgericht', jurisdiction: 'Ordentliche Gerichtsbarkeit', instance: 'Eingangsgericht', federal: false, aliases: [], senates: [] },
+  { abbreviation: 'AG', name: 'Amtsgericht', jurisdiction: 'Ordentliche Gerichtsbarkeit', instance: 'Eingangsgericht', federal: false, aliases: [], senates: [] },
+  { abbreviation: 'LAG', name: 'Landesarbeitsgericht', jurisdiction: 'Arbeitsgerichtsbarkeit', instance: 'Obergericht', federal: false, aliases: [], senates: [] },
+  { abbreviation: 'ArbG', name: 'Arbeitsgericht', jurisdiction: 'Arbeitsgerichtsbarkeit', instance: 'Eingangsgericht', federal: false, aliases: [], senates: [] },
+  { abbreviation: 'LSG', name: 'Landessozialgericht', jurisdiction: 'Sozialgerichtsbarkeit', instance: 'Obergericht', federal: false, aliases: [], senates: [] },
+  { abbreviation: 'SG', name: 'Sozialgericht', jurisdiction: 'Sozialgerichtsbarkeit', instance: 'Eingangsgericht', federal: false, aliases: [], senates: [] },
+  { abbreviation: 'OVG', name: 'Oberverwaltungsgericht', jurisdiction: 'Verwaltungsgerichtsbarkeit', instance: 'Obergericht', federal: false, aliases: ['VGH', 'Verwaltungsgerichtshof'], senates: [] },
+  { abbreviation: 'VG', name: 'Verwaltungsgericht', jurisdiction: 'Verwaltungsgerichtsbarkeit', instance: 'Eingangsgericht', federal: false, aliases: [], senates: [] },
+  { abbreviation: 'FG', name: 'Finanzgericht', jurisdiction: 'Finanzgerichtsbarkeit', instance: 'Eingangsgericht', federal: false, aliases: [], senates: [] },
+];
+
+/** Word stems naming a jurisdiction, e.g. "alle Sozialgerichte", "Arbeitsgerichtsbarkeit", "Zivilgerichte" */
+const JURISDICTION_STEMS: Array<[RegExp, Jurisdiction]> = [
+  [/^verfassung/, 'Verfassungsgerichtsbarkeit'],
+  [/^(ordentlich|zivil|straf)/, 'Ordentliche Gerichtsbarkeit'],
+  [/^arbeit/, 'Arbeitsgerichtsbarkeit'],
+  [/^sozial/, 'Sozialgerichtsbarkeit'],
+  [/^verwaltung/, 'Verwaltungsgerichtsbarkeit'],
+  [/^finanz/, 'Finanzgerichtsbarkeit'],
+];
+
+const SENATE = /^(.*?)[\s,(]+((?:\d+|[IVX]+)\.?\s*(?:[A-Za-zäöü]*senat)|gro(?:ß|ss)er senat\b.*|plenum)\)?$/i;
+
+/**
+ * Comparison key: case, dots, spaces, hyphens and umlauts ignored
+ */
+export function courtKey(value: string): string {
+  return (value || '')
+    .toLowerCase()
+    .replace(/ä/g, 'ae').replace(/ö/g, 'oe').replace(/ü/g, 'ue').replace(/ß/g, 'ss')
+    .replace(/[\s.\-–]+/g, '');
+}
+
+const byKey = new Map<string, Court>();
+for (const court of COURTS) {
+  for (const label of [court.abbreviation, court.name, ...court.aliases]) byKey.set(courtKey(label), court);
+}
+
+const fuse = new Fuse(COURTS, {
+  keys: [
+    { name: 'name', weight: 0.6 },
+    { name: 'abbreviation', weight: 0.3 },
+    { name: 'aliases', weight: 0.1 },
+  ],
+  threshold: 0.45,
+  ignoreLocation: true,
+});
+
+/**
+ * Court by abbreviation, full name or alias, e.g. from the courtName or
+ * courtType of a decision
+ */
+export function findCourt(value?: string): Court | undefined {
+  return value ? byKey.get(courtKey(value)) : undefined;
+}
+
+/**
+ * Senate key with Roman numerals as Arabic ones: "VIII. Zivilsenat" and "8. Zivilsenat" are the same
+ */
+function senateKey(value: string): string {
+  return courtKey((value || '').trim().replace(/^([IVX]+)\./i, (roman, numeral: string) => {
+    const index = ROMAN.indexOf(numeral.toUpperCase());
+    return index >= 0 ? `${index + 1}.` : roman;
+  }));
+}
+
+function findSenate(court: Court, input: string): string | undefined {
+  const key = senateKey(input);
+  const match = court.senates.find(senate => senateKey(senate) === key);
+  if (match) return match;
+  // Courts without a senate list accept any senate; for the others it must exist
+  return court.senates.length === 0 ? input.trim() : undefined;
+}
+
+/**
+ * Resolve user input to a court and optional senate; null if either is unknown
+ */
+export function resolveCourt(input: string): CourtSelection | null {
+  const value = (input || '').trim();
+  const direct = findCourt(value);
+  if (direct) return { court: direct };
+
+  const match = value.match(SENATE);
+  const court = match ? findCourt(match[1]) : undefined;
+  if (!match || !court) return null;
+
+  const senate = findSenate(court, match[2]);
+  return senate ? { court, senate } : null;
+}
+
+/**
+ * Closest courts for an unknown input
+ */
+export function suggestCourts(input: string, limit = 3): Court[] {
+  const court = (input || '').match(SENATE)?.[1] ?? input;
+  const known = findCourt(court);
+  if (known) return [known];
+  return fuse.search((court || '').trim(), { limit }).map(result => result.item);
+}
+
+/**
+ * Why the input was rejected, with suggestions
+ */
+export function explainUnknownCourt(input: string): string {
+  const federal = COURTS.filter(court => court.federal).map(court => court.abbreviation).join(', ');
+  const suggestions = suggestCourts(input);
+  const senate = (input || '').match(SENATE)?.[2];
+
+  if (senate && suggestions.length === 1 && findCourt(input.match(SENATE)?.[1])) {
+    const [court] = suggestions;
+    return `Unknown senate "${senate}" for ${formatCourt(court)}. Senates: ${court.senates.join(', ')}`;
+  }
+  const hint = suggestions.length > 0 ? ` Did you mean: ${suggestions.map(formatCourt).join(', ')}?` : '';
+  return `Unknown court "${input}".${hint} Federal courts in the database: ${federal}`;
+}
+
+/**
+ * Answer for state courts, which the database does not contain
+ */
+export function explainStateCourt(court: Court): string {
+  const federal = courtsOfJurisdiction(court.jurisdiction).map(formatCourt).join(', ');
+  return `${formatCourt(court)} is a state court; the database only contains decisions of the federal courts. Federal courts of the ${court.jurisdiction}: ${federal}`;
+}
+
+/**
+ * Jurisdiction from input such as "alle Sozialgerichte" or "Arbeitsgerichtsbarkeit"
+ */
+export function resolveJurisdiction(input: string): Jurisdiction | null {
+  const key = courtKey(input).replace(/^(alle|allen|die)/, '');
+  return JURISDICTION_STEMS.find(([stem]) => stem.test(key))?.[1] ?? null;
+}
+
+export const JURISDICTIONS = [...new Set(COURTS.map(court => court.jurisdiction))];
+
+export function courtsOfJurisdiction(jurisdiction: Jurisdiction, federalOnly = true): Court[] {
+  return COURTS.filter(court => court.jurisdiction === jurisdiction && (!federalOnly || court.federal));
+}
+
+/**
+ * Whether a decision's judicialBody belongs to the senate, e.g. "1. Kammer des Zweiten Senats" for "2. Senat"
+ */
+export function matchesSenate(judicialBody: string | undefined, senate: string): boolean {
+  if (!judicialBody) return false;
+  const body = senateKey(judicialBody);
+  const wanted = senateKey(senate);
+  if (body === wanted || body.startsWith(wanted)) return true;
+
+  const ordinals: Record<string, string> = { '1': 'ersten', '2': 'zweiten' };
+  const number = wanted.match(/^(\d+)senat$/)?.[1];
+  return !!number && !!ordinals[number] && body.includes(`${ordinals[number]}senat`);
+}
+
+/**
+ * Display name, e.g. "Bundessozialgericht (BSG)"
+ */
+export function formatCourt(court: Court): string {
+  return `${court.name} (${court.abbreviation})`;
+}
@@ -0,0 +1,104 @@
+/**
+ * Database coverage
+ *
+ * Knows which laws the testphase database holds, based on the law registry
+ * (data/law_availability.json plus built-in entries). Tools consult it before
+ * searching so that requests for missing laws end with a clear
+ * "not in database" answer and links to official alternative sources.
+ *
+ * The data can be refreshed at runtime: `reload()` re-reads the data file,
+ * `liveCheck()` asks the API about a single law. Live results survive reloads.
+ */
+
+import { ApiClient } from './api-client.js';
+import { abbreviationKey, LawEntry, LawRegistry } from './law-registry.js';
+
+export type CoverageState = 'available' | 'unavailable' | 'unknown';
+
+export interface AlternativeSource {
+  name: string;
+  url: string;
+}
+
+export interface CoverageStatus {
+  /** Abbreviation as requested */
+  requested: string;
+  state: CoverageState;
+  entry?: LawEntry;
+  checkedAt?: string;
+  alternatives: AlternativeSource[];
+}
+
+const GESETZE_IM_INTERNET = 'https://www.gesetze-im-internet.de';
+
+export class Coverage {
+  private current: LawRegistry;
+  private readonly liveResults = new Map<string, Omit<LawEntry, 'abbreviation'>>();
+
+  constructor(private readonly dataFile: string) {
+    this.current = LawRegistry.load(dataFile);
+  }
+
+  get registry(): LawRegistry {
+    return this.current;
+  }
+
+  /**
+   * Re-read the data file, e.g. after running scripts/check-law-availability.js
+   */
+  reload(): LawRegistry {
+    const registry = LawRegistry.load(this.dataFile);
+    for (const [abbreviation, result] of this.liveResults) registry.record(abbreviation, result);
+    this.current = registry;
+    return registry;
+  }
+
+  check(abbreviation: string): CoverageStatus {
+    const entry = this.current.resolve(abbreviation)?.entry;
+    if (!entry) return { requested: abbreviation, state: 'unknown', alternatives: [] };
+
+    const state: CoverageState = entry.available === true ? 'available' : entry.available === false ? 'unavailable' : 'unknown';
+    return { requested: abbreviation, state, entry, checkedAt: entry.checkedAt, alternatives: alternativeSources(entry) };
+  }
+
+  /**
+   * Ask the API whether a law with this abbreviation exists and record the result
+   */
+  async liveCheck(api: ApiClient, abbreviation: string): Promise<CoverageStatus> {
+    const known = this.current.resolve(abbreviation)?.entry;
+    const wanted = known?.abbreviation || abbreviation.trim();
+
+    const response = await api.get('/legislation', { params: { searchTerm: wanted, size: 10 }, noCache: true });
+    const match = (response.data.member || [])
+      .map((member: any) => member.item)
+      .find((item: any) => item?.abbreviation && abbreviationKey(item.abbreviation) === abbreviationKey(wanted));
+
+    const documentId: string | undefined = match?.['@id'];
+    const result: Omit<LawEntry, 'abbreviation'> = {
+      fullName: known?.fullName || match?.name || match?.headline || '',
+      available: !!match,
+      documentId,
+      htmlUrl: documentId?.startsWith('/v1/legislation/')
+        ? `${api.resolveUrl(documentId).replace(/\/v1\/legislation\//, '/norms/')}`
+        : undefined,
+      officialPath: known?.officialPath,
+      checkedAt: new Date().toISOString(),
+      source: 'live-check',
+    };
+
+    this.liveResults.set(wanted, result);
+    this.current.record(wanted, result);
+    return this.check(wanted);
+  }
+}
+
+/**
+ * Official sources outside the testphase database
+ */
+export function alternativeSources(entry: LawEntry): AlternativeSource[] {
+  if (!entry.officialPath) return [];
+  return [{
+    name: 'gesetze-im-internet.de (Bundesministerium der Justiz)',
+    url: `${GESETZE_IM_INTERNET}/${entry.officialPath.replace(/^\.?\//, '')}`,
+  }];
+}
@@ -0,0 +1,80 @@
+/**
+ * European Case Law Identifier (ECLI) helpers
+ *
+ * An ECLI has five colon-separated parts:
+ *   ECLI:{country}:{court}:{year}:{ordinal}
+ *   e.g. ECLI:DE:BVerfG:2025:es20250313.2bve000525
+ *
+ * Inputs may be written in any casing, URL-encoded, embedded in portal or
+ * API URLs (/case-law/ecli/ECLI:DE:...) or use slashes (/ecli/de/bgh/2023/...).
+ */
+
+export interface EcliReference {
+  country: string;
+  court: string;
+  year: string;
+  ordinal: string;
+  /** Canonical form, e.g. "ECLI:DE:BGH:2018:150518UVIIZR233.17.0" */
+  ecli: string;
+}
+
+// Court codes of the federal courts in the casing used by their ECLIs
+const COURT_CODES = ['BVerfG', 'BGH', 'BVerwG', 'BFH', 'BAG', 'BSG', 'BPatG'];
+
+const ECLI_PATTERN = /ecli[:/]([a-z]{2})[:/]([a-z0-9]{1,7})[:/](\d{4})[:/]([a-z0-9.]{1,25})/i;
+
+export function parseEcli(input: string): EcliReference | null {
+  if (!input) return null;
+
+  let value = input.trim();
+  try {
+    value = decodeURIComponent(value);
+  } catch {
+    // Keep malformed escapes as they are
+  }
+
+  const match = value.replace(/\.(html|xml)(?=$|[?#])/i, '').match(ECLI_PATTERN);
+  if (!match) return null;
+
+  const [, country, court, year, rawOrdinal] = match;
+  const ordinal = rawOrdinal.replace(/\.+$/, '');
+  const knownCourt = COURT_CODES.find(code => code.toLowerCase() === court.toLowerCase());
+  const canonicalCourt = knownCourt || court.toUpperCase();
+
+  return {
+    country: country.toUpperCase(),
+    court: canonicalCourt,
+    year,
+    ordinal,
+    ecli: `ECLI:${country.toUpperCase()}:${canonicalCourt}:${year}:${ordinal}`,
+  };
+}
+
+/**
+ * ECLI of a document ID that has to be resolved through the search API:
+ * bare ECLIs and portal or API URLs with the colon form in their path
+ * (/case-law/ecli/ECLI:DE:...), which the API answers with 404.
+ * Slash-form paths (/v1/case-law/ecli/de/bgh/...) return null; they are
+ * fetched as given.
+ */
+export function ecliToResolve(documentId: string): EcliReference | null {
+  if (!documentId) return null;
+
+  let value = documentId.trim();
+  try {
+    value = decodeURIComponent(value);
+  } catch {
+    // Keep malformed escapes as they are
+  }
+
+  return /^ecli:|\/case-law\/ecli\/ecli:/i.test(value) ? parseEcli(value) : null;
+}
+
+/**
+ * ECLIs compare case-insensitively
+ */
+export function isSameEcli(a: string, b: string): boolean {
+  const left = parseEcli(a);
+  const right = parseEcli(b);
+  return !!left && !!right && left.ecli.toLowerCase() === right.ecli.toLowerCase();
+}
@@ -0,0 +1,106 @@
+/**
+ * European Legislation Identifier (ELI) helpers
+ *
+ * Federal ELIs follow the FRBR levels used by the API:
+ * - Work:          eli/bund/{agent}/{year}/{naturalIdentifier}
+ * - Expression:    eli/bund/{agent}/{year}/{naturalIdentifier}/{pointInTime}/{version}/{language}
+ * - Manifestation: ...expression.../{subtype}, e.g. regelungstext-1
+ *
+ * Inputs may be bare ELIs, API paths (/v1/legislation/eli/...), HTML viewer
+ * paths (/norms/eli/...) or full URLs with either prefix.
+ */
+
+export type EliLevel = 'work' | 'expression' | 'manifestation';
+
+export interface EliReference {
+  jurisdiction: string;
+  agent: string;
+  year: string;
+  naturalIdentifier: string;
+  pointInTime?: string;
+  version?: string;
+  language?: string;
+  subtype?: string;
+  level: EliLevel;
+}
+
+const DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+export function parseEli(input: string): EliReference | null {
+  if (!input) return null;
+
+  let path = input.trim();
+  if (/^https?:\/\//i.test(path)) {
+    try {
+      path = new URL(path).pathname;
+    } catch {
+      return null;
+    }
+  }
+
+  const start = path.indexOf('eli/');
+  if (start === -1) return null;
+
+  // Drop file extensions of manifestations (.html, .xml) and fragments
+  const segments = path
+    .substring(start)
+    .replace(/[#?].*$/, '')
+    .replace(/\.(html|xml|zip)$/i, '')
+    .split('/')
+    .filter(Boolean);
+
+  const [, jurisdiction, agent, year, naturalIdentifier, ...rest] = segments;
+  if (!jurisdiction || !agent || !year || !naturalIdentifier) return null;
+
+  const ref: EliReference = { jurisdiction, agent, year, naturalIdentifier, level: 'work' };
+
+  if (rest.length >= 3 && DATE.test(rest[0])) {
+    ref.pointInTime = rest[0];
+    ref.version = rest[1];
+    ref.language = rest[2];
+    ref.level = 'expression';
+    // Some manifestation paths carry an extra manifestation date before the subtype
+    const subtype = rest.slice(3).filter(segment => !DATE.test(segment)).pop();
+    if (subtype) {
+      ref.subtype = subtype;
+      ref.level = 'manifestation';
+    }
+  } else if (rest.length > 0 && !DATE.test(rest[0])) {
+    // Work-level identifiers in search results sometimes end with the subtype
+    ref.subtype = rest[rest.length - 1];
+  }
+
+  return ref;
+}
+
+export function workEli(ref: EliReference): string {
+  return `eli/${ref.jurisdiction}/${ref.agent}/${ref.year}/${ref.naturalIdentifier}`;
+}
+
+export function expressionEli(ref: EliReference): string | null {
+  if (!ref.pointInTime || !ref.version || !ref.language) return null;
+  return `${workEli(ref)}/${ref.pointInTime}/${ref.version}/${ref.language}`;
+}
+
+/**
+ * API path for an ELI, e.g. /v1/legislation/eli/bund/bgbl-1/2006/s2748/2025-05-01/1/deu
+ */
+export function legislationApiPath(eli: string): string {
+  return `/v1/legislation/${eli.replace(/^\/+/, '')}`;
+}
+
+/**
+ * Describe an ISO 8601 interval like "2007-01-01/.." in plain words
+ */
+export function describeTemporalCoverage(coverage?: string): string {
+  if (!coverage) return 'Unknown';
+
+  const [from, to] = coverage.split('/');
+  const hasStart = from && from !== '..';
+  const hasEnd = to && to !== '..';
+
+  if (hasStart && hasEnd) return `${from} to ${to}`;
+  if (hasStart) return `since ${from} (no end date)`;
+  if (hasEnd) return `until ${to}`;
+  return 'Unknown';
+}
@@ -0,0 +1,148 @@
+/**
+ * Faceted result summaries
+ *
+ * In facet mode the search tools page through a result set up to a cap and
+ * count the results by court, year, document type, law type and cited law
+ * instead of listing them. Agents use the counts to see the shape of a result
+ * set ("BSG decisions on Meldeversäumnis per year") and then narrow down with
+ * the regular filters, which the summary repeats.
+ */
+
+export interface FacetCount {
+  value: string;
+  count: number;
+}
+
+/** Facet values of one result */
+export interface FacetValues {
+  court?: string;
+  year?: string;
+  documentType?: string;
+  lawType?: string;
+  /** Law abbreviations cited in the result's text matches */
+  citedLaws: string[];
+}
+
+export interface FacetCounts {
+  court: FacetCount[];
+  year: FacetCount[];
+  documentType: FacetCount[];
+  lawType: FacetCount[];
+  citedLaw: FacetCount[];
+}
+
+export interface FacetSummary extends FacetCounts {
+  /** Tool arguments the counts were computed with */
+  filters: Record<string, string>;
+  /** Results counted */
+  scanned: number;
+  /** Total hits reported by the API */
+  totalItems?: number;
+  /** False if the cap stopped paging before the last result */
+  complete: boolean;
+}
+
+export const DEFAULT_FACET_CAP = 500;
+export const MAX_FACET_CAP = 2000;
+
+/** Longest list shown for facets with many values */
+const MAX_FACET_VALUES = 20;
+
+const FACET_LABELS: Array<[keyof FacetCounts, string]> = [
+  ['court', 'Court'],
+  ['year', 'Year'],
+  ['documentType', 'Document type'],
+  ['lawType', 'Law type'],
+  ['citedLaw', 'Cited law'],
+];
+
+/**
+ * Cap from a user-supplied value (strings accepted for model compatibility)
+ */
+export function facetCap(value: unknown): number {
+  const cap = typeof value === 'string' ? parseInt(value, 10) : typeof value === 'number' ? value : NaN;
+  return Math.min(Number.isFinite(cap) && cap > 0 ? Math.floor(cap) : DEFAULT_FACET_CAP, MAX_FACET_CAP);
+}
+
+/**
+ * Tool arguments for the summary, without unset ones
+ */
+export function facetFilters(values: Record<string, unknown>): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(values)
+      .filter(([, value]) => value !== undefined && value !== null && value !== '')
+      .map(([name, value]) => [name, String(value)])
+  );
+}
+
+function sortedCounts(counts: Map<string, number>, byValue = false): FacetCount[] {
+  return [...counts.entries()]
+    .map(([value, count]) => ({ value, count }))
+    .sort((a, b) => byValue ? b.value.localeCompare(a.value) : b.count - a.count || a.value.localeCompare(b.value));
+}
+
+/**
+ * Count results per facet value; years newest first, everything else by frequency.
+ * A result citing a law several times counts once for it.
+ */
+export function countFacets(results: FacetValues[]): FacetCounts {
+  const counters = {
+    court: new Map<string, number>(),
+    year: new Map<string, number>(),
+    documentType: new Map<string, number>(),
+    lawType: new Map<string, number>(),
+    citedLaw: new Map<string, number>(),
+  };
+  const add = (counter: Map<string, number>, value?: string) => {
+    if (value) counter.set(value, (counter.get(value) ?? 0) + 1);
+  };
+
+  for (const result of results) {
+    add(counters.court, result.court);
+    add(counters.year, result.year);
+    add(counters.documentType, result.documentType);
+    add(counters.lawType, result.lawType);
+    for (const law of new Set(result.citedLaws)) add(counters.citedLaw, law);
+  }
+
+  return {
+    court: sortedCounts(counters.court),
+    year: sortedCounts(counters.year, true),
+    documentType: sortedCounts(counters.documentType),
+    lawType: sortedCounts(counters.lawType),
+    citedLaw: sortedCounts(counters.citedLaw).slice(0, MAX_FACET_VALUES),
+  };
+}
+
+/** Filters of the calling tool, for the narrowing hint */
+export interface FacetHintOptions {
+  court?: boolean;
+  /** Names of the decision date arguments */
+  dates?: { from: string; to: string };
+}
+
+export function formatFacets(summary: FacetSummary, tool: string, hint: FacetHintOptions = {}): string {
+  const filters = Object.entries(summary.filters).map(([name, value]) => `${name}: "${value}"`).join(', ');
+  const total = summary.totalItems !== undefined ? ` of ${summary.totalItems}` : '';
+  const coverage = summary.complete
+    ? `Counted all ${summary.scanned} results`
+    : `Counted the first ${summary.scanned}${total} results (raise facettenLimit for more)`;
+
+  const sections = FACET_LABELS
+    .filter(([key]) => summary[key].length > 0)
+    .map(([key, label]) => `**${label}:**\n${summary[key].map(({ value, count }) => `• ${value}: ${count}`).join('\n')}`);
+
+  const [topCourt] = summary.court;
+  const [topYear] = summary.year;
+  const hints = [
+    topCourt && hint.court && !summary.filters.court ? `court "${topCourt.value}"` : null,
+    topYear && hint.dates ? `${hint.dates.from} "${topYear.value}-01-01" / ${hint.dates.to} "${topYear.value}-12-31"` : null,
+  ].filter(Boolean);
+
+  return `📊 **Facets** (${filters})
+${coverage}
+
+${sections.length > 0 ? sections.join('\n\n') : 'No results to count.'}
+
+💡 **Narrow down:** call ${tool} with the same arguments${hints.length > 0 ? ` plus e.g. ${hints.join(' or ')}` : ''} and without facetten to list the results`;
+}
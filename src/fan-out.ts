@@ -0,0 +1,80 @@
+/**
+ * Budgeted fan-out
+ *
+ * Runs one task per search term with a concurrency limit, a timeout per task
+ * and a time budget for the whole fan-out. Tasks that fail, time out or never
+ * start because the budget is used up are reported with the reason instead of
+ * being dropped, so the caller can tell which searches are missing.
+ *
+ * A timed-out task is not cancelled; its request finishes in the background
+ * and still fills the response cache for the next call.
+ */
+
+import { describeFailure } from './logger.js';
+
+export interface FanOutOptions {
+  /** Tasks running at the same time */
+  concurrency: number;
+  /** Longest time one task may take in milliseconds; 0 = no limit */
+  taskTimeout: number;
+  /** Time after which no task starts and running ones are given up, in milliseconds; 0 = no limit */
+  budget: number;
+  /** Start of the budget, to continue an earlier fan-out (default: now) */
+  startedAt?: number;
+}
+
+export type FanOutFailure = 'error' | 'timeout' | 'skipped';
+
+export type FanOutOutcome<T> =
+  | { key: string; status: 'ok'; value: T; durationMs: number }
+  | { key: string; status: FanOutFailure; message: string; durationMs: number };
+
+class TaskTimeout extends Error {}
+
+function withTimeout<T>(promise: Promise<T>, ms: number, message: string): Promise<T> {
+  if (!Number.isFinite(ms)) return promise;
+  let timer: NodeJS.Timeout;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new TaskTimeout(message)), Math.max(0, ms));
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+/**
+ * Run `task` for every key; outcomes come back in key order
+ */
+export async function fanOut<T>(keys: string[], task: (key: string) => Promise<T>, options: FanOutOptions): Promise<FanOutOutcome<T>[]> {
+  const started = options.startedAt ?? Date.now();
+  const deadline = options.budget > 0 ? started + options.budget : Infinity;
+  const outcomes: FanOutOutcome<T>[] = new Array(keys.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < keys.length) {
+      const index = next++;
+      const key = keys[index];
+      const start = Date.now();
+      if (start >= deadline) {
+        outcomes[index] = { key, status: 'skipped', message: `time budget of ${options.budget} ms used up`, durationMs: 0 };
+        continue;
+      }
+
+      const taskLimit = options.taskTimeout > 0 ? options.taskTimeout : Infinity;
+      const limit = Math.min(taskLimit, deadline - start);
+      const message = limit === taskLimit
+        ? `no response within ${options.taskTimeout} ms`
+        : `time budget of ${options.budget} ms used up`;
+      try {
+        const value = await withTimeout(task(key), limit, message);
+        outcomes[index] = { key, status: 'ok', value, durationMs: Date.now() - start };
+      } catch (error) {
+        outcomes[index] = error instanceof TaskTimeout
+          ? { key, status: 'timeout', message: error.message, durationMs: Date.now() - start }
+          : { key, status: 'error', message: describeFailure(error), durationMs: Date.now() - start };
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(options.concurrency, keys.length)) }, worker));
+  return outcomes;
+}
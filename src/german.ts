@@ -0,0 +1,254 @@
+/**
+ * German text analysis
+ *
+ * Turns text into index terms for lexical ranking: lowercase, umlauts and ß
+ * folded (so "Kündigung", "Kuendigung" and "Kundigung" meet), stopwords
+ * dropped and inflection endings stripped with a light stemmer. The stemmer
+ * only removes endings, so "Kündigungen" and "Kündigung" share a stem while
+ * different words keep theirs.
+ *
+ * `GermanLexicon` adds compound decomposition ("Kündigungsschutzklage" →
+ * Kündigung + Schutz + Klage, with Fugen-s and -es) from a dictionary of
+ * legal base words and the words of the federal law names. Query expansion,
+ * BM25 ranking and snippet highlighting of the intelligent search use it.
+ */
+
+const STOPWORDS = new Set([
+  'aber', 'alle', 'als', 'also', 'am', 'an', 'auch', 'auf', 'aus', 'bei', 'bin', 'bis', 'bzw', 'da', 'damit', 'dann',
+  'das', 'dass', 'dem', 'den', 'denn', 'der', 'des', 'die', 'dies', 'diese', 'dieser', 'dieses', 'doch', 'dort', 'du',
+  'durch', 'ein', 'eine', 'einem', 'einen', 'einer', 'eines', 'er', 'es', 'fur', 'gegen', 'hat', 'haben', 'hier', 'ich',
+  'ihr', 'im', 'in', 'ist', 'ja', 'kann', 'kein', 'keine', 'man', 'mein', 'meine', 'mit', 'muss', 'nach', 'nicht', 'noch',
+  'nur', 'ob', 'oder', 'ohne', 'sein', 'sich', 'sie', 'sind', 'so', 'soll', 'uber', 'um', 'und', 'uns', 'unter', 'vom',
+  'von', 'vor', 'wahrend', 'war', 'was', 'welche', 'wenn', 'wer', 'werden', 'wie', 'wir', 'wird', 'wo', 'zu', 'zum', 'zur',
+  // Question words of natural-language queries
+  'darf', 'durfen', 'gilt', 'gibt', 'kann', 'konnen', 'mich', 'mir', 'warum', 'welcher', 'welches', 'wann', 'wieso',
+]);
+
+/** Inflection endings, longest first */
+const SUFFIXES = ['ungen', 'heiten', 'keiten', 'ern', 'em', 'en', 'er', 'es', 'e', 'n', 's'];
+
+/** Shortest stem the stemmer leaves */
+const MIN_STEM = 4;
+
+/**
+ * Lowercase and fold umlauts, ß and their transliterations (ae, oe, ue)
+ */
+export function foldGerman(text: string): string {
+  return (text || '')
+    .toLowerCase()
+    .replace(/ß/g, 'ss')
+    .replace(/[äàá]/g, 'a')
+    .replace(/[öòó]/g, 'o')
+    .replace(/[üùú]/g, 'u')
+    .replace(/ae/g, 'a')
+    .replace(/oe/g, 'o')
+    // "qu" + e is not a transliteration ("Quelle")
+    .replace(/(?<!q)ue/g, 'u');
+}
+
+/**
+ * Light stemmer: strips one inflection ending, keeping at least MIN_STEM letters
+ */
+export function stemGerman(token: string): string {
+  if (/\d/.test(token)) return token;
+  for (const suffix of SUFFIXES) {
+    if (token.endsWith(suffix) && token.length - suffix.length >= MIN_STEM) {
+      const stem = token.slice(0, -suffix.length);
+      // "-ungen" → "-ung", "-heiten" → "-heit"
+      return suffix === 'ungen' ? `${stem}ung` : suffix === 'heiten' ? `${stem}heit` : suffix === 'keiten' ? `${stem}keit` : stem;
+    }
+  }
+  return token;
+}
+
+export function isStopword(token: string): boolean {
+  return STOPWORDS.has(token);
+}
+
+/**
+ * Index terms of a text
+ */
+export function analyzeGerman(text: string): string[] {
+  return foldGerman(text.replace(/<[^>]+>/g, ' '))
+    .split(/[^a-z0-9§]+/)
+    .filter(token => token.length > 1 && !isStopword(token))
+    .map(stemGerman);
+}
+
+/**
+ * Base words of legal language that law names rarely contain on their own
+ */
+const BASE_WORDS = [
+  'Abfindung', 'Amt', 'Anspruch', 'Antrag', 'Arbeit', 'Arbeitgeber', 'Arbeitnehmer', 'Aufenthalt', 'Aufhebung', 'Ausbildung',
+  'Bedarf', 'Beitrag', 'Bescheid', 'Beschwerde', 'Betreuung', 'Betrieb', 'Bewährung', 'Bund', 'Bürger', 'Daten', 'Eltern',
+  'Entgelt', 'Erhöhung', 'Erstattung', 'Familie', 'Frist', 'Geld', 'Gericht', 'Gesetz', 'Grund', 'Haft', 'Hilfe', 'Kind',
+  'Klage', 'Kosten', 'Kündigung', 'Land', 'Leben', 'Lebensunterhalt', 'Leistung', 'Lohn', 'Meldung', 'Miete', 'Mieter',
+  'Minderung', 'Mutter', 'Pflege', 'Pflicht', 'Rat', 'Recht', 'Regel', 'Rente', 'Sache', 'Schaden', 'Schutz', 'Sicherung',
+  'Sozial', 'Steuer', 'Strafe', 'Tag', 'Unterhalt', 'Unterkunft', 'Urlaub', 'Verfahren', 'Verletzung', 'Verordnung',
+  'Versäumnis', 'Versicherung', 'Vertrag', 'Verwaltung', 'Vorschuss', 'Wohnung', 'Zeit', 'Zulage', 'Zuschuss',
+];
+
+/** Weight of a base word, as if it occurred this often in the law names */
+const BASE_WORD_COUNT = 20;
+
+/** Shortest word taken from the names; base words may be shorter ("Amt", "Rat") */
+const MIN_PART = 4;
+
+/** Most parts of one compound */
+const MAX_PARTS = 4;
+
+/** Words outside this range are not decomposed */
+const MIN_COMPOUND = 6;
+const MAX_COMPOUND = 40;
+
+/** Decompositions kept before the cache starts over */
+const MAX_CACHED = 50000;
+
+/** Linking elements between compound parts */
+const FUGEN = ['es', 's'];
+
+export interface CompoundPart {
+  /** Dictionary form, e.g. "Kündigung" */
+  lemma: string;
+  /** Position in the word, without the linking element */
+  start: number;
+  end: number;
+}
+
+interface LexiconEntry {
+  lemma: string;
+  count: number;
+  base: boolean;
+}
+
+function words(text: string): string[] {
+  return text.split(/[^A-Za-zÄÖÜäöüß]+/).filter(word => word.length > 1);
+}
+
+export class GermanLexicon {
+  /** Folded word and its stem → dictionary form and frequency */
+  private readonly entries = new Map<string, LexiconEntry>();
+  private readonly decompositions = new Map<string, CompoundPart[]>();
+
+  constructor(words: Iterable<string>) {
+    for (const word of words) this.add(word, 1);
+    for (const word of BASE_WORDS) this.add(word, BASE_WORD_COUNT, true);
+  }
+
+  /**
+   * Lexicon of the base words and every word of the given names
+   */
+  static fromNames(names: Iterable<string>): GermanLexicon {
+    const all: string[] = [];
+    for (const name of names) all.push(...words(name));
+    return new GermanLexicon(all);
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  private add(word: string, count: number, base = false): void {
+    const folded = foldGerman(word);
+    if (isStopword(folded) || (!base && folded.length < MIN_PART)) return;
+    for (const key of new Set([folded, stemGerman(folded)])) {
+      const entry = this.entries.get(key);
+      if (!entry) {
+        this.entries.set(key, { lemma: word, count, base });
+        continue;
+      }
+      entry.count += count;
+      // Base words, then capitalized nouns, then the shortest form ("Buch" over "Buches")
+      const rank = (lemma: string, isBase: boolean) => [isBase ? 0 : 1, /^[A-ZÄÖÜ]/.test(lemma) ? 0 : 1, lemma.length];
+      const [a, b] = [rank(word, base), rank(entry.lemma, entry.base)];
+      if (a[0] < b[0] || (a[0] === b[0] && (a[1] < b[1] || (a[1] === b[1] && a[2] < b[2])))) {
+        entry.lemma = word;
+        entry.base = base;
+      }
+    }
+  }
+
+  /**
+   * Dictionary entry of a compound part; only the last part may be inflected
+   */
+  private lookup(part: string, last = true): LexiconEntry | undefined {
+    const folded = foldGerman(part);
+    return this.entries.get(folded) ?? (last ? this.entries.get(stemGerman(folded)) : undefined);
+  }
+
+  /**
+   * Split a compound into dictionary words; empty if the word is not a
+   * compound of known words. Of several splits the one with the most
+   * frequent parts wins (geometric mean), and only if its parts are more
+   * frequent than the whole word.
+   */
+  decompose(word: string): CompoundPart[] {
+    const lower = word.toLowerCase();
+    if (lower.length < MIN_COMPOUND || lower.length > MAX_COMPOUND) return [];
+    const cached = this.decompositions.get(lower);
+    if (cached) return cached;
+
+    let best: CompoundPart[] = [];
+    let bestScore = this.lookup(lower)?.count ?? 0;
+    for (const split of this.splits(lower, 0, MAX_PARTS)) {
+      if (split.length < 2) continue;
+      const counts = split.map((part, index) => this.lookup(lower.slice(part.start, part.end), index === split.length - 1)!.count);
+      const score = Math.pow(counts.reduce((product, count) => product * count, 1), 1 / counts.length);
+      if (score > bestScore) {
+        best = split;
+        bestScore = score;
+      }
+    }
+
+    if (this.decompositions.size >= MAX_CACHED) this.decompositions.clear();
+    this.decompositions.set(lower, best);
+    return best;
+  }
+
+  private splits(word: string, start: number, maxParts: number): CompoundPart[][] {
+    const result: CompoundPart[][] = [];
+    for (let end = word.length; end > start; end--) {
+      const entry = this.lookup(word.slice(start, end), end === word.length);
+      if (!entry) continue;
+      const part = { lemma: entry.lemma, start, end };
+      if (end === word.length) {
+        result.push([part]);
+        continue;
+      }
+      if (maxParts === 1) continue;
+      for (const next of [end, ...FUGEN.filter(fuge => word.startsWith(fuge, end)).map(fuge => end + fuge.length)]) {
+        if (next >= word.length) continue;
+        for (const rest of this.splits(word, next, maxParts - 1)) result.push([part, ...rest]);
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Index terms of a text: stems of the words plus stems of their compound
+   * parts, so "Kündigungsschutzklage" also matches "Kündigung" and "Klage"
+   */
+  analyze(text: string): string[] {
+    const terms: string[] = [];
+    for (const token of text.replace(/<[^>]+>/g, ' ').split(/[^A-Za-zÄÖÜäöüß0-9§]+/)) {
+      const folded = foldGerman(token);
+      if (folded.length < 2 || isStopword(folded)) continue;
+      terms.push(stemGerman(folded));
+      if (/\d/.test(token)) continue;
+      for (const part of this.decompose(token)) terms.push(stemGerman(foldGerman(part.lemma)));
+    }
+    return terms;
+  }
+
+  /**
+   * Plain text with the words matching the query in bold; HTML tags of the
+   * API's text matches are dropped
+   */
+  highlight(text: string, query: string): string {
+    const queryTerms = new Set(this.analyze(query));
+    return text
+      .replace(/<[^>]+>/g, '')
+      .replace(/\s+/g, ' ')
+      .replace(/[A-Za-zÄÖÜäöüß0-9]+/g, word => this.analyze(word).some(term => queryTerms.has(term)) ? `**${word}**` : word);
+  }
+}
@@ -0,0 +1,393 @@
+/**
+ * HTTP transport
+ *
+ * Serves the MCP server over Streamable HTTP (/mcp) with the older
+ * HTTP+SSE transport (/sse, /messages) as fallback, so that a team can run
+ * one shared instance with one shared response cache. Every session gets its
+ * own MCP server; the API client and law registry behind it are shared.
+ *
+ * Requests are authenticated with bearer tokens and limited by a fixed-window
+ * quota per token. /health and, if enabled, the Prometheus metrics at /metrics
+ * are open for load balancers and monitoring.
+ *
+ * Clients that go away without closing their session leave it behind, so
+ * sessions idle for longer than `sessionIdleTimeout` are closed, and a client
+ * opening more than `maxSessionsPerClient` loses its least recently used one.
+ *
+ * Every request gets a request ID (the caller's X-Request-Id if it sent a
+ * usable one), returned in the X-Request-Id header and added to all log
+ * entries written while it is handled.
+ */
+
+import { randomUUID, timingSafeEqual } from 'crypto';
+import { createServer, IncomingMessage, Server as NodeHttpServer, ServerResponse } from 'http';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { HttpToken } from './config.js';
+import { errorFields, LogContext, logger, runWithLogContext } from './logger.js';
+
+export interface HttpServerOptions {
+  host: string;
+  port: number;
+  tokens: HttpToken[];
+  allowAnonymous: boolean;
+  /** Default requests per window for tokens without their own quota */
+  quota: number;
+  quotaWindow: number;
+  corsOrigins: string[];
+  /** Close sessions without requests for this long, in milliseconds; 0 keeps them until closed */
+  sessionIdleTimeout: number;
+  /** Open sessions per client; 0 = no limit */
+  maxSessionsPerClient: number;
+  /** Connect a fresh MCP server to a new session's transport */
+  connect(transport: Transport): Promise<void>;
+  /** Extra fields for the /health response */
+  health?(): Record<string, unknown>;
+  /** Prometheus text for /metrics; without it the endpoint does not exist */
+  metrics?(): string;
+}
+
+interface Client {
+  name: string;
+  token?: string;
+  quota: number;
+}
+
+interface Session {
+  transport: StreamableHTTPServerTransport | SSEServerTransport;
+  client: string;
+  lastActivity: number;
+}
+
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+/** Longest time between two checks for idle sessions */
+const MAX_SWEEP_INTERVAL = 60 * 1000;
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Methods': 'GET, POST, DELETE, OPTIONS',
+  'Access-Control-Allow-Headers': 'Authorization, Content-Type, Accept, Mcp-Session-Id, Mcp-Protocol-Version, Last-Event-ID, X-Request-Id',
+  'Access-Control-Expose-Headers': 'Mcp-Session-Id, Retry-After, WWW-Authenticate, X-Request-Id',
+  'Access-Control-Max-Age': '600',
+};
+
+class HttpError extends Error {
+  constructor(
+    readonly status: number,
+    message: string,
+    readonly headers: Record<string, string> = {}
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * Fixed-window request counter per client
+ */
+class QuotaTracker {
+  private windows = new Map<string, { start: number; count: number }>();
+
+  constructor(private readonly windowMs: number) {}
+
+  /**
+   * Count a request; returns the seconds until the window resets if the quota is used up
+   */
+  consume(client: Client, now = Date.now()): number | null {
+    let window = this.windows.get(client.name);
+    if (!window || now - window.start >= this.windowMs) {
+      window = { start: now, count: 0 };
+      this.windows.set(client.name, window);
+    }
+    if (window.count >= client.quota) {
+      return Math.max(1, Math.ceil((window.start + this.windowMs - now) / 1000));
+    }
+    window.count++;
+    return null;
+  }
+}
+
+/**
+ * The caller's X-Request-Id if it is a short token, otherwise a new ID
+ */
+function requestIdOf(req: IncomingMessage): string {
+  const header = req.headers['x-request-id'];
+  return typeof header === 'string' && /^[\w.:-]{1,128}$/.test(header) ? header : randomUUID();
+}
+
+function tokenMatches(expected: string, actual: string): boolean {
+  const a = Buffer.from(expected);
+  const b = Buffer.from(actual);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+function writeJson(res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}): void {
+  if (res.headersSent) {
+    res.end();
+    return;
+  }
+  res.writeHead(status, { ...headers, 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+/**
+ * JSON-RPC error body, as MCP clients expect it from the endpoint
+ */
+function rpcError(message: string, code = -32000): unknown {
+  return { jsonrpc: '2.0', error: { code, message }, id: null };
+}
+
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let length = 0;
+  for await (const chunk of req) {
+    length += chunk.length;
+    if (length > MAX_BODY_BYTES) throw new HttpError(413, 'Request body too large');
+    chunks.push(chunk);
+  }
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+  } catch {
+    throw new HttpError(400, 'Parse error: request body is not valid JSON');
+  }
+}
+
+export class McpHttpServer {
+  private readonly options: HttpServerOptions;
+  private readonly quotas: QuotaTracker;
+  private readonly sessions = new Map<string, Session>();
+  private readonly startedAt = Date.now();
+  private httpServer: NodeHttpServer | null = null;
+  private sweepTimer: NodeJS.Timeout | null = null;
+
+  constructor(options: HttpServerOptions) {
+    if (options.tokens.length === 0 && !options.allowAnonymous) {
+      throw new Error('HTTP mode needs at least one bearer token (HTTP_TOKENS) or HTTP_ALLOW_ANONYMOUS=true');
+    }
+    this.options = options;
+    this.quotas = new QuotaTracker(options.quotaWindow);
+  }
+
+  get sessionCount(): number {
+    return this.sessions.size;
+  }
+
+  listen(): Promise<void> {
+    const server = createServer((req, res) => {
+      const context: LogContext = { requestId: requestIdOf(req) };
+      const started = Date.now();
+      res.setHeader('X-Request-Id', context.requestId);
+      res.on('finish', () => {
+        logger.debug('HTTP request', { ...context, method: req.method, path: req.url, status: res.statusCode, durationMs: Date.now() - started });
+      });
+
+      runWithLogContext(context, () => this.handle(req, res, context)).catch(error => {
+        if (error instanceof HttpError) {
+          logger.info('HTTP request rejected', { ...context, method: req.method, path: req.url, status: error.status, reason: error.message });
+          writeJson(res, error.status, rpcError(error.message), error.headers);
+          return;
+        }
+        logger.error('HTTP request failed', { ...context, method: req.method, path: req.url, ...errorFields(error) });
+        writeJson(res, 500, rpcError(error instanceof Error ? error.message : String(error), -32603));
+      });
+    });
+    this.httpServer = server;
+
+    const { sessionIdleTimeout } = this.options;
+    if (sessionIdleTimeout > 0) {
+      this.sweepTimer = setInterval(() => this.closeIdleSessions(), Math.min(sessionIdleTimeout, MAX_SWEEP_INTERVAL));
+      this.sweepTimer.unref();
+    }
+
+    return new Promise((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(this.options.port, this.options.host, () => {
+        server.off('error', reject);
+        resolve();
+      });
+    });
+  }
+
+  async close(): Promise<void> {
+    if (this.sweepTimer) clearInterval(this.sweepTimer);
+    this.sweepTimer = null;
+    await Promise.allSettled([...this.sessions.values()].map(session => session.transport.close()));
+    this.sessions.clear();
+    const server = this.httpServer;
+    if (server) await new Promise<void>(resolve => server.close(() => resolve()));
+  }
+
+  private async handle(req: IncomingMessage, res: ServerResponse, context: LogContext): Promise<void> {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    this.applyCors(req, res);
+
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204).end();
+      return;
+    }
+
+    if (url.pathname === '/health' && req.method === 'GET') {
+      writeJson(res, 200, {
+        status: 'ok',
+        uptimeSeconds: Math.round((Date.now() - this.startedAt) / 1000),
+        sessions: this.sessions.size,
+        ...this.options.health?.(),
+      });
+      return;
+    }
+
+    if (url.pathname === '/metrics' && req.method === 'GET' && this.options.metrics) {
+      res.writeHead(200, { 'Content-Type': 'text/plain; version=0.0.4; charset=utf-8' });
+      res.end(this.options.metrics());
+      return;
+    }
+
+    if (url.pathname !== '/mcp' && url.pathname !== '/sse' && url.pathname !== '/messages') {
+      throw new HttpError(404, `Not found: ${url.pathname}`);
+    }
+
+    const client = this.authenticate(req);
+    context.client = client.name;
+    if (req.method === 'POST') {
+      const retryAfter = this.quotas.consume(client);
+      if (retryAfter !== null) {
+        throw new HttpError(429, `Quota of ${client.quota} requests per ${Math.round(this.options.quotaWindow / 1000)}s exceeded for ${client.name}`, {
+          'Retry-After': String(retryAfter),
+        });
+      }
+    }
+
+    // Passed on to tool handlers as extra.authInfo
+    (req as IncomingMessage & { auth?: unknown }).auth = { token: client.token ?? '', clientId: client.name, scopes: [] };
+
+    if (url.pathname === '/mcp') return this.handleStreamable(req, res, client);
+    if (url.pathname === '/sse' && req.method === 'GET') return this.openSse(res, client);
+    if (url.pathname === '/messages' && req.method === 'POST') return this.postSse(req, res, url, client);
+    throw new HttpError(405, `Method ${req.method} not allowed on ${url.pathname}`);
+  }
+
+  private applyCors(req: IncomingMessage, res: ServerResponse): void {
+    const origin = req.headers.origin;
+    const allowed = this.options.corsOrigins;
+    if (!origin || allowed.length === 0) return;
+
+    if (allowed.includes('*')) {
+      res.setHeader('Access-Control-Allow-Origin', '*');
+    } else if (allowed.includes(origin)) {
+      res.setHeader('Access-Control-Allow-Origin', origin);
+      res.setHeader('Vary', 'Origin');
+    } else {
+      return;
+    }
+    for (const [name, value] of Object.entries(CORS_HEADERS)) res.setHeader(name, value);
+  }
+
+  private authenticate(req: IncomingMessage): Client {
+    const { tokens, allowAnonymous, quota } = this.options;
+    if (tokens.length === 0 && allowAnonymous) return { name: 'anonymous', quota };
+
+    const match = req.headers.authorization?.match(/^Bearer\s+(.+)$/i);
+    const token = match?.[1].trim();
+    const entry = token ? tokens.find(candidate => tokenMatches(candidate.token, token)) : undefined;
+    if (!token || !entry) {
+      throw new HttpError(401, token ? 'Invalid bearer token' : 'Missing bearer token', {
+        'WWW-Authenticate': `Bearer realm="rechtsinformationen"${token ? ', error="invalid_token"' : ''}`,
+      });
+    }
+    return { name: entry.name, token: entry.token, quota: entry.quota ?? quota };
+  }
+
+  /**
+   * Session of the request; sessions are bound to the client that opened them
+   */
+  private findSession(sessionId: string, client: Client): Session {
+    const session = this.sessions.get(sessionId);
+    if (!session) throw new HttpError(404, `Session not found: ${sessionId}`);
+    if (session.client !== client.name) throw new HttpError(403, 'Session belongs to a different client');
+    session.lastActivity = Date.now();
+    return session;
+  }
+
+  /**
+   * Register a new session, closing the client's least recently used one above the limit
+   */
+  private addSession(id: string, transport: Session['transport'], client: Client): void {
+    const limit = this.options.maxSessionsPerClient;
+    const own = [...this.sessions].filter(([, session]) => session.client === client.name);
+    if (limit > 0 && own.length >= limit) {
+      const [oldestId] = own.reduce((oldest, entry) => entry[1].lastActivity < oldest[1].lastActivity ? entry : oldest);
+      logger.info('HTTP session closed: session limit reached', { client: client.name, sessionId: oldestId, limit });
+      this.closeSession(oldestId);
+    }
+    this.sessions.set(id, { transport, client: client.name, lastActivity: Date.now() });
+  }
+
+  private closeIdleSessions(now = Date.now()): void {
+    for (const [id, session] of this.sessions) {
+      if (now - session.lastActivity < this.options.sessionIdleTimeout) continue;
+      logger.info('HTTP session closed: idle', { client: session.client, sessionId: id, idleMs: now - session.lastActivity });
+      this.closeSession(id);
+    }
+  }
+
+  private closeSession(id: string): void {
+    const session = this.sessions.get(id);
+    if (!session) return;
+    this.sessions.delete(id);
+    session.transport.close().catch(error => logger.warn('Closing HTTP session failed', { sessionId: id, ...errorFields(error) }));
+  }
+
+  private async handleStreamable(req: IncomingMessage, res: ServerResponse, client: Client): Promise<void> {
+    const body = req.method === 'POST' ? await readJsonBody(req) : undefined;
+    const sessionId = req.headers['mcp-session-id'];
+
+    if (typeof sessionId === 'string') {
+      const session = this.findSession(sessionId, client);
+      if (!(session.transport instanceof StreamableHTTPServerTransport)) {
+        throw new HttpError(400, 'Session uses the SSE transport; post to /messages');
+      }
+      await session.transport.handleRequest(req, res, body);
+      return;
+    }
+
+    if (req.method !== 'POST' || !isInitializeRequest(body)) {
+      throw new HttpError(400, 'Bad request: send an initialize request without Mcp-Session-Id to start a session');
+    }
+
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: id => {
+        this.addSession(id, transport, client);
+      },
+    });
+    transport.onclose = () => {
+      if (transport.sessionId) this.sessions.delete(transport.sessionId);
+    };
+    await this.options.connect(transport);
+    await transport.handleRequest(req, res, body);
+  }
+
+  private async openSse(res: ServerResponse, client: Client): Promise<void> {
+    const transport = new SSEServerTransport('/messages', res);
+    this.addSession(transport.sessionId, transport, client);
+    transport.onclose = () => {
+      this.sessions.delete(transport.sessionId);
+    };
+    res.on('close', () => {
+      this.sessions.delete(transport.sessionId);
+    });
+    // connect() starts the transport, which opens the event stream
+    await this.options.connect(transport);
+  }
+
+  private async postSse(req: IncomingMessage, res: ServerResponse, url: URL, client: Client): Promise<void> {
+    const sessionId = url.searchParams.get('sessionId');
+    if (!sessionId) throw new HttpError(400, 'Missing sessionId query parameter');
+
+    const session = this.findSession(sessionId, client);
+    if (!(session.transport instanceof SSEServerTransport)) {
+      throw new HttpError(400, 'Session uses Streamable HTTP; post to /mcp');
+    }
+    await session.transport.handlePostMessage(req, res, await readJsonBody(req));
+  }
+}
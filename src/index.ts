@@ -4,16 +4,125 @@
 // The API follows semantic web principles: main @id = work level, workExample @id = expression level
 // See: https://docs.rechtsinformationen.bund.de/endpoints/#getLegislation
 
+import { randomUUID } from 'crypto';
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
 import {
   CallToolRequestSchema,
+  ErrorCode,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
   ListToolsRequestSchema,
+  McpError,
+  ReadResourceRequestSchema,
 } from '@modelcontextprotocol/sdk/types.js';
-import axios from 'axios';
-import Fuse from 'fuse.js';
-
-const BASE_URL = 'https://testphase.rechtsinformationen.bund.de/v1';
+import { ApiClient, ApiResponse } from './api-client.js';
+import { config } from './config.js';
+import { describeTemporalCoverage, EliReference, expressionEli, legislationApiPath, parseEli, workEli } from './eli.js';
+import {
+  findLawAbbreviations,
+  formatCitation,
+  formatCitationChain,
+  formatNormCitation,
+  NormCitation,
+  parseCitations,
+  parseNormCitation,
+  toNormCitations,
+} from './citations.js';
+import { EcliReference, ecliToResolve, isSameEcli, parseEcli } from './ecli.js';
+import { abbreviationKey, LawRegistry } from './law-registry.js';
+import { Coverage, CoverageStatus } from './coverage.js';
+import {
+  AmendmentReference,
+  extractAmendments,
+  extractNorm,
+  extractTableOfContents,
+  findArticle,
+  findElementById,
+  findParagraph,
+  findPoint,
+  findPoints,
+  LawDocument,
+  NormSection,
+  parseLawDocument,
+  splitHalfSentences,
+  splitSentences,
+} from './legaldocml.js';
+import { buildVersionTimeline, findVersionAt, LawVersion, normalizeDate } from './versions.js';
+import { diffLawDocuments, diffNorms, NormDiff } from './norm-diff.js';
+import { findPrompt, PROMPTS } from './prompts.js';
+import { citationSearchTerms, findCitingPassages, groupByCourt } from './norm-case-law.js';
+import { countFacets, facetCap, facetFilters, FacetHintOptions, FacetSummary, FacetValues, formatFacets } from './facets.js';
+import {
+  Court,
+  courtsOfJurisdiction,
+  explainStateCourt,
+  explainUnknownCourt,
+  findCourt,
+  formatCourt,
+  JURISDICTIONS,
+  matchesSenate,
+  resolveCourt,
+  resolveJurisdiction,
+} from './courts.js';
+import { McpHttpServer } from './http-server.js';
+import { fanOut } from './fan-out.js';
+import { createTrace, currentTrace, formatTrace, runWithTrace, SearchTrace, traceResult } from './search-trace.js';
+import { errorFields, LogContext, logContext, logger, runWithLogContext } from './logger.js';
+import { formatStatistics, metrics } from './metrics.js';
+import { KnowledgeBase, LegalKnowledge, matchesCondition } from './knowledge-base.js';
+import { RankedDocument, rankBm25 } from './bm25.js';
+import { analyzeGerman } from './german.js';
+import { decodeCursor, encodeCursor, formatPageInfo, MAX_PAGE_SIZE, mergePages, PageInfo, pageSize, readPageInfo } from './pagination.js';
+import {
+  AVAILABILITY_OUTPUT_SCHEMA,
+  AvailabilityEntry,
+  AvailabilityOutput,
+  DOCUMENT_FORMATS,
+  DOCUMENT_OUTPUT_SCHEMA,
+  DocumentOutput,
+  FailedTerm,
+  LAW_AT_DATE_OUTPUT_SCHEMA,
+  LAW_BY_ELI_OUTPUT_SCHEMA,
+  LAW_LOOKUP_OUTPUT_SCHEMA,
+  LAW_VERSIONS_OUTPUT_SCHEMA,
+  LawAtDateOutput,
+  LawByEliOutput,
+  LawLookupOutput,
+  LawVersionEntry,
+  LawVersionsOutput,
+  NORM_CASE_LAW_OUTPUT_SCHEMA,
+  NORM_OUTPUT_SCHEMA,
+  NormCaseLawOutput,
+  NormOutput,
+  SEARCH_OUTPUT_SCHEMA,
+  SearchHit,
+  SearchOutput,
+  STATISTICS_OUTPUT_SCHEMA,
+  StatisticsOutput,
+  TABLE_OF_CONTENTS_OUTPUT_SCHEMA,
+  TableOfContentsOutput,
+  TextMatch,
+  UnavailableLaw,
+  VERSION_COMPARISON_OUTPUT_SCHEMA,
+  VersionComparisonOutput,
+} from './structured-output.js';
+import {
+  formatLawMarkdown,
+  formatNormMarkdown,
+  htmlToText,
+  legislationUri,
+  MARKDOWN,
+  parseResourceUri,
+  RESOURCE_TEMPLATES,
+  ResourceTarget,
+} from './resources.js';
+
+// Laws per resources/list page
+const RESOURCE_PAGE_SIZE = 100;
 
 interface SearchResult {
   item: {
@@ -42,6 +151,15 @@ interface SearchResult {
       '@type': string;
       '@id': string;
       legislationIdentifier?: string;
+      temporalCoverage?: string;
+      legislationLegalForce?: string;
+      encoding?: Array<{
+        '@type'?: string;
+        '@id'?: string;
+        contentUrl?: string;
+        encodingFormat?: string;
+        inLanguage?: string;
+      }>;
     };
   };
   textMatches?: Array<{
@@ -53,23 +171,122 @@ interface SearchResult {
   '@type': 'SearchResult';
 }
 
+// Query state carried in pagination cursors
+interface LegislationQuery {
+  searchTerm: string;
+  temporalCoverageFrom?: string;
+  temporalCoverageTo?: string;
+  size: number;
+  pageIndex: number;
+}
+
+interface CaseLawQuery {
+  searchTerm: string;
+  /** Court abbreviations from the court registry, one search each */
+  courts?: string[];
+  /** Applied to the judicialBody of the results; the API has no senate filter */
+  senate?: string;
+  dateFrom?: string;
+  dateTo?: string;
+  documentType?: string;
+  size: number;
+  pageIndex: number;
+  /** With several courts: results of each court shown on earlier pages */
+  offsets?: number[];
+}
+
+/** Courts selected by the court and jurisdiction arguments */
+interface CourtFilter {
+  courts: Court[];
+  senate?: string;
+  label: string;
+}
+
+type SearchPriority = 'high' | 'medium' | 'low';
+
+/** Search terms of intelligente_rechtssuche per source */
+const MAX_REFERENCE_TERMS = 3;
+const MAX_CONCEPT_TERMS = 2;
+const MAX_EXPANSION_TERMS = 3;
+/** Source of the terms per priority, as shown in the explain trace */
+const TERM_SOURCES: Record<SearchPriority, string> = { high: 'citation', medium: 'concept', low: 'expansion' };
+
+/** Search tools: they return a trace with explain: true and count searches without results */
+const SEARCH_TOOLS = new Set(['deutsche_gesetze_suchen', 'rechtsprechung_suchen', 'intelligente_rechtssuche', 'rechtsprechung_zur_norm']);
+
+/**
+ * Query of a search that found nothing, for the statistics; facet counts and
+ * further pages do not count
+ */
+function zeroResultQuery(output: any): string | undefined {
+  if (!output || output.facets || output.pageIndex > 0) return undefined;
+  if (Array.isArray(output.results) && output.results.length === 0 && typeof output.query === 'string') return output.query;
+  if (Array.isArray(output.courts) && output.verified === 0 && typeof output.citation === 'string') return output.citation;
+  return undefined;
+}
+
+interface IntelligentSearchQuery {
+  query: string;
+  threshold: number;
+  limit: number;
+  pageIndex: number;
+}
+
+const SERVER_NAME = 'rechtsinformationen';
+const SERVER_VERSION = '1.4.0';
+
+/**
+ * State shared by all sessions of one process (HTTP mode serves many)
+ */
+interface SharedState {
+  api: ApiClient;
+  coverage: Coverage;
+  knowledge: KnowledgeBase;
+}
+
+function createSharedState(): SharedState {
+  return {
+    api: new ApiClient(config),
+    coverage: new Coverage(config.lawDataFile),
+    knowledge: new KnowledgeBase([config.knowledgeFile, ...config.knowledgeOverrideFiles], config.knowledgeCheckInterval),
+  };
+}
+
 class RechtsinformationenBundDeMCPServer {
   private server: Server;
+  private api: ApiClient;
+  private coverage: Coverage;
+  private knowledgeBase: KnowledgeBase;
 
-  constructor() {
+  constructor(shared: SharedState = createSharedState()) {
     this.server = new Server(
       {
-        name: 'rechtsinformationen',
-        version: '1.4.0',
+        name: SERVER_NAME,
+        version: SERVER_VERSION,
       },
       {
         capabilities: {
           tools: {},
+          resources: {},
+          prompts: {},
         },
       }
     );
 
+    this.api = shared.api;
+    this.coverage = shared.coverage;
+    this.knowledgeBase = shared.knowledge;
     this.setupToolHandlers();
+    this.setupResourceHandlers();
+    this.setupPromptHandlers();
+  }
+
+  private get laws(): LawRegistry {
+    return this.coverage.registry;
+  }
+
+  private get knowledge(): LegalKnowledge {
+    return this.knowledgeBase.current;
   }
 
   private setupToolHandlers() {
@@ -97,11 +314,7 @@ These URLs work directly in browsers and API calls.
 ✓ When you need legislation-only results (excludes case law)
 ✓ When searching for specific law abbreviations (BEEG, BGB, SGB)
 
-**⚠️ DATABASE COVERAGE LIMITATIONS:**
-• **Grundgesetz (GG)**: NOT in database - only laws referencing GG available
-• **SGB I-VIII**: NOT in database - SGB IX-XIV available, earlier books missing
-• **Historic laws**: Limited coverage, focus on current legislation post-2000
-• If a law is not found, it may not be in the testphase database yet
+**Coverage:** GG and SGB I-VIII are NOT in the database; check other laws with verfuegbarkeit_pruefen
 
 **Limitations:**
 ⚠️ Date filters (temporalCoverageFrom/To) are unreliable - they may exclude relevant results
@@ -110,7 +323,10 @@ These URLs work directly in browsers and API calls.
 **Parameters:**
 • searchTerm: Keywords or law names (required)
 • temporalCoverageFrom/To: ISO dates (optional, use with caution)
-• limit: Max results, default 10, API max 100
+• limit: Results per page, default 5, API max 100
+• cursor: Continue a previous search (from "More results")
+• facetten: Counts by court, year, document type, law type and cited law instead of results (facettenLimit caps the results counted)
+• explain: Append a trace of the search (requests, merge, ranking, why results were kept or dropped)
 
 **Usage Priority:**
 For initial queries → Use intelligente_rechtssuche first
@@ -135,9 +351,29 @@ For legislation-only → Use this tool`,
                   description: 'Maximum number of results to return (default: 5, API max: 100)',
                   default: 5,
                 },
+                cursor: {
+                  type: 'string',
+                  description: 'Opaque cursor from a previous call to fetch the next page; the other arguments are then taken from the cursor',
+                },
+                facetten: {
+                  type: 'boolean',
+                  description: 'Return counts by court, year, document type, law type and cited law instead of results (default: false)',
+                  default: false,
+                },
+                facettenLimit: {
+                  type: 'number',
+                  description: 'Maximum number of results to page through and count in facetten mode (default: 500, max: 2000)',
+                  default: 500,
+                },
+                explain: {
+                  type: 'boolean',
+                  description: 'Return a trace of how the results came about in structuredContent.trace and after the results (default: false)',
+                  default: false,
+                },
               },
               required: ['searchTerm'],
             },
+            outputSchema: SEARCH_OUTPUT_SCHEMA,
           },
           {
             name: 'rechtsprechung_suchen',
@@ -171,10 +407,14 @@ These URLs work directly in browsers and API calls.
 
 **Parameters:**
 • searchTerm: Keywords or case references (required)
-• court: Filter by court abbreviation (optional)
+• court: Court name or abbreviation, optionally with senate ("Bundessozialgericht", "BVerfG 2. Senat")
+• jurisdiction: All federal courts of a Gerichtsbarkeit ("Sozialgerichtsbarkeit", "alle Arbeitsgerichte")
 • dateFrom/To: Decision date filters in ISO format (optional)
 • documentType: "Urteil" or "Beschluss" (optional)
-• limit: Max results, default 10, API max 100
+• limit: Results per page, default 5, API max 100
+• cursor: Continue a previous search (from "More results")
+• facetten: Counts by court, year, document type, law type and cited law instead of results (facettenLimit caps the results counted)
+• explain: Append a trace of the search (requests, merge, ranking, why results were kept or dropped)
 
 **Usage Priority:**
 For initial queries → Use intelligente_rechtssuche first
@@ -188,7 +428,11 @@ For court-specific searches → Use this tool`,
                 },
                 court: {
                   type: 'string',
-                  description: 'Filter by specific court abbreviation (e.g., BGH, BVerfG, BAG, BFH, BSG, BVerwG)',
+                  description: 'Court name or abbreviation, optionally with senate (e.g., "BGH", "Bundessozialgericht", "BVerfG 2. Senat"). Unknown courts are rejected with suggestions',
+                },
+                jurisdiction: {
+                  type: 'string',
+                  description: 'Search all federal courts of a Gerichtsbarkeit (e.g., "Sozialgerichtsbarkeit", "alle Arbeitsgerichte")',
                 },
                 dateFrom: {
                   type: 'string',
@@ -207,9 +451,29 @@ For court-specific searches → Use this tool`,
                   description: 'Maximum number of results to return (default: 5, API max: 100)',
                   default: 5,
                 },
+                cursor: {
+                  type: 'string',
+                  description: 'Opaque cursor from a previous call to fetch the next page; the other arguments are then taken from the cursor',
+                },
+                facetten: {
+                  type: 'boolean',
+                  description: 'Return counts by court, year, document type, law type and cited law instead of results (default: false)',
+                  default: false,
+                },
+                facettenLimit: {
+                  type: 'number',
+                  description: 'Maximum number of results to page through and count in facetten mode (default: 500, max: 2000)',
+                  default: 500,
+                },
+                explain: {
+                  type: 'boolean',
+                  description: 'Return a trace of how the results came about in structuredContent.trace and after the results (default: false)',
+                  default: false,
+                },
               },
               required: ['searchTerm'],
             },
+            outputSchema: SEARCH_OUTPUT_SCHEMA,
           },
           {
             name: 'dokument_details_abrufen',
@@ -230,7 +494,11 @@ This tool accepts:
    /v1/legislation/eli/bund/bgbl-1/2006/s2748/2025-05-01/1/deu
    /v1/case-law/ecli/de/bgh/2023/010523
 
-3. ELI or ECLI identifiers (will be constructed into full path)
+3. ELI identifiers (will be constructed into full path)
+
+4. ECLIs in any casing or URL form, resolved through the search API:
+   ECLI:DE:BVerfG:2025:es20250313.2bve000525
+   https://testphase.rechtsinformationen.bund.de/case-law/ecli/ECLI:DE:BGH:2018:150518UVIIZR233.17.0
 
 **When to use:**
 ✓ When you have a specific document from search results
@@ -258,17 +526,18 @@ Search first → Get results → Use this tool for full text`,
               properties: {
                 documentId: {
                   type: 'string',
-                  description: 'Document ID or URL from search results. Use the "@id" field from search results, or full URL like https://testphase.rechtsinformationen.bund.de/v1/legislation/eli/...',
+                  description: 'Document ID or URL from search results. Use the "@id" field from search results, a full URL like https://testphase.rechtsinformationen.bund.de/v1/legislation/eli/..., or an ECLI',
                 },
                 format: {
                   type: 'string',
                   description: 'Response format: "json" (default, structured data), "html" (readable format), or "xml" (raw format)',
-                  enum: ['html', 'xml', 'json'],
+                  enum: DOCUMENT_FORMATS,
                   default: 'json',
                 },
               },
               required: ['documentId'],
             },
+            outputSchema: DOCUMENT_OUTPUT_SCHEMA,
           },
           {
             name: 'intelligente_rechtssuche',
@@ -279,86 +548,29 @@ Search first → Get results → Use this tool for full text`,
 • Both legislation (Gesetze) AND case law (Rechtsprechung)
 • Intelligent query enhancement with misconception correction
 
-**⚠️ DATABASE COVERAGE LIMITATIONS:**
-• **Grundgesetz (GG)**: NOT in database - only laws referencing GG are available
-• **SGB I-VIII**: NOT in database - SGB IX-XIV available, earlier books missing
-• **Historic laws**: Limited coverage, focus on current legislation post-2000
-• **Amendments**: Newer amendment laws well-covered, older may be missing
-• If a law is not found, it may not be in the testphase database yet
+**Coverage:** GG and SGB I-VIII are NOT in the database; check other laws with verfuegbarkeit_pruefen
 
 **Intelligent Features (Automatic):**
 ✓ English → German translation (e.g., "employee rights" → "Arbeitnehmerrechte")
 ✓ Misconception correction (e.g., "Überprüfungsantrag" → "Widerspruch")
 ✓ Legal reference extraction (e.g., detects "§ 15 BEEG" patterns)
-✓ Multiple search term execution in parallel
-✓ Result prioritization and deduplication
-
-**Data Model Understanding (CRITICAL for answering questions):**
-Results follow FRBR model with three levels:
-1. **Work** (Abstract): The law as intellectual creation
-2. **Expression** (Version): Specific publication with metadata
-3. **Manifestation** (Format): HTML links for reading, JSON-LD for metadata
-
-**Metadata Available in Search Results:**
-• **Immediately available** (no follow-up needed):
-  - legislationDate - When the law was passed/enacted
-  - datePublished - When published in Federal Law Gazette (BGBl)
-  - name - Full law title
-  - abbreviation - Official abbreviation (BGB, StGB, etc.)
-
-• **Requires follow-up call** (use gesetz_per_eli_abrufen):
-  - temporalCoverage - Date range when law is/was in force
-  - inForce - Current validity status (boolean)
-  - Full text content and structure
+✓ Multiple search term execution, result prioritization and deduplication
 
 **Results contain:**
-• **HTML links** (Manifestation): [Law Name] for users to read
-• **Basic metadata** (Expression): Legislation date, published date immediately visible
-• **Detailed metadata**: Use gesetz_per_eli_abrufen for inForce status and temporal coverage
-
-**Example Use Cases:**
-• "When was BGB enacted?" → Check legislationDate in results (immediate)
-• "When was BGB published?" → Check datePublished in results (immediate)
-• "Is SGB IX still valid?" → Use gesetz_per_eli_abrufen for inForce status (follow-up)
-• "Show me § 242 StGB" → Use HTML link for law text (immediate)
-
-**What this tool does NOT do:**
-✗ Does NOT perform true semantic search with ML embeddings
-✗ Does NOT generate semantically similar terms (YOU must provide variations)
-✗ Does NOT try multiple query phrasings (YOU must search with different terms)
-✗ Does NOT explore related concepts automatically (YOU need multiple searches)
-✗ Uses keyword matching + Fuse.js fuzzy search (not neural embeddings)
-
-**AI Agent Responsibilities:**
-As the calling agent, YOU must:
-1. Provide multiple query variations (synonyms, related terms, different phrasings)
-2. Search for law abbreviations separately (BEEG, BGB, SGB, etc.)
-3. Try specific § references when mentioned (§ 44 SGB X)
-4. Search for amendment laws with different patterns
-5. Use specialized tools (deutsche_gesetze_suchen, rechtsprechung_suchen) for follow-up
-
-**Search Strategies for Common Questions:**
-
-Amendment questions:
-• "X Änderungsgesetz 2021"
-• "Gesetz zur Änderung X 2021"
-• "BGBl 2021 X" (Federal Law Gazette)
-• Search both enactment year AND effective year
-
-Law interpretation:
-• Search law name + specific § reference
-• Try both formal name and abbreviation
-• Search for related commentary or court decisions
-
-Case law:
-• Search topic + "BGH" or court name
-• Try legal concepts + "Rechtsprechung"
-• Search ECLI or case file numbers if known
+• HTML links for users to read and basic metadata (legislationDate, datePublished, abbreviation)
+• For inForce status and temporal coverage use gesetz_per_eli_abrufen
+
+**Limits:** Keyword matching with BM25 re-ranking, not semantic embeddings. YOU must try synonyms, abbreviations and § references as separate searches.
+
+**Workflows:** For Jobcenter Bescheide, Kündigungsschutz, Mieterhöhungen and amendment research use the server's prompts (prompts/list), which name the tools, citation rules and coverage caveats.
 
 **Parameters:**
 • query: Your search query in German or English (required)
-• threshold: Fuzzy match threshold 0.0-1.0 (default: 0.3, lower = more results)
+• threshold: Minimum relevance 0.0-1.0 (default: 0, higher = only closer matches)
 • limit: Max results (default: 5, API max: 100)
+• cursor: Continue a previous search with the next page of every search term
+• facetten: Counts by court, year, document type, law type and cited law instead of results (facettenLimit caps the results counted)
+• explain: Append a trace of the search (requests, merge, ranking, why results were kept or dropped)
 
 **Usage Pattern:**
 1. Start here for ALL legal questions
@@ -375,17 +587,37 @@ Case law:
                 },
                 threshold: {
                   type: 'number',
-                  description: 'Fuzzy match threshold (0.0 to 1.0, default: 0.3). Lower = more lenient matching, higher = stricter matching.',
-                  default: 0.3,
+                  description: 'Minimum BM25 relevance of a result (0.0 to 1.0, default: 0). 1.0 = every query word found with high frequency; higher = fewer, closer matches.',
+                  default: 0,
                 },
                 limit: {
                   type: 'number',
                   description: 'Maximum number of results to return (default: 5, API max: 100)',
                   default: 5,
                 },
+                cursor: {
+                  type: 'string',
+                  description: 'Opaque cursor from a previous call to fetch the next page; the other arguments are then taken from the cursor',
+                },
+                facetten: {
+                  type: 'boolean',
+                  description: 'Return counts by court, year, document type, law type and cited law instead of results (default: false)',
+                  default: false,
+                },
+                facettenLimit: {
+                  type: 'number',
+                  description: 'Maximum number of results to page through and count in facetten mode (default: 500, max: 2000)',
+                  default: 500,
+                },
+                explain: {
+                  type: 'boolean',
+                  description: 'Return a trace of how the results came about in structuredContent.trace and after the results (default: false)',
+                  default: false,
+                },
               },
               required: ['query'],
             },
+            outputSchema: SEARCH_OUTPUT_SCHEMA,
           },
           {
             name: 'gesetz_per_abkuerzung_abrufen',
@@ -397,21 +629,9 @@ Case law:
 • Returns the current version of the law with full metadata
 • Standard legal research pattern in Germany
 
-**⚠️ DATABASE COVERAGE LIMITATIONS:**
-• **Grundgesetz (GG)**: NOT in database - lookup will fail or return wrong law
-• **SGB I-VIII**: NOT in database - SGB IX-XIV available, earlier books missing
-• **Historic laws**: Limited coverage, focus on current legislation post-2000
-• If abbreviation lookup fails, the law may not be in the testphase database
-
-**Supported Abbreviations (if in database):**
-Common German federal laws (examples):
-• SGB IX, SGB X, SGB XI, SGB XII, SGB XIV (✅ Available)
-• SGB I-VIII (❌ NOT Available)
-• BGB (Bürgerliches Gesetzbuch) (✅ Available)
-• StGB (Strafgesetzbuch) (✅ Available)
-• GG (Grundgesetz) (❌ NOT Available)
-• AufenthG, BetrVG, KSchG, BEEG, BUrlG, ArbZG (Check availability)
-• And many more...
+**Coverage:** Laws missing from the database (e.g. GG, SGB I-VIII) are answered with "not in database" and official sources; check coverage with verfuegbarkeit_pruefen
+
+**Input variants:** "SGB 2", "SGB-II" and "sgb ii" are normalized; full names like "Kündigungsschutzgesetz" are matched fuzzily
 
 **When to use:**
 ✓ When you know the exact law abbreviation (e.g., "SGB I", "BGB")
@@ -433,7 +653,7 @@ Common German federal laws (examples):
 • ELI identifier
 • Law type classification
 • Current version date
-• Complete table of contents (if available)
+• Pointer to the table of contents (gesetz_inhaltsverzeichnis_abrufen)
 • Direct HTML and JSON URLs
 
 **Example Usage:**
@@ -453,1363 +673,3575 @@ For content search within laws → Use intelligente_rechtssuche or deutsche_gese
               },
               required: ['abbreviation'],
             },
+            outputSchema: LAW_LOOKUP_OUTPUT_SCHEMA,
           },
-        ],
-      };
-    });
+          {
+            name: 'gesetz_per_eli_abrufen',
+            description: `🏷️ **METADATA TOOL** - Gesetz per ELI abrufen (Geltung und Fassungen)
 
-    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
-      const { name, arguments: args } = request.params;
+**What this tool does:**
+• Looks up a law by its ELI (European Legislation Identifier)
+• Returns validity status (inForce) and temporal coverage (Geltungszeitraum)
+• Returns legislation date and publication date
+• Lists all available expressions (dated versions) of the law
 
-      try {
-        switch (name) {
-          case 'deutsche_gesetze_suchen':
-            return await this.searchLegislation(args);
-          case 'rechtsprechung_suchen':
-            return await this.searchCaseLaw(args);
-          case 'dokument_details_abrufen':
-            return await this.getDocumentDetails(args);
-          case 'intelligente_rechtssuche':
-            return await this.intelligentLegalSearch(args);
-          case 'gesetz_per_abkuerzung_abrufen':
-            return await this.getLawByAbbreviation(args);
-          default:
-            throw new Error(`Unknown tool: ${name}`);
-        }
-      } catch (error) {
-        console.error('MCP Server Error:', error);
-        return {
-          content: [
-            {
-              type: 'text',
-              text: `Error in ${name}: ${error instanceof Error ? error.message : 'Unknown error occurred'}\n\nDebug info: ${JSON.stringify(args, null, 2)}`,
-            },
-          ],
-        };
-      }
-    });
-  }
+**ELI Input:**
+This tool accepts work-level or expression-level ELIs, with or without URL prefix:
+• Work: eli/bund/bgbl-1/2006/s2748
+• Expression: eli/bund/bgbl-1/2006/s2748/2025-05-01/1/deu
+• Full URLs from search results (/v1/legislation/eli/... or /norms/eli/...)
 
-  private async searchLegislation(args: any) {
-    const { searchTerm, temporalCoverageFrom, temporalCoverageTo, limit = 5 } = args;
+For a work-level ELI, the currently valid expression is described.
 
-    // Convert limit to number if it's a string (for model compatibility)
-    const numericLimit = typeof limit === 'string' ? parseInt(limit, 10) : limit;
+**When to use:**
+✓ "Is this law still in force?" → validity status
+✓ "Since when does this version apply?" → temporal coverage
+✓ After intelligente_rechtssuche or deutsche_gesetze_suchen returned an ELI
 
-    const params = new URLSearchParams();
-    params.append('searchTerm', searchTerm);
-    if (temporalCoverageFrom) params.append('temporalCoverageFrom', temporalCoverageFrom);
-    if (temporalCoverageTo) params.append('temporalCoverageTo', temporalCoverageTo);
-    params.append('size', Math.min(numericLimit, 100).toString()); // API max is 100
+**Parameters:**
+• eli: Work or expression ELI, or a URL from search results (required)`,
+            inputSchema: {
+              type: 'object',
+              properties: {
+                eli: {
+                  type: 'string',
+                  description: 'ELI of the law at work or expression level (e.g., "eli/bund/bgbl-1/2006/s2748" or "eli/bund/bgbl-1/2006/s2748/2025-05-01/1/deu"), or the URL from search results',
+                },
+              },
+              required: ['eli'],
+            },
+            outputSchema: LAW_BY_ELI_OUTPUT_SCHEMA,
+          },
+          {
+            name: 'gesetz_inhaltsverzeichnis_abrufen',
+            description: `📑 **STRUCTURE TOOL** - Inhaltsverzeichnis eines Gesetzes abrufen
 
-    const response = await axios.get(`${BASE_URL}/legislation`, { params });
-    
-    return {
-      content: [
-        {
-          type: 'text',
-          text: `Found ${response.data.member?.length || 0} German laws matching "${searchTerm}":\n\n${this.formatLegislationResults(response.data)}`,
-        },
-      ],
-    };
-  }
+**What this tool does:**
+• Returns the table of contents of a law: Bücher, Teile, Kapitel, Abschnitte and §§ with headings
+• Parses the official LegalDocML XML of the current (or requested) version
+• Every entry links to the HTML viewer for citation
 
-  private async searchCaseLaw(args: any) {
-    const { searchTerm, court, dateFrom, dateTo, documentType, limit = 5 } = args;
+**Input (one of):**
+• abbreviation: Law abbreviation, e.g. "BGB", "SGB X", "BEEG"
+• eli: Work or expression ELI from search results
 
-    // Convert limit to number if it's a string (for model compatibility)
-    const numericLimit = typeof limit === 'string' ? parseInt(limit, 10) : limit;
+**When to use:**
+✓ To find the right § before reading it ("Where does SGB X regulate Rücknahme?")
+✓ To get an overview of a law's structure
+✓ After gesetz_per_abkuerzung_abrufen
 
-    const params = new URLSearchParams();
-    params.append('searchTerm', searchTerm);
-    if (court) params.append('court', court);
-    if (dateFrom) params.append('dateFrom', dateFrom);
-    if (dateTo) params.append('dateTo', dateTo);
-    if (documentType) params.append('type', documentType);
-    params.append('limit', numericLimit.toString());
+**Tips:**
+⚠️ Large codes (BGB, SGB) have thousands of entries – use maxDepth or includeParagraphs: false for an overview first
 
-    const response = await axios.get(`${BASE_URL}/case-law`, { params });
-    
-    return {
-      content: [
-        {
-          type: 'text',
-          text: `Found ${response.data.member?.length || 0} court decisions matching "${searchTerm}":\n\n${this.formatCaseLawResults(response.data)}`,
-        },
-      ],
-    };
-  }
+**Parameters:**
+• abbreviation or eli (one required)
+• maxDepth: Maximum nesting depth (optional, 1 = top level only)
+• includeParagraphs: Include §§/Artikel (default: true)`,
+            inputSchema: {
+              type: 'object',
+              properties: {
+                abbreviation: {
+                  type: 'string',
+                  description: 'German law abbreviation (e.g., "BGB", "SGB X", "BEEG")',
+                },
+                eli: {
+                  type: 'string',
+                  description: 'ELI of the law at work or expression level, or the URL from search results',
+                },
+                maxDepth: {
+                  type: 'number',
+                  description: 'Maximum nesting depth of the structure (1 = top level only, default: unlimited)',
+                },
+                includeParagraphs: {
+                  type: 'boolean',
+                  description: 'Include individual §§/Artikel with headings (default: true)',
+                  default: true,
+                },
+              },
+            },
+            outputSchema: TABLE_OF_CONTENTS_OUTPUT_SCHEMA,
+          },
+          {
+            name: 'norm_abrufen',
+            description: `⚖️ **NORM TOOL** - Einzelne Vorschrift abrufen (§ / Artikel)
 
-  private async getDocumentDetails(args: any) {
-    const { documentId, format = 'json' } = args;
+**What this tool does:**
+• Returns the clean text of exactly one § or Artikel, e.g. "§ 44 SGB X"
+• Optionally narrowed to one Absatz, Satz, Nummer, Buchstabe or Halbsatz ("§ 558 Abs. 2 Satz 1 BGB")
+• Resolves the law by its abbreviation, like gesetz_per_abkuerzung_abrufen
+• Includes the eId, the version date (Fassung) and a deep link to the official viewer
 
-    // Handle both API paths and full URLs
-    let apiPath = documentId;
-    if (documentId.startsWith('http')) {
-      // Extract API path from full URL
-      const url = new URL(documentId);
+**Citation formats:**
+• "§ 44 SGB X", "§ 15 Abs. 2 BEEG", "§ 558 Abs. 2 S. 1 BGB"
+• "§ 35 Abs. 1 S. 2 Nr. 3 lit. a EStG", "§ 44 Abs. 1 S. 1 Hs. 2 SGB X"
+• "Art. 3 Abs. 1 GG", "SGB II § 32"
 
-      // Handle /norms/ URLs (these are user-facing URLs, not API paths)
-      if (url.pathname.startsWith('/norms/')) {
-        // /norms/ URLs map to /v1/legislation/ endpoints
-        // Extract the ELI path after /norms/
-        // Example: /norms/eli/bund/bgbl-1/2006/s2748/2025-05-01/1/deu
-        // becomes: /v1/legislation/eli/bund/bgbl-1/2006/s2748/2025-05-01/1/deu
-        apiPath = url.pathname.replace('/norms/', '/v1/legislation/');
-      } else if (url.pathname.startsWith('/case-law/')) {
-        // Already correct API path format
-        apiPath = url.pathname;
-      } else if (url.pathname.startsWith('/v1/')) {
-        // Already an API path
-        apiPath = url.pathname;
-      } else if (url.pathname.startsWith('/ecli/')) {
-        // ECLI URLs need to be converted to /v1/case-law/ format
-        // But we don't have enough info, so return helpful error
-        throw new Error('ECLI URLs not directly supported. Please use the document number or search for the case first.');
-      } else {
-        // Use the path as-is and hope for the best
-        apiPath = url.pathname;
-      }
-    } else if (!documentId.startsWith('/v1/')) {
-      // If it's not a URL and doesn't start with /v1/, assume it's a document number
-      // Try to determine the type and construct the correct path
-      if (documentId.includes('eli/bund/')) {
-        apiPath = `/v1/legislation/${documentId}`;
-      } else {
-        // Assume it's a case law document number
-        apiPath = `/v1/case-law/${documentId}`;
-      }
-    }
+**When to use:**
+✓ When you know which § answers the question and need its exact wording
+✓ Instead of dokument_details_abrufen when only one provision is needed
+✓ To quote a provision verbatim with a precise citation link
 
-    const headers: any = {};
-    if (format === 'html') headers['Accept'] = 'text/html';
-    if (format === 'xml') headers['Accept'] = 'application/xml';
+**Parameters:**
+• citation: Norm citation (required)
+• absatz / satz / nummer / buchstabe / halbsatz: Narrow the result (optional, override the citation)
+• eli: Use this law version instead of resolving the abbreviation (optional)`,
+            inputSchema: {
+              type: 'object',
+              properties: {
+                citation: {
+                  type: 'string',
+                  description: 'Norm citation, e.g. "§ 44 SGB X", "Art. 3 Abs. 1 GG", "§ 558 Abs. 2 Satz 1 BGB"; the law may be left out when eli is given ("§ 44")',
+                },
+                absatz: {
+                  type: 'number',
+                  description: 'Only return this Absatz (paragraph number in parentheses)',
+                },
+                satz: {
+                  type: 'number',
+                  description: 'Only return this Satz (sentence) of the Absatz',
+                },
+                nummer: {
+                  type: 'string',
+                  description: 'Only return this Nummer (numbered list item), e.g. "3"; add absatz when several Absätze have numbered lists',
+                },
+                buchstabe: {
+                  type: 'string',
+                  description: 'Only return this Buchstabe (lettered list item), e.g. "a"; add nummer when several Nummern have lettered lists',
+                },
+                halbsatz: {
+                  type: 'number',
+                  description: 'Only return this Halbsatz (part of the Satz separated by a semicolon); needs satz unless the text is a single sentence',
+                },
+                eli: {
+                  type: 'string',
+                  description: 'ELI of the law version to read from (optional, defaults to the current version)',
+                },
+              },
+              required: ['citation'],
+            },
+            outputSchema: NORM_OUTPUT_SCHEMA,
+          },
+          {
+            name: 'gesetzesfassungen_auflisten',
+            description: `🗂️ **VERSION TOOL** - Alle Fassungen eines Gesetzes auflisten
 
-    try {
-      // Construct the full URL, avoiding double /v1/ prefix
-      const fullUrl = apiPath.startsWith('/v1/')
-        ? `https://testphase.rechtsinformationen.bund.de${apiPath}`
-        : `${BASE_URL}${apiPath}`;
+**What this tool does:**
+• Lists all versions (FRBR expressions) of a law that the database holds
+• Shows the validity range of each version (gültig von / bis)
+• Marks the version currently in force
 
-      const response = await axios.get(fullUrl, { headers });
+**When to use:**
+✓ "Which versions of SGB X exist?"
+✓ Before fassung_zum_stichtag_abrufen, to see which dates are covered
+✓ To find the ELI of an older version
 
-      return {
-        content: [
-          {
-            type: 'text',
-            text: `Document details for ${documentId}:\n\n${this.formatDocumentDetails(response.data, format)}`,
-          },
-        ],
-      };
-    } catch (error: any) {
-      if (error.response?.status === 404) {
-        return {
-          content: [
-            {
-              type: 'text',
-              text: `❌ Document not found (404) for: ${documentId}
+**Parameters:**
+• abbreviation or eli (one required)
 
-⚠️ **This document path is not available in the testphase database.**
+**Note:** Validity ranges marked "derived" are calculated from the date of the following version.`,
+            inputSchema: {
+              type: 'object',
+              properties: {
+                abbreviation: {
+                  type: 'string',
+                  description: 'German law abbreviation (e.g., "SGB X", "BGB", "BEEG")',
+                },
+                eli: {
+                  type: 'string',
+                  description: 'ELI of the law at work or expression level, or the URL from search results',
+                },
+              },
+            },
+            outputSchema: LAW_VERSIONS_OUTPUT_SCHEMA,
+          },
+          {
+            name: 'fassung_zum_stichtag_abrufen',
+            description: `📅 **POINT-IN-TIME TOOL** - Gesetz oder § in der Fassung zu einem Stichtag
 
-💡 **What you can do instead:**
-1. Search for the document first using intelligente_rechtssuche or deutsche_gesetze_suchen
-2. Use the \`@id\` URLs returned from search results with this tool
-3. Not all documents are accessible yet in the testphase API
+**What this tool does:**
+• Finds the version of a law that was in force on a given date (Stichtag)
+• With a citation, returns the text of that § as it read on that date
+• Typical use: judging a Bescheid under the law as it stood when it was issued
 
-**API Path attempted:** ${apiPath.startsWith('/v1/') ? `https://testphase.rechtsinformationen.bund.de${apiPath}` : `${BASE_URL}${apiPath}`}`,
-            },
-          ],
-        };
-      }
+**Examples:**
+• { citation: "§ 44 SGB X", date: "2020-06-15" }
+• { abbreviation: "BEEG", date: "01.01.2019" }
 
-      if (error.response?.status === 403) {
-        // 403 Forbidden - provide helpful guidance
-        return {
-          content: [
-            {
-              type: 'text',
-              text: `❌ Access forbidden (403) for document: ${documentId}
+**Parameters:**
+• date: Stichtag as YYYY-MM-DD or DD.MM.YYYY (required)
+• citation: § or Artikel to return (optional, e.g. "§ 32 SGB II")
+• abbreviation or eli: The law (optional if the citation names the law)
 
-⚠️ **The API does not support direct access to this document path.**
+**Limitations:**
+⚠️ Only versions held by the testphase database are available – check with gesetzesfassungen_auflisten`,
+            inputSchema: {
+              type: 'object',
+              properties: {
+                date: {
+                  type: 'string',
+                  description: 'Stichtag (reference date) as YYYY-MM-DD or DD.MM.YYYY',
+                },
+                citation: {
+                  type: 'string',
+                  description: 'Optional norm citation to return in the historical version, e.g. "§ 44 Abs. 1 SGB X", or "§ 44 Abs. 1" together with abbreviation or eli',
+                },
+                abbreviation: {
+                  type: 'string',
+                  description: 'German law abbreviation (optional if the citation contains the law)',
+                },
+                eli: {
+                  type: 'string',
+                  description: 'ELI of the law (optional alternative to abbreviation)',
+                },
+              },
+              required: ['date'],
+            },
+            outputSchema: LAW_AT_DATE_OUTPUT_SCHEMA,
+          },
+          {
+            name: 'fassungsvergleich',
+            description: `🔀 **VERSION DIFF TOOL** - Fassungsvergleich zwischen zwei Stichtagen
 
-💡 **What you can do instead:**
-1. The search results already contain the most relevant content in the text matches
-2. For the full document text, use the web URL directly in a browser:
-   ${documentId.startsWith('http') ? documentId : `https://testphase.rechtsinformationen.bund.de${apiPath}`}
+**What this tool does:**
+• Compares the versions of a law (or a single §) in force on two dates
+• Returns a paragraph-aligned diff: added, removed and changed Absätze
+• For changed Absätze, shows which Sätze were removed and added
+• Lists the amending law(s) where the version metadata identifies them
 
-3. Try searching for more specific terms to get richer text matches
+**Examples:**
+• "What changed in SGB X in 2021?" → { abbreviation: "SGB X", dateFrom: "2020-12-31", dateTo: "2021-12-31" }
+• { citation: "§ 44 SGB X", dateFrom: "2020-12-31", dateTo: "2021-01-01" }
+• { eliFrom: "eli/bund/.../2020-06-12/1/deu", eliTo: "eli/bund/.../2021-01-01/1/deu" }
 
-**API Path attempted:** ${apiPath.startsWith('/v1/') ? `https://testphase.rechtsinformationen.bund.de${apiPath}` : `${BASE_URL}${apiPath}`}
+**Parameters:**
+• citation, abbreviation or eli: The law or § to compare
+• dateFrom / dateTo: Compare the versions in force on these days (dateTo defaults to today)
+• eliFrom / eliTo: Alternatively compare two expression ELIs directly
 
-**Note:** The rechtsinformationen.bund.de API primarily provides search and metadata access. Full document content is best accessed via the web interface.`,
+**Limitations:**
+⚠️ Only versions held by the testphase database can be compared`,
+            inputSchema: {
+              type: 'object',
+              properties: {
+                citation: {
+                  type: 'string',
+                  description: 'Optional § or Artikel to compare, e.g. "§ 44 SGB X", or "§ 44" together with abbreviation or an ELI. Without it the whole law is compared',
+                },
+                abbreviation: {
+                  type: 'string',
+                  description: 'German law abbreviation (optional if the citation contains the law)',
+                },
+                eli: {
+                  type: 'string',
+                  description: 'ELI of the law (optional alternative to abbreviation)',
+                },
+                dateFrom: {
+                  type: 'string',
+                  description: 'Earlier Stichtag as YYYY-MM-DD or DD.MM.YYYY',
+                },
+                dateTo: {
+                  type: 'string',
+                  description: 'Later Stichtag as YYYY-MM-DD or DD.MM.YYYY (default: today)',
+                },
+                eliFrom: {
+                  type: 'string',
+                  description: 'Expression ELI of the older version (alternative to dateFrom)',
+                },
+                eliTo: {
+                  type: 'string',
+                  description: 'Expression ELI of the newer version (alternative to dateTo)',
+                },
+              },
             },
-          ],
+            outputSchema: VERSION_COMPARISON_OUTPUT_SCHEMA,
+          },
+          {
+            name: 'verfuegbarkeit_pruefen',
+            description: `🧭 **COVERAGE TOOL** - Prüfen, ob ein Gesetz in der Datenbank enthalten ist
+
+**What this tool does:**
+• Checks whether laws are available in the testphase database (e.g. GG and SGB I-VIII are not)
+• Shows when availability was last checked
+• Links official alternative sources (gesetze-im-internet.de) for missing laws
+
+**When to use:**
+✓ Before researching a law you are unsure is covered
+✓ When a lookup returned "not in database" and you want to re-check live
+
+**Parameters:**
+• abbreviation: One or more abbreviations, comma-separated (e.g. "GG, BGB, SGB II")
+• liveCheck: Ask the API now instead of using the stored check results (optional)
+• reload: Re-read the availability data file first (optional)`,
+            inputSchema: {
+              type: 'object',
+              properties: {
+                abbreviation: {
+                  type: 'string',
+                  description: 'Law abbreviation(s), comma-separated, e.g. "GG, BGB, SGB II"',
+                },
+                liveCheck: {
+                  type: 'boolean',
+                  description: 'Check availability against the API now and remember the result (default: false)',
+                  default: false,
+                },
+                reload: {
+                  type: 'boolean',
+                  description: 'Reload data/law_availability.json before checking (default: false)',
+                  default: false,
+                },
+              },
+            },
+            outputSchema: AVAILABILITY_OUTPUT_SCHEMA,
+          },
+          {
+            name: 'rechtsprechung_zur_norm',
+            description: `📚 **NORM CASE LAW TOOL** - Rechtsprechung zu einer Norm finden
+
+**What this tool does:**
+• Finds court decisions that cite a given § or Artikel, e.g. "§ 44 SGB X"
+• Searches the usual spellings of the citation ("§ 44 SGB X", "§ 44 SGB 10", "i.V.m. § 44 SGB X")
+• Keeps only decisions whose matched text actually cites the norm (including ranges like "§§ 40 bis 48" and i.V.m. chains)
+• Groups the decisions by court, newest first, with the citing passage highlighted
+
+**When to use:**
+✓ "Which decisions interpret § X?" – instead of guessing keywords in rechtsprechung_suchen
+✓ To find leading cases before reading a norm's commentary-style interpretation
+
+**Parameters:**
+• citation: Norm citation (required); an Absatz narrows the check ("§ 44 Abs. 1 SGB X")
+• court / jurisdiction: Restrict to a court (optionally senate) or Gerichtsbarkeit (optional)
+• dateFrom/dateTo: Decision date range, YYYY-MM-DD (optional)
+• limit: Maximum decisions to return, default 20, max 100
+• explain: Append a trace of the search (requests, candidates, why decisions were kept or dropped)`,
+            inputSchema: {
+              type: 'object',
+              properties: {
+                citation: {
+                  type: 'string',
+                  description: 'Norm citation, e.g. "§ 44 SGB X", "§ 573 Abs. 2 BGB", "Art. 3 GG"',
+                },
+                court: {
+                  type: 'string',
+                  description: 'Court name or abbreviation, optionally with senate (e.g., "BSG", "Bundesarbeitsgericht", "BGH VIII. Zivilsenat")',
+                },
+                jurisdiction: {
+                  type: 'string',
+                  description: 'Search all federal courts of a Gerichtsbarkeit (e.g., "Sozialgerichtsbarkeit")',
+                },
+                dateFrom: {
+                  type: 'string',
+                  description: 'Start date for the decision date (YYYY-MM-DD)',
+                },
+                dateTo: {
+                  type: 'string',
+                  description: 'End date for the decision date (YYYY-MM-DD)',
+                },
+                limit: {
+                  type: 'number',
+                  description: 'Maximum number of decisions to return (default: 20, max: 100)',
+                  default: 20,
+                },
+                explain: {
+                  type: 'boolean',
+                  description: 'Return a trace of how the results came about in structuredContent.trace and after the results (default: false)',
+                  default: false,
+                },
+              },
+              required: ['citation'],
+            },
+            outputSchema: NORM_CASE_LAW_OUTPUT_SCHEMA,
+          },
+          {
+            name: 'server_statistik',
+            description: `📈 **STATISTICS TOOL** - Nutzungsstatistik des Servers
+
+**What this tool does:**
+• Shows calls, errors and latency (average, p50, p95, max) per tool since the server started
+• Shows upstream API responses by endpoint and status code, and the response cache hit rate
+• Lists searches that found nothing, most frequent first – candidates for new translations and concept mappings in the knowledge base
+
+**When to use:**
+✓ To check the health and performance of the server
+✓ To find queries the intelligent search does not understand yet
+
+**Parameters:**
+• limit: Searches without results to list, default 20, max 500
+
+**Note:** In HTTP mode calls, latency and cache numbers cover all clients of the instance; searches without results are listed for your client only.`,
+            inputSchema: {
+              type: 'object',
+              properties: {
+                limit: {
+                  type: 'number',
+                  description: 'Maximum number of searches without results to list (default: 20, max: 500)',
+                  default: 20,
+                },
+              },
+            },
+            outputSchema: STATISTICS_OUTPUT_SCHEMA,
+          },
+        ],
+      };
+    });
+
+    this.server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+      const { name, arguments: args } = request.params;
+      // Calls over HTTP keep the ID of the HTTP request
+      const context: LogContext = { ...logContext(), requestId: logContext()?.requestId ?? randomUUID(), tool: name };
+      return runWithLogContext(context, () => this.handleToolCall(name, args, extra.requestId, extra.authInfo?.clientId));
+    });
+  }
+
+  /**
+   * Run a tool, record its metrics and log the call; errors become error results
+   */
+  private async handleToolCall(name: string, args: any, rpcId: string | number, client?: string) {
+    // Search trace for explain: true; failed calls return it as well
+    const trace = args?.explain && SEARCH_TOOLS.has(name) ? createTrace(name) : undefined;
+    const started = Date.now();
+
+    try {
+      const result = trace
+        ? this.attachTrace(await runWithTrace(trace, () => this.callTool(name, args, client)), trace)
+        : await this.callTool(name, args, client);
+      const durationMs = Date.now() - started;
+      const zeroResults = SEARCH_TOOLS.has(name) && 'structuredContent' in result ? zeroResultQuery(result.structuredContent) : undefined;
+      metrics.recordToolCall(name, durationMs, false);
+      if (zeroResults !== undefined) metrics.recordZeroResults(name, zeroResults, client);
+      logger.info('Tool call', { rpcId, durationMs, ...(zeroResults !== undefined ? { zeroResults: true } : {}) });
+      return result;
+    } catch (error) {
+      const durationMs = Date.now() - started;
+      metrics.recordToolCall(name, durationMs, true);
+      logger.error('Tool call failed', { rpcId, durationMs, ...errorFields(error) });
+      return {
+        isError: true,
+        content: [
+          {
+            type: 'text',
+            text: `Error in ${name}: ${error instanceof Error ? error.message : 'Unknown error occurred'}\n\nDebug info: ${JSON.stringify(args, null, 2)}`,
+          },
+          ...(trace ? [{ type: 'text', text: formatTrace(trace) }] : []),
+        ],
+      };
+    }
+  }
+
+  /**
+   * `client` is the client name of the bearer token in HTTP mode
+   */
+  private async callTool(name: string, args: any, client?: string) {
+    switch (name) {
+      case 'deutsche_gesetze_suchen':
+        return await this.searchLegislation(args);
+      case 'rechtsprechung_suchen':
+        return await this.searchCaseLaw(args);
+      case 'dokument_details_abrufen':
+        return await this.getDocumentDetails(args);
+      case 'intelligente_rechtssuche':
+        return await this.intelligentLegalSearch(args);
+      case 'gesetz_per_abkuerzung_abrufen':
+        return await this.getLawByAbbreviation(args);
+      case 'gesetz_per_eli_abrufen':
+        return await this.getLawByEli(args);
+      case 'gesetz_inhaltsverzeichnis_abrufen':
+        return await this.getTableOfContents(args);
+      case 'norm_abrufen':
+        return await this.getNorm(args);
+      case 'gesetzesfassungen_auflisten':
+        return await this.listLawVersions(args);
+      case 'fassung_zum_stichtag_abrufen':
+        return await this.getLawAtDate(args);
+      case 'fassungsvergleich':
+        return await this.compareLawVersions(args);
+      case 'verfuegbarkeit_pruefen':
+        return await this.checkAvailability(args);
+      case 'rechtsprechung_zur_norm':
+        return await this.findCaseLawForNorm(args);
+      case 'server_statistik':
+        return this.getStatistics(args, client);
+      default:
+        throw new Error(`Unknown tool: ${name}`);
+    }
+  }
+
+  /**
+   * Append the search trace to a tool result (explain: true)
+   */
+  private attachTrace(result: Awaited<ReturnType<typeof this.callTool>>, trace: SearchTrace) {
+    const structuredContent = 'structuredContent' in result ? result.structuredContent as object : {};
+    return {
+      ...result,
+      content: [...result.content, { type: 'text', text: formatTrace(trace) }],
+      structuredContent: { ...structuredContent, trace },
+    };
+  }
+
+  private setupResourceHandlers() {
+    // Laws whose document the availability check verified, in pages of RESOURCE_PAGE_SIZE
+    this.server.setRequestHandler(ListResourcesRequestSchema, async (request) => {
+      const laws = this.laws.list().filter(entry => entry.available && entry.documentId);
+      const offset = request.params?.cursor ? parseInt(request.params.cursor, 10) : 0;
+      if (!Number.isInteger(offset) || offset < 0) {
+        throw new McpError(ErrorCode.InvalidParams, `Invalid cursor: ${request.params?.cursor}`);
+      }
+
+      const page = laws.slice(offset, offset + RESOURCE_PAGE_SIZE);
+      const next = offset + RESOURCE_PAGE_SIZE;
+      return {
+        resources: page.map(entry => ({
+          uri: legislationUri(entry.documentId!),
+          name: entry.abbreviation,
+          description: entry.fullName,
+          mimeType: MARKDOWN,
+        })),
+        ...(next < laws.length ? { nextCursor: String(next) } : {}),
+      };
+    });
+
+    this.server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({
+      resourceTemplates: RESOURCE_TEMPLATES,
+    }));
+
+    this.server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+      const { uri } = request.params;
+      const target = parseResourceUri(uri);
+      if (!target) {
+        throw new McpError(ErrorCode.InvalidParams, `Unsupported resource URI: ${uri}. Supported: ${RESOURCE_TEMPLATES.map(t => t.uriTemplate).join(', ')}`);
+      }
+
+      const { text, mimeType } = await this.readResource(target);
+      return { contents: [{ uri, mimeType, text }] };
+    });
+  }
+
+  private setupPromptHandlers() {
+    this.server.setRequestHandler(ListPromptsRequestSchema, async () => ({
+      prompts: PROMPTS.map(({ name, description, arguments: promptArguments }) => ({ name, description, arguments: promptArguments })),
+    }));
+
+    this.server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+      const { name, arguments: args = {} } = request.params;
+      const prompt = findPrompt(name);
+      if (!prompt) {
+        throw new McpError(ErrorCode.InvalidParams, `Unknown prompt: ${name}. Available: ${PROMPTS.map(p => p.name).join(', ')}`);
+      }
+
+      const missing = prompt.arguments.filter(arg => arg.required && !args[arg.name]?.trim());
+      if (missing.length > 0) {
+        throw new McpError(ErrorCode.InvalidParams, `Missing required argument(s) for ${name}: ${missing.map(arg => arg.name).join(', ')}`);
+      }
+
+      return {
+        description: prompt.description,
+        messages: [{ role: 'user' as const, content: { type: 'text' as const, text: prompt.render(args) } }],
+      };
+    });
+  }
+
+  private async readResource(target: ResourceTarget): Promise<{ text: string; mimeType: string }> {
+    switch (target.kind) {
+      case 'legislation': {
+        // Manifestations are served as they are
+        if (target.mimeType !== MARKDOWN) {
+          const headers = { Accept: target.mimeType };
+          const response = await this.api.get(this.api.resolveUrl(this.toApiPath(target.eli)), { headers });
+          return { text: String(response.data), mimeType: target.mimeType };
+        }
+
+        const ref = parseEli(target.eli);
+        const { law } = ref ? await this.loadLawByEli(ref) : { law: null };
+        if (!law) throw new McpError(ErrorCode.InvalidParams, `No law found for ELI "${target.eli}"`);
+
+        const { document } = await this.fetchLawDocument(law);
+        return { text: formatLawMarkdown(document), mimeType: MARKDOWN };
+      }
+
+      case 'norm': {
+        const status = this.coverage.check(target.law);
+        if (status.state === 'unavailable') {
+          const alternative = status.alternatives[0] ? ` Official text: ${status.alternatives[0].url}` : '';
+          throw new McpError(ErrorCode.InvalidParams, `${status.entry?.abbreviation || target.law} is not in the testphase database.${alternative}`);
+        }
+
+        const label = `${target.designation === 'article' ? 'Art.' : '§'} ${target.number} ${target.law}`;
+        const { law } = await this.resolveLaw({ abbreviation: target.law });
+        if (!law) throw new McpError(ErrorCode.InvalidParams, `Law "${target.law}" not found for ${label}`);
+
+        const { document } = await this.fetchLawDocument(law);
+        const article = findArticle(document, { kind: target.designation, number: target.number });
+        if (!article) throw new McpError(ErrorCode.InvalidParams, `${label} not found in ${law.abbreviation || law.name || target.law}`);
+
+        const norm = extractNorm(article);
+        const source = `Quelle: ${this.generateElementUrl(law, norm.eId)} (Fassung vom ${document.expressionDate || this.getExpressionDate(law) || 'N/A'})`;
+        const title = `${label}${norm.heading ? ` – ${norm.heading}` : ''}`;
+        return { text: `${formatNormMarkdown(norm, 1, title)}\n\n${source}`, mimeType: MARKDOWN };
+      }
+
+      case 'case-law-ecli': {
+        const ecli = parseEcli(target.ecli);
+        if (!ecli) throw new McpError(ErrorCode.InvalidParams, `Invalid ECLI "${target.ecli}"`);
+
+        const { matches, candidates } = await this.resolveEcli(ecli);
+        if (matches.length !== 1) {
+          throw new McpError(ErrorCode.InvalidParams, this.formatEcliResolution(ecli, matches, candidates));
+        }
+        return this.readDecision(matches[0]['@id']);
+      }
+
+      case 'case-law':
+        return this.readDecision(target.documentNumber);
+    }
+  }
+
+  /**
+   * Decision metadata followed by the text of its HTML rendering
+   */
+  private async readDecision(documentId: string): Promise<{ text: string; mimeType: string }> {
+    const apiPath = this.toApiPath(documentId);
+    let decision: SearchResult['item'];
+    try {
+      decision = (await this.api.get(this.api.resolveUrl(apiPath))).data;
+    } catch (error: any) {
+      if (error.response?.status === 404) throw new McpError(ErrorCode.InvalidParams, `Court decision not found: ${documentId}`);
+      throw error;
+    }
+
+    let body = '';
+    try {
+      const html = await this.api.get(this.api.resolveUrl(`${apiPath}.html`), { headers: { Accept: 'text/html' } });
+      body = htmlToText(String(html.data));
+    } catch (error: any) {
+      if (error.response?.status !== 404 && error.response?.status !== 403) throw error;
+    }
+
+    const lines = [
+      `# ${decision.headline || decision.documentNumber || documentId}`,
+      [
+        `Gericht: ${this.formatCourtName(decision, 'N/A')}${decision.judicialBody ? ` (${decision.judicialBody})` : ''}`,
+        `Datum: ${decision.decisionDate || 'N/A'}`,
+        `Aktenzeichen: ${decision.fileNumbers?.join(', ') || 'N/A'}`,
+        `Dokumenttyp: ${decision.documentType || 'N/A'}`,
+        `ECLI: ${decision.ecli || 'N/A'}`,
+        `Quelle: ${this.generateHumanReadableUrl(decision)}`,
+      ].join('\n'),
+      body || '_Full text not available through the API; open the source link above._',
+    ];
+    return { text: lines.join('\n\n'), mimeType: MARKDOWN };
+  }
+
+  private async searchLegislation(args: any) {
+    const query: LegislationQuery = args.cursor
+      ? decodeCursor<LegislationQuery>(args.cursor, 'deutsche_gesetze_suchen')
+      : {
+          searchTerm: args.searchTerm,
+          temporalCoverageFrom: args.temporalCoverageFrom,
+          temporalCoverageTo: args.temporalCoverageTo,
+          size: pageSize(args.limit, 5),
+          pageIndex: 0,
         };
+    const { searchTerm, temporalCoverageFrom, temporalCoverageTo, size, pageIndex } = query;
+
+    const params = new URLSearchParams();
+    params.append('searchTerm', searchTerm);
+    if (temporalCoverageFrom) params.append('temporalCoverageFrom', temporalCoverageFrom);
+    if (temporalCoverageTo) params.append('temporalCoverageTo', temporalCoverageTo);
+
+    // A search for nothing but the abbreviation of a missing law cannot find it
+    const unavailable = this.laws.lookup(searchTerm || '') ? this.checkCoverage(searchTerm) : null;
+    const trace = currentTrace();
+    if (unavailable) {
+      trace?.notes.push(`"${searchTerm}" is the abbreviation of a law the database does not contain; nothing was searched`);
+      const structuredContent: SearchOutput = { query: searchTerm, results: [], unavailableLaws: this.findUnavailableLaws(searchTerm), stale: false };
+      return { ...unavailable, structuredContent };
+    }
+
+    if (args.facetten) {
+      const filters = facetFilters({ searchTerm, temporalCoverageFrom, temporalCoverageTo });
+      const { summary, responses } = await this.collectFacets('/legislation', [params], facetCap(args.facettenLimit), filters);
+      return this.formatFacetResponse('deutsche_gesetze_suchen', searchTerm, summary, responses, {}, this.findUnavailableLaws(searchTerm));
+    }
+
+    params.append('size', size.toString());
+    params.append('pageIndex', pageIndex.toString());
+
+    const response = await this.api.get('/legislation', { params });
+    const page = readPageInfo(response.data, pageIndex, size);
+    const nextCursor = page.hasNext ? encodeCursor('deutsche_gesetze_suchen', { ...query, pageIndex: pageIndex + 1 }) : undefined;
+    const count = response.data.member?.length || 0;
+    if (trace) {
+      (response.data.member || []).forEach((sr: SearchResult, index: number) =>
+        traceResult(trace, { ...this.traceItem(sr.item), kept: true, reason: `API rank ${pageIndex * size + index + 1}` }));
+    }
+
+    const structuredContent: SearchOutput = {
+      query: searchTerm,
+      results: (response.data.member || []).map((sr: SearchResult) => this.toSearchHit(sr.item, sr.textMatches)),
+      ...this.toPageOutput(page, nextCursor),
+      unavailableLaws: this.findUnavailableLaws(searchTerm),
+      stale: response.stale,
+    };
+    
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `${this.formatStaleNotice([response])}${this.formatCoverageNotice(searchTerm)}Found ${page.totalItems ?? count} German laws matching "${searchTerm}":\n${formatPageInfo(page, count, nextCursor)}\n\n${this.formatLegislationResults(response.data)}`,
+        },
+      ],
+      structuredContent,
+    };
+  }
+
+  private async searchCaseLaw(args: any) {
+    let query: CaseLawQuery;
+    if (args.cursor) {
+      query = decodeCursor<CaseLawQuery>(args.cursor, 'rechtsprechung_suchen');
+    } else {
+      const filter = this.resolveCourtFilter(args.court, args.jurisdiction);
+      query = {
+        searchTerm: args.searchTerm,
+        courts: filter?.courts.map(court => court.abbreviation),
+        senate: filter?.senate,
+        dateFrom: args.dateFrom,
+        dateTo: args.dateTo,
+        documentType: args.documentType,
+        size: pageSize(args.limit, 5),
+        pageIndex: 0,
+      };
+    }
+    const { searchTerm, courts, senate, dateFrom, dateTo, documentType, size, pageIndex } = query;
+    const trace = currentTrace();
+    if (trace && courts && courts.length > 1) trace.notes.push(`One request per court: ${courts.join(', ')}`);
+    if (trace && senate) trace.notes.push(`Senate "${senate}" is filtered on the results; the API filters by court only`);
+
+    // The API filters by one court per request
+    const searches = (courts?.length ? courts : [undefined]).map(court => {
+      const params = new URLSearchParams();
+      params.append('searchTerm', searchTerm);
+      if (court) params.append('court', court);
+      if (dateFrom) params.append('dateFrom', dateFrom);
+      if (dateTo) params.append('dateTo', dateTo);
+      if (documentType) params.append('type', documentType);
+      return params;
+    });
+
+    if (args.facetten) {
+      const court = courts?.length === 1 ? [courts[0], senate].filter(Boolean).join(' ') : undefined;
+      const jurisdiction = courts && courts.length > 1 ? args.jurisdiction : undefined;
+      const filters = facetFilters({ searchTerm, court, jurisdiction, dateFrom, dateTo, documentType });
+      const { summary, responses } = await this.collectFacets('/case-law', searches, facetCap(args.facettenLimit), filters, senate);
+      return this.formatFacetResponse('rechtsprechung_suchen', searchTerm, summary, responses, { court: true, dates: { from: 'dateFrom', to: 'dateTo' } });
+    }
+
+    const responses: ApiResponse[] = [];
+    let page: PageInfo;
+    let nextCursor: string | undefined;
+    let members: SearchResult[];
+    if (searches.length === 1) {
+      const [params] = searches;
+      params.append('size', size.toString());
+      params.append('pageIndex', pageIndex.toString());
+      const response = await this.api.get('/case-law', { params });
+      responses.push(response);
+      page = readPageInfo(response.data, pageIndex, size);
+      nextCursor = page.hasNext ? encodeCursor('rechtsprechung_suchen', { ...query, pageIndex: pageIndex + 1 }) : undefined;
+      members = response.data.member || [];
+    } else {
+      // Each court continues where the previous page left it; the page takes the newest decisions of all courts
+      const offsets = query.offsets ?? searches.map(() => 0);
+      const windows = [];
+      for (const [i, params] of searches.entries()) {
+        const window = await this.fetchCaseLawWindow(params, offsets[i], size);
+        responses.push(...window.responses);
+        windows.push(window);
+      }
+      const merged = mergePages(windows.map(window => window.members), size, (a, b) => (b.item.decisionDate || '').localeCompare(a.item.decisionDate || ''));
+      const totals = windows.map(window => window.totalItems);
+      page = {
+        pageIndex,
+        size,
+        totalItems: totals.every(total => total !== undefined) ? totals.reduce((sum, total) => sum! + total!, 0) : undefined,
+        hasNext: windows.some((window, i) => merged.taken[i] < window.members.length || window.hasMore),
+      };
+      nextCursor = page.hasNext
+        ? encodeCursor('rechtsprechung_suchen', { ...query, pageIndex: pageIndex + 1, offsets: offsets.map((offset, i) => offset + merged.taken[i]) })
+        : undefined;
+      members = merged.merged;
+      trace?.notes.push(`Results of ${searches.length} courts merged by decision date into a page of ${size}`);
+    }
+    const results = senate ? members.filter(result => matchesSenate(result.item.judicialBody, senate)) : members;
+    const count = members.length;
+    if (trace) {
+      for (const result of members) {
+        const kept = !senate || results.includes(result);
+        traceResult(trace, {
+          ...this.traceItem(result.item),
+          kept,
+          reason: kept
+            ? `${this.findDecisionCourt(result.item)?.abbreviation || result.item.courtName || 'court'}, ${result.item.decisionDate || 'no date'}`
+            : `judicial body "${result.item.judicialBody || 'unknown'}" is not the ${senate}`,
+        });
+      }
+    }
+
+    const courtNames = (courts ?? []).map(court => findCourt(court)).filter((court): court is Court => !!court).map(formatCourt);
+    const scope = courtNames.length > 0 ? ` at ${courtNames.join(', ')}${senate ? `, ${senate}` : ''}` : '';
+    const senateNotice = senate
+      ? `\n🏛️ **Senate filter:** ${results.length} of ${count} decisions on this page are from the ${senate} (the API filters by court only)`
+      : '';
+
+    const structuredContent: SearchOutput = {
+      query: searchTerm,
+      results: results.map(result => this.toSearchHit(result.item, result.textMatches)),
+      ...this.toPageOutput(page, nextCursor),
+      unavailableLaws: [],
+      stale: responses.some(response => response.stale),
+    };
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `${this.formatStaleNotice(responses)}Found ${page.totalItems ?? count} court decisions matching "${searchTerm}"${scope}:\n${formatPageInfo(page, count, nextCursor)}${senateNotice}\n\n${this.formatCaseLawResults({ member: results })}`,
+        },
+      ],
+      structuredContent,
+    };
+  }
+
+  /**
+   * Up to `size` results of one court search starting at `offset`, which
+   * need not fall on a page boundary; `hasMore` tells whether the API holds
+   * results beyond the returned ones
+   */
+  private async fetchCaseLawWindow(search: URLSearchParams, offset: number, size: number): Promise<{
+    members: SearchResult[];
+    hasMore: boolean;
+    totalItems?: number;
+    responses: ApiResponse[];
+  }> {
+    const responses: ApiResponse[] = [];
+    const members: SearchResult[] = [];
+    let skip = offset % size;
+    let info: PageInfo | undefined;
+    for (let pageIndex = Math.floor(offset / size); members.length < size; pageIndex++) {
+      const params = new URLSearchParams(search);
+      params.set('size', String(size));
+      params.set('pageIndex', String(pageIndex));
+      const response = await this.api.get('/case-law', { params });
+      responses.push(response);
+      info = readPageInfo(response.data, pageIndex, size);
+      members.push(...(response.data.member || []).slice(skip));
+      skip = 0;
+      if (!info.hasNext) break;
+    }
+    return {
+      members: members.slice(0, size),
+      hasMore: members.length > size || !!info?.hasNext,
+      totalItems: info?.totalItems,
+      responses,
+    };
+  }
+
+  /**
+   * Page through searches up to `cap` results in total and count them (facetten mode)
+   */
+  private async collectFacets(
+    endpoint: string,
+    searches: URLSearchParams[],
+    cap: number,
+    filters: Record<string, string>,
+    senate?: string
+  ): Promise<{ summary: FacetSummary; responses: ApiResponse[] }> {
+    currentTrace()?.notes.push(`facetten mode: up to ${cap} results are counted, not listed`);
+    const responses: ApiResponse[] = [];
+    const results = new Map<string, SearchResult>();
+    const perSearch = Math.ceil(cap / searches.length);
+    let totalItems: number | undefined = 0;
+    let complete = true;
+
+    for (const search of searches) {
+      let fetched = 0;
+      for (let pageIndex = 0; ; pageIndex++) {
+        const params = new URLSearchParams(search);
+        params.set('size', String(MAX_PAGE_SIZE));
+        params.set('pageIndex', String(pageIndex));
+        const response = await this.api.get(endpoint, { params });
+        responses.push(response);
+
+        const page = readPageInfo(response.data, pageIndex, MAX_PAGE_SIZE);
+        if (pageIndex === 0) totalItems = totalItems !== undefined && page.totalItems !== undefined ? totalItems + page.totalItems : undefined;
+
+        const members: SearchResult[] = response.data.member || [];
+        const counted = members.slice(0, perSearch - fetched);
+        for (const result of counted) results.set(result.item['@id'], result);
+        fetched += counted.length;
+
+        if (counted.length < members.length || (page.hasNext && fetched >= perSearch)) {
+          complete = false;
+          break;
+        }
+        if (!page.hasNext || members.length === 0) break;
       }
-      throw error; // Re-throw other errors
     }
+
+    const counted = [...results.values()].filter(result => !senate || matchesSenate(result.item.judicialBody, senate));
+    const summary: FacetSummary = {
+      filters,
+      scanned: counted.length,
+      ...(totalItems !== undefined ? { totalItems } : {}),
+      complete,
+      ...countFacets(counted.map(result => this.toFacetValues(result))),
+    };
+    return { summary, responses };
+  }
+
+  private toFacetValues(result: SearchResult): FacetValues {
+    const item = result.item;
+    const isLegislation = item['@type'] === 'Legislation';
+    const date = item.decisionDate || item.legislationDate || item.datePublished;
+    const text = (result.textMatches || []).map(match => match.text || '').join(' ');
+
+    return {
+      court: isLegislation ? undefined : this.findDecisionCourt(item)?.abbreviation || item.courtName || item.courtType,
+      year: date?.match(/^\d{4}/)?.[0],
+      documentType: item.documentType,
+      lawType: isLegislation ? this.classifyLawType(item) : undefined,
+      citedLaws: parseCitations(text).flatMap(chain => chain.citations.map(citation => citation.law ?? '')).filter(Boolean),
+    };
+  }
+
+  private formatFacetResponse(
+    tool: string,
+    query: string,
+    summary: FacetSummary,
+    responses: ApiResponse[],
+    hint: FacetHintOptions,
+    unavailableLaws: UnavailableLaw[] = []
+  ) {
+    const structuredContent: SearchOutput = {
+      query,
+      results: [],
+      ...(summary.totalItems !== undefined ? { totalItems: summary.totalItems } : {}),
+      unavailableLaws,
+      facets: summary,
+      stale: responses.some(response => response.stale),
+    };
+
+    return {
+      content: [{ type: 'text', text: `${this.formatStaleNotice(responses)}${formatFacets(summary, tool, hint)}` }],
+      structuredContent,
+    };
   }
 
-  private async intelligentLegalSearch(args: any) {
-    const { query, threshold = 0.3, limit = 5 } = args;
+  /**
+   * Courts for the court / jurisdiction arguments; throws with suggestions for unknown input
+   */
+  private resolveCourtFilter(court?: string, jurisdiction?: string): CourtFilter | null {
+    let filter: CourtFilter | null = null;
+
+    if (court && String(court).trim()) {
+      const selection = resolveCourt(String(court));
+      if (!selection) throw new Error(explainUnknownCourt(String(court)));
+      if (!selection.court.federal) throw new Error(explainStateCourt(selection.court));
+      filter = {
+        courts: [selection.court],
+        senate: selection.senate,
+        label: `${formatCourt(selection.court)}${selection.senate ? `, ${selection.senate}` : ''}`,
+      };
+    }
+
+    if (jurisdiction && String(jurisdiction).trim()) {
+      const resolved = resolveJurisdiction(String(jurisdiction));
+      if (!resolved) {
+        throw new Error(`Unknown jurisdiction "${jurisdiction}". Use one of: ${JURISDICTIONS.join(', ')}`);
+      }
+      if (filter && filter.courts[0].jurisdiction !== resolved) {
+        throw new Error(`${formatCourt(filter.courts[0])} belongs to the ${filter.courts[0].jurisdiction}, not the ${resolved}`);
+      }
+      filter ??= { courts: courtsOfJurisdiction(resolved), label: resolved };
+    }
+
+    return filter;
+  }
+
+  private findDecisionCourt(decision: SearchResult['item']): Court | undefined {
+    return findCourt(decision.courtName) ?? findCourt(decision.courtType);
+  }
+
+  /**
+   * Court as shown in results, e.g. "Bundessozialgericht (BSG)"
+   */
+  private formatCourtName(decision: SearchResult['item'], fallback = 'Unknown court'): string {
+    const court = this.findDecisionCourt(decision);
+    return court ? formatCourt(court) : decision.courtName || decision.courtType || fallback;
+  }
+
+  /**
+   * The citation argument of the norm tools, which address exactly one norm.
+   * `law` is given when the tool names the law separately (abbreviation, or
+   * an empty string for an ELI); the citation may then leave it out.
+   */
+  private parseSingleNorm(citation: string | undefined, law?: string): NormCitation {
+    const norm = parseNormCitation(citation || '', law);
+    if (!norm) {
+      const lawless = law === undefined ? parseNormCitation(citation || '', '') : null;
+      if (lawless) {
+        throw new Error(`Citation "${citation}" names no law. Add its abbreviation, e.g. "${formatNormCitation({ ...lawless, following: undefined, law: 'SGB X' })}"`);
+      }
+      throw new Error(`Could not parse citation "${citation}". Expected a format like "§ 44 SGB X" or "Art. 3 Abs. 1 GG"`);
+    }
+    if (norm.following) {
+      throw new Error(`"${citation}" refers to more than one norm (${norm.following}.). Cite a single norm, e.g. "${formatNormCitation({ ...norm, following: undefined })}"`);
+    }
+    return norm;
+  }
+
+  private async findCaseLawForNorm(args: any) {
+    const { citation, dateFrom, dateTo } = args;
+    const norm = this.parseSingleNorm(citation);
+    const label = formatNormCitation({ ...norm, satz: undefined, nummer: undefined, buchstabe: undefined, halbsatz: undefined });
+    const limit = pageSize(args.limit, 20);
+    const filter = this.resolveCourtFilter(args.court, args.jurisdiction);
+
+    // Each variant is searched once with a full page; most hits recur across variants
+    const searchTerms = citationSearchTerms(norm);
+    const responses: ApiResponse[] = [];
+    const failedTerms: string[] = [];
+    const candidates = new Map<string, SearchResult>();
+    const trace = currentTrace();
+    if (trace) trace.searchTerms = searchTerms.map(term => ({ term, source: `spelling of ${label}` }));
+
+    for (const term of searchTerms) {
+      for (const court of filter ? filter.courts : [undefined]) {
+        const params = new URLSearchParams({ searchTerm: term, size: String(MAX_PAGE_SIZE), pageIndex: '0' });
+        if (court) params.append('court', court.abbreviation);
+        if (dateFrom) params.append('dateFrom', dateFrom);
+        if (dateTo) params.append('dateTo', dateTo);
+
+        try {
+          const response = await this.api.get('/case-law', { params });
+          responses.push(response);
+          for (const result of response.data.member || []) {
+            if (!candidates.has(result.item['@id'])) candidates.set(result.item['@id'], result);
+          }
+        } catch (error) {
+          logger.warn('Case law search failed', { term, ...errorFields(error) });
+          if (!failedTerms.includes(term)) failedTerms.push(term);
+        }
+      }
+    }
+
+    if (responses.length === 0) {
+      throw new Error(`All case law searches for ${label} failed: ${failedTerms.join(', ')}`);
+    }
+
+    const checked = [...candidates.values()].map(result => ({ result, passages: findCitingPassages(result.textMatches || [], norm) }));
+    const verified = checked
+      .filter(candidate => candidate.passages.length > 0)
+      .filter(candidate => !filter?.senate || matchesSenate(candidate.result.item.judicialBody, filter.senate))
+      .sort((a, b) => (b.result.item.decisionDate || '').localeCompare(a.result.item.decisionDate || ''));
+    const shown = verified.slice(0, limit);
+    if (trace) {
+      const fetched = responses.reduce((sum, response) => sum + (response.data.member?.length || 0), 0);
+      trace.merge = { fetched, unique: candidates.size, duplicates: fetched - candidates.size };
+      for (const candidate of checked) {
+        const index = verified.indexOf(candidate);
+        traceResult(trace, {
+          ...this.traceItem(candidate.result.item),
+          kept: index >= 0 && index < limit,
+          reason: candidate.passages.length === 0
+            ? `matched text does not cite ${label}`
+            : index < 0
+              ? `judicial body "${candidate.result.item.judicialBody || 'unknown'}" is not the ${filter?.senate}`
+              : index < limit
+                ? `cites ${label} in ${candidate.passages.length} passage(s)`
+                : `cites ${label}, but older than the ${limit} newest`,
+        });
+      }
+    }
+    const groups = groupByCourt(
+      shown,
+      candidate => this.formatCourtName(candidate.result.item),
+      candidate => candidate.result.item.decisionDate
+    );
+
+    const structuredContent: NormCaseLawOutput = {
+      citation: label,
+      searchTerms,
+      ...(failedTerms.length > 0 ? { failedTerms } : {}),
+      courts: groups.map(group => ({
+        court: group.court,
+        decisions: group.items.map(({ result, passages }) => ({
+          ...this.toSearchHit(result.item, result.textMatches),
+          citingPassages: passages,
+        })),
+      })),
+      verified: verified.length,
+      unverified: candidates.size - verified.length,
+      stale: responses.some(response => response.stale),
+    };
+
+    const summary = `📚 **Rechtsprechung zu ${label}**${filter ? ` – ${filter.label}` : ''}
+
+**Search terms:** ${searchTerms.map(term => `"${term}"`).join(', ')}${failedTerms.length > 0 ? `\n⚠️ **Failed searches:** ${failedTerms.join(', ')}` : ''}
+**Decisions citing ${label}:** ${verified.length}${verified.length > shown.length ? ` (showing the ${shown.length} newest)` : ''}
+**Dropped:** ${candidates.size - verified.length} search hits whose matched text does not cite ${label}`;
+
+    if (shown.length === 0) {
+      return {
+        content: [{
+          type: 'text',
+          text: `${this.formatStaleNotice(responses)}${summary}\n\n❌ No decision in the search results cites ${label} in its matched text.\n\n💡 **Suggestions:**\n• Remove the Absatz or the court filter\n• Use rechtsprechung_suchen with the subject matter of the norm`,
+        }],
+        structuredContent,
+      };
+    }
+
+    const sections = groups.map(group => {
+      const decisions = group.items.map(({ result, passages }) => {
+        const decision = result.item;
+        return `**${this.formatDocumentLink(decision)}**
+📅 ${decision.decisionDate || 'N/A'} | ${decision.documentType || 'N/A'}${decision.judicialBody ? ` | ${decision.judicialBody}` : ''} | ${decision.fileNumbers?.join(', ') || 'N/A'}${decision.ecli ? `\n🔗 **ECLI:** ${decision.ecli}` : ''}
+${passages.slice(0, 3).map(passage => `> ${passage.excerpt}`).join('\n>\n')}`;
+      });
+      return `### 🏛️ ${group.court} (${group.items.length})\n\n${decisions.join('\n\n')}`;
+    });
+
+    return {
+      content: [{
+        type: 'text',
+        text: `${this.formatStaleNotice(responses)}${summary}\n\n${sections.join('\n\n' + '─'.repeat(80) + '\n\n')}\n\n📋 **Sources:**\n${groups.flatMap(group => group.items).map(({ result }, i) => `   ${i + 1}. ${this.formatDocumentLink(result.item)}`).join('\n')}`,
+      }],
+      structuredContent,
+    };
+  }
+
+  private async getDocumentDetails(args: any) {
+    const { documentId } = args;
+    // Models send "HTML" or " json "; anything else would break the output schema
+    const format = args.format === undefined || args.format === null ? 'json' : String(args.format).trim().toLowerCase();
+    if (!DOCUMENT_FORMATS.includes(format)) {
+      throw new Error(`Invalid format "${args.format}". Expected one of: ${DOCUMENT_FORMATS.join(', ')}`);
+    }
+
+    // ECLIs are not API paths; find the decision through the search API first
+    const ecli = ecliToResolve(documentId || '');
+    if (ecli) {
+      const { matches, candidates, responses } = await this.resolveEcli(ecli);
+      if (matches.length !== 1) {
+        const structuredContent: DocumentOutput = {
+          documentId,
+          found: false,
+          format,
+          candidates: (matches.length > 1 ? matches : candidates).map(item => this.toSearchHit(item)),
+          stale: responses.some(response => response.stale),
+        };
+        return {
+          content: [{ type: 'text', text: `${this.formatStaleNotice(responses)}${this.formatEcliResolution(ecli, matches, candidates)}` }],
+          structuredContent,
+        };
+      }
+
+      const result = await this.fetchDocumentDetails(matches[0]['@id'], format);
+      const header = `${this.formatStaleNotice(responses)}🔎 **Resolved ECLI:** ${ecli.ecli} → ${matches[0]['@id']}\n\n`;
+      return {
+        content: result.content.map(part => ({ ...part, text: `${header}${part.text}` })),
+        structuredContent: {
+          ...result.structuredContent,
+          documentId,
+          resolvedEcli: ecli.ecli,
+          stale: result.structuredContent.stale || responses.some(response => response.stale),
+        },
+      };
+    }
+
+    return this.fetchDocumentDetails(documentId, format);
+  }
+
+  /**
+   * API path for a document ID: API paths, portal or API URLs, ELIs and case-law document numbers
+   */
+  private toApiPath(documentId: string): string {
+    // Handle both API paths and full URLs
+    let apiPath = documentId;
+    if (documentId.startsWith('http')) {
+      // Extract API path from full URL
+      const url = new URL(documentId);
+
+      // Handle /norms/ URLs (these are user-facing URLs, not API paths)
+      if (url.pathname.startsWith('/norms/')) {
+        // /norms/ URLs map to /v1/legislation/ endpoints
+        // Extract the ELI path after /norms/
+        // Example: /norms/eli/bund/bgbl-1/2006/s2748/2025-05-01/1/deu
+        // becomes: /v1/legislation/eli/bund/bgbl-1/2006/s2748/2025-05-01/1/deu
+        apiPath = url.pathname.replace('/norms/', '/v1/legislation/');
+      } else if (url.pathname.startsWith('/case-law/')) {
+        // Already correct API path format
+        apiPath = url.pathname;
+      } else if (url.pathname.startsWith('/v1/')) {
+        // Already an API path
+        apiPath = url.pathname;
+      } else {
+        // Use the path as-is and hope for the best
+        apiPath = url.pathname;
+      }
+    } else if (!documentId.startsWith('/v1/')) {
+      // If it's not a URL and doesn't start with /v1/, assume it's a document number
+      // Try to determine the type and construct the correct path
+      if (documentId.includes('eli/bund/')) {
+        apiPath = `/v1/legislation/${documentId}`;
+      } else {
+        // Assume it's a case law document number
+        apiPath = `/v1/case-law/${documentId}`;
+      }
+    }
+
+    return apiPath;
+  }
+
+  private async fetchDocumentDetails(documentId: string, format: string): Promise<{
+    content: Array<{ type: 'text'; text: string }>;
+    structuredContent: DocumentOutput;
+  }> {
+    const apiPath = this.toApiPath(documentId);
+
+    const headers: any = {};
+    if (format === 'html') headers['Accept'] = 'text/html';
+    if (format === 'xml') headers['Accept'] = 'application/xml';
+
+    // Construct the full URL, avoiding double /v1/ prefix
+    const fullUrl = this.api.resolveUrl(apiPath);
+
+    try {
+      const response = await this.api.get(fullUrl, { headers });
+      const raw = format === 'html' || format === 'xml';
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `${this.formatStaleNotice([response])}Document details for ${documentId}:\n\n${this.formatDocumentDetails(response.data, format)}`,
+          },
+        ],
+        structuredContent: {
+          documentId,
+          found: true,
+          format,
+          apiUrl: fullUrl,
+          ...(raw ? { content: String(response.data) } : { document: response.data }),
+          stale: response.stale,
+        },
+      };
+    } catch (error: any) {
+      const notFound = (status: number): DocumentOutput => ({ documentId, found: false, format, apiUrl: fullUrl, status, stale: false });
+
+      if (error.response?.status === 404) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `❌ Document not found (404) for: ${documentId}
+
+⚠️ **This document path is not available in the testphase database.**
+
+💡 **What you can do instead:**
+1. Search for the document first using intelligente_rechtssuche or deutsche_gesetze_suchen
+2. Use the \`@id\` URLs returned from search results with this tool
+3. Not all documents are accessible yet in the testphase API
+
+**API Path attempted:** ${fullUrl}`,
+            },
+          ],
+          structuredContent: notFound(404),
+        };
+      }
+
+      if (error.response?.status === 403) {
+        // 403 Forbidden - provide helpful guidance
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `❌ Access forbidden (403) for document: ${documentId}
+
+⚠️ **The API does not support direct access to this document path.**
+
+💡 **What you can do instead:**
+1. The search results already contain the most relevant content in the text matches
+2. For the full document text, use the web URL directly in a browser:
+   ${documentId.startsWith('http') ? documentId : `${config.portalOrigin}${apiPath}`}
+
+3. Try searching for more specific terms to get richer text matches
+
+**API Path attempted:** ${fullUrl}
+
+**Note:** The rechtsinformationen.bund.de API primarily provides search and metadata access. Full document content is best accessed via the web interface.`,
+            },
+          ],
+          structuredContent: notFound(403),
+        };
+      }
+      throw error; // Re-throw other errors
+    }
+  }
+
+  /**
+   * Find case-law documents carrying an ECLI. Searches for the full ECLI
+   * first and for its ordinal part if that yields no exact match.
+   */
+  private async resolveEcli(ref: EcliReference): Promise<{
+    matches: SearchResult['item'][];
+    candidates: SearchResult['item'][];
+    responses: ApiResponse[];
+  }> {
+    const responses: ApiResponse[] = [];
+    const candidates = new Map<string, SearchResult['item']>();
+
+    for (const searchTerm of [ref.ecli, ref.ordinal]) {
+      const response = await this.api.get('/case-law', { params: { searchTerm, size: 20 } });
+      responses.push(response);
+
+      const items: SearchResult['item'][] = (response.data.member || [])
+        .map((member: SearchResult) => member.item)
+        .filter((item: SearchResult['item'] | undefined) => item?.ecli);
+
+      const matches = items.filter(item => isSameEcli(item.ecli!, ref.ecli));
+      if (matches.length > 0) {
+        const unique = [...new Map(matches.map(item => [item['@id'], item])).values()];
+        return { matches: unique, candidates: unique, responses };
+      }
+
+      // Same court and year with an overlapping ordinal, e.g. a missing ".0" suffix
+      for (const item of items) {
+        const other = parseEcli(item.ecli!);
+        const ordinal = ref.ordinal.toLowerCase();
+        const otherOrdinal = other?.ordinal.toLowerCase() || '';
+        if (other && other.court.toLowerCase() === ref.court.toLowerCase() && other.year === ref.year &&
+            (otherOrdinal.startsWith(ordinal) || ordinal.startsWith(otherOrdinal))) {
+          candidates.set(item['@id'], item);
+        }
+      }
+    }
+
+    return { matches: [], candidates: [...candidates.values()], responses };
+  }
+
+  private formatEcliResolution(ref: EcliReference, matches: SearchResult['item'][], candidates: SearchResult['item'][]): string {
+    const list = (items: SearchResult['item'][]) => items.slice(0, 10).map((item, i) =>
+      `   ${i + 1}. ${item.ecli} – ${this.formatCourtName(item)}, ${item.decisionDate || 'N/A'}, ${item.fileNumbers?.join(', ') || 'N/A'}\n      📄 documentId: ${item['@id']}`
+    ).join('\n');
+
+    if (matches.length > 1) {
+      return `⚠️ **AMBIGUOUS ECLI:** ${ref.ecli} matches ${matches.length} documents\n\n${list(matches)}\n\n💡 Call dokument_details_abrufen again with the documentId of the intended decision.`;
+    }
+
+    if (candidates.length > 0) {
+      return `⚠️ **NO EXACT MATCH FOR ECLI:** ${ref.ecli}\n\n**Similar ECLIs (${candidates.length}):**\n${list(candidates)}\n\n💡 Check the ECLI, or call dokument_details_abrufen with the documentId of the intended decision.`;
+    }
+
+    return `❌ No court decision found for ECLI: ${ref.ecli}
+
+⚠️ **This decision is not available in the testphase database** (or the ECLI is misspelled).
+
+💡 **What you can do instead:**
+1. Search by file number (Aktenzeichen) with rechtsprechung_suchen
+2. Open the decision in the portal: ${config.portalOrigin}/case-law/ecli/${ref.ecli}`;
+  }
+
+  private async intelligentLegalSearch(args: any) {
+    const state: IntelligentSearchQuery = args.cursor
+      ? decodeCursor<IntelligentSearchQuery>(args.cursor, 'intelligente_rechtssuche')
+      : {
+          query: args.query,
+          // Convert parameters to correct types if they're strings (for model compatibility)
+          threshold: typeof args.threshold === 'string' ? parseFloat(args.threshold) : args.threshold ?? 0,
+          limit: pageSize(args.limit, 5),
+          pageIndex: 0,
+        };
+    const { query, threshold: numericThreshold, limit: numericLimit, pageIndex } = state;
+    // Every term fetches more than the limit so that re-ranking has candidates to choose from
+    const termSize = Math.min(Math.max(numericLimit * 2, 10), MAX_PAGE_SIZE);
+    
+    // STEP 0: Detect language and translate English to German
+    const germanQuery = this.translateEnglishToGerman(query);
+    const actualQuery = germanQuery !== query ? germanQuery : query;
+    const trace = currentTrace();
+    if (trace) trace.language = this.isEnglishQuery(query) ? { detected: 'en', translatedQuery: germanQuery } : { detected: 'de' };
+    
+    if (args.facetten) {
+      const params = new URLSearchParams({ searchTerm: actualQuery });
+      const { summary, responses } = await this.collectFacets('/document', [params], facetCap(args.facettenLimit), { query: actualQuery });
+      return this.formatFacetResponse('intelligente_rechtssuche', query, summary, responses, {}, this.findUnavailableLaws(actualQuery));
+    }
+
+    // STEP 1: Extract and validate legal references
+    const legalReferences = this.extractLegalReferences(actualQuery);
+    
+    // STEP 2: Map concepts to correct legal terms
+    const conceptMappings = this.mapLegalConcepts(actualQuery);
+    
+    // STEP 3: Generate intelligent search terms: validated legal references first
+    // (highest priority), then corrected concepts, then expansions of the query's words
+    const termPriorities = new Map<string, SearchPriority>();
+    const addTerms = (terms: string[], priority: SearchPriority, max: number) => {
+      const added = terms.filter(term => term && term.length > 2 && !termPriorities.has(term)).slice(0, max);
+      for (const term of added) termPriorities.set(term, priority);
+    };
+    addTerms(legalReferences.validReferences, 'high', MAX_REFERENCE_TERMS);
+    addTerms(conceptMappings.correctedTerms, 'medium', MAX_CONCEPT_TERMS);
+    addTerms(this.expandLegalTerms(actualQuery), 'low', MAX_EXPANSION_TERMS);
+    if (trace) {
+      trace.citations = { valid: legalReferences.validReferences, invalid: legalReferences.invalidReferences };
+      trace.conceptMappings = conceptMappings.explanations;
+    }
+
+    const search = (term: string) => this.api.get('/document', { params: { searchTerm: term, size: termSize, pageIndex } });
+    const fanOutOptions = {
+      concurrency: config.searchConcurrency,
+      taskTimeout: config.searchTermTimeout,
+      budget: config.searchBudget,
+      startedAt: Date.now(),
+    };
+
+    // STEP 4: Search all terms concurrently within the time budget
+    const outcomes = await fanOut([...termPriorities.keys()], search, fanOutOptions);
+
+    // STEP 5: Fallback - search with original query if no results yet
+    const found = outcomes.some(outcome => outcome.status === 'ok' && outcome.value.data.member?.length > 0);
+    const fallback = !found && !termPriorities.has(actualQuery);
+    if (fallback) {
+      termPriorities.set(actualQuery, 'low');
+      outcomes.push(...await fanOut([actualQuery], search, fanOutOptions));
+    }
+    if (trace) {
+      trace.searchTerms = [...termPriorities].map(([term, priority]) => ({
+        term,
+        source: fallback && term === actualQuery ? 'query (fallback, no results for the other terms)' : TERM_SOURCES[priority],
+      }));
+    }
+
+    const allDocuments: any[] = [];
+    const responses: ApiResponse[] = [];
+    const searchedTerms: string[] = [];
+    const termPages: Array<{ term: string; page: PageInfo }> = [];
+    const failedTerms: FailedTerm[] = [];
+
+    for (const outcome of outcomes) {
+      const term = outcome.key;
+      if (outcome.status !== 'skipped') searchedTerms.push(term);
+      if (outcome.status !== 'ok') {
+        failedTerms.push({ term, reason: outcome.status, message: outcome.message });
+        trace?.notes.push(`"${term}" ${outcome.status === 'skipped' ? 'not searched' : 'failed'}: ${outcome.message}`);
+        continue;
+      }
+
+      const response = outcome.value;
+      responses.push(response);
+      termPages.push({ term, page: readPageInfo(response.data, pageIndex, termSize) });
+      for (const sr of (response.data.member || []) as SearchResult[]) {
+        allDocuments.push({
+          title: sr.item?.headline || sr.item?.name || '',
+          summary: sr.textMatches?.map((tm) => tm.text).join(' ') || '',
+          content: sr.textMatches?.map((tm) => tm.text).join(' ') || '',
+          originalResult: sr,
+          searchTerm: term,
+          priority: termPriorities.get(term),
+        });
+      }
+    }
+
+    // Remove duplicates based on document ID; the first term that found a document keeps it
+    const documentsById = new Map<string, any>();
+    const duplicates: any[] = [];
+    for (const doc of allDocuments) {
+      const id = doc.originalResult.item?.documentNumber || doc.originalResult.item?.['@id'];
+      if (!id) documentsById.set(`#${documentsById.size}`, doc);
+      else if (!documentsById.has(id)) documentsById.set(id, doc);
+      else duplicates.push(doc);
+    }
+    const uniqueDocuments = [...documentsById.values()];
+    if (trace) trace.merge = { fetched: allDocuments.length, unique: uniqueDocuments.length, duplicates: duplicates.length };
+    const failureNotice = failedTerms.length > 0
+      ? `\n⚠️ **Searches that failed:** ${failedTerms.map(({ term, reason, message }) => `"${term}" (${reason}: ${message})`).join(', ')}`
+      : '';
+    
+    // The next page continues every search term that reported more hits
+    const nextCursor = termPages.some(({ page }) => page.hasNext)
+      ? encodeCursor('intelligente_rechtssuche', { ...state, pageIndex: pageIndex + 1 })
+      : undefined;
+    const termTotals = termPages
+      .filter(({ page }) => page.totalItems !== undefined)
+      .map(({ term, page }) => ({ term, totalItems: page.totalItems! }));
+    const pageOutput = { pageIndex, ...(nextCursor ? { nextCursor } : {}), termTotals, ...(failedTerms.length > 0 ? { failedTerms } : {}) };
+    const pageNotice = `${termTotals.length > 0 ? `\n📊 Hits per search term: ${termTotals.map(({ term, totalItems }) => `"${term}": ${totalItems}`).join(', ')}` : ''}${failureNotice}${pageIndex > 0 ? `\n📄 Page ${pageIndex + 1}` : ''}${nextCursor ? `\n➡️ **More results:** call again with cursor: "${nextCursor}"` : ''}`;
+
+    if (uniqueDocuments.length === 0) {
+      // Prepare translation info for display
+      const translationInfo = germanQuery !== query ? `\n🌐 **Query translated from English**: "${query}" → "${germanQuery}"` : '';
+
+      // Generate helpful suggestions based on the query
+      const suggestions = [];
+      const queryCitations = parseCitations(actualQuery);
+      if (queryCitations.length > 0) {
+        suggestions.push('Try searching for the law abbreviation (e.g., "BEEG", "BGB", "SGB")');
+        const [norm] = queryCitations.flatMap(chain => chain.citations.flatMap(citation => toNormCitations(citation)));
+        if (norm) suggestions.push(`Read the norm directly with norm_abrufen: "${formatNormCitation({ ...norm, following: undefined })}"`);
+      } else {
+        suggestions.push('Try searching with specific § references if known (e.g., "§ 15 BEEG")');
+      }
+      suggestions.push('Try broader search terms (e.g., just the law name or main topic)');
+      suggestions.push('Try law abbreviations: BEEG, BGB, SGB, StGB, ZPO, etc.');
+
+      const structuredContent: SearchOutput = {
+        query,
+        ...(actualQuery !== query ? { effectiveQuery: actualQuery } : {}),
+        searchTerms: searchedTerms,
+        results: [],
+        ...pageOutput,
+        unavailableLaws: this.findUnavailableLaws(actualQuery),
+        stale: responses.some(response => response.stale),
+      };
+
+      return {
+        structuredContent,
+        content: [{
+          type: 'text',
+          text: `${this.formatStaleNotice(responses)}${this.formatCoverageNotice(actualQuery)}🔍 Intelligent Legal Search Results for "${query}"${translationInfo}\n\n❌ No documents found despite trying:\n• Legal references: ${legalReferences.validReferences.join(', ') || 'none detected'}\n• Concept mappings: ${conceptMappings.correctedTerms.slice(0, 3).join(', ') || 'none'}\n• Direct search: "${actualQuery}"${pageNotice}\n\n💡 Suggestions:\n${suggestions.map(s => `• ${s}`).join('\n')}`
+        }]
+      };
+    }
+    
+    // Sort documents by priority first; the ranking keeps this order for equal scores
+    const prioritySort = (a: any, b: any) => {
+      const priorityOrder: { [key: string]: number } = { 'high': 3, 'medium': 2, 'low': 1 };
+      return (priorityOrder[b.priority] || 0) - (priorityOrder[a.priority] || 0);
+    };
+
+    uniqueDocuments.sort(prioritySort);
+
+    // BM25 over title and text matches; threshold drops results below a relevance
+    const lexicon = this.laws.lexicon;
+    const ranked = rankBm25(actualQuery, uniqueDocuments, doc => ({ title: doc.title, text: doc.content }), text => lexicon.analyze(text));
+    const finalResults = ranked.filter(result => result.relevance >= numericThreshold).slice(0, numericLimit);
+
+    if (trace) {
+      let rank = 0;
+      for (const result of ranked) {
+        const passes = result.relevance >= numericThreshold;
+        if (passes) rank++;
+        const kept = passes && rank <= numericLimit;
+        traceResult(trace, {
+          ...this.traceItem(result.item.originalResult.item),
+          kept,
+          reason: !passes
+            ? `relevance below threshold ${numericThreshold}`
+            : kept
+              ? `rank ${rank}${result.matchedTerms.length > 0 ? `, matched: ${result.matchedTerms.join(', ')}` : ', no query term matched'}`
+              : `rank ${rank}, beyond limit of ${numericLimit}`,
+          score: Math.round(result.score * 100) / 100,
+          relevance: Math.round(result.relevance * 100) / 100,
+          foundVia: result.item.searchTerm,
+        });
+      }
+      for (const doc of duplicates) {
+        const first = documentsById.get(doc.originalResult.item?.documentNumber || doc.originalResult.item?.['@id']);
+        traceResult(trace, {
+          ...this.traceItem(doc.originalResult.item),
+          kept: false,
+          reason: `duplicate, already found via "${first.searchTerm}"`,
+          foundVia: doc.searchTerm,
+        });
+      }
+    }
+
+    // Prepare translation info for display
+    const translationInfo = germanQuery !== query ? `\n🌐 **Query translated from English**: "${query}" → "${germanQuery}"` : '';
+
+    const structuredContent: SearchOutput = {
+      query,
+      ...(actualQuery !== query ? { effectiveQuery: actualQuery } : {}),
+      searchTerms: searchedTerms,
+      results: finalResults.map(result => {
+        const sr: SearchResult = result.item.originalResult;
+        return this.toSearchHit(sr.item, sr.textMatches, {
+          confidence: Math.round(result.relevance * 100) / 100,
+          foundVia: result.item.searchTerm,
+        });
+      }),
+      ...pageOutput,
+      unavailableLaws: this.findUnavailableLaws(actualQuery),
+      stale: responses.some(response => response.stale),
+    };
+    
+    return {
+      structuredContent,
+      content: [
+        {
+          type: 'text',
+          text: `${this.formatStaleNotice(responses)}${this.formatCoverageNotice(actualQuery)}🔍 Intelligent Legal Search Results for "${query}"${translationInfo}\n\n✅ Found ${finalResults.length} documents from ${uniqueDocuments.length} total\n📚 Search strategy: ${legalReferences.validReferences.length > 0 ? 'Legal references + ' : ''}${conceptMappings.correctedTerms.length > 0 ? 'Concept mapping' : 'Standard search'}${pageNotice}\n\n${this.formatEnhancedSemanticResults(finalResults, conceptMappings.explanations, actualQuery)}`,
+        },
+      ],
+    };
+  }
+  
+  /**
+   * Check if query appears to be in English (contains English legal terms)
+   */
+  private isEnglishQuery(query: string): boolean {
+    const lowerQuery = query.toLowerCase();
+    return this.knowledge.englishIndicators.some(term => lowerQuery.includes(term.toLowerCase()));
+  }
+
+  private translateEnglishToGerman(query: string): string {
+    const { translations } = this.knowledge;
+
+    if (!this.isEnglishQuery(query)) {
+      return query; // Already German or not English
+    }
+    
+    let translatedQuery = query;
+    
+    // Apply translations (longer phrases first to avoid partial matches)
+    const sortedKeys = Object.keys(translations).sort((a, b) => b.length - a.length);
+    
+    for (const englishTerm of sortedKeys) {
+      const germanTerm = translations[englishTerm];
+      const regex = new RegExp(`\\b${englishTerm.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\b`, 'gi');
+      translatedQuery = translatedQuery.replace(regex, germanTerm);
+    }
+    
+    return translatedQuery;
+  }
+  
+  private extractLegalReferences(query: string): { validReferences: string[], invalidReferences: string[] } {
+    const validReferences: string[] = [];
+    const invalidReferences: string[] = [];
+
+    // Each citation of an i.V.m. chain becomes its own search term
+    for (const chain of parseCitations(query)) {
+      for (const citation of chain.citations) {
+        const reference = formatCitation({ ...citation, lawInherited: false });
+        (citation.law ? validReferences : invalidReferences).push(reference);
+      }
+    }
+
+    // Also extract just the law abbreviations; only those the registry knows,
+    // the pattern also matches "GmbH", "USA" or "API"
+    validReferences.push(...findLawAbbreviations(query).filter(abbreviation => this.laws.lookup(abbreviation)));
+
+    return {
+      validReferences: [...new Set(validReferences)],
+      invalidReferences: [...new Set(invalidReferences)]
+    };
+  }
+
+  /**
+   * Normalized citations found in a text, e.g. for the "key references" of search results
+   */
+  private findCitations(text: string, options: { requireLaw?: boolean } = {}): string[] {
+    const chains = parseCitations(text).filter(chain => !options.requireLaw || chain.citations.every(citation => citation.law));
+    return [...new Set(chains.map(formatCitationChain))];
+  }
+
+  private mapLegalConcepts(query: string): { correctedTerms: string[], explanations: string[] } {
+    const correctedTerms: string[] = [];
+    const explanations: string[] = [];
+    const lowerQuery = query.toLowerCase();
+
+    const { sgbAliases, conceptMap, misconceptions } = this.knowledge;
+
+    // Sozialgesetzbuch alias expansion: users search for "Sozialgesetzbuch Erstes Buch"
+    // but the index may have "SGB I"
+    for (const [pattern, aliases] of Object.entries(sgbAliases)) {
+      if (lowerQuery.includes(pattern.toLowerCase())) {
+        correctedTerms.push(...aliases);
+        explanations.push(`"${pattern}" expanded to: ${aliases.join(', ')}`);
+      }
+    }
+
+    // Concept mapping for common misunderstandings
+    for (const [concept, corrections] of Object.entries(conceptMap)) {
+      if (lowerQuery.includes(concept.toLowerCase())) {
+        correctedTerms.push(...corrections);
+        explanations.push(`"${concept}" mapped to: ${corrections.join(', ')}`);
+      }
+    }
+    
+    // Specific misconception corrections for common legal errors
+    for (const rule of misconceptions) {
+      if (matchesCondition(rule.when, lowerQuery)) {
+        correctedTerms.push(...rule.terms);
+        explanations.push(rule.explanation);
+      }
+    }
+    
+    // Remove duplicates and filter out empty terms
+    const uniqueTerms = [...new Set(correctedTerms)].filter(term => term && term.length > 2);
+    
+    // Debug logging can be enabled here if needed
+    
+    return {
+      correctedTerms: uniqueTerms,
+      explanations
+    };
+  }
+
+  private expandLegalTerms(query: string): string[] {
+    const expansions: string[] = [];
+    const lowerQuery = query.toLowerCase();
+
+    // Topic rules; "parts" also match compound parts, whichever way the query writes them
+    const terms = new Set(this.laws.lexicon.analyze(query));
+    for (const rule of this.knowledge.expansions) {
+      const matches = (!rule.when || matchesCondition(rule.when, lowerQuery))
+        && (!rule.parts || rule.parts.every(part => terms.has(analyzeGerman(part)[0])));
+      if (matches) expansions.push(...rule.terms);
+    }
+
+    // Compounds: the word without its head ("Kündigungsschutzklage" → "Kündigungsschutz")
+    // and its longer parts ("Kündigung"), so that searches also find the related terms
+    for (const word of query.split(/[^A-Za-zÄÖÜäöüß]+/)) {
+      const parts = this.laws.lexicon.decompose(word);
+      if (parts.length < 2) continue;
+
+      const modifier = word.slice(0, parts[parts.length - 2].end);
+      if (parts.length > 2 && modifier.length > 5) expansions.push(modifier.charAt(0).toUpperCase() + modifier.slice(1));
+      expansions.push(...parts.map(part => part.lemma).filter(lemma => lemma.length > 5));
+    }
+
+    // Remove duplicates and filter empty
+    return [...new Set(expansions)].filter(term => term && term.length > 0);
+  }
+
+  /**
+   * Generate human-readable HTML URL from document data
+   *
+   * Converts API JSON URLs to HTML viewer URLs:
+   * - Legislation: /v1/legislation/eli/... → /norms/eli/...
+   * - Case Law: /v1/case-law/... → /case-law/...
+   */
+  private generateHumanReadableUrl(doc: any): string {
+    // For legislation - use workExample for the correct versioned URL
+    if (doc['@type'] === 'Legislation') {
+      // Prefer workExample which has the full versioned path
+      const documentUrl = doc.workExample?.['@id'] || doc['@id'] || '';
+
+      // Convert /v1/legislation/eli/... to /norms/eli/...
+      if (documentUrl.includes('/v1/legislation/eli/')) {
+        return `${config.portalOrigin}${documentUrl.replace('/v1/legislation/', '/norms/')}`;
+      }
+
+      // Fallback for non-ELI legislation URLs
+      return `${config.portalOrigin}${documentUrl.replace('/v1', '')}`;
+    }
+
+    // For case law - use ECLI format or document path
+    if (doc['@type'] === 'CaseLaw' || doc.ecli) {
+      if (doc.ecli) {
+        // ECLI format: convert to /case-law/ecli/... path
+        return `${config.portalOrigin}/case-law/ecli/${doc.ecli}`;
+      }
+      // Standard document path
+      const documentUrl = doc['@id'] || '';
+      return `${config.portalOrigin}${documentUrl.replace('/v1', '')}`;
+    }
+
+    // Fallback for other document types
+    const documentUrl = doc['@id'] || '';
+    return `${config.portalOrigin}${documentUrl.replace('/v1', '')}`;
+  }
+
+  /**
+   * Warn the agent when any response was served from an expired cache entry
+   */
+  private formatStaleNotice(responses: ApiResponse[]): string {
+    const stale = responses.filter(response => response.stale);
+    if (stale.length === 0) return '';
+
+    const oldest = new Date(Math.min(...stale.map(response => response.fetchedAt))).toISOString();
+    return `⚠️ **STALE DATA:** The rechtsinformationen.bund.de API is currently failing. ${stale.length} of ${responses.length} responses below come from the cache (fetched ${oldest}) and may be outdated.\n\n`;
+  }
+
+  /**
+   * Format document as markdown link with name
+   */
+  private formatDocumentLink(doc: any): string {
+    const name = doc.headline || doc.name || 'Untitled Document';
+    const url = this.generateHumanReadableUrl(doc);
+    return `[${name}](${url})`;
+  }
+
+  private formatLegislationResults(data: any): string {
+    if (!data.member || data.member.length === 0) {
+      return 'No legislation found.';
+    }
+
+    const sourceHeader = `\n🏛️ **OFFICIAL GERMAN FEDERAL LEGISLATION - MUST CITE** (rechtsinformationen.bund.de)\n${'='.repeat(80)}\n⚠️ **IMPORTANT INSTRUCTIONS FOR YOUR RESPONSE:**
+1. Base your answer ONLY on the information provided below
+2. Include ALL URLs listed at the bottom in your "Quellen" or "Sources" section
+3. Cite specific § references (e.g., "§ 15 BEEG") in your answer
+4. DO NOT add external knowledge not found in these sources
+
+`;
+    
+    const results = data.member.map((searchResult: SearchResult, index: number) => {
+      const law = searchResult.item;
+      const textMatches = searchResult.textMatches || [];
+      
+      // Extract relevant text matches by category
+      const relevantTexts = textMatches.reduce((acc, match) => {
+        acc[match.name] = match.text;
+        return acc;
+      }, {} as any);
+      
+      // Look for specific legal references (§ sections)
+      const allContent = textMatches.map(m => m.text || '').join(' ');
+      const keyCitations = this.findCitations(allContent, { requireLaw: true });
+      
+      // CORRECT API USAGE: Use workExample for expression-level (concrete document) access
+      // Main item['@id'] = work level (abstract law concept): "/v1/legislation/eli/bund/bgbl-1/2007/s2942/regelungstext-1"
+      // workExample['@id'] = expression level (concrete version): "/v1/legislation/eli/bund/bgbl-1/2007/s2942/2024-08-20/1/deu/regelungstext-1"
+      // This follows semantic web design principles per API documentation
+      let documentUrl = law['@id'];
+      if (law.workExample && law.workExample['@id']) {
+        documentUrl = law.workExample['@id']; // Contains complete versioned path
+      }
+      
+      // Construct both API URL (JSON) and Web URL (HTML)
+      const apiUrl = `${config.portalOrigin}${documentUrl}`;
+
+      // Try to get HTML URL from workExample encoding field
+      let htmlUrl = apiUrl; // Fallback to API URL
+      const workExample = law.workExample as any;
+      if (workExample && workExample.encoding) {
+        const htmlEncoding = workExample.encoding.find((enc: any) =>
+          enc.encodingFormat === 'text/html' && enc.contentUrl
+        );
+        if (htmlEncoding) {
+          htmlUrl = `${config.portalOrigin}${htmlEncoding.contentUrl}`;
+        }
+      }
+
+      // Create reference information for the user
+      let referenceInfo = `${law.eli || law.documentNumber || 'Unknown ID'}`;
+      if (law.eli && law.eli.includes('bgbl')) {
+        const eliMatch = law.eli.match(/eli\/bund\/bgbl-([IVX]+)\/(\d+)\/s(\d+)/);
+        if (eliMatch) {
+          const [, roman, year, page] = eliMatch;
+          referenceInfo = `Bundesgesetzblatt ${year} Teil ${roman} S. ${page}`;
+        }
+      }
+      
+      // Generate human-readable markdown link
+      const docLink = this.formatDocumentLink(law);
+
+      // Extract metadata information (Expression level data)
+      const metadataInfo = [];
+      if (law.legislationDate) metadataInfo.push(`**Legislation Date:** ${law.legislationDate}`);
+      if (law.datePublished) metadataInfo.push(`**Published:** ${law.datePublished}`);
+      if (law.temporalCoverage) metadataInfo.push(`**Valid Period:** ${law.temporalCoverage}`);
+      if (typeof law.inForce === 'boolean') metadataInfo.push(`**In Force:** ${law.inForce ? '✅ Yes' : '❌ No'}`);
+
+      return `**📋 OFFICIAL LAW ${index + 1} - CITE THIS:** ${docLink}
+📋 **Law Type:** ${law['@type']} | **Date:** ${law.legislationDate || law.decisionDate || 'N/A'}
+🔗 **ELI Identifier:** ${law.eli || law.documentNumber || 'N/A'}
+📖 **Abbreviation:** ${law.abbreviation || 'N/A'}
+${metadataInfo.length > 0 ? `📅 **METADATA (for validity/date questions):** ${metadataInfo.join(' | ')}` : ''}
+${keyCitations.length > 0 ? `⚖️ **KEY LEGAL REFERENCES TO CITE:** ${keyCitations.slice(0, 3).join(', ')}` : ''}
+
+📝 **Law Content:**
+${Object.entries(relevantTexts).map(([name, text]) =>
+  `• **${name}**: ${(text as string || '').substring(0, 300)}${(text as string || '').length > 300 ? '...' : ''}`
+).join('\n')}
+
+📖 **OFFICIAL REFERENCE:** ${referenceInfo}
+💡 **NOTE:** Official German federal legislation database (rechtsinformationen.bund.de)
+🔍 **DATA MODEL:** This response contains Expression-level metadata (dates, validity) and Manifestation-level links (HTML for reading)`;
+    }).join('\n\n' + '─'.repeat(80) + '\n\n');
+
+    const footer = `\n${'='.repeat(80)}\n📋 **REQUIRED: COPY THESE LINKS TO YOUR "QUELLEN" OR "SOURCES" SECTION**\n\nYou MUST include ALL of these markdown links in your response:\n\n${data.member.map((sr: SearchResult, i: number) => {
+      const law = sr.item;
+      const docLink = this.formatDocumentLink(law);
+      return `   ${i + 1}. ${docLink}`;
+    }).join('\n')}\n`;
+    
+    return sourceHeader + results + footer;
+  }
+
+  private formatCaseLawResults(data: any): string {
+    if (!data.member || data.member.length === 0) {
+      return 'No case law found.';
+    }
+
+    const sourceHeader = `\n⚖️ **OFFICIAL GERMAN COURT DECISIONS - MUST CITE** (rechtsinformationen.bund.de)\n${'='.repeat(80)}\n⚠️ **IMPORTANT INSTRUCTIONS FOR YOUR RESPONSE:**
+1. Base your answer ONLY on the information provided below
+2. Include ALL URLs listed at the bottom in your "Quellen" or "Sources" section
+3. Cite specific case numbers and § references in your answer
+4. DO NOT add external knowledge not found in these sources
+
+`;
+    
+    const results = data.member.map((searchResult: SearchResult, index: number) => {
+      const case_ = searchResult.item;
+      const textMatches = searchResult.textMatches || [];
+      
+      // Extract different types of content
+      const contentByType = textMatches.reduce((acc, match) => {
+        acc[match.name] = match.text;
+        return acc;
+      }, {} as any);
+      
+      // Look for specific legal references (§ sections)
+      const allContent = textMatches.map(m => m.text || '').join(' ');
+      const keyCitations = this.findCitations(allContent, { requireLaw: true });
+      
+      // Generate human-readable markdown link
+      const caseLink = this.formatDocumentLink(case_);
+      const court = this.findDecisionCourt(case_);
+
+      return `**📋 OFFICIAL COURT DECISION ${index + 1} - CITE THIS:** ${caseLink}
+🏛️ **Court:** ${this.formatCourtName(case_, 'German Federal Court')}${case_.judicialBody ? ` | ${case_.judicialBody}` : ''}${court ? ` | ${court.jurisdiction}` : ''}
+📅 **Decision Date:** ${case_.decisionDate || 'N/A'} | **Type:** ${case_.documentType || 'N/A'}
+📋 **Case Numbers:** ${case_.fileNumbers?.join(', ') || 'N/A'}
+🔗 **ECLI:** ${case_.ecli || 'N/A'}
+${keyCitations.length > 0 ? `⚖️ **KEY LEGAL REFERENCES TO CITE:** ${keyCitations.slice(0, 3).join(', ')}` : ''}
+
+📝 **Decision Content:**
+${Object.entries(contentByType).map(([type, text]) =>
+  `• **${type}**: ${(text as string || '').substring(0, 250)}${(text as string || '').length > 250 ? '...' : ''}`
+).join('\n')}`;
+    }).join('\n\n' + '─'.repeat(80) + '\n\n');
+
+    const footer = `\n${'='.repeat(80)}\n📋 **REQUIRED: COPY THESE LINKS TO YOUR "QUELLEN" OR "SOURCES" SECTION**\n\nYou MUST include ALL of these markdown links in your response:\n\n${data.member.map((sr: SearchResult, i: number) => {
+      const case_ = sr.item;
+      const caseLink = this.formatDocumentLink(case_);
+      return `   ${i + 1}. ${caseLink}`;
+    }).join('\n')}\n`;
+    
+    return sourceHeader + results + footer;
+  }
+
+  private formatDocumentResults(data: any): string {
+    if (!data.member || data.member.length === 0) {
+      return 'No documents found.';
+    }
+
+    const sourceHeader = `\n📚 **OFFICIAL SOURCES - MUST CITE IN RESPONSE** (rechtsinformationen.bund.de)\n${'='.repeat(80)}\n⚠️ **IMPORTANT INSTRUCTIONS FOR YOUR RESPONSE:**
+1. Base your answer ONLY on the information provided below
+2. Include ALL URLs listed at the bottom in your "Quellen" or "Sources" section
+3. Cite specific § references (e.g., "§ 32 SGB II") in your answer
+4. DO NOT add external knowledge not found in these sources
+
+`;
+    
+    const results = data.member.map((searchResult: SearchResult, index: number) => {
+      const doc = searchResult.item;
+      const textMatches = searchResult.textMatches || [];
+      
+      const isLegislation = doc['@type'] === 'Legislation';
+      const summary = textMatches.map(m => m.text || '').join(' ').substring(0, 300);
+      
+      // Look for specific legal references (§ sections)
+      const allContent = textMatches.map(m => m.text || '').join(' ');
+      const keyCitations = this.findCitations(allContent, { requireLaw: true });
+      
+      // Generate human-readable URLs based on document type
+      let fullUrl: string;
+      
+      if (isLegislation) {
+        // For legislation: Use workExample for expression-level access
+        let documentUrl = doc['@id'];
+        if (doc.workExample && doc.workExample['@id']) {
+          documentUrl = doc.workExample['@id']; // Contains complete versioned path
+        }
+        // Convert API path to working website URL for legislation
+        fullUrl = `${config.portalOrigin}${documentUrl}`;
+      } else {
+        // For court decisions: Always use case-law URL format (has full content)
+        // ECLI URLs on testphase appear to show shorter/placeholder content
+        fullUrl = `${config.portalOrigin}${doc['@id'].replace('/v1', '')}`;
+      }
+      
+      // Create reference information for the user
+      let referenceInfo = `${doc.eli || doc.documentNumber || 'Unknown ID'}`;
+      if (doc.eli && doc.eli.includes('bgbl')) {
+        const eliMatch = doc.eli.match(/eli\/bund\/bgbl-([IVX]+)\/(\d+)\/s(\d+)/);
+        if (eliMatch) {
+          const [, roman, year, page] = eliMatch;
+          referenceInfo = `Bundesgesetzblatt ${year} Teil ${roman} S. ${page}`;
+        }
+      }
+      
+      return `**📋 OFFICIAL SOURCE ${index + 1} - CITE THIS:** ${doc.headline || doc.name || 'German Legal Document'}
+🏛️ **Court/Authority:** ${this.formatCourtName(doc, 'Federal Legal Authority')}
+📅 **Date:** ${doc.legislationDate || doc.decisionDate || 'N/A'}
+🔗 **Official Document ID:** ${doc.eli || doc.ecli || doc.documentNumber || 'N/A'}
+${keyCitations.length > 0 ? `⚖️ **KEY LEGAL REFERENCES TO CITE:** ${keyCitations.slice(0, 3).join(', ')}` : ''}
+
+📝 **Key Legal Content:** ${summary || 'No content available'}
+
+📖 **OFFICIAL REFERENCE:** ${referenceInfo}
+🌐 **FULL TEXT LINK:** ${fullUrl}
+💡 **NOTE:** Official German federal legal database
+📄 **Document Type:** ${doc['@type']} ${isLegislation ? '(Federal Law)' : '(Court Decision)'}`;
+    }).join('\n\n' + '─'.repeat(80) + '\n\n');
+
+    const footer = `\n${'='.repeat(80)}\n💡 **MANDATORY CITATION:** All information above is from official German Federal Legal Information Portal\n🔍 **SOURCE:** rechtsinformationen.bund.de | **Via:** Rechtsinformationen Bund DE MCP Server\n⚠️ **IMPORTANT:** Include specific § references and human-readable source URLs in your final response. DO NOT add external world knowledge.\n🌐 **WICHTIG:** Include these URLs in your "Quellen" section:\n${data.member.map((sr: SearchResult, i: number) => {
+      const doc = sr.item;
+      const isLegislation = doc['@type'] === 'Legislation';
+      let fullUrl: string;
+      
+      if (isLegislation) {
+        // For legislation: Use workExample for expression-level access
+        let documentUrl = doc['@id'];
+        if (doc.workExample && doc.workExample['@id']) {
+          documentUrl = doc.workExample['@id'];
+        }
+        fullUrl = `${config.portalOrigin}${documentUrl}`;
+      } else {
+        // For court decisions: Always use case-law URL format (has full content)
+        fullUrl = `${config.portalOrigin}${doc['@id'].replace('/v1', '')}`;
+      }
+      
+      return `   ${i + 1}. ${fullUrl}`;
+    }).join('\n')}\n`;
+    
+    return sourceHeader + results + footer;
+  }
+
+  private formatDocumentDetails(data: any, format: string): string {
+    if (format === 'html' || format === 'xml') {
+      return `Raw ${format.toUpperCase()} content:\n${data}`;
+    }
+
+    // Handle JSON response
+    if (data.member && data.member.length > 0) {
+      return this.formatDocumentResults(data);
+    }
+
+    // Handle single document response
+    return `📋 **Document Details**
+Type: ${data['@type'] || 'N/A'}
+Name: ${data.name || data.headline || 'N/A'}
+Date: ${data.legislationDate || data.decisionDate || 'N/A'}
+Identifier: ${data.eli || data.ecli || data.documentNumber || 'N/A'}
+
+${JSON.stringify(data, null, 2)}`;
+  }
+
+  private formatLegislationDetails(data: any, format: string): string {
+    if (format === 'html' || format === 'xml') {
+      return `Raw ${format.toUpperCase()} content:\n${data}`;
+    }
+
+    if (data.member && data.member.length > 0) {
+      return this.formatLegislationResults(data);
+    }
+
+    return `📋 **Legislation Details**
+${JSON.stringify(data, null, 2)}`;
+  }
+
+  private formatEnhancedSemanticResults(results: RankedDocument<any>[], explanations: string[], query: string): string {
+    if (results.length === 0) {
+      return 'No semantically similar documents found.';
+    }
+
+    let output = '';
 
-    // Convert parameters to correct types if they're strings (for model compatibility)
-    const numericThreshold = typeof threshold === 'string' ? parseFloat(threshold) : threshold;
-    const numericLimit = typeof limit === 'string' ? parseInt(limit, 10) : limit;
-    
-    // STEP 0: Detect language and translate English to German
-    const germanQuery = this.translateEnglishToGerman(query);
-    const actualQuery = germanQuery !== query ? germanQuery : query;
-    
-    // STEP 1: Extract and validate legal references
-    const legalReferences = this.extractLegalReferences(actualQuery);
-    
-    // STEP 2: Map concepts to correct legal terms
-    const conceptMappings = this.mapLegalConcepts(actualQuery);
-    
-    // STEP 3: Generate intelligent search terms
-    const intelligentSearchTerms = [
-      ...legalReferences.validReferences,
-      ...conceptMappings.correctedTerms,
-      ...this.expandLegalTerms(actualQuery)
-    ].filter(term => term && term.length > 2);
-    
-    let allDocuments: any[] = [];
-    let searchResults: any[] = [];
-    
-    // STEP 4: Search with validated legal references first (highest priority)
-    for (const validRef of legalReferences.validReferences.slice(0, 3)) {
-      try {
-        const response = await axios.get(`${BASE_URL}/document`, {
-          params: { searchTerm: validRef, size: 10 }
-        });
-        
-        if (response.data.member && response.data.member.length > 0) {
-          searchResults.push({ term: validRef, results: response.data.member, priority: 'high' });
-          const docs = response.data.member.map((sr: SearchResult) => ({
-            title: sr.item?.headline || sr.item?.name || '',
-            summary: sr.textMatches?.map((tm) => tm.text).join(' ') || '',
-            content: sr.textMatches?.map((tm) => tm.text).join(' ') || '',
-            originalResult: sr,
-            searchTerm: validRef,
-            priority: 'high'
-          }));
-          allDocuments.push(...docs);
-        }
-      } catch (error) {
-        // Continue with other search terms if one fails
-      }
+    // Add concept mapping explanations if available
+    if (explanations.length > 0) {
+      output += `💡 **Concept Corrections Applied:**\n${explanations.map(exp => `• ${exp}`).join('\n')}\n\n`;
     }
-    
-    // STEP 5: Search with corrected concept terms (medium priority)
-    for (const correctedTerm of conceptMappings.correctedTerms.slice(0, 2)) {
-      try {
-        const response = await axios.get(`${BASE_URL}/document`, {
-          params: { searchTerm: correctedTerm, size: 10 }
-        });
 
-        if (response.data.member && response.data.member.length > 0) {
-          searchResults.push({ term: correctedTerm, results: response.data.member, priority: 'medium' });
-          const docs = response.data.member.map((sr: SearchResult) => ({
-            title: sr.item?.headline || sr.item?.name || '',
-            summary: sr.textMatches?.map((tm) => tm.text).join(' ') || '',
-            content: sr.textMatches?.map((tm) => tm.text).join(' ') || '',
-            originalResult: sr,
-            searchTerm: correctedTerm,
-            priority: 'medium'
-          }));
-          allDocuments.push(...docs);
-        }
-      } catch (error) {
-        // Continue with other search terms if one fails
-      }
-    }
+    output += results.map((result, index) => {
+      const doc = result.item.originalResult ? result.item.originalResult.item : result.item;
+      // Relevance is the BM25 score relative to the best score the query can reach
+      const confidence = Math.round(result.relevance * 100);
+      const confidenceLabel = confidence >= 60 ? '🟢 High' :
+                             confidence >= 35 ? '🟡 Medium' :
+                             confidence >= 15 ? '🟠 Low' : '🔴 Very Low';
+      const matched = result.matchedTerms.length > 0 ? ` | **Matched:** ${result.matchedTerms.join(', ')}` : '';
 
-    // STEP 6: Fallback - search with original query if no results yet
-    if (allDocuments.length === 0) {
-      try {
-        const response = await axios.get(`${BASE_URL}/document`, {
-          params: { searchTerm: actualQuery, size: numericLimit }
-        });
+      const priority = result.item.priority || 'standard';
+      const searchTerm = result.item.searchTerm || 'unknown';
+      const textMatches = result.item.originalResult ? result.item.originalResult.textMatches : [];
+      // Query words (including compound parts) in bold instead of the API's <mark> tags
+      const plainText = textMatches ? textMatches.map((m: any) => m.text || '').join(' ').replace(/<[^>]+>/g, '') : '';
+      const summary = plainText ? this.laws.lexicon.highlight(plainText.substring(0, 200), query) : 'No summary available';
 
-        if (response.data.member && response.data.member.length > 0) {
-          searchResults.push({ term: actualQuery, results: response.data.member, priority: 'low' });
-          const docs = response.data.member.map((sr: SearchResult) => ({
-            title: sr.item?.headline || sr.item?.name || '',
-            summary: sr.textMatches?.map((tm) => tm.text).join(' ') || '',
-            content: sr.textMatches?.map((tm) => tm.text).join(' ') || '',
-            originalResult: sr,
-            searchTerm: actualQuery,
-            priority: 'low'
-          }));
-          allDocuments.push(...docs);
-        }
-      } catch (error) {
-        // Continue even if fallback fails
-      }
+      // Classify law type for better categorization
+      const lawType = this.classifyLawType(doc);
+
+      // Extract paragraph references
+      const allContent = textMatches ? textMatches.map((m: any) => m.text || '').join(' ') : '';
+      const uniqueParas = this.findCitations(allContent).slice(0, 3);
+
+      // Generate human-readable markdown link
+      const docLink = this.formatDocumentLink(doc);
+
+      return `${index + 1}. ${docLink}
+   📊 **Confidence:** ${confidenceLabel} (${confidence}%, BM25 ${result.score.toFixed(2)}) | **Priority:** ${priority}${matched}
+   📂 **Law Type:** ${lawType}
+   📅 **Date:** ${doc.legislationDate || doc.decisionDate || 'N/A'}
+   🔍 **Found via:** "${searchTerm}"
+   ${doc.courtName ? `🏛️ **Court:** ${this.formatCourtName(doc)}` : ''}
+   🔗 **ELI/ECLI:** ${doc.eli || doc.ecli || doc.documentNumber || 'N/A'}
+   ${doc.abbreviation ? `📖 **Abbreviation:** ${doc.abbreviation}` : ''}
+   ${uniqueParas.length > 0 ? `⚖️ **Key Paragraphs:** ${uniqueParas.join(', ')}` : ''}
+   📄 **Summary:** ${summary || 'No summary available'}`;
+    }).join('\n\n');
+
+    return output;
+  }
+
+  private async getLawByAbbreviation(args: any) {
+    const { abbreviation } = args;
+
+    const unavailable = this.checkCoverage(abbreviation);
+    if (unavailable) {
+      const status = this.coverage.check(abbreviation);
+      const structuredContent: LawLookupOutput = { abbreviation, found: false, otherMatches: 0, unavailable: this.toUnavailableLaw(status), stale: false };
+      return { ...unavailable, structuredContent };
     }
 
-    // Remove duplicates based on document ID
-    const uniqueDocuments = allDocuments.filter((doc, index, self) => 
-      index === self.findIndex(other => 
-        other.originalResult.item?.documentNumber === doc.originalResult.item?.documentNumber ||
-        other.originalResult.item?.['@id'] === doc.originalResult.item?.['@id']
-      )
-    );
-    
-    if (uniqueDocuments.length === 0) {
-      // Prepare translation info for display
-      const translationInfo = germanQuery !== query ? `\n🌐 **Query translated from English**: "${query}" → "${germanQuery}"` : '';
+    const { bestMatch, bestScore, uniqueResults, responses } = await this.findLawByAbbreviation(abbreviation);
+    const stale = responses.some(response => response.stale);
 
-      // Generate helpful suggestions based on the query
-      const suggestions = [];
-      if (actualQuery.match(/§\s*\d+/)) {
-        suggestions.push('Try searching for the law abbreviation (e.g., "BEEG", "BGB", "SGB")');
-      } else {
-        suggestions.push('Try searching with specific § references if known (e.g., "§ 15 BEEG")');
-      }
-      suggestions.push('Try broader search terms (e.g., just the law name or main topic)');
-      suggestions.push('Try law abbreviations: BEEG, BGB, SGB, StGB, ZPO, etc.');
+    if (uniqueResults.length === 0) {
+      const structuredContent: LawLookupOutput = { abbreviation, found: false, otherMatches: 0, stale };
+      return {
+        structuredContent,
+        content: [{
+          type: 'text',
+          text: `${this.formatStaleNotice(responses)}❌ No law found for abbreviation "${abbreviation}"\n\n💡 **Suggestions:**\n${this.formatLawSuggestions(abbreviation)}• Try the full law name instead\n• Use intelligente_rechtssuche for broader search\n• Common abbreviations: SGB I-XII, BGB, StGB, GG, AufenthG, KSchG, BEEG`
+        }]
+      };
+    }
 
+    if (!bestMatch || bestScore < 0) {
+      const structuredContent: LawLookupOutput = { abbreviation, found: false, otherMatches: uniqueResults.length, stale };
       return {
+        structuredContent,
         content: [{
           type: 'text',
-          text: `🔍 Intelligent Legal Search Results for "${query}"${translationInfo}\n\n❌ No documents found despite trying:\n• Legal references: ${legalReferences.validReferences.join(', ') || 'none detected'}\n• Concept mappings: ${conceptMappings.correctedTerms.slice(0, 3).join(', ') || 'none'}\n• Direct search: "${actualQuery}"\n\n💡 Suggestions:\n${suggestions.map(s => `• ${s}`).join('\n')}`
+          text: `${this.formatStaleNotice(responses)}⚠️ Found ${uniqueResults.length} results but none match exactly.\n\nPlease use intelligente_rechtssuche or deutsche_gesetze_suchen for broader search.`
         }]
       };
     }
-    
-    // Sort documents by priority first, then use fuzzy matching
-    const prioritySort = (a: any, b: any) => {
-      const priorityOrder: { [key: string]: number } = { 'high': 3, 'medium': 2, 'low': 1 };
-      return (priorityOrder[b.priority] || 0) - (priorityOrder[a.priority] || 0);
+
+    // Format the response with enhanced metadata
+    const law = bestMatch.item;
+    const lawType = this.classifyLawType(law);
+
+    // If abbreviation doesn't match exactly, add warning
+    const mismatchWarning = this.formatAbbreviationMismatch(abbreviation, law);
+
+    // Generate human-readable markdown link
+    const docLink = this.formatDocumentLink(law);
+
+    const structuredContent: LawLookupOutput = {
+      abbreviation,
+      found: true,
+      law: this.toSearchHit(law, bestMatch.textMatches),
+      ...(mismatchWarning ? { mismatch: law.abbreviation || '' } : {}),
+      otherMatches: uniqueResults.length - 1,
+      stale,
     };
 
-    uniqueDocuments.sort(prioritySort);
+    return {
+      structuredContent,
+      content: [{
+        type: 'text',
+        text: `${this.formatStaleNotice(responses)}📖 **LAW FOUND BY ABBREVIATION: ${abbreviation}**${mismatchWarning}
 
-    // IMPROVED: Better Fuse.js configuration for exact title matches
-    // Issue: "Sozialgesetzbuch Erstes Buch Allgemeiner Teil" was returning 0.014 similarity
-    // Solution: Boost title weight significantly and use stricter threshold
-    const fuse = new Fuse(uniqueDocuments, {
-      keys: [
-        { name: 'title', weight: 0.7 },      // Increased from 0.4 - titles are most important
-        { name: 'summary', weight: 0.2 },    // Reduced from 0.4 - content is secondary
-        { name: 'content', weight: 0.1 }     // Reduced from 0.2 - least important
-      ],
-      threshold: numericThreshold,           // Use provided threshold (default 0.3, not 0.6)
-      includeScore: true,
-      ignoreLocation: true,                  // NEW: Don't penalize matches at end of string
-      findAllMatches: true,                  // NEW: Find all matches, not just first
-      minMatchCharLength: 2,                 // NEW: Minimum match length
-      useExtendedSearch: false,              // Keep simple for now
-    });
+**Full Title:** ${docLink}
+**Official Abbreviation:** ${law.abbreviation || 'N/A'}
+**Law Type:** ${lawType}
+**Document Number:** ${law.documentNumber || 'N/A'}
+**ELI Identifier:** ${law.eli || 'N/A'}
+**Publication Date:** ${law.legislationDate || 'N/A'}
+**Language:** ${law.inLanguage || 'German (deu)'}
 
-    const semanticResults = fuse.search(actualQuery);
+💡 **Next Steps:**
+• Use gesetz_inhaltsverzeichnis_abrufen to see table of contents
+• Use norm_abrufen to read a single § (e.g., "§ 1 ${law.abbreviation || abbreviation}")
+• Use deutsche_gesetze_suchen to search within this law
+• Use dokument_details_abrufen to get full text
 
-    // IMPROVED: Better fallback and minimum score filtering
-    let finalResults: any[];
-    if (semanticResults.length > 0) {
-      // Filter out poor matches (score > 0.7 means not relevant enough)
-      const goodMatches = semanticResults.filter(r => (r.score || 0) <= 0.7);
+📋 **Additional Matches Found:** ${uniqueResults.length - 1} other versions/related laws`
+      }]
+    };
+  }
 
-      if (goodMatches.length > 0) {
-        finalResults = goodMatches.slice(0, numericLimit);
-      } else {
-        // All matches were poor, return top priority documents instead
-        finalResults = uniqueDocuments.slice(0, numericLimit).map(doc => ({
-          item: doc,
-          score: 0.85  // Mark as low confidence
-        }));
-      }
-    } else {
-      // No fuzzy matches, return priority documents
-      finalResults = uniqueDocuments.slice(0, numericLimit).map(doc => ({
-        item: doc,
-        score: 0.8
-      }));
-    }
-    
-    // Prepare translation info for display
-    const translationInfo = germanQuery !== query ? `\n🌐 **Query translated from English**: "${query}" → "${germanQuery}"` : '';
-    
+  private getStatistics(args: any, client?: string) {
+    const limit = Math.min(Math.max(1, Math.floor(Number(args?.limit) || 20)), 500);
+    // Other clients' queries are theirs; only the aggregate counts are shared
+    const snapshot = metrics.snapshot(client);
+    const structuredContent: StatisticsOutput = { ...snapshot, zeroResultQueries: snapshot.zeroResultQueries.slice(0, limit) };
     return {
-      content: [
-        {
-          type: 'text',
-          text: `🔍 Intelligent Legal Search Results for "${query}"${translationInfo}\n\n✅ Found ${finalResults.length} documents from ${uniqueDocuments.length} total\n📚 Search strategy: ${legalReferences.validReferences.length > 0 ? 'Legal references + ' : ''}${conceptMappings.correctedTerms.length > 0 ? 'Concept mapping' : 'Standard search'}\n\n${this.formatEnhancedSemanticResults(finalResults, conceptMappings.explanations)}`,
-        },
-      ],
+      content: [{ type: 'text', text: formatStatistics(snapshot, limit) }],
+      structuredContent,
     };
   }
-  
-  private translateEnglishToGerman(query: string): string {
-    const lowerQuery = query.toLowerCase();
-    
-    // Check if query appears to be in English (contains English legal terms)
-    const englishIndicators = [
-      'employee', 'employer', 'employment', 'dismissal', 'termination', 'firing',
-      'data protection', 'privacy', 'rights', 'law', 'legal', 'court', 'decision',
-      'company', 'restructuring', 'redundancy', 'layoff', 'unemployment',
-      'social security', 'benefits', 'welfare', 'pension', 'insurance',
-      'contract', 'agreement', 'obligation', 'liability', 'damages',
-      'trademark', 'copyright', 'patent', 'intellectual property',
-      'rental', 'tenant', 'landlord', 'lease', 'housing',
-      'protection', 'compensation', 'claim', 'appeal', 'hearing'
-    ];
-    
-    const hasEnglishTerms = englishIndicators.some(term => lowerQuery.includes(term));
-    
-    if (!hasEnglishTerms) {
-      return query; // Already German or not English
+
+  private async checkAvailability(args: any) {
+    const { abbreviation = '', liveCheck = false, reload = false } = args;
+
+    if (reload === true || reload === 'true') {
+      this.coverage.reload();
     }
-    
-    // English to German legal translation map
-    const translations: { [key: string]: string } = {
-      // Employment law
-      'employee rights': 'Arbeitnehmerrechte',
-      'employee': 'Arbeitnehmer',
-      'employer': 'Arbeitgeber', 
-      'employment': 'Beschäftigung',
-      'dismissal': 'Kündigung',
-      'termination': 'Kündigung',
-      'firing': 'Entlassung',
-      'redundancy': 'betriebsbedingte Kündigung',
-      'layoff': 'Entlassung',
-      'company restructuring': 'Betriebsumstrukturierung',
-      'works council': 'Betriebsrat',
-      'participation': 'Mitbestimmung',
-      'protection': 'Schutz',
-      'dismissal protection': 'Kündigungsschutz',
-      
-      // Data protection
-      'data protection': 'Datenschutz',
-      'privacy': 'Datenschutz',
-      'personal data': 'personenbezogene Daten',
-      
-      // Social security
-      'social security': 'Sozialversicherung',
-      'unemployment benefits': 'Arbeitslosengeld',
-      'unemployment': 'Arbeitslosigkeit',
-      'benefits': 'Leistungen',
-      'welfare': 'Sozialhilfe',
-      'pension': 'Rente',
-      'insurance': 'Versicherung',
-      
-      // Contract law
-      'contract': 'Vertrag',
-      'agreement': 'Vereinbarung',
-      'obligation': 'Verpflichtung',
-      'liability': 'Haftung',
-      'damages': 'Schadenersatz',
-      'compensation': 'Entschädigung',
-      
-      // Intellectual property
-      'trademark': 'Marke',
-      'copyright': 'Urheberrecht',
-      'patent': 'Patent',
-      'intellectual property': 'geistiges Eigentum',
-      
-      // Housing/rental
-      'rental': 'Miete',
-      'tenant': 'Mieter',
-      'landlord': 'Vermieter',
-      'lease': 'Mietvertrag',
-      'housing': 'Wohnung',
-      'rent increase': 'Mieterhöhung',
-      
-      // Legal procedures
-      'court': 'Gericht',
-      'decision': 'Entscheidung',
-      'judgment': 'Urteil',
-      'appeal': 'Berufung',
-      'hearing': 'Anhörung',
-      'claim': 'Anspruch',
-      'application': 'Antrag',
-      'proceeding': 'Verfahren',
-      
-      // General legal terms
-      'law': 'Gesetz',
-      'legal': 'rechtlich',
-      'rights': 'Rechte',
-      'federal': 'Bundes',
-      'regulation': 'Verordnung',
-      'administration': 'Verwaltung',
-      'authority': 'Behörde'
-    };
-    
-    let translatedQuery = query;
-    
-    // Apply translations (longer phrases first to avoid partial matches)
-    const sortedKeys = Object.keys(translations).sort((a, b) => b.length - a.length);
-    
-    for (const englishTerm of sortedKeys) {
-      const germanTerm = translations[englishTerm];
-      const regex = new RegExp(`\\b${englishTerm}\\b`, 'gi');
-      translatedQuery = translatedQuery.replace(regex, germanTerm);
+
+    const requested: string[] = String(abbreviation).split(/[,;]/).map((a: string) => a.trim()).filter(Boolean);
+    const live = liveCheck === true || liveCheck === 'true';
+    const output = (laws: AvailabilityEntry[]): AvailabilityOutput => ({
+      laws,
+      liveCheck: live,
+      registrySize: this.laws.size,
+      ...(this.laws.generatedAt ? { generatedAt: this.laws.generatedAt } : {}),
+    });
+
+    if (requested.length === 0) {
+      return {
+        structuredContent: output([]),
+        content: [{
+          type: 'text',
+          text: `🧭 **COVERAGE DATA**\n\n**Laws in registry:** ${this.laws.size}\n**Data generated:** ${this.laws.generatedAt || 'unknown'}\n\n💡 Pass one or more abbreviations to check them.`
+        }]
+      };
     }
-    
-    return translatedQuery;
-  }
-  
-  private extractLegalReferences(query: string): { validReferences: string[], invalidReferences: string[] } {
-    const validReferences: string[] = [];
-    const invalidReferences: string[] = [];
-    
-    // Extract § references with common patterns
-    const paragraphPatterns = [
-      /§\s*(\d+[a-z]?)\s+(SGB\s*[IVX]*\d*|BGB|StGB|GG|VwVfG|BEEG|EStG|UStG|HGB|ZPO|StPO)/gi,
-      /(SGB\s*[IVX]*\d*|BGB|StGB|GG|VwVfG|BEEG|EStG|UStG|HGB|ZPO|StPO)\s*§?\s*(\d+[a-z]?)/gi,
-      /Art\.?\s*(\d+[a-z]?)\s*(GG|EMRK)/gi
-    ];
-    
-    for (const pattern of paragraphPatterns) {
-      let match;
-      while ((match = pattern.exec(query)) !== null) {
-        if (match[1] && match[2]) {
-          // Format: § XX LAW or LAW § XX
-          const section = match[1] || match[2];
-          const law = match[2] || match[1];
-          const reference = `§ ${section} ${law}`.replace(/\s+/g, ' ').trim();
-          validReferences.push(reference);
-        }
-      }
+
+    const statuses: CoverageStatus[] = [];
+    for (const item of requested.slice(0, 20)) {
+      statuses.push(live ? await this.coverage.liveCheck(this.api, item) : this.coverage.check(item));
     }
-    
-    // Also extract just the law abbreviations
-    const lawAbbreviations = query.match(/(SGB\s*[IVX]*\d*|BGB|StGB|GG|VwVfG|BEEG|EStG|UStG|HGB|ZPO|StPO)/gi) || [];
-    validReferences.push(...lawAbbreviations.map(law => law.replace(/\s+/g, ' ').trim()));
-    
-    // Remove duplicates
-    const uniqueValidRefs = [...new Set(validReferences)];
-    
-    // Debug logging can be enabled here if needed
-    
+
+    const icons = { available: '✅', unavailable: '❌', unknown: '❓' };
+    const lines = statuses.map(status => {
+      const entry = status.entry;
+      const name = entry ? `${entry.abbreviation} – ${entry.fullName || 'N/A'}` : `${status.requested} – not in registry`;
+      const details = [
+        `   Status: ${status.state}${entry?.error ? ` (last check failed: ${entry.error})` : ''}`,
+        `   Last checked: ${status.checkedAt || 'not recorded'}${entry ? ` (${entry.source})` : ''}`,
+      ];
+      if (entry?.htmlUrl && status.state === 'available') details.push(`   🔗 ${entry.htmlUrl}`);
+      details.push(...status.alternatives.map(source => `   📚 ${source.name}: ${source.url}`));
+      return `${icons[status.state]} **${name}**\n${details.join('\n')}`;
+    });
+
+    const laws = statuses.map((status): AvailabilityEntry => {
+      const entry = status.entry;
+      return {
+        requested: status.requested,
+        state: status.state,
+        ...(entry ? { abbreviation: entry.abbreviation, fullName: entry.fullName, source: entry.source } : {}),
+        ...(status.checkedAt ? { checkedAt: status.checkedAt } : {}),
+        ...(entry?.error ? { error: entry.error } : {}),
+        ...(entry?.htmlUrl ? { htmlUrl: entry.htmlUrl } : {}),
+        alternatives: status.alternatives,
+      };
+    });
+
     return {
-      validReferences: uniqueValidRefs,
-      invalidReferences
+      structuredContent: output(laws),
+      content: [{
+        type: 'text',
+        text: `🧭 **AVAILABILITY IN THE TESTPHASE DATABASE**${live ? ' (live check)' : ''}
+
+${lines.join('\n\n')}
+
+**Data generated:** ${this.laws.generatedAt || 'unknown'}
+💡 "unknown" means the law was not checked or the check failed; use liveCheck: true to check now.`
+      }]
     };
   }
 
-  private mapLegalConcepts(query: string): { correctedTerms: string[], explanations: string[] } {
-    const correctedTerms: string[] = [];
-    const explanations: string[] = [];
-    const lowerQuery = query.toLowerCase();
+  /**
+   * Short-circuit answer for a law the coverage data marks as not in the database
+   */
+  private checkCoverage(abbreviation?: string) {
+    if (!abbreviation) return null;
+    const status = this.coverage.check(abbreviation);
+    if (status.state !== 'unavailable' || !status.entry) return null;
+
+    const { entry } = status;
+    const alternatives = status.alternatives.map(source => `• ${source.name}: ${source.url}`).join('\n');
+    return {
+      content: [{
+        type: 'text',
+        text: `❌ **NOT IN DATABASE:** ${entry.abbreviation} (${entry.fullName}) is not available in the rechtsinformationen.bund.de testphase database.
 
-    // IMPROVED: Add Sozialgesetzbuch alias expansion
-    // Issue: Users search for "Sozialgesetzbuch Erstes Buch" but index may have "SGB I"
-    // Solution: Add multiple aliases for SGB searches
-    const sgbAliases: { [key: string]: string[] } = {
-      'sozialgesetzbuch erstes buch': ['SGB I', 'SGB 1', 'Sozialgesetzbuch (SGB) Erstes Buch'],
-      'sozialgesetzbuch zweites buch': ['SGB II', 'SGB 2', 'Sozialgesetzbuch (SGB) Zweites Buch'],
-      'sozialgesetzbuch drittes buch': ['SGB III', 'SGB 3', 'Sozialgesetzbuch (SGB) Drittes Buch'],
-      'sozialgesetzbuch viertes buch': ['SGB IV', 'SGB 4', 'Sozialgesetzbuch (SGB) Viertes Buch'],
-      'sozialgesetzbuch fünftes buch': ['SGB V', 'SGB 5', 'Sozialgesetzbuch (SGB) Fünftes Buch'],
-      'sozialgesetzbuch sechstes buch': ['SGB VI', 'SGB 6', 'Sozialgesetzbuch (SGB) Sechstes Buch'],
-      'sozialgesetzbuch siebtes buch': ['SGB VII', 'SGB 7', 'Sozialgesetzbuch (SGB) Siebtes Buch'],
-      'sozialgesetzbuch achtes buch': ['SGB VIII', 'SGB 8', 'Sozialgesetzbuch (SGB) Achtes Buch'],
-      'sozialgesetzbuch neuntes buch': ['SGB IX', 'SGB 9', 'Sozialgesetzbuch (SGB) Neuntes Buch'],
-      'sozialgesetzbuch zehntes buch': ['SGB X', 'SGB 10', 'Sozialgesetzbuch (SGB) Zehntes Buch'],
-      'sozialgesetzbuch elftes buch': ['SGB XI', 'SGB 11', 'Sozialgesetzbuch (SGB) Elftes Buch'],
-      'sozialgesetzbuch zwölftes buch': ['SGB XII', 'SGB 12', 'Sozialgesetzbuch (SGB) Zwölftes Buch'],
+**Last checked:** ${status.checkedAt || 'not recorded'}
+${alternatives ? `\n📚 **Official alternative sources:**\n${alternatives}\n` : ''}
+💡 **What you can do instead:**
+• Read and cite the official text from the source above
+• Use rechtsprechung_suchen to find court decisions applying ${entry.abbreviation}
+• Use verfuegbarkeit_pruefen with liveCheck: true if the law may have been added since`
+      }]
     };
+  }
 
-    // Check for SGB aliases
-    for (const [pattern, aliases] of Object.entries(sgbAliases)) {
-      if (lowerQuery.includes(pattern)) {
-        correctedTerms.push(...aliases);
-        explanations.push(`"${pattern}" expanded to: ${aliases.join(', ')}`);
-      }
-    }
+  /**
+   * Warn about laws mentioned in a query that the database does not contain
+   */
+  private formatCoverageNotice(query: string): string {
+    const missing = this.findUnavailableStatuses(query);
+    if (missing.length === 0) return '';
 
-    // Concept mapping for common misunderstandings
-    const conceptMap = {
-      // Administrative procedure concepts
-      'überprüfungsantrag': ['Widerspruch', 'Überprüfung', 'Nachprüfung', 'Verwaltungsverfahren'],
-      'überprüfung': ['Widerspruch', 'Nachprüfung', 'Verwaltungsverfahren'],
-      'antrag überprüfung': ['Widerspruch', 'Überprüfungsverfahren'],
-      
-      // SGB concepts
-      'arbeitslosengeld überprüfung': ['SGB III Widerspruch', 'SGB II Widerspruch', 'Bescheid Überprüfung'],
-      'bürgergeld überprüfung': ['SGB II Widerspruch', 'SGB II Bescheid', 'Leistungsbescheid'],
-      'hartz iv überprüfung': ['SGB II Widerspruch', 'SGB II Bescheid'],
-      
-      // Administrative acts concepts  
-      'verwaltungsakt überprüfung': ['Widerspruch', 'Rücknahme', 'Widerruf', '§ 44 SGB X', '§ 45 SGB X'],
-      'bescheid überprüfung': ['Widerspruch', 'Rücknahme', 'Widerruf', 'SGB X'],
-      'bescheid korrigieren': ['Rücknahme', 'Widerruf', '§ 44 SGB X', '§ 45 SGB X'],
-      
-      // Court procedures
-      'gericht überprüfung': ['Klage', 'Berufung', 'Revision', 'Rechtsmittel'],
-      'urteil überprüfung': ['Berufung', 'Revision', 'Rechtsmittel'],
-      
-      // Social law specific
-      'jobcenter überprüfung': ['SGB II Widerspruch', 'Leistungsbescheid', '§ 32 SGB II'],
-      'sanktionen überprüfung': ['SGB II Widerspruch', 'Sanktionsbescheid'],
-      
-      // Rental law
-      'miete überprüfung': ['Mieterhöhung', 'Betriebskosten', 'Mietminderung'],
-      'mietvertrag überprüfung': ['Mietrecht', 'BGB Miete'],
-      'mieterhöhungsantrag': ['§ 558 BGB', 'Mieterhöhung', 'Kappungsgrenze', 'Mietspiegel'],
-      'miete erhöhen': ['§ 558 BGB', 'Mieterhöhung', 'Modernisierung'],
-      
-      // Employment law
-      'kündigungsschutzantrag': ['Kündigungsschutzklage', '§ 4 KSchG', '§ 13 KSchG', 'Arbeitsgerichtliches Verfahren'],
-      'kündigung anfechten': ['Kündigungsschutzklage', 'KSchG', 'Arbeitsgericht'],
-      'entlassung überprüfung': ['Kündigungsschutzklage', 'KSchG'],
-      
-      // Social assistance law
-      'sozialhilfeantrag': ['§ 19 SGB XII', 'Hilfe zum Lebensunterhalt', 'Grundsicherung', 'Antragsverfahren SGB XII'],
-      'grundsicherung antrag': ['SGB XII', 'Hilfe zum Lebensunterhalt'],
-      'sozialhilfe beantragen': ['§ 19 SGB XII', 'Grundsicherung'],
-      
-      // General procedure terms
-      'einspruch': ['Widerspruch', 'Rechtsbehelf'],
-      'beschwerde': ['Widerspruch', 'Rechtsmittel'],
-      'revision': ['Rechtsmittel', 'Berufung']
+    const lines = missing.map(status =>
+      `• ${status.entry!.abbreviation} (${status.entry!.fullName})${status.alternatives[0] ? ` – official text: ${status.alternatives[0].url}` : ''}`
+    );
+    return `⚠️ **NOT IN DATABASE:** Results below cannot contain the text of:\n${lines.join('\n')}\n\n`;
+  }
+
+  private toPageOutput(page: PageInfo, nextCursor?: string): Pick<SearchOutput, 'totalItems' | 'pageIndex' | 'nextCursor'> {
+    return {
+      ...(page.totalItems !== undefined ? { totalItems: page.totalItems } : {}),
+      pageIndex: page.pageIndex,
+      ...(nextCursor ? { nextCursor } : {}),
     };
-    
-    // Check for concept matches
-    for (const [concept, corrections] of Object.entries(conceptMap)) {
-      if (lowerQuery.includes(concept)) {
-        correctedTerms.push(...corrections);
-        explanations.push(`"${concept}" mapped to: ${corrections.join(', ')}`);
-      }
-    }
-    
-    // Specific misconception corrections for common legal errors
-    if (lowerQuery.includes('§ 44') || lowerQuery.includes('paragraph 44')) {
-      if (lowerQuery.includes('sgb x') || lowerQuery.includes('sgb 10')) {
-        correctedTerms.push('§ 44 SGB X Rücknahme', 'Verwaltungsakt Rücknahme', 'rechtswidriger Verwaltungsakt');
-        explanations.push('§ 44 SGB X is about "Rücknahme" (withdrawal) of unlawful administrative acts');
-      }
-    }
-    
-    // BGB § 535 rental law misconception
-    if (lowerQuery.includes('§ 535') && lowerQuery.includes('mieterhöhung')) {
-      correctedTerms.push('§ 558 BGB', 'Mieterhöhung', 'Kappungsgrenze', 'Mietspiegel');
-      explanations.push('§ 535 BGB defines basic rental duties. For rent increases, see § 558 BGB');
-    }
-    
-    // KSchG § 1 employment law misconception  
-    if (lowerQuery.includes('§ 1') && lowerQuery.includes('kschg') && lowerQuery.includes('antrag')) {
-      correctedTerms.push('Kündigungsschutzklage', '§ 4 KSchG', '§ 13 KSchG', 'Arbeitsgericht');
-      explanations.push('§ 1 KSchG defines scope of protection. For dismissal procedures, see § 4 KSchG and court proceedings');
-    }
-    
-    // SGB XII § 27 social assistance misconception
-    if (lowerQuery.includes('§ 27') && lowerQuery.includes('sgb xii') && lowerQuery.includes('antrag')) {
-      correctedTerms.push('§ 19 SGB XII', 'Hilfe zum Lebensunterhalt', 'Grundsicherung');
-      explanations.push('§ 27 SGB XII is about care benefits. For general social assistance applications, see § 19 SGB XII');
-    }
-    
-    // Remove duplicates and filter out empty terms
-    const uniqueTerms = [...new Set(correctedTerms)].filter(term => term && term.length > 2);
-    
-    // Debug logging can be enabled here if needed
-    
+  }
+
+  private findUnavailableStatuses(query: string): CoverageStatus[] {
+    return findLawAbbreviations(query || '')
+      .map(abbreviation => this.coverage.check(abbreviation))
+      .filter(status => status.state === 'unavailable' && status.entry);
+  }
+
+  private findUnavailableLaws(query: string): UnavailableLaw[] {
+    return this.findUnavailableStatuses(query).map(status => this.toUnavailableLaw(status));
+  }
+
+  private toUnavailableLaw(status: CoverageStatus): UnavailableLaw {
     return {
-      correctedTerms: uniqueTerms,
-      explanations
+      abbreviation: status.entry?.abbreviation || status.requested,
+      fullName: status.entry?.fullName || '',
+      ...(status.checkedAt ? { checkedAt: status.checkedAt } : {}),
+      alternatives: status.alternatives,
     };
   }
 
-  private expandLegalTerms(query: string): string[] {
-    const expansions: string[] = [];
-    const lowerQuery = query.toLowerCase();
+  /**
+   * Typed search result for structuredContent; mirrors the fields of the markdown rendering
+   */
+  private toSearchHit(item: SearchResult['item'], textMatches: SearchResult['textMatches'] = [], extra: Pick<SearchHit, 'confidence' | 'foundVia'> = {}): SearchHit {
+    const text = (value: unknown) => typeof value === 'string' && value ? value : undefined;
+    const isLegislation = item['@type'] === 'Legislation';
+    const validity = this.getValidity(item);
+
+    const hit: SearchHit = {
+      id: item['@id'],
+      type: item['@type'] || 'Document',
+      title: item.headline || item.name || 'Untitled Document',
+      abbreviation: text(item.abbreviation),
+      lawType: isLegislation ? this.classifyLawType(item) : undefined,
+      eli: isLegislation ? this.getExpressionEli(item) || text(item.eli) : undefined,
+      workEli: isLegislation ? this.getWorkEli(item) || undefined : undefined,
+      ecli: text(item.ecli),
+      documentNumber: text(item.documentNumber),
+      legislationDate: text(item.legislationDate),
+      datePublished: text(item.datePublished),
+      decisionDate: text(item.decisionDate),
+      inForce: validity.inForce,
+      temporalCoverage: text(validity.temporalCoverage),
+      court: this.findDecisionCourt(item)?.abbreviation || text(item.courtName) || text(item.courtType),
+      judicialBody: text(item.judicialBody),
+      fileNumbers: Array.isArray(item.fileNumbers) && item.fileNumbers.length > 0 ? item.fileNumbers : undefined,
+      documentType: text(item.documentType),
+      textMatches: (textMatches || []).map((match): TextMatch => ({
+        name: match.name,
+        text: match.text || '',
+        ...(match.location ? { location: match.location } : {}),
+      })),
+      apiUrl: this.api.resolveUrl(item.workExample?.['@id'] || item['@id']),
+      htmlUrl: this.generateHumanReadableUrl(item),
+      ...extra,
+    };
 
-    // Jobcenter related terms
-    if (lowerQuery.includes('jobcenter') || lowerQuery.includes('termin')) {
-      expansions.push('Meldeversäumnis', 'SGB II 32', '§ 32 SGB II');
-    }
+    // Drop unset fields so the output validates against the schema
+    return Object.fromEntries(Object.entries(hit).filter(([, value]) => value !== undefined)) as SearchHit;
+  }
 
-    // Sanction related terms
-    if (lowerQuery.includes('sanktion') || lowerQuery.includes('konsequenz')) {
-      expansions.push('Pflichtverletzung', 'Minderung', 'Bürgergeld');
+  /**
+   * Identification of a search result in the explain trace
+   */
+  private traceItem(item: SearchResult['item']): { id: string; title: string } {
+    return { id: item.documentNumber || item['@id'] || '', title: item.headline || item.name || '' };
+  }
+
+  /**
+   * "Did you mean" lines from the fuzzy registry lookup
+   */
+  private formatLawSuggestions(input: string): string {
+    const similar = this.laws.search(input, 3);
+    if (similar.length === 0) return '';
+    return `• Did you mean: ${similar.map(match => `${match.entry.abbreviation} (${match.entry.fullName})`).join(', ')}?\n`;
+  }
+
+  /**
+   * Warn when the law found does not carry the requested abbreviation
+   */
+  private formatAbbreviationMismatch(abbreviation: string, law: SearchResult['item']): string {
+    // Compare normalized keys so that "SGB 2" matches "SGB II"; full names are resolved first
+    const expected = this.laws.resolve(abbreviation)?.entry.abbreviation || abbreviation;
+    const isExactMatch = abbreviationKey(law.abbreviation || '') === abbreviationKey(expected);
+
+    return !isExactMatch ? `\n\n⚠️ **WARNING:** Searched for "${abbreviation}" but found "${law.abbreviation || 'Unknown'}"\nThis may not be an exact match. Consider using intelligente_rechtssuche for more accurate results.\n` : '';
+  }
+
+  /**
+   * Search for a law by abbreviation and score the candidates.
+   * Shared by all tools that accept an abbreviation.
+   */
+  private async findLawByAbbreviation(abbreviation: string): Promise<{
+    bestMatch: SearchResult | null;
+    bestScore: number;
+    uniqueResults: SearchResult[];
+    responses: ApiResponse[];
+  }> {
+    const registered = this.laws.resolve(abbreviation);
+
+    // Known document ID: load the law directly instead of scoring search results
+    if (registered?.entry.documentId) {
+      const ref = parseEli(registered.entry.documentId);
+      const direct = ref ? await this.loadLawByEli(ref) : null;
+      if (direct?.law) {
+        return {
+          bestMatch: { '@type': 'SearchResult', item: direct.law },
+          bestScore: 1000,
+          uniqueResults: direct.expressions.length > 0 ? direct.expressions : [{ '@type': 'SearchResult', item: direct.law }],
+          responses: direct.responses,
+        };
+      }
     }
 
-    // Benefits related terms
-    if (lowerQuery.includes('bürgergeld') || lowerQuery.includes('arbeitslosengeld')) {
-      expansions.push('SGB II', 'Leistung', 'Bezug');
+    // Normalize abbreviation (handle variations like "SGB I" vs "SGB-I" vs "SGB 1")
+    const normalizedAbbr = (registered?.entry.abbreviation || abbreviation).trim().toUpperCase();
+    const fullName = registered?.entry.fullName;
+
+    // Build search queries: prioritize full name if we know it
+    const searchQueries: string[] = [];
+
+    if (fullName) {
+      searchQueries.push(`"${fullName}"`);
+      searchQueries.push(fullName);
     }
 
-    // NEW: Decompose German compound words
-    // Many legal terms are compounds that need to be broken down for better search
-    const words = query.split(/\s+/);
-    for (const word of words) {
-      const lowerWord = word.toLowerCase();
+    // Add abbreviation searches
+    searchQueries.push(`"${registered?.entry.abbreviation || abbreviation}"`);
+    searchQueries.push(normalizedAbbr);
+    searchQueries.push(abbreviation);
 
-      // Only process words longer than 10 chars (likely compounds)
-      if (lowerWord.length > 10) {
-        // Common legal suffixes to remove
-        const suffixes = [
-          { pattern: /antrag$/i, replacement: '' },           // Mieterhöhungsantrag → Mieterhöhung
-          { pattern: /verfahren$/i, replacement: '' },        // Kündigungsverfahren → Kündigung
-          { pattern: /klage$/i, replacement: '' },            // Kündigungsschutzklage → Kündigungsschutz
-          { pattern: /gesetz$/i, replacement: '' },           // Mutterschutzgesetz → Mutterschutz (but keep short ones)
-          { pattern: /verordnung$/i, replacement: '' },       // Elternzeitverordnung → Elternzeit
-        ];
+    // Try multiple search approaches
+    let bestMatch: any = null;
+    let allResults: any[] = [];
+    const responses: ApiResponse[] = [];
 
-        for (const { pattern, replacement } of suffixes) {
-          const withoutSuffix = lowerWord.replace(pattern, replacement);
+    for (const query of [...new Set(searchQueries)]) {
+      try {
+        const response = await this.api.get('/legislation', {
+          params: { searchTerm: query, size: 20 }
+        });
+        responses.push(response);
 
-          // Only add if we actually removed something meaningful (>5 chars remaining)
-          if (withoutSuffix !== lowerWord && withoutSuffix.length > 5) {
-            // Capitalize first letter to match German noun capitalization
-            const capitalized = withoutSuffix.charAt(0).toUpperCase() + withoutSuffix.slice(1);
-            expansions.push(capitalized);
-          }
+        if (response.data.member && response.data.member.length > 0) {
+          allResults.push(...response.data.member);
         }
+      } catch (error: any) {
+        // A query the API rejects or cannot match is not fatal; try the next one
+        if (error.response?.status !== 400 && error.response?.status !== 404) throw error;
+      }
+    }
+
+    // Remove duplicates — use @id (always populated) not documentNumber (often null for legislation)
+    const uniqueResults = allResults.filter((item, index, self) =>
+      index === self.findIndex(other => other.item?.['@id'] === item.item?.['@id'])
+    );
+
+    // Scoring function to find best match
+    const scoreMatch = (result: SearchResult) => {
+      const item = result.item;
+      let score = 0;
+
+      // Check if title matches the registered full name (HIGHEST PRIORITY)
+      if (fullName) {
+        const expectedTitle = fullName.toUpperCase();
+        const actualTitle = (item.headline || item.name || '').toUpperCase();
 
-        // Special handling for specific compound patterns
-        if (lowerWord.includes('mieterhöhung')) {
-          expansions.push('Mieterhöhung', '§ 558 BGB', 'Miete');
+        // Exact or very close title match - this is our law!
+        if (actualTitle === expectedTitle || actualTitle.includes(expectedTitle)) {
+          score += 2000; // HIGHEST priority - full title match
         }
-        if (lowerWord.includes('kündigungsschutz')) {
-          expansions.push('Kündigungsschutz', 'KSchG', 'Kündigung');
+      }
+
+      // Check abbreviation field (high priority)
+      if (item.abbreviation) {
+        const itemAbbr = item.abbreviation.trim().toUpperCase();
+        const searchAbbr = normalizedAbbr.trim();
+
+        // Exact match (high priority)
+        if (itemAbbr === searchAbbr) {
+          score += 1000;
         }
-        if (lowerWord.includes('sozialhilfe')) {
-          expansions.push('Sozialhilfe', 'SGB XII', '§ 19 SGB XII');
+        // Handle SGB variations: "SGB I" should match "SGB I" exactly, not "SGB IX" or "SGB II"
+        else if (searchAbbr.startsWith('SGB')) {
+          // Extract the book number/numeral from both
+          const searchBook = searchAbbr.replace('SGB', '').trim();
+          const itemBook = itemAbbr.replace('SGB', '').trim();
+
+          // Exact book match (very high priority)
+          if (searchBook === itemBook) {
+            score += 900;
+          }
+          // Partial match only if it's not a different SGB book
+          else if (itemAbbr.includes(searchAbbr)) {
+            // Check if this is actually a different SGB book
+            const romanNumerals = ['I', 'II', 'III', 'IV', 'V', 'VI', 'VII', 'VIII', 'IX', 'X', 'XI', 'XII', 'XIII', 'XIV'];
+            const isDifferentBook = romanNumerals.some(numeral => {
+              return searchBook !== numeral && itemBook === numeral;
+            });
+
+            if (!isDifferentBook) {
+              score += 50;
+            }
+            // Penalize wrong SGB book
+            else {
+              score -= 500;
+            }
+          }
         }
-        if (lowerWord.includes('elternzeit')) {
-          expansions.push('Elternzeit', 'BEEG', '§ 15 BEEG');
+        // Non-SGB laws: allow partial matches
+        else if (itemAbbr.includes(searchAbbr)) {
+          score += 50;
         }
       }
-    }
 
-    // Remove duplicates and filter empty
-    return [...new Set(expansions)].filter(term => term && term.length > 0);
-  }
+      // Check alternateName field
+      if (item.alternateName) {
+        const altName = item.alternateName.trim().toUpperCase();
+        if (altName === normalizedAbbr.trim()) score += 900;
+        else if (altName.includes(normalizedAbbr)) score += 40;
+      }
 
-  /**
-   * Generate human-readable HTML URL from document data
-   *
-   * Converts API JSON URLs to HTML viewer URLs:
-   * - Legislation: /v1/legislation/eli/... → /norms/eli/...
-   * - Case Law: /v1/case-law/... → /case-law/...
-   */
-  private generateHumanReadableUrl(doc: any): string {
-    // For legislation - use workExample for the correct versioned URL
-    if (doc['@type'] === 'Legislation') {
-      // Prefer workExample which has the full versioned path
-      const documentUrl = doc.workExample?.['@id'] || doc['@id'] || '';
+      // Check headline/name
+      const title = (item.headline || item.name || '').toUpperCase();
+      if (title.includes(normalizedAbbr)) score += 30;
 
-      // Convert /v1/legislation/eli/... to /norms/eli/...
-      if (documentUrl.includes('/v1/legislation/eli/')) {
-        return `https://testphase.rechtsinformationen.bund.de${documentUrl.replace('/v1/legislation/', '/norms/')}`;
+      // Boost if it's a "Sozialgesetzbuch" for SGB queries
+      if (normalizedAbbr.startsWith('SGB') && title.includes('SOZIALGESETZBUCH')) {
+        score += 20;
       }
 
-      // Fallback for non-ELI legislation URLs
-      return `https://testphase.rechtsinformationen.bund.de${documentUrl.replace('/v1', '')}`;
-    }
-
-    // For case law - use ECLI format or document path
-    if (doc['@type'] === 'CaseLaw' || doc.ecli) {
-      if (doc.ecli) {
-        // ECLI format: convert to /case-law/ecli/... path
-        return `https://testphase.rechtsinformationen.bund.de/case-law/ecli/${doc.ecli}`;
+      // Boost recent versions (but only slightly)
+      if (item.legislationDate) {
+        const year = parseInt(item.legislationDate.substring(0, 4));
+        if (year > 2000) score += 10;
       }
-      // Standard document path
-      const documentUrl = doc['@id'] || '';
-      return `https://testphase.rechtsinformationen.bund.de${documentUrl.replace('/v1', '')}`;
-    }
 
-    // Fallback for other document types
-    const documentUrl = doc['@id'] || '';
-    return `https://testphase.rechtsinformationen.bund.de${documentUrl.replace('/v1', '')}`;
-  }
+      return score;
+    };
 
-  /**
-   * Format document as markdown link with name
-   */
-  private formatDocumentLink(doc: any): string {
-    const name = doc.headline || doc.name || 'Untitled Document';
-    const url = this.generateHumanReadableUrl(doc);
-    return `[${name}](${url})`;
+    // Find best match
+    const scoredResults = uniqueResults.map(result => ({
+      result,
+      score: scoreMatch(result)
+    }));
+
+    scoredResults.sort((a, b) => b.score - a.score);
+    bestMatch = scoredResults[0]?.result;
+
+    return {
+      bestMatch: bestMatch || null,
+      bestScore: scoredResults[0]?.score ?? -Infinity,
+      uniqueResults,
+      responses,
+    };
   }
 
-  private formatLegislationResults(data: any): string {
-    if (!data.member || data.member.length === 0) {
-      return 'No legislation found.';
+  private async getLawByEli(args: any) {
+    const { eli } = args;
+
+    const ref = parseEli(eli || '');
+    if (!ref) {
+      throw new Error(`Invalid ELI "${eli}". Expected a format like eli/bund/bgbl-1/2006/s2748 or eli/bund/bgbl-1/2006/s2748/2025-05-01/1/deu`);
     }
 
-    const sourceHeader = `\n🏛️ **OFFICIAL GERMAN FEDERAL LEGISLATION - MUST CITE** (rechtsinformationen.bund.de)\n${'='.repeat(80)}\n⚠️ **IMPORTANT INSTRUCTIONS FOR YOUR RESPONSE:**
-1. Base your answer ONLY on the information provided below
-2. Include ALL URLs listed at the bottom in your "Quellen" or "Sources" section
-3. Cite specific § references (e.g., "§ 15 BEEG") in your answer
-4. DO NOT add external knowledge not found in these sources
+    const workId = workEli(ref);
+    const { law, expressions, responses } = await this.loadLawByEli(ref);
+    const stale = responses.some(response => response.stale);
 
-`;
-    
-    const results = data.member.map((searchResult: SearchResult, index: number) => {
-      const law = searchResult.item;
-      const textMatches = searchResult.textMatches || [];
-      
-      // Extract relevant text matches by category
-      const relevantTexts = textMatches.reduce((acc, match) => {
-        acc[match.name] = match.text;
-        return acc;
-      }, {} as any);
-      
-      // Look for specific legal references (§ sections)
-      const allContent = textMatches.map(m => m.text || '').join(' ');
-      const paragraphMatches = allContent.match(/§\s*\d+[a-z]?(\s*(Abs\.?|Absatz)\s*\d+)?(\s*(S\.?|Satz)\s*\d+)?\s*(SGB|BGB|StGB|GG|VwVfG|BEEG|EStG)\s*[IVX]*\d*/gi) || [];
-      
-      // CORRECT API USAGE: Use workExample for expression-level (concrete document) access
-      // Main item['@id'] = work level (abstract law concept): "/v1/legislation/eli/bund/bgbl-1/2007/s2942/regelungstext-1"
-      // workExample['@id'] = expression level (concrete version): "/v1/legislation/eli/bund/bgbl-1/2007/s2942/2024-08-20/1/deu/regelungstext-1"
-      // This follows semantic web design principles per API documentation
-      let documentUrl = law['@id'];
-      if (law.workExample && law.workExample['@id']) {
-        documentUrl = law.workExample['@id']; // Contains complete versioned path
-      }
-      
-      // Construct both API URL (JSON) and Web URL (HTML)
-      const apiUrl = `https://testphase.rechtsinformationen.bund.de${documentUrl}`;
+    if (!law) {
+      const structuredContent: LawByEliOutput = { eli, found: false, expressions: [], stale };
+      return {
+        structuredContent,
+        content: [{
+          type: 'text',
+          text: `${this.formatStaleNotice(responses)}❌ No law found for ELI "${eli}"\n\n💡 **Suggestions:**\n• Use the ELI or @id URL exactly as returned by deutsche_gesetze_suchen\n• Try the work-level ELI (${workId}) to list all versions\n• Use gesetz_per_abkuerzung_abrufen if you know the abbreviation`
+        }]
+      };
+    }
 
-      // Try to get HTML URL from workExample encoding field
-      let htmlUrl = apiUrl; // Fallback to API URL
-      const workExample = law.workExample as any;
-      if (workExample && workExample.encoding) {
-        const htmlEncoding = workExample.encoding.find((enc: any) =>
-          enc.encodingFormat === 'text/html' && enc.contentUrl
-        );
-        if (htmlEncoding) {
-          htmlUrl = `https://testphase.rechtsinformationen.bund.de${htmlEncoding.contentUrl}`;
-        }
-      }
+    const validity = this.getValidity(law);
+    const docLink = this.formatDocumentLink(law);
+    const currentId = law.workExample?.['@id'] || law['@id'];
+
+    const sortedExpressions = [...expressions]
+      .sort((a, b) => (this.getExpressionDate(b.item) || '').localeCompare(this.getExpressionDate(a.item) || ''));
+    const expressionList = sortedExpressions
+      .map((sr, i) => {
+        const item = sr.item;
+        const itemValidity = this.getValidity(item);
+        const status = itemValidity.inForce === true ? '✅ in force' : itemValidity.inForce === false ? '❌ not in force' : '❓ unknown';
+        const marker = item.workExample?.['@id'] === currentId ? ' ⬅️ described above' : '';
+        return `   ${i + 1}. [${this.getExpressionDate(item) || 'Undated'}](${this.generateHumanReadableUrl(item)}) — ${status}, valid ${describeTemporalCoverage(itemValidity.temporalCoverage)}${marker}\n      ELI: ${this.getExpressionEli(item) || 'N/A'}`;
+      });
+
+    const structuredContent: LawByEliOutput = {
+      eli,
+      found: true,
+      law: this.toSearchHit(law),
+      expressions: sortedExpressions.map(sr => this.toSearchHit(sr.item)),
+      stale,
+    };
 
-      // Create reference information for the user
-      let referenceInfo = `${law.eli || law.documentNumber || 'Unknown ID'}`;
-      if (law.eli && law.eli.includes('bgbl')) {
-        const eliMatch = law.eli.match(/eli\/bund\/bgbl-([IVX]+)\/(\d+)\/s(\d+)/);
-        if (eliMatch) {
-          const [, roman, year, page] = eliMatch;
-          referenceInfo = `Bundesgesetzblatt ${year} Teil ${roman} S. ${page}`;
-        }
-      }
-      
-      // Generate human-readable markdown link
-      const docLink = this.formatDocumentLink(law);
+    return {
+      structuredContent,
+      content: [{
+        type: 'text',
+        text: `${this.formatStaleNotice(responses)}🏷️ **LAW BY ELI: ${eli}**
 
-      // Extract metadata information (Expression level data)
-      const metadataInfo = [];
-      if (law.legislationDate) metadataInfo.push(`**Legislation Date:** ${law.legislationDate}`);
-      if (law.datePublished) metadataInfo.push(`**Published:** ${law.datePublished}`);
-      if (law.temporalCoverage) metadataInfo.push(`**Valid Period:** ${law.temporalCoverage}`);
-      if (typeof law.inForce === 'boolean') metadataInfo.push(`**In Force:** ${law.inForce ? '✅ Yes' : '❌ No'}`);
+**Full Title:** ${docLink}
+**Official Abbreviation:** ${law.abbreviation || 'N/A'}
+**Law Type:** ${this.classifyLawType(law)}
+**Work ELI:** ${workId}
+**Expression ELI:** ${this.getExpressionEli(law) || 'N/A'}
+
+📅 **VALIDITY METADATA:**
+**In Force:** ${validity.inForce === true ? '✅ Yes' : validity.inForce === false ? '❌ No' : '❓ Unknown'}
+**Temporal Coverage:** ${validity.temporalCoverage || 'N/A'} (${describeTemporalCoverage(validity.temporalCoverage)})
+**Legislation Date:** ${law.legislationDate || 'N/A'}
+**Published:** ${law.datePublished || 'N/A'}
+
+📚 **Available Expressions (${expressionList.length}):**
+${expressionList.length > 0 ? expressionList.join('\n') : '   No version list available for this work.'}
+
+💡 **NOTE:** Official German federal legislation database (rechtsinformationen.bund.de)`
+      }]
+    };
+  }
+
+  private async getTableOfContents(args: any) {
+    const { abbreviation, eli, maxDepth, includeParagraphs = true } = args;
 
-      return `**📋 OFFICIAL LAW ${index + 1} - CITE THIS:** ${docLink}
-📋 **Law Type:** ${law['@type']} | **Date:** ${law.legislationDate || law.decisionDate || 'N/A'}
-🔗 **ELI Identifier:** ${law.eli || law.documentNumber || 'N/A'}
-📖 **Abbreviation:** ${law.abbreviation || 'N/A'}
-${metadataInfo.length > 0 ? `📅 **METADATA (for validity/date questions):** ${metadataInfo.join(' | ')}` : ''}
-${paragraphMatches.length > 0 ? `⚖️ **KEY LEGAL REFERENCES TO CITE:** ${paragraphMatches.slice(0, 3).join(', ')}` : ''}
+    // Convert parameters to correct types if they're strings (for model compatibility)
+    const numericMaxDepth = typeof maxDepth === 'string' ? parseInt(maxDepth, 10) : maxDepth;
+    const includeArticles = includeParagraphs !== false && includeParagraphs !== 'false';
 
-📝 **Law Content:**
-${Object.entries(relevantTexts).map(([name, text]) =>
-  `• **${name}**: ${(text as string || '').substring(0, 300)}${(text as string || '').length > 300 ? '...' : ''}`
-).join('\n')}
+    const requested = eli || abbreviation;
 
-📖 **OFFICIAL REFERENCE:** ${referenceInfo}
-💡 **NOTE:** Official German federal legislation database (rechtsinformationen.bund.de)
-🔍 **DATA MODEL:** This response contains Expression-level metadata (dates, validity) and Manifestation-level links (HTML for reading)`;
-    }).join('\n\n' + '─'.repeat(80) + '\n\n');
+    const unavailable = eli ? null : this.checkCoverage(abbreviation);
+    if (unavailable) {
+      const structuredContent: TableOfContentsOutput = {
+        requested, found: false, entries: [], unavailable: this.toUnavailableLaw(this.coverage.check(abbreviation)), stale: false,
+      };
+      return { ...unavailable, structuredContent };
+    }
 
-    const footer = `\n${'='.repeat(80)}\n📋 **REQUIRED: COPY THESE LINKS TO YOUR "QUELLEN" OR "SOURCES" SECTION**\n\nYou MUST include ALL of these markdown links in your response:\n\n${data.member.map((sr: SearchResult, i: number) => {
-      const law = sr.item;
-      const docLink = this.formatDocumentLink(law);
-      return `   ${i + 1}. ${docLink}`;
-    }).join('\n')}\n`;
-    
-    return sourceHeader + results + footer;
-  }
+    const { law, responses, warning } = await this.resolveLaw({ abbreviation, eli });
 
-  private formatCaseLawResults(data: any): string {
-    if (!data.member || data.member.length === 0) {
-      return 'No case law found.';
+    if (!law) {
+      const structuredContent: TableOfContentsOutput = { requested, found: false, entries: [], stale: responses.some(response => response.stale) };
+      return {
+        structuredContent,
+        content: [{
+          type: 'text',
+          text: `${this.formatStaleNotice(responses)}❌ No law found for "${requested}"\n\n💡 **Suggestions:**\n• Check the abbreviation with gesetz_per_abkuerzung_abrufen\n• Use the ELI from deutsche_gesetze_suchen results\n• The law may not be in the testphase database yet`
+        }]
+      };
     }
 
-    const sourceHeader = `\n⚖️ **OFFICIAL GERMAN COURT DECISIONS - MUST CITE** (rechtsinformationen.bund.de)\n${'='.repeat(80)}\n⚠️ **IMPORTANT INSTRUCTIONS FOR YOUR RESPONSE:**
-1. Base your answer ONLY on the information provided below
-2. Include ALL URLs listed at the bottom in your "Quellen" or "Sources" section
-3. Cite specific case numbers and § references in your answer
-4. DO NOT add external knowledge not found in these sources
+    const { document, response } = await this.fetchLawDocument(law);
+    responses.push(response);
 
-`;
-    
-    const results = data.member.map((searchResult: SearchResult, index: number) => {
-      const case_ = searchResult.item;
-      const textMatches = searchResult.textMatches || [];
-      
-      // Extract different types of content
-      const contentByType = textMatches.reduce((acc, match) => {
-        acc[match.name] = match.text;
-        return acc;
-      }, {} as any);
-      
-      // Look for specific legal references (§ sections)
-      const allContent = textMatches.map(m => m.text || '').join(' ');
-      const paragraphMatches = allContent.match(/§\s*\d+[a-z]?(\s*(Abs\.?|Absatz)\s*\d+)?(\s*(S\.?|Satz)\s*\d+)?\s*(SGB|BGB|StGB|GG|VwVfG|BEEG|EStG)\s*[IVX]*\d*/gi) || [];
-      
-      // Generate human-readable markdown link
-      const caseLink = this.formatDocumentLink(case_);
+    const entries = extractTableOfContents(document, {
+      maxDepth: Number.isFinite(numericMaxDepth) && numericMaxDepth > 0 ? numericMaxDepth : undefined,
+      includeArticles,
+    });
+    const paragraphCount = entries.filter(entry => entry.type === 'Paragraph' || entry.type === 'Artikel').length;
 
-      return `**📋 OFFICIAL COURT DECISION ${index + 1} - CITE THIS:** ${caseLink}
-🏛️ **Court:** ${case_.courtName || 'German Federal Court'} | ${case_.judicialBody || ''}
-📅 **Decision Date:** ${case_.decisionDate || 'N/A'} | **Type:** ${case_.documentType || 'N/A'}
-📋 **Case Numbers:** ${case_.fileNumbers?.join(', ') || 'N/A'}
-🔗 **ECLI:** ${case_.ecli || 'N/A'}
-${paragraphMatches.length > 0 ? `⚖️ **KEY LEGAL REFERENCES TO CITE:** ${paragraphMatches.slice(0, 3).join(', ')}` : ''}
+    const lines = entries.map(entry => {
+      const indent = '  '.repeat(entry.depth - 1);
+      const label = [entry.num, entry.heading].filter(Boolean).join(' – ') || entry.type;
+      return `${indent}• [${label}](${this.generateElementUrl(law, entry.eId)})`;
+    });
 
-📝 **Decision Content:**
-${Object.entries(contentByType).map(([type, text]) =>
-  `• **${type}**: ${(text as string || '').substring(0, 250)}${(text as string || '').length > 250 ? '...' : ''}`
-).join('\n')}`;
-    }).join('\n\n' + '─'.repeat(80) + '\n\n');
+    const expressionDate = document.expressionDate || this.getExpressionDate(law);
+    const structuredContent: TableOfContentsOutput = {
+      requested,
+      found: true,
+      law: this.toSearchHit(law),
+      ...(warning ? { mismatch: law.abbreviation || '' } : {}),
+      ...(expressionDate ? { expressionDate } : {}),
+      entries: entries.map(entry => ({ ...entry, htmlUrl: this.generateElementUrl(law, entry.eId) })),
+      stale: responses.some(response => response.stale),
+    };
 
-    const footer = `\n${'='.repeat(80)}\n📋 **REQUIRED: COPY THESE LINKS TO YOUR "QUELLEN" OR "SOURCES" SECTION**\n\nYou MUST include ALL of these markdown links in your response:\n\n${data.member.map((sr: SearchResult, i: number) => {
-      const case_ = sr.item;
-      const caseLink = this.formatDocumentLink(case_);
-      return `   ${i + 1}. ${caseLink}`;
-    }).join('\n')}\n`;
-    
-    return sourceHeader + results + footer;
-  }
+    return {
+      structuredContent,
+      content: [{
+        type: 'text',
+        text: `${this.formatStaleNotice(responses)}📑 **TABLE OF CONTENTS: ${document.shortTitle || law.abbreviation || requested}**${warning}
 
-  private formatDocumentResults(data: any): string {
-    if (!data.member || data.member.length === 0) {
-      return 'No documents found.';
-    }
+**Full Title:** ${this.formatDocumentLink(law)}
+**Version (Expression):** ${expressionDate || 'N/A'}
+**ELI:** ${this.getExpressionEli(law) || law.eli || 'N/A'}
+**Entries:** ${entries.length} (${paragraphCount} §§/Artikel)
 
-    const sourceHeader = `\n📚 **OFFICIAL SOURCES - MUST CITE IN RESPONSE** (rechtsinformationen.bund.de)\n${'='.repeat(80)}\n⚠️ **IMPORTANT INSTRUCTIONS FOR YOUR RESPONSE:**
-1. Base your answer ONLY on the information provided below
-2. Include ALL URLs listed at the bottom in your "Quellen" or "Sources" section
-3. Cite specific § references (e.g., "§ 32 SGB II") in your answer
-4. DO NOT add external knowledge not found in these sources
+${lines.length > 0 ? lines.join('\n') : 'No structure found in the document.'}
 
-`;
-    
-    const results = data.member.map((searchResult: SearchResult, index: number) => {
-      const doc = searchResult.item;
-      const textMatches = searchResult.textMatches || [];
-      
-      const isLegislation = doc['@type'] === 'Legislation';
-      const summary = textMatches.map(m => m.text || '').join(' ').substring(0, 300);
-      
-      // Look for specific legal references (§ sections)
-      const allContent = textMatches.map(m => m.text || '').join(' ');
-      const paragraphMatches = allContent.match(/§\s*\d+[a-z]?(\s*(Abs\.?|Absatz)\s*\d+)?(\s*(S\.?|Satz)\s*\d+)?\s*(SGB|BGB|StGB|GG|VwVfG|BEEG|EStG)\s*[IVX]*\d*/gi) || [];
-      
-      // Generate human-readable URLs based on document type
-      let fullUrl: string;
-      
-      if (isLegislation) {
-        // For legislation: Use workExample for expression-level access
-        let documentUrl = doc['@id'];
-        if (doc.workExample && doc.workExample['@id']) {
-          documentUrl = doc.workExample['@id']; // Contains complete versioned path
-        }
-        // Convert API path to working website URL for legislation
-        fullUrl = `https://testphase.rechtsinformationen.bund.de${documentUrl}`;
-      } else {
-        // For court decisions: Always use case-law URL format (has full content)
-        // ECLI URLs on testphase appear to show shorter/placeholder content
-        fullUrl = `https://testphase.rechtsinformationen.bund.de${doc['@id'].replace('/v1', '')}`;
-      }
-      
-      // Create reference information for the user
-      let referenceInfo = `${doc.eli || doc.documentNumber || 'Unknown ID'}`;
-      if (doc.eli && doc.eli.includes('bgbl')) {
-        const eliMatch = doc.eli.match(/eli\/bund\/bgbl-([IVX]+)\/(\d+)\/s(\d+)/);
-        if (eliMatch) {
-          const [, roman, year, page] = eliMatch;
-          referenceInfo = `Bundesgesetzblatt ${year} Teil ${roman} S. ${page}`;
-        }
-      }
-      
-      return `**📋 OFFICIAL SOURCE ${index + 1} - CITE THIS:** ${doc.headline || doc.name || 'German Legal Document'}
-🏛️ **Court/Authority:** ${doc.courtName || 'Federal Legal Authority'}
-📅 **Date:** ${doc.legislationDate || doc.decisionDate || 'N/A'}
-🔗 **Official Document ID:** ${doc.eli || doc.ecli || doc.documentNumber || 'N/A'}
-${paragraphMatches.length > 0 ? `⚖️ **KEY LEGAL REFERENCES TO CITE:** ${paragraphMatches.slice(0, 3).join(', ')}` : ''}
+💡 **Next Steps:**
+• Use norm_abrufen with a citation (e.g., "§ 44 SGB X") to read a single provision
+• Use the links above to open a provision in the official viewer`
+      }]
+    };
+  }
 
-📝 **Key Legal Content:** ${summary || 'No content available'}
+  private async getNorm(args: any) {
+    const { citation, absatz, satz, nummer, buchstabe, halbsatz, eli } = args;
 
-📖 **OFFICIAL REFERENCE:** ${referenceInfo}
-🌐 **FULL TEXT LINK:** ${fullUrl}
-💡 **NOTE:** Official German federal legal database
-📄 **Document Type:** ${doc['@type']} ${isLegislation ? '(Federal Law)' : '(Court Decision)'}`;
-    }).join('\n\n' + '─'.repeat(80) + '\n\n');
+    const parsed = this.parseSingleNorm(citation, eli ? '' : undefined);
 
-    const footer = `\n${'='.repeat(80)}\n💡 **MANDATORY CITATION:** All information above is from official German Federal Legal Information Portal\n🔍 **SOURCE:** rechtsinformationen.bund.de | **Via:** Rechtsinformationen Bund DE MCP Server\n⚠️ **IMPORTANT:** Include specific § references and human-readable source URLs in your final response. DO NOT add external world knowledge.\n🌐 **WICHTIG:** Include these URLs in your "Quellen" section:\n${data.member.map((sr: SearchResult, i: number) => {
-      const doc = sr.item;
-      const isLegislation = doc['@type'] === 'Legislation';
-      let fullUrl: string;
-      
-      if (isLegislation) {
-        // For legislation: Use workExample for expression-level access
-        let documentUrl = doc['@id'];
-        if (doc.workExample && doc.workExample['@id']) {
-          documentUrl = doc.workExample['@id'];
-        }
-        fullUrl = `https://testphase.rechtsinformationen.bund.de${documentUrl}`;
-      } else {
-        // For court decisions: Always use case-law URL format (has full content)
-        fullUrl = `https://testphase.rechtsinformationen.bund.de${doc['@id'].replace('/v1', '')}`;
-      }
-      
-      return `   ${i + 1}. ${fullUrl}`;
-    }).join('\n')}\n`;
-    
-    return sourceHeader + results + footer;
-  }
+    // Explicit arguments override the parts of the citation (strings accepted for model compatibility)
+    const toNumber = (value: any) => typeof value === 'string' ? parseInt(value, 10) : value;
+    const requested: NormCitation = {
+      ...parsed,
+      absatz: toNumber(absatz) ?? parsed.absatz,
+      satz: toNumber(satz) ?? parsed.satz,
+      nummer: nummer !== undefined && nummer !== null ? String(nummer).toLowerCase() : parsed.nummer,
+      buchstabe: buchstabe !== undefined && buchstabe !== null ? String(buchstabe).replace(/[)\s]/g, '').toLowerCase() : parsed.buchstabe,
+      halbsatz: toNumber(halbsatz) ?? parsed.halbsatz,
+    };
 
-  private formatDocumentDetails(data: any, format: string): string {
-    if (format === 'html' || format === 'xml') {
-      return `Raw ${format.toUpperCase()} content:\n${data}`;
+    const unavailable = eli ? null : this.checkCoverage(parsed.law);
+    if (unavailable) {
+      const structuredContent: NormOutput = {
+        citation, found: false, sections: [], unavailable: this.toUnavailableLaw(this.coverage.check(parsed.law)), stale: false,
+      };
+      return { ...unavailable, structuredContent };
     }
 
-    // Handle JSON response
-    if (data.member && data.member.length > 0) {
-      return this.formatDocumentResults(data);
+    const { law, responses, warning } = await this.resolveLaw(eli ? { eli } : { abbreviation: parsed.law });
+    if (!law) {
+      const structuredContent: NormOutput = { citation, found: false, sections: [], stale: responses.some(response => response.stale) };
+      return {
+        structuredContent,
+        content: [{
+          type: 'text',
+          text: `${this.formatStaleNotice(responses)}❌ Law "${parsed.law || eli}" not found for citation "${citation}"\n\n💡 **Suggestions:**\n• Check the abbreviation with gesetz_per_abkuerzung_abrufen\n• The law may not be in the testphase database yet (e.g., GG, SGB I-VIII)\n• Use intelligente_rechtssuche with the citation as query`
+        }]
+      };
     }
+    // A citation read from an ELI alone takes the abbreviation of the law it points to
+    if (!requested.law) requested.law = law.abbreviation || '';
+
+    const { document, response } = await this.fetchLawDocument(law);
+    responses.push(response);
+
+    const expressionDate = document.expressionDate || this.getExpressionDate(law);
+    // Structured output of the answers below, found or not
+    const output = (fields: Partial<NormOutput>): NormOutput => ({
+      citation,
+      found: false,
+      law: this.toSearchHit(law),
+      ...(warning ? { mismatch: law.abbreviation || '' } : {}),
+      ...(expressionDate ? { expressionDate } : {}),
+      sections: [],
+      stale: responses.some(response => response.stale),
+      ...fields,
+    });
 
-    // Handle single document response
-    return `📋 **Document Details**
-Type: ${data['@type'] || 'N/A'}
-Name: ${data.name || data.headline || 'N/A'}
-Date: ${data.legislationDate || data.decisionDate || 'N/A'}
-Identifier: ${data.eli || data.ecli || data.documentNumber || 'N/A'}
+    const article = findArticle(document, parsed);
+    if (!article) {
+      return {
+        structuredContent: output({ notFound: `${parsed.kind === 'paragraph' ? '§' : 'Art.'} ${parsed.number}` }),
+        content: [{
+          type: 'text',
+          text: `${this.formatStaleNotice(responses)}❌ ${parsed.kind === 'paragraph' ? '§' : 'Art.'} ${parsed.number} not found in ${this.formatDocumentLink(law)}${warning}\n\n💡 **Suggestions:**\n• Use gesetz_inhaltsverzeichnis_abrufen to see which §§ exist\n• The provision may have been repealed (weggefallen) in this version`
+        }]
+      };
+    }
 
-${JSON.stringify(data, null, 2)}`;
-  }
+    const norm = extractNorm(article);
+    const notFound = (detail: string) => ({
+      structuredContent: output({ notFound: detail, heading: norm.heading, eId: norm.eId }),
+      content: [{
+        type: 'text',
+        text: `${this.formatStaleNotice(responses)}❌ ${detail} not found in ${norm.num} ${parsed.law}\n\n**Available Absätze:** ${norm.paragraphs.map(p => p.num).filter(Boolean).join(', ') || 'none (single-paragraph norm)'}\n🔗 ${this.generateElementUrl(law, norm.eId)}`
+      }]
+    });
 
-  private formatLegislationDetails(data: any, format: string): string {
-    if (format === 'html' || format === 'xml') {
-      return `Raw ${format.toUpperCase()} content:\n${data}`;
-    }
+    // Narrow down: Absatz → Nummer → Buchstabe → Satz → Halbsatz
+    let sections: NormSection[] = norm.paragraphs;
+    let eId = norm.eId;
 
-    if (data.member && data.member.length > 0) {
-      return this.formatLegislationResults(data);
+    if (requested.absatz !== undefined) {
+      const paragraph = findParagraph(norm, requested.absatz);
+      if (!paragraph) return notFound(`Abs. ${requested.absatz}`);
+      sections = [paragraph];
+      eId = paragraph.eId;
     }
 
-    return `📋 **Legislation Details**
-${JSON.stringify(data, null, 2)}`;
-  }
+    if (requested.nummer !== undefined) {
+      // Without an Absatz, the Nummer must exist in only one of them ("§ 7 Nr. 1" is ambiguous when Abs. 1 and 3 both list a Nr. 1)
+      if (requested.absatz === undefined && norm.paragraphs.length > 1) {
+        const matches = norm.paragraphs.filter(paragraph => {
+          const container = paragraph.eId ? findElementById(document, paragraph.eId) : null;
+          return container !== null && findPoint(container, requested.nummer!) !== null;
+        });
+        if (matches.length > 1) {
+          return {
+            structuredContent: output({
+              notFound: `A single Nr. ${requested.nummer}`,
+              heading: norm.heading,
+              eId: norm.eId,
+              ambiguousIn: matches.map(paragraph => `Abs. ${paragraph.num.replace(/[()\s]/g, '')}`),
+            }),
+            content: [{
+              type: 'text',
+              text: `${this.formatStaleNotice(responses)}❓ Nr. ${requested.nummer} is ambiguous in ${norm.num} ${parsed.law}: it exists in ${matches.map(paragraph => `Abs. ${paragraph.num.replace(/[()\s]/g, '')}`).join(', ')}
 
-  private formatEnhancedSemanticResults(results: any[], explanations: string[]): string {
-    if (results.length === 0) {
-      return 'No semantically similar documents found.';
+💡 Add absatz to choose one, e.g. "${formatNormCitation({ ...requested, absatz: parseInt(matches[0].num.replace(/[()\s]/g, ''), 10) })}"
+🔗 ${this.generateElementUrl(law, norm.eId)}`
+            }]
+          };
+        }
+        if (matches.length === 1) {
+          eId = matches[0].eId;
+          requested.absatz = parseInt(matches[0].num.replace(/[()\s]/g, ''), 10) || undefined;
+        }
+      }
+
+      const container = findElementById(document, eId) || article;
+      const point = findPoint(container, requested.nummer);
+      if (!point) return notFound(`Nr. ${requested.nummer}`);
+      sections = [point];
+      eId = point.eId;
     }
 
-    let output = '';
+    if (requested.buchstabe !== undefined) {
+      const container = findElementById(document, eId) || article;
+      const points = findPoints(container, requested.buchstabe);
+      if (points.length === 0) return notFound(`Buchst. ${requested.buchstabe}`);
+      if (points.length > 1) {
+        return notFound(`A single Buchst. ${requested.buchstabe} (it occurs ${points.length} times, please add nummer or absatz)`);
+      }
+      sections = [points[0]];
+      eId = points[0].eId;
+    }
 
-    // Add concept mapping explanations if available
-    if (explanations.length > 0) {
-      output += `💡 **Concept Corrections Applied:**\n${explanations.map(exp => `• ${exp}`).join('\n')}\n\n`;
+    if (requested.satz !== undefined) {
+      if (sections.length !== 1) {
+        return notFound(`Satz ${requested.satz} without Absatz (this norm has several Absätze, please add absatz)`);
+      }
+      const sentences = splitSentences(sections[0].text);
+      const sentence = sentences[requested.satz - 1];
+      if (!sentence) return notFound(`Satz ${requested.satz} (only ${sentences.length} Sätze)`);
+      sections = [{ ...sections[0], num: `${sections[0].num} Satz ${requested.satz}`.trim(), text: sentence }];
     }
 
-    output += results.map((result, index) => {
-      const doc = result.item.originalResult ? result.item.originalResult.item : result.item;
-      const rawScore = result.score || 0;
+    if (requested.halbsatz !== undefined) {
+      const sentences = sections.length === 1 ? splitSentences(sections[0].text) : [];
+      if (sentences.length !== 1) {
+        return notFound(`Halbsatz ${requested.halbsatz} without Satz (please add satz)`);
+      }
+      const halves = splitHalfSentences(sentences[0]);
+      const half = halves[requested.halbsatz - 1];
+      if (!half) return notFound(`Halbsatz ${requested.halbsatz} (only ${halves.length} Halbsätze)`);
+      sections = [{ ...sections[0], num: `${sections[0].num} Halbsatz ${requested.halbsatz}`.trim(), text: half }];
+    }
 
-      // Convert Fuse.js score (0=perfect, 1=terrible) to confidence (0-100%)
-      const confidence = Math.round((1 - rawScore) * 100);
-      const confidenceLabel = confidence >= 80 ? '🟢 High' :
-                             confidence >= 60 ? '🟡 Medium' :
-                             confidence >= 40 ? '🟠 Low' : '🔴 Very Low';
+    const deepLink = this.generateElementUrl(law, eId);
+    const label = formatNormCitation(requested);
 
-      const priority = result.item.priority || 'standard';
-      const searchTerm = result.item.searchTerm || 'unknown';
-      const textMatches = result.item.originalResult ? result.item.originalResult.textMatches : [];
-      const summary = textMatches ? textMatches.map((m: any) => m.text || '').join(' ').substring(0, 200) : 'No summary available';
+    return {
+      structuredContent: output({ found: true, resolvedCitation: label, heading: norm.heading, eId, sections, htmlUrl: deepLink }),
+      content: [{
+        type: 'text',
+        text: `${this.formatStaleNotice(responses)}⚖️ **${label}**${norm.heading ? ` – ${norm.heading}` : ''}${warning}
 
-      // Classify law type for better categorization
-      const lawType = this.classifyLawType(doc);
+**Law:** ${this.formatDocumentLink(law)}
+**eId:** ${eId || 'N/A'}
+**Version (Expression Date):** ${expressionDate || 'N/A'}
+**ELI:** ${this.getExpressionEli(law) || law.eli || 'N/A'}
+🔗 **Deep Link:** ${deepLink}
 
-      // Extract paragraph references
-      const allContent = textMatches ? textMatches.map((m: any) => m.text || '').join(' ') : '';
-      const paragraphMatches = allContent.match(/§\s*\d+[a-z]?(\s*(Abs\.?|Absatz)\s*\d+)?/gi) || [];
-      const uniqueParas = [...new Set(paragraphMatches)].slice(0, 3);
+📜 **Text:**
+${sections.map(section => `${section.num ? `${section.num} ` : ''}${section.text}`).join('\n\n')}
 
-      // Generate human-readable markdown link
-      const docLink = this.formatDocumentLink(doc);
+💡 **CITE AS:** [${label}](${deepLink})`
+      }]
+    };
+  }
 
-      return `${index + 1}. ${docLink}
-   📊 **Confidence:** ${confidenceLabel} (${confidence}%) | **Priority:** ${priority}
-   📂 **Law Type:** ${lawType}
-   📅 **Date:** ${doc.legislationDate || doc.decisionDate || 'N/A'}
-   🔍 **Found via:** "${searchTerm}"
-   ${doc.courtName ? `🏛️ **Court:** ${doc.courtName}` : ''}
-   🔗 **ELI/ECLI:** ${doc.eli || doc.ecli || doc.documentNumber || 'N/A'}
-   ${doc.abbreviation ? `📖 **Abbreviation:** ${doc.abbreviation}` : ''}
-   ${uniqueParas.length > 0 ? `⚖️ **Key Paragraphs:** ${uniqueParas.join(', ')}` : ''}
-   📄 **Summary:** ${summary || 'No summary available'}`;
-    }).join('\n\n');
+  private async listLawVersions(args: any) {
+    const { abbreviation, eli } = args;
+    const requested = eli || abbreviation;
 
-    return output;
-  }
+    const unavailable = eli ? null : this.checkCoverage(abbreviation);
+    if (unavailable) {
+      const structuredContent: LawVersionsOutput = {
+        requested, found: false, versions: [], unavailable: this.toUnavailableLaw(this.coverage.check(abbreviation)), stale: false,
+      };
+      return { ...unavailable, structuredContent };
+    }
 
-  private formatSemanticResults(results: any[]): string {
-    if (results.length === 0) {
-      return 'No semantically similar documents found.';
+    const { law, versions, responses, warning } = await this.loadLawVersions({ abbreviation, eli });
+    const stale = responses.some(response => response.stale);
+    if (!law) {
+      const structuredContent: LawVersionsOutput = { requested, found: false, versions: [], stale };
+      return {
+        structuredContent,
+        content: [{
+          type: 'text',
+          text: `${this.formatStaleNotice(responses)}❌ No law found for "${requested}"\n\n💡 **Suggestions:**\n• Check the abbreviation with gesetz_per_abkuerzung_abrufen\n• Use the ELI from deutsche_gesetze_suchen results`
+        }]
+      };
     }
 
-    return results.map((result, index) => {
-      const doc = result.item.originalResult.item;
-      const score = result.score ? (1 - result.score).toFixed(3) : 'N/A';
-      const textMatches = result.item.originalResult.textMatches || [];
-      const summary = textMatches.map((m: any) => m.text || '').join(' ').substring(0, 200);
+    const today = new Date().toISOString().substring(0, 10);
+    const current = findVersionAt(versions, today);
+
+    const lines = [...versions].reverse().map((version, i) => {
+      const status = version.inForce === true || version === current ? '✅ in force' : version.inForce === false ? '❌ not in force' : '⏳ historical';
+      return `   ${i + 1}. [Fassung ${version.pointInTime}](${this.generateHumanReadableUrl(version.item)}) — ${this.formatValidityRange(version)} ${status}\n      ELI: ${version.eli}`;
+    });
+
+    const workId = this.getWorkEli(law);
+    const structuredContent: LawVersionsOutput = {
+      requested,
+      found: true,
+      law: this.toSearchHit(law),
+      ...(warning ? { mismatch: law.abbreviation || '' } : {}),
+      ...(workId ? { workEli: workId } : {}),
+      versions: [...versions].reverse().map(version => this.toVersionEntry(version)),
+      ...(current ? { currentEli: current.eli } : {}),
+      stale,
+    };
+
+    return {
+      structuredContent,
+      content: [{
+        type: 'text',
+        text: `${this.formatStaleNotice(responses)}🗂️ **VERSIONS OF: ${law.abbreviation || requested}**${warning}
 
-      return `${index + 1}. **${doc.headline || doc.name || 'Untitled Document'}** (Similarity: ${score})
-   📂 Type: ${doc['@type']}
-   📅 Date: ${doc.legislationDate || doc.decisionDate || 'N/A'}
-   ${doc.courtName ? `🏛️ Court: ${doc.courtName}` : ''}
-   🔗 Identifier: ${doc.eli || doc.ecli || doc.documentNumber || 'N/A'}
-   📄 Summary: ${summary || 'No summary available'}`;
-    }).join('\n\n');
-  }
+**Full Title:** ${this.formatDocumentLink(law)}
+**Work ELI:** ${workId || 'N/A'}
+**Versions in database:** ${versions.length}
 
-  private async getLawByAbbreviation(args: any) {
-    const { abbreviation } = args;
+${lines.length > 0 ? lines.join('\n') : '   No versions found for this law.'}
 
-    // Normalize abbreviation (handle variations like "SGB I" vs "SGB-I" vs "SGBI")
-    const normalizedAbbr = abbreviation.trim().toUpperCase();
-
-    // Map common abbreviations to full law names for better search results
-    const abbreviationMap: {[key: string]: string} = {
-      'GG': 'Grundgesetz für die Bundesrepublik Deutschland',
-      'BGB': 'Bürgerliches Gesetzbuch',
-      'StGB': 'Strafgesetzbuch',
-      'SGB I': 'Sozialgesetzbuch Erstes Buch',
-      'SGB II': 'Sozialgesetzbuch Zweites Buch',
-      'SGB III': 'Sozialgesetzbuch Drittes Buch',
-      'SGB IV': 'Sozialgesetzbuch Viertes Buch',
-      'SGB V': 'Sozialgesetzbuch Fünftes Buch',
-      'SGB VI': 'Sozialgesetzbuch Sechstes Buch',
-      'SGB VII': 'Sozialgesetzbuch Siebtes Buch',
-      'SGB VIII': 'Sozialgesetzbuch Achtes Buch',
-      'SGB IX': 'Sozialgesetzbuch Neuntes Buch',
-      'SGB X': 'Sozialgesetzbuch Zehntes Buch',
-      'SGB XI': 'Sozialgesetzbuch Elftes Buch',
-      'SGB XII': 'Sozialgesetzbuch Zwölftes Buch',
-      'SGB XIII': 'Sozialgesetzbuch Dreizehntes Buch',
-      'SGB XIV': 'Sozialgesetzbuch Vierzehntes Buch',
+💡 **Next Steps:**
+• Use fassung_zum_stichtag_abrufen with a date to get the version in force on that day
+• Use norm_abrufen with the eli of a version to read a § in that version`
+      }]
     };
+  }
 
-    // Build search queries: prioritize full name if we know it
-    const searchQueries: string[] = [];
+  private async getLawAtDate(args: any) {
+    const { date, citation, abbreviation, eli } = args;
 
-    // Add full law name if we have a mapping
-    if (abbreviationMap[normalizedAbbr]) {
-      searchQueries.push(`"${abbreviationMap[normalizedAbbr]}"`);
-      searchQueries.push(abbreviationMap[normalizedAbbr]);
+    const stichtag = normalizeDate(date);
+    if (!stichtag) {
+      throw new Error(`Invalid date "${date}". Expected YYYY-MM-DD or DD.MM.YYYY`);
     }
 
-    // Add abbreviation searches
-    searchQueries.push(`"${abbreviation}"`);
-    searchQueries.push(normalizedAbbr);
-    searchQueries.push(abbreviation);
+    const parsedCitation = citation ? this.parseSingleNorm(citation, abbreviation || (eli ? '' : undefined)) : null;
 
-    // Try multiple search approaches
-    let bestMatch: any = null;
-    let allResults: any[] = [];
+    const lawInput = eli ? { eli } : { abbreviation: abbreviation || parsedCitation?.law };
+    if (!lawInput.eli && !lawInput.abbreviation) {
+      throw new Error('Either abbreviation, eli or a citation naming the law is required');
+    }
 
-    for (const query of searchQueries) {
-      try {
-        const response = await axios.get(`${BASE_URL}/legislation`, {
-          params: { searchTerm: query, size: 20 }
-        });
+    const requested = lawInput.eli || lawInput.abbreviation!;
 
-        if (response.data.member && response.data.member.length > 0) {
-          allResults.push(...response.data.member);
-        }
-      } catch (error) {
-        // Continue with other queries
-      }
+    const unavailable = this.checkCoverage(lawInput.abbreviation);
+    if (unavailable) {
+      const structuredContent: LawAtDateOutput = {
+        date: stichtag, requested, found: false, unavailable: this.toUnavailableLaw(this.coverage.check(lawInput.abbreviation!)), stale: false,
+      };
+      return { ...unavailable, structuredContent };
     }
 
-    // Remove duplicates — use @id (always populated) not documentNumber (often null for legislation)
-    const uniqueResults = allResults.filter((item, index, self) =>
-      index === self.findIndex(other => other.item?.['@id'] === item.item?.['@id'])
-    );
+    const { law, versions, responses, warning } = await this.loadLawVersions(lawInput);
+    const stale = responses.some(response => response.stale);
+    if (!law) {
+      const structuredContent: LawAtDateOutput = { date: stichtag, requested, found: false, stale };
+      return {
+        structuredContent,
+        content: [{
+          type: 'text',
+          text: `${this.formatStaleNotice(responses)}❌ No law found for "${requested}"\n\n💡 **Suggestions:**\n• Check the abbreviation with gesetz_per_abkuerzung_abrufen\n• The law may not be in the testphase database yet`
+        }]
+      };
+    }
 
-    if (uniqueResults.length === 0) {
+    const mismatch = warning ? { mismatch: law.abbreviation || '' } : {};
+    const version = findVersionAt(versions, stichtag);
+    if (!version) {
+      const earliest = versions[0];
+      const structuredContent: LawAtDateOutput = {
+        date: stichtag,
+        requested,
+        found: false,
+        law: this.toSearchHit(law),
+        ...mismatch,
+        ...(earliest ? { earliestVersion: this.toVersionEntry(earliest) } : {}),
+        stale,
+      };
       return {
+        structuredContent,
         content: [{
           type: 'text',
-          text: `❌ No law found for abbreviation "${abbreviation}"\n\n💡 **Suggestions:**\n• Check spelling (e.g., "SGB I" not "SGB 1")\n• Try the full law name instead\n• Use intelligente_rechtssuche for broader search\n• Common abbreviations: SGB I-XII, BGB, StGB, GG, AufenthG, KSchG, BEEG`
+          text: `${this.formatStaleNotice(responses)}❌ No version of ${law.abbreviation || this.formatDocumentLink(law)} in force on ${stichtag} found in the database${warning}\n\n**Earliest available version:** ${earliest ? `${earliest.pointInTime} (${this.formatValidityRange(earliest)})` : 'none'}\n\n💡 The testphase database does not hold all historical versions. Use gesetzesfassungen_auflisten to see the available ones.`
         }]
       };
     }
 
-    // Scoring function to find best match
-    const scoreMatch = (result: SearchResult) => {
-      const item = result.item;
-      let score = 0;
+    const header = `📅 **STICHTAG ${stichtag}:** Fassung vom ${version.pointInTime} — ${this.formatValidityRange(version)}\n🔗 **Version ELI:** ${version.eli}${warning}\n\n`;
 
-      // Check if title matches our mapped full name (HIGHEST PRIORITY)
-      if (abbreviationMap[normalizedAbbr]) {
-        const expectedTitle = abbreviationMap[normalizedAbbr].toUpperCase();
-        const actualTitle = (item.headline || item.name || '').toUpperCase();
+    const found: LawAtDateOutput = {
+      date: stichtag,
+      requested,
+      found: true,
+      law: this.toSearchHit(version.item),
+      ...mismatch,
+      version: this.toVersionEntry(version),
+      stale,
+    };
 
-        // Exact or very close title match - this is our law!
-        if (actualTitle === expectedTitle || actualTitle.includes(expectedTitle)) {
-          score += 2000; // HIGHEST priority - full title match
-        }
-      }
+    if (parsedCitation) {
+      const result = await this.getNorm({ citation, eli: version.eli });
+      const norm = result.structuredContent;
+      return {
+        structuredContent: { ...found, norm, stale: stale || norm.stale },
+        content: result.content.map(part => ({ ...part, text: `${header}${part.text}` })),
+      };
+    }
 
-      // Check abbreviation field (high priority)
-      if (item.abbreviation) {
-        const itemAbbr = item.abbreviation.trim().toUpperCase();
-        const searchAbbr = normalizedAbbr.trim();
+    return {
+      structuredContent: found,
+      content: [{
+        type: 'text',
+        text: `${this.formatStaleNotice(responses)}${header}**Full Title:** ${this.formatDocumentLink(version.item)}
+**Official Abbreviation:** ${version.item.abbreviation || law.abbreviation || 'N/A'}
+**In Force Today:** ${version.validTo && version.validTo < new Date().toISOString().substring(0, 10) ? '❌ No (later version exists)' : '✅ Yes'}
 
-        // Exact match (high priority)
-        if (itemAbbr === searchAbbr) {
-          score += 1000;
-        }
-        // Handle SGB variations: "SGB I" should match "SGB I" exactly, not "SGB IX" or "SGB II"
-        else if (searchAbbr.startsWith('SGB')) {
-          // Extract the book number/numeral from both
-          const searchBook = searchAbbr.replace('SGB', '').trim();
-          const itemBook = itemAbbr.replace('SGB', '').trim();
+💡 **Next Steps:**
+• Use norm_abrufen with eli "${version.eli}" to read a § in this version
+• Use gesetz_inhaltsverzeichnis_abrufen with this eli for its structure`
+      }]
+    };
+  }
 
-          // Exact book match (very high priority)
-          if (searchBook === itemBook) {
-            score += 900;
-          }
-          // Partial match only if it's not a different SGB book
-          else if (itemAbbr.includes(searchAbbr)) {
-            // Check if this is actually a different SGB book
-            const romanNumerals = ['I', 'II', 'III', 'IV', 'V', 'VI', 'VII', 'VIII', 'IX', 'X', 'XI', 'XII', 'XIII', 'XIV'];
-            const isDifferentBook = romanNumerals.some(numeral => {
-              return searchBook !== numeral && itemBook === numeral;
-            });
+  private async compareLawVersions(args: any) {
+    const { citation, abbreviation, eli, dateFrom, dateTo, eliFrom, eliTo } = args;
+
+    const parsedCitation = citation ? this.parseSingleNorm(citation, abbreviation || (eli || eliFrom || eliTo ? '' : undefined)) : null;
+
+    const responses: ApiResponse[] = [];
+    let older: { item: SearchResult['item']; label: string };
+    let newer: { item: SearchResult['item']; label: string };
+    let intermediate: LawVersion<SearchResult['item']>[] = [];
+    let warning = '';
+    let dates: Pick<VersionComparisonOutput, 'dateFrom' | 'dateTo'> = {};
+    let mismatch: Pick<VersionComparisonOutput, 'mismatch'> = {};
+
+    // Structured output of the answers below; `subject` is the citation or law as requested until the law is known
+    const requestedSubject = parsedCitation ? formatNormCitation(parsedCitation) : abbreviation || eli || eliTo;
+    const output = (fields: Partial<VersionComparisonOutput>): VersionComparisonOutput => ({
+      subject: requestedSubject,
+      found: false,
+      ...mismatch,
+      ...dates,
+      intermediate: [],
+      changes: [],
+      amendments: [],
+      stale: responses.some(response => response.stale),
+      ...fields,
+    });
 
-            if (!isDifferentBook) {
-              score += 50;
-            }
-            // Penalize wrong SGB book
-            else {
-              score -= 500;
-            }
-          }
-        }
-        // Non-SGB laws: allow partial matches
-        else if (itemAbbr.includes(searchAbbr)) {
-          score += 50;
-        }
+    if (eliFrom || eliTo) {
+      if (!eliFrom || !eliTo) {
+        throw new Error('Both eliFrom and eliTo are required to compare two expressions');
+      }
+      const [from, to] = [await this.resolveLaw({ eli: eliFrom }), await this.resolveLaw({ eli: eliTo })];
+      responses.push(...from.responses, ...to.responses);
+      if (!from.law || !to.law) {
+        return {
+          structuredContent: output({ notFound: !from.law ? eliFrom : eliTo }),
+          content: [{
+            type: 'text',
+            text: `${this.formatStaleNotice(responses)}❌ Expression not found: ${!from.law ? eliFrom : eliTo}\n\n💡 Use gesetzesfassungen_auflisten to see the available versions and their ELIs`
+          }]
+        };
+      }
+      older = { item: from.law, label: this.getExpressionDate(from.law) || eliFrom };
+      newer = { item: to.law, label: this.getExpressionDate(to.law) || eliTo };
+      if (older.label > newer.label) [older, newer] = [newer, older];
+    } else {
+      const today = new Date().toISOString().substring(0, 10);
+      let from = normalizeDate(dateFrom);
+      let to = dateTo ? normalizeDate(dateTo) : today;
+      if (!from || !to) {
+        throw new Error(`Invalid date "${!from ? dateFrom : dateTo}". Expected YYYY-MM-DD or DD.MM.YYYY (dateFrom is required without eliFrom/eliTo)`);
       }
+      if (from > to) [from, to] = [to, from];
+      dates = { dateFrom: from, dateTo: to };
 
-      // Check alternateName field
-      if (item.alternateName) {
-        const altName = item.alternateName.trim().toUpperCase();
-        if (altName === normalizedAbbr.trim()) score += 900;
-        else if (altName.includes(normalizedAbbr)) score += 40;
+      const lawInput = eli ? { eli } : { abbreviation: abbreviation || parsedCitation?.law };
+      if (!lawInput.eli && !lawInput.abbreviation) {
+        throw new Error('Either abbreviation, eli or a citation naming the law is required');
       }
 
-      // Check headline/name
-      const title = (item.headline || item.name || '').toUpperCase();
-      if (title.includes(normalizedAbbr)) score += 30;
+      const unavailable = this.checkCoverage(lawInput.abbreviation);
+      if (unavailable) {
+        return { ...unavailable, structuredContent: output({ unavailable: this.toUnavailableLaw(this.coverage.check(lawInput.abbreviation!)) }) };
+      }
 
-      // Boost if it's a "Sozialgesetzbuch" for SGB queries
-      if (normalizedAbbr.startsWith('SGB') && title.includes('SOZIALGESETZBUCH')) {
-        score += 20;
+      const loaded = await this.loadLawVersions(lawInput);
+      responses.push(...loaded.responses);
+      warning = loaded.warning;
+      if (!loaded.law) {
+        return {
+          structuredContent: output({ notFound: lawInput.eli || lawInput.abbreviation }),
+          content: [{
+            type: 'text',
+            text: `${this.formatStaleNotice(responses)}❌ No law found for "${lawInput.eli || lawInput.abbreviation}"\n\n💡 Check the abbreviation with gesetz_per_abkuerzung_abrufen`
+          }]
+        };
       }
 
-      // Boost recent versions (but only slightly)
-      if (item.legislationDate) {
-        const year = parseInt(item.legislationDate.substring(0, 4));
-        if (year > 2000) score += 10;
+      const versionFrom = findVersionAt(loaded.versions, from);
+      const versionTo = findVersionAt(loaded.versions, to);
+      if (warning) mismatch = { mismatch: loaded.law.abbreviation || '' };
+      if (!versionFrom || !versionTo) {
+        return {
+          structuredContent: output({
+            notFound: `Version in force on ${!versionFrom ? from : to}`,
+            availableVersions: loaded.versions.map(v => v.pointInTime),
+          }),
+          content: [{
+            type: 'text',
+            text: `${this.formatStaleNotice(responses)}❌ No version in force on ${!versionFrom ? from : to} found in the database${warning}\n\n**Available versions:** ${loaded.versions.map(v => v.pointInTime).join(', ') || 'none'}\n\n💡 Use gesetzesfassungen_auflisten to see the validity ranges`
+          }]
+        };
       }
 
-      return score;
+      if (versionFrom.eli === versionTo.eli) {
+        const subject = parsedCitation
+          ? formatNormCitation({ ...parsedCitation, law: parsedCitation.law || loaded.law.abbreviation || '' })
+          : loaded.law.abbreviation || lawInput.eli || lawInput.abbreviation!;
+        const version = this.toSearchHit(versionFrom.item);
+        return {
+          structuredContent: output({ subject, found: true, from: version, to: version }),
+          content: [{
+            type: 'text',
+            text: `${this.formatStaleNotice(responses)}🔀 **FASSUNGSVERGLEICH: ${subject}** (${from} → ${to})${warning}\n\n✅ No changes: the same version (Fassung vom ${versionFrom.pointInTime}, ${this.formatValidityRange(versionFrom)}) was in force on both dates.`
+          }]
+        };
+      }
+
+      older = { item: versionFrom.item, label: versionFrom.pointInTime };
+      newer = { item: versionTo.item, label: versionTo.pointInTime };
+      intermediate = loaded.versions.filter(v => v.pointInTime > versionFrom.pointInTime && v.pointInTime <= versionTo.pointInTime);
+    }
+
+    const [oldDocument, newDocument] = [await this.fetchLawDocument(older.item), await this.fetchLawDocument(newer.item)];
+    responses.push(oldDocument.response, newDocument.response);
+
+    let diffs: NormDiff[];
+    if (parsedCitation) {
+      const oldArticle = findArticle(oldDocument.document, parsedCitation);
+      const newArticle = findArticle(newDocument.document, parsedCitation);
+      if (!oldArticle && !newArticle) {
+        return {
+          structuredContent: output({
+            from: this.toSearchHit(older.item),
+            to: this.toSearchHit(newer.item),
+            notFound: `${parsedCitation.kind === 'paragraph' ? '§' : 'Art.'} ${parsedCitation.number}`,
+          }),
+          content: [{
+            type: 'text',
+            text: `${this.formatStaleNotice(responses)}❌ ${parsedCitation.kind === 'paragraph' ? '§' : 'Art.'} ${parsedCitation.number} not found in either version of ${this.formatDocumentLink(newer.item)}${warning}\n\n💡 Use gesetz_inhaltsverzeichnis_abrufen to see which §§ exist`
+          }]
+        };
+      }
+      diffs = [diffNorms(oldArticle ? extractNorm(oldArticle) : null, newArticle ? extractNorm(newArticle) : null)];
+    } else {
+      diffs = diffLawDocuments(oldDocument.document, newDocument.document);
+    }
+
+    // Amending laws: referenced by the newer expression but not yet by the older one
+    const knownBefore = new Set(extractAmendments(oldDocument.document).map(a => a.eli));
+    let amendments = extractAmendments(newDocument.document).filter(a => !knownBefore.has(a.eli));
+    if (parsedCitation) {
+      const eIds = diffs.map(d => d.eId).filter(Boolean);
+      amendments = amendments.filter(a => a.destinations.length === 0 || a.destinations.some(dest => eIds.some(eId => dest.startsWith(eId))));
+    }
+
+    const label = parsedCitation
+      ? formatNormCitation({ ...parsedCitation, law: parsedCitation.law || newer.item.abbreviation || newDocument.document.shortTitle || '' })
+      : newer.item.abbreviation || newDocument.document.shortTitle || newer.item.name;
+    const changed = diffs.filter(d => d.type !== 'unchanged');
+    const count = (type: string) => changed.filter(d => d.type === type).length;
+    const shown = changed.slice(0, 25);
+
+    const structuredContent = output({
+      subject: label,
+      found: true,
+      from: this.toSearchHit(older.item),
+      to: this.toSearchHit(newer.item),
+      intermediate: intermediate.map(v => v.pointInTime),
+      changes: changed,
+      amendments,
+    });
+
+    return {
+      structuredContent,
+      content: [{
+        type: 'text',
+        text: `${this.formatStaleNotice(responses)}🔀 **FASSUNGSVERGLEICH: ${label}**${warning}
+
+**Law:** ${this.formatDocumentLink(newer.item)}
+**Older version:** Fassung vom ${older.label} — ${this.getExpressionEli(older.item) || 'N/A'}
+**Newer version:** Fassung vom ${newer.label} — ${this.getExpressionEli(newer.item) || 'N/A'}
+${intermediate.length > 1 ? `**Versions in between:** ${intermediate.map(v => v.pointInTime).join(', ')}\n` : ''}
+📊 **Summary:** ${changed.length === 0 ? 'no textual changes' : `${count('changed')} changed, ${count('added')} added, ${count('removed')} removed`}
+
+${shown.map(diff => this.formatNormDiff(diff, newer.item)).join('\n\n')}${changed.length > shown.length ? `\n\n… and ${changed.length - shown.length} more changed norms. Add a citation to compare a single §.` : ''}
+
+📜 **Amending law(s):**
+${amendments.length > 0
+  ? amendments.map(a => this.formatAmendment(a)).join('\n')
+  : '   Not identified in the version metadata. Search deutsche_gesetze_suchen for "Änderung ' + label + '" to find it.'}`
+      }]
     };
+  }
 
-    // Find best match
-    const scoredResults = uniqueResults.map(result => ({
-      result,
-      score: scoreMatch(result)
+  private formatNormDiff(diff: NormDiff, law: SearchResult['item']): string {
+    const icons: Record<string, string> = { added: '➕', removed: '➖', changed: '✏️', unchanged: '✅' };
+    const shorten = (text = '') => text.length > 400 ? `${text.substring(0, 400)}…` : text;
+
+    const lines = [`### ${icons[diff.type]} ${diff.num}${diff.heading ? ` – ${diff.heading}` : ''} (${diff.type})`];
+    if (diff.type !== 'removed' && diff.eId) lines.push(`🔗 ${this.generateElementUrl(law, diff.eId)}`);
+    if (diff.headingBefore !== undefined) lines.push(`   Heading: "${diff.headingBefore}" → "${diff.heading}"`);
+
+    if (diff.type === 'added' || diff.type === 'removed') {
+      const paragraphs = diff.paragraphs.map(p => `   ${p.num ? `${p.num} ` : ''}${shorten(p.after || p.before)}`);
+      return [...lines, ...paragraphs].join('\n');
+    }
+
+    for (const paragraph of diff.paragraphs) {
+      const num = paragraph.num || 'Text';
+      if (paragraph.type === 'added') {
+        lines.push(`   ➕ ${num} added: ${shorten(paragraph.after)}`);
+      } else if (paragraph.type === 'removed') {
+        lines.push(`   ➖ ${num} removed: ${shorten(paragraph.before)}`);
+      } else if (paragraph.type === 'changed') {
+        lines.push(`   ✏️ ${num} changed:`);
+        const sentences = [
+          ...(paragraph.removedSentences || []).map(sentence => `      − ${shorten(sentence)}`),
+          ...(paragraph.addedSentences || []).map(sentence => `      + ${shorten(sentence)}`),
+        ];
+        lines.push(...(sentences.length > 0 ? sentences : [`      − ${shorten(paragraph.before)}`, `      + ${shorten(paragraph.after)}`]));
+      }
+    }
+    return lines.join('\n');
+  }
+
+  private formatAmendment(amendment: AmendmentReference): string {
+    const title = amendment.title || amendment.eli;
+    const ref = parseEli(amendment.eli);
+    const link = ref ? `[${title}](${config.portalOrigin}/norms/${expressionEli(ref) || workEli(ref)})` : title;
+    return `   • ${link}${amendment.date ? ` (effective ${amendment.date})` : ''}${amendment.destinations.length > 0 ? `\n     Modifies: ${amendment.destinations.slice(0, 10).join(', ')}` : ''}`;
+  }
+
+  /**
+   * Resolve a law and build the timeline of all its expressions
+   */
+  private async loadLawVersions(input: { abbreviation?: string; eli?: string }): Promise<{
+    law: SearchResult['item'] | null;
+    versions: LawVersion<SearchResult['item']>[];
+    responses: ApiResponse[];
+    warning: string;
+  }> {
+    const { law, responses, warning } = await this.resolveLaw(input);
+    if (!law) return { law: null, versions: [], responses, warning };
+
+    let expressions: SearchResult[] = [];
+    const ref = parseEli(law.workExample?.['@id'] || law['@id'] || law.eli || '');
+    if (ref) {
+      const loaded = await this.loadLawByEli({
+        jurisdiction: ref.jurisdiction,
+        agent: ref.agent,
+        year: ref.year,
+        naturalIdentifier: ref.naturalIdentifier,
+        level: 'work',
+      });
+      expressions = loaded.expressions;
+      responses.push(...loaded.responses);
+    }
+
+    // Fall back to the resolved expression if the API returned no version list
+    const items = expressions.length > 0 ? expressions.map(sr => sr.item) : [law];
+    const versions = buildVersionTimeline(items.flatMap(item => {
+      const expression = this.getExpressionEli(item);
+      const pointInTime = this.getExpressionDate(item);
+      if (!expression || !pointInTime) return [];
+      const validity = this.getValidity(item);
+      return [{ eli: expression, pointInTime, temporalCoverage: validity.temporalCoverage, inForce: validity.inForce, item }];
     }));
 
-    scoredResults.sort((a, b) => b.score - a.score);
-    bestMatch = scoredResults[0]?.result;
+    return { law, versions, responses, warning };
+  }
+
+  private toVersionEntry(version: LawVersion<SearchResult['item']>): LawVersionEntry {
+    return {
+      eli: version.eli,
+      pointInTime: version.pointInTime,
+      validFrom: version.validFrom,
+      ...(version.validTo ? { validTo: version.validTo } : {}),
+      derived: version.derived,
+      ...(version.inForce !== undefined ? { inForce: version.inForce } : {}),
+      htmlUrl: this.generateHumanReadableUrl(version.item),
+    };
+  }
+
+  private formatValidityRange(version: LawVersion<unknown>): string {
+    const range = `gültig ${version.validFrom} bis ${version.validTo || 'heute'}`;
+    return version.derived ? `${range} (derived)` : range;
+  }
+
+  private getWorkEli(law: SearchResult['item']): string | null {
+    const ref = parseEli(law.workExample?.['@id'] || law['@id'] || law.eli || '');
+    return ref ? workEli(ref) : null;
+  }
+
+  /**
+   * Load a law by ELI together with all expressions of its work.
+   * Expression-level ELIs are fetched directly, work-level ELIs resolve to the current expression.
+   */
+  private async loadLawByEli(ref: EliReference): Promise<{
+    law: SearchResult['item'] | null;
+    expressions: SearchResult[];
+    responses: ApiResponse[];
+  }> {
+    const responses: ApiResponse[] = [];
+
+    // All expressions of the work, used for the version list and to pick the current one
+    let expressions: SearchResult[] = [];
+    try {
+      const response = await this.api.get('/legislation', {
+        params: { eli: workEli(ref), size: 100 }
+      });
+      responses.push(response);
+      expressions = response.data.member || [];
+    } catch (error: any) {
+      if (error.response?.status !== 400 && error.response?.status !== 404) throw error;
+    }
+
+    let law: SearchResult['item'] | null = null;
+    const requestedExpression = expressionEli(ref);
+    if (requestedExpression) {
+      try {
+        const response = await this.api.get(legislationApiPath(requestedExpression));
+        responses.push(response);
+        law = response.data;
+      } catch (error: any) {
+        if (error.response?.status !== 404) throw error;
+        law = expressions.find(sr => sr.item.workExample?.['@id']?.includes(requestedExpression))?.item || null;
+      }
+    } else {
+      law = this.pickCurrentExpression(expressions)?.item || null;
+    }
+
+    return { law, expressions, responses };
+  }
+
+  /**
+   * Resolve a law given either an abbreviation or an ELI
+   */
+  private async resolveLaw(input: { abbreviation?: string; eli?: string }): Promise<{
+    law: SearchResult['item'] | null;
+    responses: ApiResponse[];
+    warning: string;
+  }> {
+    if (input.eli) {
+      const ref = parseEli(input.eli);
+      if (!ref) {
+        throw new Error(`Invalid ELI "${input.eli}". Expected a format like eli/bund/bgbl-1/2006/s2748 or eli/bund/bgbl-1/2006/s2748/2025-05-01/1/deu`);
+      }
+      const { law, responses } = await this.loadLawByEli(ref);
+      return { law, responses, warning: '' };
+    }
 
-    if (!bestMatch || scoredResults[0]?.score < 0) {
+    if (input.abbreviation) {
+      const { bestMatch, bestScore, responses } = await this.findLawByAbbreviation(input.abbreviation);
+      if (!bestMatch || bestScore < 0) return { law: null, responses, warning: '' };
       return {
-        content: [{
-          type: 'text',
-          text: `⚠️ Found ${uniqueResults.length} results but none match exactly.\n\nPlease use intelligente_rechtssuche or deutsche_gesetze_suchen for broader search.`
-        }]
+        law: bestMatch.item,
+        responses,
+        warning: this.formatAbbreviationMismatch(input.abbreviation, bestMatch.item),
       };
     }
 
-    // Format the response with enhanced metadata
-    const law = bestMatch.item;
-    const lawType = this.classifyLawType(law);
+    throw new Error('Either abbreviation or eli is required');
+  }
 
-    // Validate abbreviation match and warn if mismatch
-    const itemAbbr = (law.abbreviation || '').trim().toUpperCase();
-    const searchAbbr = normalizedAbbr.trim();
-    const isExactMatch = itemAbbr === searchAbbr;
+  /**
+   * Fetch and parse the LegalDocML.de XML of a law expression
+   */
+  private async fetchLawDocument(law: SearchResult['item']): Promise<{ document: LawDocument; response: ApiResponse }> {
+    const xmlEncoding = law.workExample?.encoding?.find(enc =>
+      enc.encodingFormat === 'application/xml' && enc.contentUrl
+    );
+    const path = xmlEncoding?.contentUrl || law.workExample?.['@id'] || law['@id'];
 
-    // For SGB laws, check book numbers match
-    let isSGBBookMatch = true;
-    if (searchAbbr.startsWith('SGB')) {
-      const searchBook = searchAbbr.replace('SGB', '').trim();
-      const itemBook = itemAbbr.replace('SGB', '').trim();
-      isSGBBookMatch = searchBook === itemBook;
-    }
+    const response = await this.api.get(path, { headers: { Accept: 'application/xml' } });
+    return { document: parseLawDocument(String(response.data)), response };
+  }
 
-    // If abbreviation doesn't match exactly, add warning
-    const mismatchWarning = (!isExactMatch || !isSGBBookMatch) ? `\n\n⚠️ **WARNING:** Searched for "${abbreviation}" but found "${law.abbreviation || 'Unknown'}"\nThis may not be an exact match. Consider using intelligente_rechtssuche for more accurate results.\n` : '';
+  /**
+   * HTML viewer URL pointing at a single element (§, Abschnitt, ...) of a law
+   */
+  private generateElementUrl(law: SearchResult['item'], eId: string): string {
+    const base = this.generateHumanReadableUrl(law);
+    return eId ? `${base}#${eId}` : base;
+  }
 
-    // Generate human-readable markdown link
-    const docLink = this.formatDocumentLink(law);
+  /**
+   * Read validity from either the item or its workExample (expression level)
+   */
+  private getValidity(law: SearchResult['item']): { inForce?: boolean; temporalCoverage?: string } {
+    const legalForce = law.workExample?.legislationLegalForce;
+    const inForce = typeof law.inForce === 'boolean'
+      ? law.inForce
+      : legalForce ? legalForce === 'InForce' : undefined;
 
     return {
-      content: [{
-        type: 'text',
-        text: `📖 **LAW FOUND BY ABBREVIATION: ${abbreviation}**${mismatchWarning}
+      inForce,
+      temporalCoverage: law.workExample?.temporalCoverage || law.temporalCoverage,
+    };
+  }
 
-**Full Title:** ${docLink}
-**Official Abbreviation:** ${law.abbreviation || 'N/A'}
-**Law Type:** ${lawType}
-**Document Number:** ${law.documentNumber || 'N/A'}
-**ELI Identifier:** ${law.eli || 'N/A'}
-**Publication Date:** ${law.legislationDate || 'N/A'}
-**Language:** ${law.inLanguage || 'German (deu)'}
+  private getExpressionEli(law: SearchResult['item']): string | null {
+    const ref = parseEli(law.workExample?.['@id'] || law['@id'] || law.eli || '');
+    return ref ? expressionEli(ref) : null;
+  }
 
-💡 **Next Steps:**
-• Use gesetz_inhaltsverzeichnis_abrufen to see table of contents
-• Use deutsche_gesetze_suchen to search within this law
-• Use dokument_details_abrufen to get full text
+  private getExpressionDate(law: SearchResult['item']): string | undefined {
+    return parseEli(law.workExample?.['@id'] || law['@id'] || '')?.pointInTime;
+  }
 
-📋 **Additional Matches Found:** ${uniqueResults.length - 1} other versions/related laws`
-      }]
-    };
+  /**
+   * Prefer the expression marked in force, otherwise the most recent one
+   */
+  private pickCurrentExpression(expressions: SearchResult[]): SearchResult | undefined {
+    const byDate = [...expressions].sort((a, b) =>
+      (this.getExpressionDate(b.item) || '').localeCompare(this.getExpressionDate(a.item) || '')
+    );
+    return byDate.find(sr => this.getValidity(sr.item).inForce === true) || byDate[0];
   }
 
   private classifyLawType(law: any): string {
-    const title = (law.headline || law.name || '').toLowerCase();
-    const abbr = (law.abbreviation || '').toUpperCase();
-
-    if (abbr === 'GG' || title.includes('grundgesetz')) return 'Grundgesetz (Constitutional Law)';
-    if (abbr.startsWith('SGB') || title.includes('sozialgesetzbuch')) return 'Sozialgesetzbuch (Social Code)';
-    if (abbr === 'BGB' || title.includes('bürgerliches gesetzbuch')) return 'Bürgerliches Gesetzbuch (Civil Code)';
-    if (abbr === 'StGB' || title.includes('strafgesetzbuch')) return 'Strafgesetzbuch (Criminal Code)';
+    // The registered full name covers results whose title is missing or abbreviated
+    const registered = law.abbreviation ? this.laws.lookup(law.abbreviation)?.entry.fullName : undefined;
+    const title = `${law.headline || law.name || ''} ${registered || ''}`.toLowerCase();
+
+    if (title.includes('grundgesetz')) return 'Grundgesetz (Constitutional Law)';
+    if (title.includes('sozialgesetzbuch')) return 'Sozialgesetzbuch (Social Code)';
+    if (title.includes('bürgerliches gesetzbuch')) return 'Bürgerliches Gesetzbuch (Civil Code)';
+    if (title.includes('strafgesetzbuch')) return 'Strafgesetzbuch (Criminal Code)';
     if (title.includes('verordnung')) return 'Verordnung (Regulation)';
     if (title.includes('gesetz')) return 'Bundesgesetz (Federal Law)';
 
     return law['@type'] || 'Legislation';
   }
 
-  async run() {
-    const transport = new StdioServerTransport();
+  async connect(transport: Transport) {
     await this.server.connect(transport);
-    console.error('Rechtsinformationen MCP server running on stdio');
   }
+
+  async run() {
+    await this.connect(new StdioServerTransport());
+    logger.info('Rechtsinformationen MCP server running on stdio', { version: SERVER_VERSION });
+  }
+}
+
+/**
+ * Value of a "--name=value" command line flag
+ */
+function readFlag(args: string[], name: string): string | undefined {
+  const prefix = `--${name}=`;
+  return args.find(arg => arg.startsWith(prefix))?.slice(prefix.length);
 }
 
-const server = new RechtsinformationenBundDeMCPServer();
-server.run().catch(console.error);
\ No newline at end of file
+async function runHttp(port: number) {
+  const shared = createSharedState();
+  const http = new McpHttpServer({
+    host: config.httpHost,
+    port,
+    tokens: config.httpTokens,
+    allowAnonymous: config.httpAllowAnonymous,
+    quota: config.httpQuota,
+    quotaWindow: config.httpQuotaWindow,
+    corsOrigins: config.httpCorsOrigins,
+    sessionIdleTimeout: config.httpSessionIdleTimeout,
+    maxSessionsPerClient: config.httpMaxSessionsPerClient,
+    connect: transport => new RechtsinformationenBundDeMCPServer(shared).connect(transport),
+    health: () => ({
+      name: SERVER_NAME,
+      version: SERVER_VERSION,
+      upstream: shared.api.status(),
+      laws: shared.coverage.registry.size,
+      knowledge: shared.knowledge.current.sources.map(source => source.version),
+    }),
+    metrics: config.httpMetrics ? () => metrics.toPrometheus() : undefined,
+  });
+  await http.listen();
+
+  const auth = config.httpTokens.length > 0 ? `${config.httpTokens.length} token(s)` : 'anonymous access';
+  logger.info(`Rechtsinformationen MCP server listening on http://${config.httpHost}:${port}/mcp (SSE: /sse, ${auth})`, {
+    version: SERVER_VERSION,
+    metrics: config.httpMetrics ? '/metrics' : undefined,
+  });
+
+  const shutdown = () => {
+    http.close().finally(() => process.exit(0));
+  };
+  process.once('SIGINT', shutdown);
+  process.once('SIGTERM', shutdown);
+}
+
+const args = process.argv.slice(2);
+const transport = args.includes('--http') ? 'http' : (readFlag(args, 'transport') ?? config.transport).toLowerCase();
+const port = Number(readFlag(args, 'port') ?? config.httpPort);
+
+if (transport === 'http') {
+  runHttp(port).catch(error => {
+    logger.error('Server failed to start', { error: error instanceof Error ? error.message : String(error) });
+    process.exit(1);
+  });
+} else {
+  // Invalid data files (e.g. the knowledge base) stop the server with their problems listed
+  try {
+    const server = new RechtsinformationenBundDeMCPServer();
+    server.run().catch(error => logger.error('Server failed to start', errorFields(error)));
+  } catch (error) {
+    // The message lists the problems; a stack trace would only bury them
+    logger.error('Server failed to start', { error: error instanceof Error ? error.message : String(error) });
+    process.exit(1);
+  }
+}
\ No newline at end of file
@@ -0,0 +1,301 @@
+/**
+ * Legal knowledge base
+ *
+ * The translations, concept maps, SGB aliases and correction rules that
+ * intelligente_rechtssuche applies to queries live in data/legal_knowledge.json
+ * (format: data/legal_knowledge.schema.json), so legal editors can maintain
+ * them without a code release. Deployments can layer override files on top
+ * (KNOWLEDGE_OVERRIDE_FILES): map entries and rules with the same id replace
+ * the inherited ones, empty values and `disabled` rules remove them.
+ *
+ * All files are validated at startup and a broken file stops the server.
+ * Afterwards the files are checked for changes at most every
+ * KNOWLEDGE_CHECK_INTERVAL milliseconds; an edit that fails validation is
+ * reported and the previous state stays in use.
+ */
+
+import fs from 'fs';
+import { logger } from './logger.js';
+
+export const KNOWLEDGE_SCHEMA_VERSION = 1;
+
+/**
+ * All entries must occur in the lowercased query; an array entry matches if
+ * any of its strings occurs
+ */
+export type Condition = Array<string | string[]>;
+
+export interface MisconceptionRule {
+  id: string;
+  when: Condition;
+  terms: string[];
+  explanation: string;
+  disabled?: boolean;
+}
+
+export interface ExpansionRule {
+  id: string;
+  when?: Condition;
+  /** Words that must occur in the query, also as compound parts */
+  parts?: string[];
+  terms: string[];
+  disabled?: boolean;
+}
+
+/** Contents of one data file; sections are optional in override files */
+export interface KnowledgeFile {
+  schemaVersion: number;
+  version: string;
+  englishIndicators?: string[];
+  translations?: Record<string, string>;
+  sgbAliases?: Record<string, string[]>;
+  conceptMap?: Record<string, string[]>;
+  misconceptions?: MisconceptionRule[];
+  expansions?: ExpansionRule[];
+}
+
+export interface KnowledgeSource {
+  file: string;
+  version: string;
+}
+
+export interface LegalKnowledge {
+  englishIndicators: string[];
+  translations: Record<string, string>;
+  sgbAliases: Record<string, string[]>;
+  conceptMap: Record<string, string[]>;
+  misconceptions: MisconceptionRule[];
+  expansions: ExpansionRule[];
+  /** Base file first, then the overrides in the order they were applied */
+  sources: KnowledgeSource[];
+  loadedAt: string;
+}
+
+export class KnowledgeValidationError extends Error {
+  constructor(readonly file: string, readonly problems: string[]) {
+    super(`Invalid knowledge file ${file}:\n${problems.map(problem => `  - ${problem}`).join('\n')}`);
+  }
+}
+
+const SECTIONS = ['englishIndicators', 'translations', 'sgbAliases', 'conceptMap', 'misconceptions', 'expansions'];
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(entry => typeof entry === 'string' && entry !== '');
+}
+
+function checkCondition(value: unknown, path: string, problems: string[]): void {
+  const valid = Array.isArray(value) && value.length > 0 && value.every(entry =>
+    (typeof entry === 'string' && entry !== '') || (isStringArray(entry) && entry.length > 0));
+  if (!valid) problems.push(`${path}: expected a non-empty array of strings or string arrays`);
+}
+
+function checkRules(value: unknown, path: string, problems: string[], check: (rule: Record<string, unknown>, path: string) => void): void {
+  if (!Array.isArray(value)) {
+    problems.push(`${path}: expected an array`);
+    return;
+  }
+  const ids = new Set<string>();
+  value.forEach((rule, index) => {
+    const rulePath = `${path}[${index}]`;
+    if (!isObject(rule)) {
+      problems.push(`${rulePath}: expected an object`);
+      return;
+    }
+    if (typeof rule.id !== 'string' || rule.id === '') problems.push(`${rulePath}.id: expected a non-empty string`);
+    else if (ids.has(rule.id)) problems.push(`${rulePath}.id: duplicate id "${rule.id}"`);
+    else ids.add(rule.id);
+    if (rule.disabled !== undefined && typeof rule.disabled !== 'boolean') problems.push(`${rulePath}.disabled: expected a boolean`);
+    // A disabled rule only needs its id
+    if (rule.disabled !== true) check(rule, rulePath);
+  });
+}
+
+/**
+ * Check parsed file contents against the schema; throws with every problem found
+ */
+export function validateKnowledgeFile(data: unknown, file: string): KnowledgeFile {
+  const problems: string[] = [];
+  if (!isObject(data)) throw new KnowledgeValidationError(file, ['expected a JSON object']);
+
+  if (data.schemaVersion !== KNOWLEDGE_SCHEMA_VERSION) {
+    problems.push(`schemaVersion: expected ${KNOWLEDGE_SCHEMA_VERSION}, got ${JSON.stringify(data.schemaVersion)}`);
+  }
+  if (typeof data.version !== 'string' || data.version === '') problems.push('version: expected a non-empty string');
+  for (const key of Object.keys(data)) {
+    if (key !== '$schema' && key !== 'schemaVersion' && key !== 'version' && !SECTIONS.includes(key)) {
+      problems.push(`${key}: unknown section`);
+    }
+  }
+
+  if (data.englishIndicators !== undefined && !isStringArray(data.englishIndicators)) {
+    problems.push('englishIndicators: expected an array of non-empty strings');
+  }
+  if (data.translations !== undefined) {
+    if (!isObject(data.translations)) problems.push('translations: expected an object');
+    else for (const [term, german] of Object.entries(data.translations)) {
+      if (typeof german !== 'string') problems.push(`translations["${term}"]: expected a string`);
+    }
+  }
+  for (const section of ['sgbAliases', 'conceptMap'] as const) {
+    const map = data[section];
+    if (map === undefined) continue;
+    if (!isObject(map)) problems.push(`${section}: expected an object`);
+    else for (const [phrase, terms] of Object.entries(map)) {
+      if (!isStringArray(terms)) problems.push(`${section}["${phrase}"]: expected an array of non-empty strings`);
+    }
+  }
+
+  if (data.misconceptions !== undefined) {
+    checkRules(data.misconceptions, 'misconceptions', problems, (rule, path) => {
+      checkCondition(rule.when, `${path}.when`, problems);
+      if (!isStringArray(rule.terms)) problems.push(`${path}.terms: expected an array of non-empty strings`);
+      if (typeof rule.explanation !== 'string' || rule.explanation === '') problems.push(`${path}.explanation: expected a non-empty string`);
+    });
+  }
+  if (data.expansions !== undefined) {
+    checkRules(data.expansions, 'expansions', problems, (rule, path) => {
+      if (rule.when === undefined && rule.parts === undefined) problems.push(`${path}: needs "when" or "parts"`);
+      if (rule.when !== undefined) checkCondition(rule.when, `${path}.when`, problems);
+      if (rule.parts !== undefined && !(isStringArray(rule.parts) && rule.parts.length > 0)) {
+        problems.push(`${path}.parts: expected a non-empty array of non-empty strings`);
+      }
+      if (!isStringArray(rule.terms)) problems.push(`${path}.terms: expected an array of non-empty strings`);
+    });
+  }
+
+  if (problems.length > 0) throw new KnowledgeValidationError(file, problems);
+  return data as unknown as KnowledgeFile;
+}
+
+function mergeMap<T extends string | string[]>(target: Record<string, T>, source: Record<string, T> | undefined): void {
+  for (const [key, value] of Object.entries(source ?? {})) {
+    if (value.length === 0) delete target[key];
+    else target[key] = value;
+  }
+}
+
+function mergeRules<T extends { id: string }>(target: T[], source: T[] | undefined): T[] {
+  const rules = new Map(target.map(rule => [rule.id, rule]));
+  for (const rule of source ?? []) rules.set(rule.id, rule);
+  return [...rules.values()];
+}
+
+/**
+ * Layer the files in order: later files replace entries and rules of earlier ones
+ */
+export function mergeKnowledge(files: Array<{ file: string; data: KnowledgeFile }>): LegalKnowledge {
+  const knowledge: LegalKnowledge = {
+    englishIndicators: [],
+    translations: {},
+    sgbAliases: {},
+    conceptMap: {},
+    misconceptions: [],
+    expansions: [],
+    sources: [],
+    loadedAt: new Date().toISOString(),
+  };
+
+  for (const { file, data } of files) {
+    knowledge.englishIndicators = [...new Set([...knowledge.englishIndicators, ...(data.englishIndicators ?? [])])];
+    mergeMap(knowledge.translations, data.translations);
+    mergeMap(knowledge.sgbAliases, data.sgbAliases);
+    mergeMap(knowledge.conceptMap, data.conceptMap);
+    knowledge.misconceptions = mergeRules(knowledge.misconceptions, data.misconceptions);
+    knowledge.expansions = mergeRules(knowledge.expansions, data.expansions);
+    knowledge.sources.push({ file, version: data.version });
+  }
+
+  knowledge.misconceptions = knowledge.misconceptions.filter(rule => !rule.disabled);
+  knowledge.expansions = knowledge.expansions.filter(rule => !rule.disabled);
+  return knowledge;
+}
+
+export function matchesCondition(condition: Condition, lowerQuery: string): boolean {
+  return condition.every(entry => typeof entry === 'string'
+    ? lowerQuery.includes(entry.toLowerCase())
+    : entry.some(alternative => lowerQuery.includes(alternative.toLowerCase())));
+}
+
+function readKnowledgeFile(file: string): KnowledgeFile {
+  let data: unknown;
+  try {
+    data = JSON.parse(fs.readFileSync(file, 'utf8'));
+  } catch (error: any) {
+    throw new KnowledgeValidationError(file, [error.code === 'ENOENT' ? 'file not found' : error.message]);
+  }
+  return validateKnowledgeFile(data, file);
+}
+
+export class KnowledgeBase {
+  private state: LegalKnowledge;
+  private modified: string;
+  private lastCheck = Date.now();
+  private lastError?: string;
+
+  /**
+   * @param files Base file first, then the override files
+   * @param checkInterval Minimum time between change checks in milliseconds; 0 disables them
+   */
+  constructor(private readonly files: string[], private readonly checkInterval: number) {
+    this.modified = this.modificationTimes();
+    this.state = this.load();
+  }
+
+  /**
+   * Current knowledge; re-reads the files first if they changed
+   */
+  get current(): LegalKnowledge {
+    const now = Date.now();
+    if (this.checkInterval > 0 && now - this.lastCheck >= this.checkInterval) {
+      this.lastCheck = now;
+      const modified = this.modificationTimes();
+      if (modified !== this.modified) {
+        this.modified = modified;
+        try {
+          this.reload();
+        } catch (error: any) {
+          logger.warn('Knowledge base: edit rejected, keeping the previous version', { version: this.state.sources[0]?.version, error: error.message });
+        }
+      }
+    }
+    return this.state;
+  }
+
+  /** Problem of the last failed reload, cleared by a successful one */
+  get error(): string | undefined {
+    return this.lastError;
+  }
+
+  /**
+   * Re-read and validate all files; throws and keeps the previous state if one is invalid
+   */
+  reload(): LegalKnowledge {
+    try {
+      this.state = this.load();
+      this.lastError = undefined;
+      logger.info('Knowledge base reloaded', { sources: this.state.sources });
+      return this.state;
+    } catch (error: any) {
+      this.lastError = error.message;
+      throw error;
+    }
+  }
+
+  private load(): LegalKnowledge {
+    return mergeKnowledge(this.files.map(file => ({ file, data: readKnowledgeFile(file) })));
+  }
+
+  private modificationTimes(): string {
+    return this.files.map(file => {
+      try {
+        return String(fs.statSync(file).mtimeMs);
+      } catch {
+        return 'missing';
+      }
+    }).join(',');
+  }
+}
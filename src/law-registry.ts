@@ -0,0 +1,247 @@
+/**
+ * Registry of federal law abbreviations
+ *
+ * Built from data/law_availability.json (generated by
+ * scripts/check-law-availability.js): abbreviation, full name and, where the
+ * check matched the abbreviation exactly, the API document ID of the law.
+ *
+ * Lookups tolerate casing, spacing and Roman/Arabic book numbers
+ * ("SGB 2", "SGB-II", "sgb ii"); long names are matched fuzzily.
+ */
+
+import fs from 'fs';
+import Fuse from 'fuse.js';
+import { GermanLexicon } from './german.js';
+import { logger } from './logger.js';
+
+export type LawEntrySource = 'availability-check' | 'built-in' | 'live-check';
+
+export interface LawEntry {
+  abbreviation: string;
+  fullName: string;
+  /** Result of the availability check; null if the check failed or did not run */
+  available: boolean | null;
+  /** Work-level API path, only set for verified abbreviation matches */
+  documentId?: string;
+  htmlUrl?: string;
+  /** Path of the law on gesetze-im-internet.de, e.g. "./bgb/index.html" */
+  officialPath?: string;
+  checkedAt?: string;
+  error?: string;
+  source: LawEntrySource;
+}
+
+export type LawMatchType = 'exact' | 'normalized' | 'fuzzy';
+
+export interface LawLookup {
+  entry: LawEntry;
+  matchType: LawMatchType;
+  /** 1 for exact and normalized matches, 0..1 similarity for fuzzy ones */
+  score: number;
+}
+
+interface LawDataFile {
+  generated_at?: string;
+  laws?: Record<string, {
+    full_name?: string;
+    url?: string;
+    available?: boolean;
+    match_type?: string | null;
+    found_abbreviation?: string | null;
+    document_id?: string | null;
+    html_url?: string | null;
+    checked_at?: string;
+    error?: string;
+  }>;
+}
+
+// Codes the availability check does not cover. SGB I-VIII are known to be
+// missing from the testphase database; the other books are not verified.
+const SUPPLEMENTS: Array<Pick<LawEntry, 'abbreviation' | 'fullName' | 'available' | 'officialPath'>> = [
+  { abbreviation: 'StGB', fullName: 'Strafgesetzbuch', available: null, officialPath: './stgb/index.html' },
+  { abbreviation: 'SGB I', fullName: 'Sozialgesetzbuch Erstes Buch', available: false, officialPath: './sgb_1/index.html' },
+  { abbreviation: 'SGB II', fullName: 'Sozialgesetzbuch Zweites Buch', available: false, officialPath: './sgb_2/index.html' },
+  { abbreviation: 'SGB III', fullName: 'Sozialgesetzbuch Drittes Buch', available: false, officialPath: './sgb_3/index.html' },
+  { abbreviation: 'SGB IV', fullName: 'Sozialgesetzbuch Viertes Buch', available: false, officialPath: './sgb_4/index.html' },
+  { abbreviation: 'SGB V', fullName: 'Sozialgesetzbuch Fünftes Buch', available: false, officialPath: './sgb_5/index.html' },
+  { abbreviation: 'SGB VI', fullName: 'Sozialgesetzbuch Sechstes Buch', available: false, officialPath: './sgb_6/index.html' },
+  { abbreviation: 'SGB VII', fullName: 'Sozialgesetzbuch Siebtes Buch', available: false, officialPath: './sgb_7/index.html' },
+  { abbreviation: 'SGB VIII', fullName: 'Sozialgesetzbuch Achtes Buch', available: false, officialPath: './sgb_8/index.html' },
+  { abbreviation: 'SGB IX', fullName: 'Sozialgesetzbuch Neuntes Buch', available: null, officialPath: './sgb_9_2018/index.html' },
+  { abbreviation: 'SGB X', fullName: 'Sozialgesetzbuch Zehntes Buch', available: null, officialPath: './sgb_10/index.html' },
+  { abbreviation: 'SGB XI', fullName: 'Sozialgesetzbuch Elftes Buch', available: null, officialPath: './sgb_11/index.html' },
+  { abbreviation: 'SGB XII', fullName: 'Sozialgesetzbuch Zwölftes Buch', available: null, officialPath: './sgb_12/index.html' },
+  { abbreviation: 'SGB XIII', fullName: 'Sozialgesetzbuch Dreizehntes Buch', available: null },
+  { abbreviation: 'SGB XIV', fullName: 'Sozialgesetzbuch Vierzehntes Buch', available: null, officialPath: './sgb_14/index.html' },
+];
+
+// Names rather than abbreviations: several words, or one long word with lowercase letters
+const LONG_NAME = /^(?=.*[a-zäöüß]{3})(?:.*\s.*|.{10,})$/;
+
+const ROMAN: Record<string, number> = { I: 1, V: 5, X: 10 };
+
+function romanToArabic(numeral: string): number {
+  let total = 0;
+  for (let i = 0; i < numeral.length; i++) {
+    const value = ROMAN[numeral[i]];
+    const next = ROMAN[numeral[i + 1]] || 0;
+    total += value < next ? -value : value;
+  }
+  return total;
+}
+
+/**
+ * Lookup key: uppercase, separators removed, Roman book numbers as Arabic.
+ * "SGB II", "SGB-2", "sgb 2" and "SGBII" all map to "SGB2".
+ */
+export function abbreviationKey(abbreviation: string): string {
+  const tokens = abbreviation
+    .trim()
+    .toUpperCase()
+    .split(/[\s\-–]+/)
+    .filter(Boolean)
+    .map(token => /^[IVX]{1,4}$/.test(token) ? String(romanToArabic(token)) : token);
+
+  const key = tokens.join('').replace(/\./g, '');
+  // Book number written without separator: "SGBII"
+  const glued = key.match(/^SGB([IVX]{1,4})$/);
+  return glued ? `SGB${romanToArabic(glued[1])}` : key;
+}
+
+export class LawRegistry {
+  private readonly byAbbreviation = new Map<string, LawEntry>();
+  private readonly byKey = new Map<string, LawEntry>();
+  private readonly fuse: Fuse<LawEntry>;
+  private cachedLexicon?: GermanLexicon;
+
+  constructor(entries: LawEntry[], readonly generatedAt?: string) {
+    for (const entry of entries) {
+      if (!this.byAbbreviation.has(entry.abbreviation)) this.byAbbreviation.set(entry.abbreviation, entry);
+      const key = abbreviationKey(entry.abbreviation);
+      // Prefer entries with a verified document over unavailable duplicates
+      const existing = this.byKey.get(key);
+      if (!existing || (!existing.documentId && entry.documentId)) this.byKey.set(key, entry);
+    }
+
+    this.fuse = new Fuse([...this.byAbbreviation.values()], {
+      keys: [
+        { name: 'fullName', weight: 0.7 },
+        { name: 'abbreviation', weight: 0.3 },
+      ],
+      threshold: 0.35,
+      ignoreLocation: true,
+      includeScore: true,
+    });
+  }
+
+  /**
+   * Load the registry from a law_availability.json file. A missing or broken
+   * file yields a registry with the built-in supplements only.
+   */
+  static load(file: string): LawRegistry {
+    let data: LawDataFile = {};
+    try {
+      data = JSON.parse(fs.readFileSync(file, 'utf8'));
+    } catch (error: any) {
+      logger.warn('Law registry: could not read the law list', { file, error: error.message });
+    }
+
+    const entries: LawEntry[] = Object.entries(data.laws || {}).map(([abbreviation, law]) => {
+      // Only trust the document of a check that found the same abbreviation
+      const verified = law.match_type === 'exact_abbreviation' &&
+        !!law.found_abbreviation && abbreviationKey(law.found_abbreviation) === abbreviationKey(abbreviation);
+      return {
+        abbreviation,
+        fullName: (law.full_name || '').replace(/\s*\*\)\s*$/, '').trim(),
+        available: law.match_type === 'error' || law.available === undefined ? null : law.available,
+        documentId: verified ? law.document_id || undefined : undefined,
+        htmlUrl: verified ? law.html_url || undefined : undefined,
+        officialPath: law.url || undefined,
+        checkedAt: law.checked_at,
+        error: law.error,
+        source: 'availability-check',
+      };
+    });
+
+    const known = new Set(entries.map(entry => abbreviationKey(entry.abbreviation)));
+    for (const supplement of SUPPLEMENTS) {
+      if (!known.has(abbreviationKey(supplement.abbreviation))) {
+        entries.push({ ...supplement, source: 'built-in' });
+      }
+    }
+
+    return new LawRegistry(entries, data.generated_at);
+  }
+
+  get size(): number {
+    return this.byAbbreviation.size;
+  }
+
+  /**
+   * Compound dictionary seeded with the words of the law names, built on first use
+   */
+  get lexicon(): GermanLexicon {
+    this.cachedLexicon ??= GermanLexicon.fromNames([...this.byAbbreviation.values()].map(entry => entry.fullName));
+    return this.cachedLexicon;
+  }
+
+  /**
+   * All entries in abbreviation order
+   */
+  list(): LawEntry[] {
+    return [...this.byAbbreviation.values()].sort((a, b) => a.abbreviation.localeCompare(b.abbreviation, 'de'));
+  }
+
+  /**
+   * Record a newer check result; unknown abbreviations are added
+   */
+  record(abbreviation: string, update: Omit<LawEntry, 'abbreviation' | 'fullName'> & { fullName?: string }): LawEntry {
+    const existing = this.lookup(abbreviation)?.entry;
+    if (existing) {
+      Object.assign(existing, update, { fullName: update.fullName || existing.fullName });
+      return existing;
+    }
+
+    const entry: LawEntry = { ...update, abbreviation: abbreviation.trim(), fullName: update.fullName || '' };
+    this.byAbbreviation.set(entry.abbreviation, entry);
+    this.byKey.set(abbreviationKey(entry.abbreviation), entry);
+    this.fuse.add(entry);
+    return entry;
+  }
+
+  /**
+   * Exact or normalized abbreviation lookup
+   */
+  lookup(abbreviation: string): LawLookup | null {
+    const trimmed = (abbreviation || '').trim();
+    const exact = this.byAbbreviation.get(trimmed);
+    if (exact) return { entry: exact, matchType: 'exact', score: 1 };
+
+    const normalized = this.byKey.get(abbreviationKey(trimmed));
+    return normalized ? { entry: normalized, matchType: 'normalized', score: 1 } : null;
+  }
+
+  /**
+   * Fuzzy lookup by full name or abbreviation, best matches first
+   */
+  search(query: string, limit = 5): LawLookup[] {
+    return this.fuse.search((query || '').trim(), { limit }).map(result => ({
+      entry: result.item,
+      matchType: 'fuzzy' as const,
+      score: 1 - (result.score ?? 1),
+    }));
+  }
+
+  /**
+   * Abbreviation lookup with fuzzy fallback for long names ("Kündigungsschutzgesetz")
+   */
+  resolve(input: string, minScore = 0.6): LawLookup | null {
+    const direct = this.lookup(input);
+    if (direct) return direct;
+
+    // Fuzzy matching short abbreviations finds unrelated laws ("StPO" → "StPOÄndG")
+    if (!LONG_NAME.test((input || '').trim())) return null;
+    const [best] = this.search(input, 1);
+    return best && best.score >= minScore ? best : null;
+  }
+}
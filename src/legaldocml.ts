@@ -0,0 +1,434 @@
+/**
+ * LegalDocML.de parsing
+ *
+ * The API serves legislation manifestations as LegalDocML.de XML
+ * (an Akoma Ntoso profile). This module contains a small dependency-free
+ * XML parser and helpers to walk the structure of a law:
+ *
+ *   akomaNtoso > act > body > book | part | chapter | section | ... > article
+ *
+ * Element names are stored without their namespace prefix ("akn:article"
+ * becomes "article").
+ */
+
+export interface XmlElement {
+  name: string;
+  attributes: Record<string, string>;
+  children: XmlNode[];
+}
+
+export type XmlNode = XmlElement | string;
+
+const TOKEN = /<!--[\s\S]*?-->|<!\[CDATA\[([\s\S]*?)\]\]>|<\?[\s\S]*?\?>|<!DOCTYPE[^>]*>|<(\/?)([^\s/>]+)((?:\s+[^\s=/>]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>|([^<]+)/g;
+const ATTRIBUTE = /([^\s=]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|amp|lt|gt|quot|apos|nbsp);/gi, (match, entity: string) => {
+    const lower = entity.toLowerCase();
+    if (lower.startsWith('#x')) return String.fromCodePoint(parseInt(lower.slice(2), 16));
+    if (lower.startsWith('#')) return String.fromCodePoint(parseInt(lower.slice(1), 10));
+    switch (lower) {
+      case 'amp': return '&';
+      case 'lt': return '<';
+      case 'gt': return '>';
+      case 'quot': return '"';
+      case 'apos': return "'";
+      case 'nbsp': return ' ';
+      default: return match;
+    }
+  });
+}
+
+function localName(name: string): string {
+  const colon = name.indexOf(':');
+  return colon === -1 ? name : name.substring(colon + 1);
+}
+
+/**
+ * Parse an XML document into an element tree.
+ * Tolerates unbalanced closing tags; throws if no root element is found.
+ */
+export function parseXml(xml: string): XmlElement {
+  const root: XmlElement = { name: '#document', attributes: {}, children: [] };
+  const stack: XmlElement[] = [root];
+
+  TOKEN.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = TOKEN.exec(xml)) !== null) {
+    const [, cdata, closing, rawName, rawAttributes, selfClosing, text] = match;
+    const current = stack[stack.length - 1];
+
+    if (cdata !== undefined) {
+      current.children.push(cdata);
+    } else if (text !== undefined) {
+      current.children.push(decodeEntities(text));
+    } else if (rawName !== undefined) {
+      const name = localName(rawName);
+      if (closing) {
+        // Pop up to the matching element, ignoring stray closing tags
+        const index = stack.map(el => el.name).lastIndexOf(name);
+        if (index > 0) stack.length = index;
+      } else {
+        const attributes: Record<string, string> = {};
+        ATTRIBUTE.lastIndex = 0;
+        let attr: RegExpExecArray | null;
+        while ((attr = ATTRIBUTE.exec(rawAttributes || '')) !== null) {
+          attributes[localName(attr[1])] = decodeEntities(attr[2] ?? attr[3] ?? '');
+        }
+        const element: XmlElement = { name, attributes, children: [] };
+        current.children.push(element);
+        if (!selfClosing) stack.push(element);
+      }
+    }
+    // Comments, processing instructions and DOCTYPE are skipped
+  }
+
+  const documentElement = root.children.find((child): child is XmlElement => typeof child !== 'string');
+  if (!documentElement) {
+    throw new Error('Invalid XML: no root element found');
+  }
+  return documentElement;
+}
+
+export function childElements(element: XmlElement, name?: string): XmlElement[] {
+  return element.children.filter((child): child is XmlElement =>
+    typeof child !== 'string' && (name === undefined || child.name === name)
+  );
+}
+
+export function findFirst(element: XmlElement, predicate: (el: XmlElement) => boolean): XmlElement | null {
+  for (const child of childElements(element)) {
+    if (predicate(child)) return child;
+    const found = findFirst(child, predicate);
+    if (found) return found;
+  }
+  return null;
+}
+
+export function findAll(element: XmlElement, predicate: (el: XmlElement) => boolean): XmlElement[] {
+  const found: XmlElement[] = [];
+  for (const child of childElements(element)) {
+    if (predicate(child)) found.push(child);
+    found.push(...findAll(child, predicate));
+  }
+  return found;
+}
+
+/**
+ * Collect the text of an element with whitespace collapsed.
+ * Footnotes (authorialNote) are skipped.
+ */
+export function textContent(element: XmlElement): string {
+  const parts: string[] = [];
+  const walk = (node: XmlNode) => {
+    if (typeof node === 'string') {
+      parts.push(node);
+      return;
+    }
+    if (node.name === 'authorialNote') return;
+    node.children.forEach(walk);
+    // Keep block elements apart so words do not run together
+    if (['p', 'num', 'heading', 'point', 'paragraph', 'intro', 'wrapUp'].includes(node.name)) {
+      parts.push(' ');
+    }
+  };
+  walk(element);
+  return parts.join('').replace(/\s+/g, ' ').trim();
+}
+
+/** Structural containers of the law body, mapped to their German names */
+export const STRUCTURE_TYPES: Record<string, string> = {
+  book: 'Buch',
+  part: 'Teil',
+  chapter: 'Kapitel',
+  section: 'Abschnitt',
+  subsection: 'Unterabschnitt',
+  title: 'Titel',
+  subtitle: 'Untertitel',
+  article: 'Paragraph',
+};
+
+export interface TocEntry {
+  eId: string;
+  type: string;
+  num: string;
+  heading: string;
+  depth: number;
+}
+
+export interface LawDocument {
+  title: string;
+  shortTitle: string;
+  expressionEli: string;
+  expressionDate: string;
+  root: XmlElement;
+}
+
+/**
+ * Parse the LegalDocML.de XML of a law and read its identifying metadata
+ */
+export function parseLawDocument(xml: string): LawDocument {
+  const root = parseXml(xml);
+
+  const frbrExpression = findFirst(root, el => el.name === 'FRBRExpression');
+  const frbrThis = frbrExpression ? findFirst(frbrExpression, el => el.name === 'FRBRthis') : null;
+  const frbrDate = frbrExpression ? findFirst(frbrExpression, el => el.name === 'FRBRdate') : null;
+  const longTitle = findFirst(root, el => el.name === 'longTitle');
+  const shortTitle = findFirst(root, el => el.name === 'shortTitle');
+
+  return {
+    title: longTitle ? textContent(longTitle) : '',
+    shortTitle: shortTitle ? textContent(shortTitle) : '',
+    expressionEli: frbrThis?.attributes.value || '',
+    expressionDate: frbrDate?.attributes.date || '',
+    root,
+  };
+}
+
+/**
+ * Build a flat, depth-annotated table of contents from the law body.
+ * Articles (§§ / Artikel) are included unless `includeArticles` is false.
+ */
+export function extractTableOfContents(doc: LawDocument, options: { maxDepth?: number; includeArticles?: boolean } = {}): TocEntry[] {
+  const { maxDepth = Infinity, includeArticles = true } = options;
+  const body = findFirst(doc.root, el => el.name === 'body');
+  if (!body) return [];
+
+  const entries: TocEntry[] = [];
+  const walk = (element: XmlElement, depth: number) => {
+    for (const child of childElements(element)) {
+      const type = STRUCTURE_TYPES[child.name];
+      if (!type) {
+        // Transparent wrappers (e.g. hcontainer) may still contain structure
+        if (child.name === 'hcontainer') walk(child, depth);
+        continue;
+      }
+      if (child.name === 'article' && !includeArticles) continue;
+      if (depth > maxDepth) continue;
+
+      const num = childElements(child, 'num')[0];
+      const numText = num ? textContent(num) : '';
+      const heading = childElements(child, 'heading')[0];
+      entries.push({
+        eId: child.attributes.eId || '',
+        type: child.name === 'article' && /^Art/i.test(numText) ? 'Artikel' : type,
+        num: numText,
+        heading: heading ? textContent(heading) : '',
+        depth,
+      });
+
+      if (child.name !== 'article') walk(child, depth + 1);
+    }
+  };
+  walk(body, 1);
+  return entries;
+}
+
+export interface NormDesignation {
+  kind: 'paragraph' | 'article';
+  number: string;
+}
+
+export interface NormSection {
+  eId: string;
+  num: string;
+  text: string;
+}
+
+export interface NormText {
+  eId: string;
+  num: string;
+  heading: string;
+  /** Absätze; a § without numbered Absätze yields a single unnumbered section */
+  paragraphs: NormSection[];
+}
+
+const DESIGNATION_NUM = /^(§|Art(?:ikel|\.)?)\s*(\d+\s*[a-z]?)/i;
+
+/**
+ * Find the article element for "§ 44" or "Art. 3" by its <num>
+ */
+export function findArticle(doc: LawDocument, designation: NormDesignation): XmlElement | null {
+  const body = findFirst(doc.root, el => el.name === 'body') || doc.root;
+  const wanted = designation.number.replace(/\s+/g, '').toLowerCase();
+
+  return findFirst(body, el => {
+    if (el.name !== 'article') return false;
+    const num = childElements(el, 'num')[0];
+    const match = num ? textContent(num).match(DESIGNATION_NUM) : null;
+    if (!match) return false;
+
+    const isParagraph = match[1] === '§';
+    return (designation.kind === 'paragraph') === isParagraph &&
+      match[2].replace(/\s+/g, '').toLowerCase() === wanted;
+  });
+}
+
+function contentText(element: XmlElement): string {
+  return textContent({
+    ...element,
+    children: element.children.filter(child => typeof child === 'string' || child.name !== 'num'),
+  });
+}
+
+/**
+ * Extract heading and Absätze of an article as clean text
+ */
+export function extractNorm(article: XmlElement): NormText {
+  const num = childElements(article, 'num')[0];
+  const heading = childElements(article, 'heading')[0];
+  const paragraphs = childElements(article, 'paragraph').map(paragraph => {
+    const paragraphNum = childElements(paragraph, 'num')[0];
+    return {
+      eId: paragraph.attributes.eId || '',
+      num: paragraphNum ? textContent(paragraphNum) : '',
+      text: contentText(paragraph),
+    };
+  });
+
+  if (paragraphs.length === 0) {
+    const content = { ...article, children: article.children.filter(child => typeof child === 'string' || !['num', 'heading'].includes(child.name)) };
+    paragraphs.push({ eId: article.attributes.eId || '', num: '', text: textContent(content) });
+  }
+
+  return {
+    eId: article.attributes.eId || '',
+    num: num ? textContent(num) : '',
+    heading: heading ? textContent(heading) : '',
+    paragraphs,
+  };
+}
+
+/**
+ * Find Absatz N of an article; matches the "(N)" numbering
+ */
+export function findParagraph(norm: NormText, absatz: number): NormSection | null {
+  return norm.paragraphs.find(paragraph => paragraph.num.replace(/[()\s]/g, '') === String(absatz)) || null;
+}
+
+/**
+ * Find Nummer N (a list point "N.") within an article or one of its Absätze
+ */
+export function findPoint(container: XmlElement, nummer: string): NormSection | null {
+  return findPoints(container, nummer)[0] || null;
+}
+
+/**
+ * All list points numbered "N." or "x)" within a container, in document
+ * order; a Buchstabe "a)" usually recurs under several Nummern
+ */
+export function findPoints(container: XmlElement, designation: string): NormSection[] {
+  const wanted = designation.toLowerCase();
+  return findAll(container, el => {
+    if (el.name !== 'point') return false;
+    const num = childElements(el, 'num')[0];
+    return !!num && textContent(num).replace(/[.)\s]/g, '').toLowerCase() === wanted;
+  }).map(point => {
+    const num = childElements(point, 'num')[0];
+    return { eId: point.attributes.eId || '', num: num ? textContent(num) : '', text: contentText(point) };
+  });
+}
+
+/**
+ * All §§ / Artikel of the law body in document order
+ */
+export function listArticles(doc: LawDocument): XmlElement[] {
+  const body = findFirst(doc.root, el => el.name === 'body') || doc.root;
+  return findAll(body, el => el.name === 'article');
+}
+
+export interface AmendmentReference {
+  /** ELI of the amending law as referenced by the expression */
+  eli: string;
+  title: string;
+  /** Date of the lifecycle event (usually Inkrafttreten) that applies the amendment */
+  date?: string;
+  /** eIds in this document modified by the amending law */
+  destinations: string[];
+}
+
+/**
+ * Read the amending laws of a consolidated expression from its metadata:
+ * passiveRef entries, their lifecycle events and the textual modifications
+ * pointing into the document.
+ */
+export function extractAmendments(doc: LawDocument): AmendmentReference[] {
+  const meta = findFirst(doc.root, el => el.name === 'meta');
+  if (!meta) return [];
+
+  const amendments = new Map<string, AmendmentReference & { refId: string }>();
+  const workOf = (href: string) => (href.match(/eli\/[^/]+\/[^/]+\/[^/]+\/[^/#]+/) || [href])[0];
+
+  for (const ref of findAll(meta, el => el.name === 'passiveRef')) {
+    const href = ref.attributes.href || '';
+    if (!href) continue;
+    amendments.set(workOf(href), {
+      refId: ref.attributes.eId || ref.attributes.GUID || '',
+      eli: href.replace(/^#/, ''),
+      title: ref.attributes.showAs || '',
+      destinations: [],
+    });
+  }
+
+  for (const event of findAll(meta, el => el.name === 'eventRef')) {
+    const source = (event.attributes.source || '').replace(/^#/, '');
+    const amendment = [...amendments.values()].find(entry => entry.refId && entry.refId === source);
+    if (amendment && event.attributes.date && !amendment.date) amendment.date = event.attributes.date;
+  }
+
+  for (const mod of findAll(meta, el => el.name === 'textualMod')) {
+    const source = findFirst(mod, el => el.name === 'source')?.attributes.href || '';
+    const destination = findFirst(mod, el => el.name === 'destination')?.attributes.href || '';
+    if (!source) continue;
+
+    const key = workOf(source);
+    const amendment = amendments.get(key) || { refId: '', eli: source, title: '', destinations: [] };
+    amendments.set(key, amendment);
+    // Destinations are "#eId" or an ELI ending in the eId
+    const eId = destination.split(/[#/]/).pop();
+    if (eId && !amendment.destinations.includes(eId)) amendment.destinations.push(eId);
+  }
+
+  return [...amendments.values()].map(({ refId, ...amendment }) => amendment);
+}
+
+export function findElementById(doc: LawDocument, eId: string): XmlElement | null {
+  return eId ? findFirst(doc.root, el => el.attributes.eId === eId) : null;
+}
+
+// Abbreviations that end with a period but do not end a sentence
+const NON_TERMINAL_ABBREVIATIONS = /\b(?:[a-z]|Abs|Nr|Art|S|bzw|vgl|ggf|Buchst|lit|Ziff|usw|z\.\s?B|d\.\s?h|u\.\s?a|i\.\s?V\.\s?m|v\.\s?H|ff|Anl|BGBl)\.$/;
+// List numbering inside a sentence ("folgende: 1. ...", "..., 2. ...")
+const LIST_NUMBER = /(?:^|[:,;]\s*)\d+[a-z]?\.$/;
+const ORDINAL_DATE = /\d\.$/;
+const MONTH = /^(?:Januar|Februar|März|April|Mai|Juni|Juli|August|September|Oktober|November|Dezember)\b/;
+
+/**
+ * Split a sentence into its Halbsätze, which are separated by semicolons
+ */
+export function splitHalfSentences(sentence: string): string[] {
+  return sentence.split(/;\s*/).map(part => part.trim()).filter(Boolean);
+}
+
+/**
+ * Split legal text into sentences (Sätze), keeping abbreviations like
+ * "Abs." or "Nr.", list numbering and dates ("1. Januar") intact
+ */
+export function splitSentences(text: string): string[] {
+  const tokens = text.split(/(?<=[.!?])\s+(?=[A-ZÄÖÜ§„"(])/);
+  const sentences: string[] = [];
+  let current = '';
+
+  tokens.forEach((token, index) => {
+    current = current ? `${current} ${token}` : token;
+    const next = tokens[index + 1] || '';
+    const continues = NON_TERMINAL_ABBREVIATIONS.test(current) ||
+      LIST_NUMBER.test(current) ||
+      (ORDINAL_DATE.test(current) && MONTH.test(next));
+    if (!continues || !next) {
+      sentences.push(current.trim());
+      current = '';
+    }
+  });
+  return sentences.filter(Boolean);
+}
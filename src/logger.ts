@@ -0,0 +1,101 @@
+/**
+ * Structured logging
+ *
+ * Log entries are written to stderr as one JSON object per line (stdout
+ * carries the MCP protocol in stdio mode). Every entry has a time, a level
+ * and a message; entries written while a request is handled also carry its
+ * request ID, and the tool or client if known, so that the lines of one tool
+ * call can be found among many parallel ones in HTTP mode.
+ *
+ * LOG_LEVEL selects the lowest level written (debug, info, warn, error).
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import axios from 'axios';
+import { config, configWarnings } from './config.js';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+const LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+export interface LogContext {
+  requestId: string;
+  tool?: string;
+  /** Client name of the bearer token (HTTP mode) */
+  client?: string;
+}
+
+const storage = new AsyncLocalStorage<LogContext>();
+
+/**
+ * Run `fn` with a request context that is added to every entry logged inside it
+ */
+export function runWithLogContext<T>(context: LogContext, fn: () => T): T {
+  return storage.run(context, fn);
+}
+
+export function logContext(): LogContext | undefined {
+  return storage.getStore();
+}
+
+/**
+ * Log fields for an error: message, HTTP status or error code, and the stack
+ * for errors that are not upstream HTTP failures
+ */
+export function errorFields(error: unknown): Record<string, unknown> {
+  if (axios.isAxiosError(error)) {
+    return { error: error.message, status: error.response?.status, code: error.code, url: error.config?.url };
+  }
+  if (error instanceof Error) return { error: error.message, errorType: error.name, stack: error.stack };
+  return { error: String(error) };
+}
+
+/**
+ * Short reason for a failed upstream request
+ */
+export function describeFailure(error: unknown): string {
+  if (axios.isAxiosError(error)) {
+    if (error.response) return `HTTP ${error.response.status}${error.response.statusText ? ` ${error.response.statusText}` : ''}`;
+    return error.code ? `${error.code}: ${error.message}` : error.message;
+  }
+  return error instanceof Error ? error.message : String(error);
+}
+
+export class Logger {
+  private readonly threshold: number;
+
+  constructor(level: string, private readonly write: (line: string) => void = line => process.stderr.write(`${line}\n`)) {
+    this.threshold = LEVELS[level as LogLevel] ?? LEVELS.info;
+  }
+
+  debug(message: string, fields: Record<string, unknown> = {}): void {
+    this.log('debug', message, fields);
+  }
+
+  info(message: string, fields: Record<string, unknown> = {}): void {
+    this.log('info', message, fields);
+  }
+
+  warn(message: string, fields: Record<string, unknown> = {}): void {
+    this.log('warn', message, fields);
+  }
+
+  error(message: string, fields: Record<string, unknown> = {}): void {
+    this.log('error', message, fields);
+  }
+
+  private log(level: LogLevel, message: string, fields: Record<string, unknown>): void {
+    if (LEVELS[level] < this.threshold) return;
+    const entry = { time: new Date().toISOString(), level, msg: message, ...logContext(), ...fields };
+    try {
+      this.write(JSON.stringify(entry));
+    } catch {
+      // Unserializable fields must not break the request that logs them
+      this.write(JSON.stringify({ time: entry.time, level, msg: message, ...logContext() }));
+    }
+  }
+}
+
+export const logger = new Logger(config.logLevel);
+
+for (const warning of configWarnings) logger.warn(warning);
@@ -0,0 +1,274 @@
+/**
+ * In-process metrics
+ *
+ * Counts what the server does since it started: calls, errors and latency
+ * per tool, upstream responses per endpoint and status, response cache
+ * lookups and the queries of searches that found nothing. Zero-result queries
+ * show which translations and concept mappings the knowledge base is missing.
+ *
+ * The numbers are read by the server_statistik tool (snapshot) and, in HTTP
+ * mode with HTTP_METRICS=true, scraped by Prometheus from /metrics. They live
+ * in memory only and start from zero with every process. Zero-result queries
+ * are kept per client: in HTTP mode a client only sees its own searches.
+ */
+
+/** Upper bounds of the tool latency buckets in seconds */
+const LATENCY_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60];
+/** Distinct zero-result queries kept; the least recently seen are dropped first */
+const MAX_ZERO_RESULT_QUERIES = 500;
+/** Distinct tool labels; further names (unknown tools) are counted as "other" */
+const MAX_TOOL_LABELS = 50;
+
+const PREFIX = 'rechtsinformationen';
+
+export type CacheLookup = 'hit' | 'miss' | 'stale';
+
+export interface ToolStatistics {
+  tool: string;
+  calls: number;
+  errors: number;
+  zeroResults: number;
+  averageMs: number;
+  /** Upper bound of the latency bucket holding the median; maxMs above the last bucket */
+  p50Ms: number;
+  p95Ms: number;
+  maxMs: number;
+}
+
+export interface ZeroResultQuery {
+  tool: string;
+  query: string;
+  count: number;
+  lastSeen: string;
+}
+
+export interface MetricsSnapshot {
+  startedAt: string;
+  uptimeSeconds: number;
+  tools: ToolStatistics[];
+  /** Upstream responses; status is the HTTP status or "error" for network failures */
+  upstream: Array<{ endpoint: string; status: string; count: number }>;
+  cache: { hits: number; misses: number; stale: number; hitRate: number | null };
+  /** Most frequent first */
+  zeroResultQueries: ZeroResultQuery[];
+  /** Distinct zero-result queries tracked, including those not listed */
+  zeroResultQueriesTracked: number;
+}
+
+class Histogram {
+  readonly counts = new Array<number>(LATENCY_BUCKETS.length).fill(0);
+  count = 0;
+  sum = 0;
+  max = 0;
+
+  observe(seconds: number): void {
+    const index = LATENCY_BUCKETS.findIndex(bound => seconds <= bound);
+    if (index >= 0) this.counts[index]++;
+    this.count++;
+    this.sum += seconds;
+    this.max = Math.max(this.max, seconds);
+  }
+
+  /** Upper bound of the bucket holding quantile q, in seconds */
+  quantile(q: number): number {
+    if (this.count === 0) return 0;
+    let cumulative = 0;
+    for (let i = 0; i < LATENCY_BUCKETS.length; i++) {
+      cumulative += this.counts[i];
+      if (cumulative >= q * this.count) return Math.min(LATENCY_BUCKETS[i], this.max);
+    }
+    return this.max;
+  }
+}
+
+interface ZeroResultEntry extends ZeroResultQuery {
+  /** Client name of the bearer token; undefined in stdio mode */
+  client?: string;
+}
+
+interface ToolMetrics {
+  calls: number;
+  errors: number;
+  zeroResults: number;
+  latency: Histogram;
+}
+
+/**
+ * Upstream endpoint of an API URL, e.g. "case-law" for /v1/case-law/KORE...
+ */
+export function upstreamEndpoint(url: string): string {
+  try {
+    return new URL(url).pathname.match(/\/v1\/([^/]+)/)?.[1] ?? 'other';
+  } catch {
+    return 'other';
+  }
+}
+
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+function labels(values: Record<string, string>): string {
+  return `{${Object.entries(values).map(([name, value]) => `${name}="${escapeLabel(value)}"`).join(',')}}`;
+}
+
+export class Metrics {
+  private readonly startedAt = Date.now();
+  private readonly tools = new Map<string, ToolMetrics>();
+  private readonly upstream = new Map<string, number>();
+  private readonly cache: Record<CacheLookup, number> = { hit: 0, miss: 0, stale: 0 };
+  private readonly zeroResults = new Map<string, ZeroResultEntry>();
+
+  recordToolCall(tool: string, durationMs: number, failed: boolean): void {
+    const metrics = this.tool(tool);
+    metrics.calls++;
+    if (failed) metrics.errors++;
+    metrics.latency.observe(durationMs / 1000);
+  }
+
+  recordZeroResults(tool: string, query: string, client?: string): void {
+    this.tool(tool).zeroResults++;
+    const normalized = query.trim().replace(/\s+/g, ' ');
+    const key = `${client ?? ''}\n${tool}\n${normalized.toLowerCase()}`;
+    const entry = this.zeroResults.get(key) ?? { tool, query: normalized, count: 0, lastSeen: '', client };
+    entry.count++;
+    entry.lastSeen = new Date().toISOString();
+    // Re-insert so the map stays ordered by last sighting
+    this.zeroResults.delete(key);
+    this.zeroResults.set(key, entry);
+    if (this.zeroResults.size > MAX_ZERO_RESULT_QUERIES) {
+      this.zeroResults.delete(this.zeroResults.keys().next().value!);
+    }
+  }
+
+  recordUpstream(endpoint: string, status: number | 'error'): void {
+    const key = `${endpoint} ${status}`;
+    this.upstream.set(key, (this.upstream.get(key) ?? 0) + 1);
+  }
+
+  recordCacheLookup(result: CacheLookup): void {
+    this.cache[result]++;
+  }
+
+  /**
+   * Current numbers; with a client, the zero-result queries are limited to
+   * those it searched for
+   */
+  snapshot(client?: string): MetricsSnapshot {
+    const lookups = this.cache.hit + this.cache.miss + this.cache.stale;
+    const zeroResults = [...this.zeroResults.values()].filter(entry => client === undefined || entry.client === client);
+    return {
+      startedAt: new Date(this.startedAt).toISOString(),
+      uptimeSeconds: Math.round((Date.now() - this.startedAt) / 1000),
+      tools: [...this.tools].map(([tool, metrics]) => ({
+        tool,
+        calls: metrics.calls,
+        errors: metrics.errors,
+        zeroResults: metrics.zeroResults,
+        averageMs: metrics.latency.count > 0 ? Math.round(metrics.latency.sum / metrics.latency.count * 1000) : 0,
+        p50Ms: Math.round(metrics.latency.quantile(0.5) * 1000),
+        p95Ms: Math.round(metrics.latency.quantile(0.95) * 1000),
+        maxMs: Math.round(metrics.latency.max * 1000),
+      })).sort((a, b) => b.calls - a.calls),
+      upstream: [...this.upstream].map(([key, count]) => {
+        const [endpoint, status] = key.split(' ');
+        return { endpoint, status, count };
+      }).sort((a, b) => a.endpoint.localeCompare(b.endpoint) || a.status.localeCompare(b.status)),
+      cache: {
+        hits: this.cache.hit,
+        misses: this.cache.miss,
+        stale: this.cache.stale,
+        hitRate: lookups > 0 ? Math.round((this.cache.hit + this.cache.stale) / lookups * 1000) / 1000 : null,
+      },
+      zeroResultQueries: zeroResults
+        .sort((a, b) => b.count - a.count || b.lastSeen.localeCompare(a.lastSeen))
+        .map(({ tool, query, count, lastSeen }) => ({ tool, query, count, lastSeen })),
+      zeroResultQueriesTracked: zeroResults.length,
+    };
+  }
+
+  /**
+   * Prometheus text exposition format; zero-result queries are counted per
+   * tool only, the query texts would be unbounded label values
+   */
+  toPrometheus(): string {
+    const lines: string[] = [];
+    const metric = (name: string, type: string, help: string) => {
+      lines.push(`# HELP ${PREFIX}_${name} ${help}`, `# TYPE ${PREFIX}_${name} ${type}`);
+    };
+
+    metric('process_start_time_seconds', 'gauge', 'Start time of the server process in seconds since the epoch');
+    lines.push(`${PREFIX}_process_start_time_seconds ${Math.floor(this.startedAt / 1000)}`);
+
+    metric('tool_calls_total', 'counter', 'Tool calls by tool');
+    for (const [tool, metrics] of this.tools) lines.push(`${PREFIX}_tool_calls_total${labels({ tool })} ${metrics.calls}`);
+    metric('tool_errors_total', 'counter', 'Tool calls that returned an error, by tool');
+    for (const [tool, metrics] of this.tools) lines.push(`${PREFIX}_tool_errors_total${labels({ tool })} ${metrics.errors}`);
+    metric('tool_zero_results_total', 'counter', 'Searches without results, by tool');
+    for (const [tool, metrics] of this.tools) lines.push(`${PREFIX}_tool_zero_results_total${labels({ tool })} ${metrics.zeroResults}`);
+
+    metric('tool_duration_seconds', 'histogram', 'Tool call latency by tool');
+    for (const [tool, { latency }] of this.tools) {
+      let cumulative = 0;
+      LATENCY_BUCKETS.forEach((bound, i) => {
+        cumulative += latency.counts[i];
+        lines.push(`${PREFIX}_tool_duration_seconds_bucket${labels({ tool, le: String(bound) })} ${cumulative}`);
+      });
+      lines.push(`${PREFIX}_tool_duration_seconds_bucket${labels({ tool, le: '+Inf' })} ${latency.count}`);
+      lines.push(`${PREFIX}_tool_duration_seconds_sum${labels({ tool })} ${latency.sum}`);
+      lines.push(`${PREFIX}_tool_duration_seconds_count${labels({ tool })} ${latency.count}`);
+    }
+
+    metric('upstream_responses_total', 'counter', 'Upstream API responses by endpoint and HTTP status ("error" for network failures)');
+    for (const [key, count] of this.upstream) {
+      const [endpoint, status] = key.split(' ');
+      lines.push(`${PREFIX}_upstream_responses_total${labels({ endpoint, status })} ${count}`);
+    }
+
+    metric('cache_lookups_total', 'counter', 'Response cache lookups by result (hit, miss, stale)');
+    for (const [result, count] of Object.entries(this.cache)) lines.push(`${PREFIX}_cache_lookups_total${labels({ result })} ${count}`);
+
+    return `${lines.join('\n')}\n`;
+  }
+
+  private tool(name: string): ToolMetrics {
+    let metrics = this.tools.get(name);
+    if (!metrics) {
+      if (this.tools.size >= MAX_TOOL_LABELS) return this.tool('other');
+      metrics = { calls: 0, errors: 0, zeroResults: 0, latency: new Histogram() };
+      this.tools.set(name, metrics);
+    }
+    return metrics;
+  }
+}
+
+/**
+ * Markdown rendering of a snapshot for server_statistik
+ */
+export function formatStatistics(snapshot: MetricsSnapshot, queryLimit: number): string {
+  const sections = [`📈 **Server statistics** since ${snapshot.startedAt} (${snapshot.uptimeSeconds}s)`];
+
+  sections.push(snapshot.tools.length > 0
+    ? `**Tool calls:**\n| Tool | Calls | Errors | Zero results | Avg | p50 | p95 | Max |\n|---|---|---|---|---|---|---|---|\n${snapshot.tools
+        .map(t => `| ${t.tool} | ${t.calls} | ${t.errors} | ${t.zeroResults} | ${t.averageMs} ms | ≤${t.p50Ms} ms | ≤${t.p95Ms} ms | ${t.maxMs} ms |`)
+        .join('\n')}`
+    : '**Tool calls:** none yet');
+
+  sections.push(snapshot.upstream.length > 0
+    ? `**Upstream responses:** ${snapshot.upstream.map(({ endpoint, status, count }) => `${endpoint} ${status}: ${count}`).join(', ')}`
+    : '**Upstream responses:** none yet');
+
+  const { hits, misses, stale, hitRate } = snapshot.cache;
+  sections.push(`**Response cache:** ${hits} hits, ${stale} stale hits, ${misses} misses${hitRate !== null ? ` (hit rate ${Math.round(hitRate * 100)}%)` : ''}`);
+
+  const queries = snapshot.zeroResultQueries.slice(0, queryLimit);
+  sections.push(queries.length > 0
+    ? `**Searches without results** (${snapshot.zeroResultQueriesTracked} distinct, most frequent first):\n${queries
+        .map(({ tool, query, count, lastSeen }) => `• "${query}" – ${count}× via ${tool}, last ${lastSeen}`)
+        .join('\n')}${snapshot.zeroResultQueriesTracked > queries.length ? `\n… ${snapshot.zeroResultQueriesTracked - queries.length} more` : ''}`
+    : '**Searches without results:** none');
+
+  return sections.join('\n\n');
+}
+
+export const metrics = new Metrics();
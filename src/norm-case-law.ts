@@ -0,0 +1,125 @@
+/**
+ * Case law citing a norm
+ *
+ * The case-law endpoint only offers full-text search, so "which decisions
+ * apply § 44 SGB X" is answered in two steps: search with the usual ways of
+ * writing the citation, then keep only decisions whose text matches actually
+ * cite the norm. Verification uses the citation parser, so ranges
+ * ("§§ 40 bis 48 SGB X"), "ff." and i.V.m. chains with an inherited law count
+ * as well, while "§ 44 SGB XII" or "§ 440 SGB X" do not.
+ */
+
+import { Citation, CitationTarget, formatNormCitation, NormCitation, parseCitations } from './citations.js';
+import { abbreviationKey } from './law-registry.js';
+import { CitingPassage, TextMatch } from './structured-output.js';
+
+export interface CourtGroup<T> {
+  court: string;
+  items: T[];
+}
+
+const EXCERPT_CONTEXT = 160;
+
+/**
+ * Search terms for the citation: as written, with Absatz, with the SGB book
+ * in Arabic numerals and as the second norm of an i.V.m. chain
+ */
+export function citationSearchTerms(norm: NormCitation): string[] {
+  const base: NormCitation = { ...norm, absatz: undefined, satz: undefined, nummer: undefined, buchstabe: undefined, halbsatz: undefined };
+  const terms = [formatNormCitation(base)];
+  if (norm.absatz !== undefined) terms.push(formatNormCitation({ ...base, absatz: norm.absatz }));
+
+  // Courts write both "SGB X" and "SGB 10"
+  const book = abbreviationKey(norm.law).match(/^SGB(\d+)$/);
+  if (book && norm.law !== `SGB ${book[1]}`) terms.push(formatNormCitation({ ...base, law: `SGB ${book[1]}` }));
+
+  if (norm.kind === 'article') terms.push(`Artikel ${norm.number} ${norm.law}`);
+  terms.push(`i.V.m. ${formatNormCitation(base)}`);
+  return [...new Set(terms)];
+}
+
+/** Numeric part and letter suffix for ordering, e.g. "15a" → [15, "a"] */
+function numberKey(number: string): [number, string] {
+  const match = number.replace(/\s+/g, '').toLowerCase().match(/^(\d+)([a-z]?)$/);
+  return match ? [parseInt(match[1], 10), match[2]] : [NaN, ''];
+}
+
+function compareNumbers(a: string, b: string): number {
+  const [numberA, letterA] = numberKey(a);
+  const [numberB, letterB] = numberKey(b);
+  return numberA !== numberB ? numberA - numberB : letterA.localeCompare(letterB);
+}
+
+function targetCites(target: CitationTarget, norm: NormCitation): boolean {
+  const order = compareNumbers(target.number, norm.number);
+  if (Number.isNaN(order)) return false;
+
+  if (target.absatz === undefined && target.following) {
+    // "§ 44 f." covers § 45, "§ 44 ff." any later §
+    return order === 0 || (target.following === 'f' ? numberKey(norm.number)[0] - numberKey(target.number)[0] === 1 : order < 0);
+  }
+  if (order !== 0) return false;
+  // A citation of the whole § covers every Absatz; a different Absatz does not
+  return norm.absatz === undefined || target.absatz === undefined || target.following !== undefined
+    || parseInt(target.absatz, 10) === norm.absatz;
+}
+
+/**
+ * Whether a parsed citation refers to the norm (or to a range containing it)
+ */
+export function citesNorm(citation: Citation, norm: NormCitation): boolean {
+  if (citation.kind !== norm.kind || !citation.law) return false;
+  if (abbreviationKey(citation.law) !== abbreviationKey(norm.law)) return false;
+
+  return citation.parts.some(part => part.type === 'single'
+    ? targetCites(part.target, norm)
+    : compareNumbers(part.from.number, norm.number) <= 0 && compareNumbers(norm.number, part.to.number) <= 0);
+}
+
+function excerpt(text: string, start: number, end: number): string {
+  const from = Math.max(0, start - EXCERPT_CONTEXT);
+  const to = Math.min(text.length, end + EXCERPT_CONTEXT);
+  const before = text.substring(from, start);
+  const after = text.substring(end, to);
+  return `${from > 0 ? '…' : ''}${before}**${text.substring(start, end)}**${after}${to < text.length ? '…' : ''}`;
+}
+
+/**
+ * Text matches of a decision that cite the norm; empty if the search hit only
+ * matched the words of the citation
+ */
+export function findCitingPassages(textMatches: TextMatch[], norm: NormCitation): CitingPassage[] {
+  const passages: CitingPassage[] = [];
+  for (const match of textMatches) {
+    const text = (match.text || '').replace(/<[^>]+>/g, '').replace(/\s+/g, ' ');
+    for (const chain of parseCitations(text)) {
+      const citation = chain.citations.find(candidate => citesNorm(candidate, norm));
+      if (!citation) continue;
+      passages.push({
+        field: match.name,
+        citation: chain.raw,
+        excerpt: excerpt(text, citation.start, citation.end),
+      });
+    }
+  }
+  return passages;
+}
+
+/**
+ * Group by court, newest first within each court; courts with the most
+ * decisions first
+ */
+export function groupByCourt<T>(items: T[], court: (item: T) => string, date: (item: T) => string | undefined): CourtGroup<T>[] {
+  const groups = new Map<string, T[]>();
+  for (const item of items) {
+    const key = court(item);
+    groups.set(key, [...(groups.get(key) ?? []), item]);
+  }
+
+  return [...groups.entries()]
+    .map(([name, members]) => ({
+      court: name,
+      items: members.sort((a, b) => (date(b) ?? '').localeCompare(date(a) ?? '')),
+    }))
+    .sort((a, b) => b.items.length - a.items.length || a.court.localeCompare(b.court));
+}
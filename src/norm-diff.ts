@@ -0,0 +1,127 @@
+/**
+ * Paragraph-aligned comparison of two versions of a law
+ *
+ * Norms are aligned by their designation ("§ 44"), Absätze by their
+ * numbering ("(1)"). Changed Absätze additionally report which Sätze
+ * were removed or added.
+ */
+
+import { childElements, extractNorm, LawDocument, listArticles, NormText, splitSentences, textContent } from './legaldocml.js';
+
+export type ChangeType = 'added' | 'removed' | 'changed' | 'unchanged';
+
+export interface ParagraphChange {
+  num: string;
+  type: ChangeType;
+  before?: string;
+  after?: string;
+  /** For changed Absätze: Sätze only present in the old / new version */
+  removedSentences?: string[];
+  addedSentences?: string[];
+}
+
+export interface NormDiff {
+  num: string;
+  heading: string;
+  /** eId in the newer version (older version for removed norms) */
+  eId: string;
+  type: ChangeType;
+  headingBefore?: string;
+  paragraphs: ParagraphChange[];
+}
+
+const normalize = (text: string) => text.replace(/\s+/g, ' ').trim();
+
+function paragraphKey(num: string, index: number): string {
+  const key = num.replace(/[()\s.]/g, '').toLowerCase();
+  return key || `#${index}`;
+}
+
+function diffSentences(before: string, after: string): { removed: string[]; added: string[] } {
+  const oldSentences = splitSentences(before);
+  const newSentences = splitSentences(after);
+  return {
+    removed: oldSentences.filter(sentence => !newSentences.includes(sentence)),
+    added: newSentences.filter(sentence => !oldSentences.includes(sentence)),
+  };
+}
+
+/**
+ * Compare two versions of a single norm. Either side may be missing.
+ */
+export function diffNorms(before: NormText | null, after: NormText | null): NormDiff {
+  const reference = (after || before) as NormText;
+  const oldParagraphs = new Map((before?.paragraphs || []).map((p, i) => [paragraphKey(p.num, i), p]));
+  const newParagraphs = new Map((after?.paragraphs || []).map((p, i) => [paragraphKey(p.num, i), p]));
+
+  const paragraphs: ParagraphChange[] = [];
+  // Walk the new order, then append Absätze that only exist in the old version
+  for (const [key, paragraph] of newParagraphs) {
+    const old = oldParagraphs.get(key);
+    if (!old) {
+      paragraphs.push({ num: paragraph.num, type: 'added', after: paragraph.text });
+    } else if (normalize(old.text) === normalize(paragraph.text)) {
+      paragraphs.push({ num: paragraph.num, type: 'unchanged', before: old.text, after: paragraph.text });
+    } else {
+      const { removed, added } = diffSentences(old.text, paragraph.text);
+      paragraphs.push({
+        num: paragraph.num,
+        type: 'changed',
+        before: old.text,
+        after: paragraph.text,
+        removedSentences: removed,
+        addedSentences: added,
+      });
+    }
+  }
+  for (const [key, paragraph] of oldParagraphs) {
+    if (!newParagraphs.has(key)) paragraphs.push({ num: paragraph.num, type: 'removed', before: paragraph.text });
+  }
+
+  const headingChanged = !!before && !!after && normalize(before.heading) !== normalize(after.heading);
+  let type: ChangeType = 'unchanged';
+  if (!before) type = 'added';
+  else if (!after) type = 'removed';
+  else if (headingChanged || paragraphs.some(p => p.type !== 'unchanged')) type = 'changed';
+
+  return {
+    num: reference.num,
+    heading: reference.heading,
+    eId: reference.eId,
+    type,
+    headingBefore: headingChanged ? before!.heading : undefined,
+    paragraphs,
+  };
+}
+
+function articleKey(num: string): string {
+  return num.replace(/\s+/g, '').toLowerCase();
+}
+
+/**
+ * Compare all §§ / Artikel of two versions; returns only norms that differ,
+ * in the order of the newer version followed by removed norms
+ */
+export function diffLawDocuments(before: LawDocument, after: LawDocument): NormDiff[] {
+  const collect = (doc: LawDocument) => {
+    const norms = new Map<string, NormText>();
+    for (const article of listArticles(doc)) {
+      const num = childElements(article, 'num')[0];
+      const key = articleKey(num ? textContent(num) : article.attributes.eId || '');
+      if (key && !norms.has(key)) norms.set(key, extractNorm(article));
+    }
+    return norms;
+  };
+
+  const oldNorms = collect(before);
+  const newNorms = collect(after);
+
+  const diffs: NormDiff[] = [];
+  for (const [key, norm] of newNorms) {
+    diffs.push(diffNorms(oldNorms.get(key) || null, norm));
+  }
+  for (const [key, norm] of oldNorms) {
+    if (!newNorms.has(key)) diffs.push(diffNorms(norm, null));
+  }
+  return diffs.filter(diff => diff.type !== 'unchanged');
+}
@@ -0,0 +1,102 @@
+/**
+ * Result pagination
+ *
+ * The search endpoints page with `size` and a zero-based `pageIndex` and
+ * describe the collection with `totalItems` and a `view` (first/next/last
+ * links). Tools hand agents an opaque cursor that encodes the query and the
+ * next page, so that a follow-up call continues exactly where the last one
+ * stopped.
+ */
+
+/** Largest page the API serves */
+export const MAX_PAGE_SIZE = 100;
+
+export interface PageInfo {
+  pageIndex: number;
+  size: number;
+  /** Total hits reported by the API, if any */
+  totalItems?: number;
+  hasNext: boolean;
+}
+
+interface CursorPayload<T> {
+  tool: string;
+  state: T;
+}
+
+/**
+ * Page size from a user-supplied limit (strings accepted for model compatibility)
+ */
+export function pageSize(limit: unknown, fallback: number): number {
+  const value = typeof limit === 'string' ? parseInt(limit, 10) : typeof limit === 'number' ? limit : NaN;
+  return Math.min(Math.max(Number.isFinite(value) && value > 0 ? Math.floor(value) : fallback, 1), MAX_PAGE_SIZE);
+}
+
+export function readPageInfo(data: any, pageIndex: number, size: number): PageInfo {
+  const totalItems = typeof data?.totalItems === 'number' ? data.totalItems : undefined;
+  const returned = Array.isArray(data?.member) ? data.member.length : 0;
+
+  let hasNext: boolean;
+  if (data?.view && typeof data.view === 'object') {
+    hasNext = !!data.view.next;
+  } else if (totalItems !== undefined) {
+    hasNext = (pageIndex + 1) * size < totalItems;
+  } else {
+    // No paging metadata: a full page suggests there is more
+    hasNext = returned >= size;
+  }
+
+  return { pageIndex, size, totalItems, hasNext };
+}
+
+/**
+ * Merge the results of several searches run side by side (one per court)
+ * into one page of `size`. The head that sorts first is taken each time, so
+ * every list is consumed from the front and `taken` tells the next page
+ * where each search continues.
+ */
+export function mergePages<T>(lists: T[][], size: number, compare: (a: T, b: T) => number): { merged: T[]; taken: number[] } {
+  const taken = lists.map(() => 0);
+  const merged: T[] = [];
+  while (merged.length < size) {
+    let next = -1;
+    lists.forEach((list, i) => {
+      if (taken[i] < list.length && (next === -1 || compare(list[taken[i]], lists[next][taken[next]]) < 0)) next = i;
+    });
+    if (next === -1) break;
+    merged.push(lists[next][taken[next]++]);
+  }
+  return { merged, taken };
+}
+
+export function encodeCursor<T>(tool: string, state: T): string {
+  const payload: CursorPayload<T> = { tool, state };
+  return Buffer.from(JSON.stringify(payload), 'utf8').toString('base64url');
+}
+
+/**
+ * Decode a cursor issued by `tool`; throws for foreign or damaged cursors
+ */
+export function decodeCursor<T>(cursor: string, tool: string): T {
+  let payload: CursorPayload<T>;
+  try {
+    payload = JSON.parse(Buffer.from(String(cursor), 'base64url').toString('utf8'));
+  } catch {
+    throw new Error('Invalid cursor. Pass the cursor exactly as returned by the previous call.');
+  }
+  if (!payload || payload.tool !== tool || typeof payload.state !== 'object') {
+    throw new Error(`Invalid cursor for ${tool}. Cursors only continue the search of the tool that returned them.`);
+  }
+  return payload.state;
+}
+
+/**
+ * "Showing 11-20 of 143" line plus continuation hint
+ */
+export function formatPageInfo(info: PageInfo, shown: number, nextCursor?: string): string {
+  const first = info.pageIndex * info.size + 1;
+  const range = shown > 0 ? `${first}-${first + shown - 1}` : 'none';
+  const total = info.totalItems !== undefined ? ` of ${info.totalItems}` : '';
+  const more = nextCursor ? `\n➡️ **More results:** call again with cursor: "${nextCursor}"` : '';
+  return `📄 **Results ${range}${total}** (page ${info.pageIndex + 1})${more}`;
+}
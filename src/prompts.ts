@@ -0,0 +1,154 @@
+/**
+ * MCP prompt library
+ *
+ * Parameterized research workflows that recur in German legal questions.
+ * Each prompt names the tools to call in order, what to cite and which
+ * coverage gaps of the testphase database apply, so that the tool
+ * descriptions themselves only have to describe their own tool.
+ */
+
+export interface PromptArgument {
+  name: string;
+  description: string;
+  required?: boolean;
+}
+
+export interface PromptDefinition {
+  name: string;
+  description: string;
+  arguments: PromptArgument[];
+  render(args: Record<string, string>): string;
+}
+
+const CITATION_RULES = `**Zitierregeln:**
+• Belege jede rechtliche Aussage mit der Norm (z. B. "§ 44 Abs. 1 SGB X") und dem Link aus der Tool-Antwort
+• Gib bei Normtexten die Fassung (Stichtag) an, die das Tool meldet
+• Zitiere Gerichtsentscheidungen mit Gericht, Datum, Aktenzeichen und ECLI bzw. Link
+• Kennzeichne Aussagen, die nicht auf Tool-Ergebnissen beruhen, ausdrücklich als solche
+• Keine Rechtsberatung: weise auf anwaltliche Beratung bzw. Beratungsstellen hin`;
+
+const COVERAGE_RULES = `**Abdeckung der Datenbank:**
+• Die testphase-Datenbank ist unvollständig; prüfe unsichere Gesetze mit verfuegbarkeit_pruefen
+• Meldet ein Tool "NOT IN DATABASE", nutze die genannte offizielle Quelle (gesetze-im-internet.de) und sage das in der Antwort`;
+
+function optional(label: string, value?: string): string {
+  return value ? `\n**${label}:** ${value}` : '';
+}
+
+export const PROMPTS: PromptDefinition[] = [
+  {
+    name: 'jobcenter_bescheid_pruefen',
+    description: 'Review a Jobcenter decision (Bürgergeld/SGB II Bescheid): deadlines, remedies and relevant norms and case law',
+    arguments: [
+      { name: 'bescheid', description: 'Content or summary of the Bescheid (what was decided, amounts, reasons)', required: true },
+      { name: 'bescheidDatum', description: 'Date of the Bescheid or of its receipt (YYYY-MM-DD)' },
+      { name: 'anliegen', description: 'What the person wants to achieve, e.g. higher payment, lift a sanction' },
+    ],
+    render: args => `Prüfe den folgenden Bescheid des Jobcenters.
+
+**Bescheid:** ${args.bescheid}${optional('Datum', args.bescheidDatum)}${optional('Anliegen', args.anliegen)}
+
+**Vorgehen:**
+1. Ordne den Bescheid ein (Bewilligung, Aufhebung/Erstattung, Sanktion/Leistungsminderung, Ablehnung)
+2. Rechtsbehelf klären:
+   • Bescheid noch nicht bestandskräftig (ein Monat nach Bekanntgabe): Widerspruch, § 84 SGG – norm_abrufen "§ 84 SGG"
+   • Bescheid bestandskräftig: Überprüfungsantrag nach § 44 SGB X (nicht "Widerspruch") – norm_abrufen "§ 44 SGB X"
+   • Fristbeginn und Bekanntgabe: § 37 SGB X
+3. Materielle Normen des SGB II bestimmen (z. B. §§ 19 ff., § 22 Unterkunft, §§ 31 ff. Leistungsminderung)
+4. Rechtsprechung: rechtsprechung_zur_norm für die tragenden Normen (z. B. "§ 31a SGB II", court "BSG"), ergänzend rechtsprechung_suchen mit den Kernbegriffen des Bescheids
+5. Bei Änderungen der Rechtslage (z. B. Bürgergeld-Reform 2023): fassung_zum_stichtag_abrufen zum Bescheiddatum
+
+**Achtung Abdeckung:** SGB II (und SGB I–VIII insgesamt) ist NICHT in der Datenbank. Normen des SGB II von gesetze-im-internet.de zitieren und als externe Quelle kennzeichnen; SGB X und SGG sind abrufbar.
+
+${CITATION_RULES}
+
+${COVERAGE_RULES}
+
+**Antwort:** Frist (mit Berechnung), statthafter Rechtsbehelf, Erfolgsaussichten der Hauptargumente, nächste Schritte.`,
+  },
+  {
+    name: 'kuendigungsschutz_pruefen',
+    description: 'Check whether a dismissal is covered by the Kündigungsschutzgesetz and which defects and deadlines apply',
+    arguments: [
+      { name: 'sachverhalt', description: 'Facts of the dismissal (who, when, reason given, form)', required: true },
+      { name: 'betriebsgroesse', description: 'Number of employees in the business' },
+      { name: 'beschaeftigungsdauer', description: 'How long the employee has been employed' },
+      { name: 'zugangDatum', description: 'Date the notice of dismissal was received (YYYY-MM-DD)' },
+    ],
+    render: args => `Prüfe den Kündigungsschutz für folgenden Fall.
+
+**Sachverhalt:** ${args.sachverhalt}${optional('Betriebsgröße', args.betriebsgroesse)}${optional('Beschäftigungsdauer', args.beschaeftigungsdauer)}${optional('Zugang der Kündigung', args.zugangDatum)}
+
+**Vorgehen:**
+1. Klagefrist zuerst: drei Wochen ab Zugang, § 4 KSchG – norm_abrufen "§ 4 KSchG"
+2. Anwendbarkeit des KSchG: Betriebsgröße § 23 KSchG, Wartezeit sechs Monate § 1 Abs. 1 KSchG
+3. Soziale Rechtfertigung (personen-, verhaltens-, betriebsbedingt), § 1 Abs. 2 und 3 KSchG
+4. Formelle Wirksamkeit: Schriftform § 623 BGB, Kündigungsfristen § 622 BGB, Anhörung des Betriebsrats § 102 BetrVG
+5. Sonderkündigungsschutz prüfen, soweit der Sachverhalt Anlass gibt (z. B. § 17 MuSchG, § 18 BEEG, § 168 SGB IX)
+6. Rechtsprechung: rechtsprechung_suchen mit court "BAG" und dem Kündigungsgrund
+
+Nutze verfuegbarkeit_pruefen für KSchG, BetrVG und MuSchG, bevor du Normtexte abrufst.
+
+${CITATION_RULES}
+
+${COVERAGE_RULES}
+
+**Antwort:** Fristende der Kündigungsschutzklage, Anwendbarkeit des KSchG, mögliche Unwirksamkeitsgründe, nächste Schritte.`,
+  },
+  {
+    name: 'mieterhoehung_pruefen',
+    description: 'Check a rent increase (Mieterhöhung) for formal and substantive validity under the BGB',
+    arguments: [
+      { name: 'sachverhalt', description: 'Content of the rent increase request (old/new rent, reasoning, date)', required: true },
+      { name: 'art', description: 'Type of increase: Vergleichsmiete, Modernisierung, Staffelmiete or Indexmiete' },
+      { name: 'zugangDatum', description: 'Date the request was received (YYYY-MM-DD)' },
+    ],
+    render: args => `Prüfe die folgende Mieterhöhung.
+
+**Mieterhöhungsverlangen:** ${args.sachverhalt}${optional('Art', args.art)}${optional('Zugang', args.zugangDatum)}
+
+**Vorgehen:**
+1. Art der Erhöhung bestimmen und die Grundnorm abrufen:
+   • Ortsübliche Vergleichsmiete: § 558 BGB (Sperrfrist, Kappungsgrenze Abs. 3), Begründung § 558a, Zustimmung § 558b
+   • Modernisierung: §§ 559 ff. BGB
+   • Staffelmiete § 557a BGB, Indexmiete § 557b BGB
+2. Normtexte mit norm_abrufen lesen, z. B. "§ 558 Abs. 3 BGB"; den Katalog der §§ mit gesetz_inhaltsverzeichnis_abrufen (BGB) prüfen
+3. Fristen berechnen: Überlegungsfrist bis zum Ende des zweiten Kalendermonats nach Zugang (§ 558b Abs. 2 BGB)
+4. Rechtsprechung: rechtsprechung_suchen mit court "BGH" und z. B. "Mieterhöhung Mietspiegel Begründung"
+5. Landesrecht (Kappungsgrenzen-Verordnungen, Mietspiegel) ist nicht in der Datenbank – darauf hinweisen
+
+${CITATION_RULES}
+
+${COVERAGE_RULES}
+
+**Antwort:** Formelle Wirksamkeit, zulässige Höhe, Frist zur Zustimmung, Empfehlung.`,
+  },
+  {
+    name: 'aenderungshistorie_recherchieren',
+    description: 'Research when and how a norm was amended, and by which amending law',
+    arguments: [
+      { name: 'norm', description: 'Citation of the norm, e.g. "§ 44 SGB X"', required: true },
+      { name: 'von', description: 'Start of the period of interest (YYYY-MM-DD)' },
+      { name: 'bis', description: 'End of the period of interest (YYYY-MM-DD)' },
+    ],
+    render: args => `Recherchiere die Änderungshistorie von ${args.norm}.
+${optional('Zeitraum von', args.von)}${optional('Zeitraum bis', args.bis)}
+
+**Vorgehen:**
+1. Verfügbare Fassungen: gesetzesfassungen_auflisten für das Gesetz aus "${args.norm}"
+2. Änderungen zwischen zwei Stichtagen: fassungsvergleich mit citation "${args.norm}" und dateFrom/dateTo${args.von || args.bis ? ' aus dem Zeitraum' : ''} – zeigt geänderte Absätze und das ändernde Gesetz
+3. Wortlaut zu einem Stichtag: fassung_zum_stichtag_abrufen mit citation und date
+4. Ändernde Gesetze suchen: deutsche_gesetze_suchen OHNE Datumsfilter mit "Gesetz zur Änderung …", "…Änderungsgesetz" und "BGBl <Jahr>"; Verkündungs- und Inkrafttretensjahr können abweichen
+5. Ältere Fassungen fehlen oft in der Datenbank – dann auf das Bundesgesetzblatt verweisen
+
+${CITATION_RULES}
+
+${COVERAGE_RULES}
+
+**Antwort:** Zeitleiste der Fassungen mit Geltungszeiträumen, Inhalt jeder Änderung, änderndes Gesetz mit Fundstelle.`,
+  },
+];
+
+export function findPrompt(name: string): PromptDefinition | undefined {
+  return PROMPTS.find(prompt => prompt.name === name);
+}
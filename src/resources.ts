@@ -0,0 +1,158 @@
+/**
+ * MCP resource URIs
+ *
+ * Laws, single norms and court decisions are addressable as resources:
+ *   rechtsinformationen://legislation/eli/bund/bgbl-1/2006/s2748[/2025-05-01/1/deu[/regelungstext-1.xml]]
+ *   rechtsinformationen://case-law/ecli/ECLI:DE:BGH:2018:150518UVIIZR233.17.0
+ *   rechtsinformationen://case-law/KORE600500000
+ *   rechtsinformationen://norm/BGB/558, rechtsinformationen://norm/GG/art-3
+ *
+ * Law and decision resources are rendered as markdown; legislation
+ * manifestations (.xml, .html) are passed through with their own MIME type.
+ */
+
+import { extractNorm, extractTableOfContents, findElementById, LawDocument, NormText } from './legaldocml.js';
+
+export const RESOURCE_SCHEME = 'rechtsinformationen';
+
+export const MARKDOWN = 'text/markdown';
+
+export type ResourceTarget =
+  | { kind: 'legislation'; eli: string; mimeType: string }
+  | { kind: 'case-law-ecli'; ecli: string }
+  | { kind: 'case-law'; documentNumber: string }
+  | { kind: 'norm'; law: string; designation: 'paragraph' | 'article'; number: string };
+
+export const RESOURCE_TEMPLATES = [
+  {
+    uriTemplate: `${RESOURCE_SCHEME}://legislation/{+eli}`,
+    name: 'Gesetz per ELI',
+    description: 'Full text of a law by work or expression ELI, e.g. eli/bund/bgbl-1/2006/s2748. Append a manifestation (…/regelungstext-1.xml or .html) for the raw document.',
+    mimeType: MARKDOWN,
+  },
+  {
+    uriTemplate: `${RESOURCE_SCHEME}://norm/{law}/{norm}`,
+    name: 'Norm (§ / Artikel)',
+    description: 'A single provision, e.g. norm/BGB/558 for § 558 BGB or norm/GG/art-3 for Art. 3 GG. Encode spaces in the law abbreviation (SGB%20X).',
+    mimeType: MARKDOWN,
+  },
+  {
+    uriTemplate: `${RESOURCE_SCHEME}://case-law/ecli/{ecli}`,
+    name: 'Gerichtsentscheidung per ECLI',
+    description: 'Court decision by ECLI, e.g. case-law/ecli/ECLI:DE:BGH:2018:150518UVIIZR233.17.0',
+    mimeType: MARKDOWN,
+  },
+  {
+    uriTemplate: `${RESOURCE_SCHEME}://case-law/{documentNumber}`,
+    name: 'Gerichtsentscheidung per Dokumentnummer',
+    description: 'Court decision by the documentNumber returned by rechtsprechung_suchen',
+    mimeType: MARKDOWN,
+  },
+];
+
+const MANIFESTATION_TYPES: Record<string, string> = {
+  xml: 'application/xml',
+  html: 'text/html',
+};
+
+export function legislationUri(eli: string): string {
+  return `${RESOURCE_SCHEME}://legislation/${eli.replace(/^\/?(v1\/legislation\/)?/, '')}`;
+}
+
+/**
+ * Parse a resource URI; null if it does not belong to this server
+ */
+export function parseResourceUri(uri: string): ResourceTarget | null {
+  const prefix = `${RESOURCE_SCHEME}://`;
+  if (!uri.startsWith(prefix)) return null;
+
+  const [kind, ...rest] = uri.slice(prefix.length).replace(/[?#].*$/, '').split('/').filter(Boolean);
+  const segments = rest.map(segment => {
+    try {
+      return decodeURIComponent(segment);
+    } catch {
+      return segment;
+    }
+  });
+
+  if (kind === 'legislation' && segments[0] === 'eli') {
+    const extension = segments[segments.length - 1].match(/\.(xml|html)$/i)?.[1].toLowerCase();
+    return { kind: 'legislation', eli: segments.join('/'), mimeType: extension ? MANIFESTATION_TYPES[extension] : MARKDOWN };
+  }
+
+  if (kind === 'case-law') {
+    if (segments[0] === 'ecli' && segments.length >= 2) return { kind: 'case-law-ecli', ecli: segments.slice(1).join('/') };
+    if (segments.length === 1) return { kind: 'case-law', documentNumber: segments[0] };
+  }
+
+  if (kind === 'norm' && segments.length === 2) {
+    const match = segments[1].match(/^(?:(art(?:ikel)?)[-.\s]*|§?\s*)(\d+\s*[a-z]?)$/i);
+    if (!match) return null;
+    return {
+      kind: 'norm',
+      law: segments[0],
+      designation: match[1] ? 'article' : 'paragraph',
+      number: match[2].replace(/\s+/g, ''),
+    };
+  }
+
+  return null;
+}
+
+export function formatNormMarkdown(norm: NormText, level = 3, title = [norm.num, norm.heading].filter(Boolean).join(' ')): string {
+  const heading = `${'#'.repeat(level)} ${title}`;
+  const text = norm.paragraphs.map(section => `${section.num ? `${section.num} ` : ''}${section.text}`).join('\n\n');
+  return `${heading}\n\n${text}`;
+}
+
+/**
+ * Whole law as markdown: structure headings and the text of every § / Artikel
+ */
+export function formatLawMarkdown(doc: LawDocument): string {
+  const parts = [`# ${doc.shortTitle || doc.title}`];
+  if (doc.shortTitle && doc.title) parts.push(doc.title);
+  if (doc.expressionEli) parts.push(`ELI: ${doc.expressionEli}${doc.expressionDate ? ` (Fassung vom ${doc.expressionDate})` : ''}`);
+
+  for (const entry of extractTableOfContents(doc)) {
+    const level = Math.min(entry.depth + 1, 6);
+    if (entry.type !== 'Paragraph' && entry.type !== 'Artikel') {
+      parts.push(`${'#'.repeat(level)} ${[entry.num, entry.heading].filter(Boolean).join(' – ')}`);
+      continue;
+    }
+
+    const article = findElementById(doc, entry.eId);
+    if (article) parts.push(formatNormMarkdown(extractNorm(article), level));
+  }
+
+  return parts.join('\n\n');
+}
+
+const BLOCK_TAGS = /<\/?(?:p|div|br|h[1-6]|li|tr|table|section|article|dd|dt|blockquote)\b[^>]*>/gi;
+
+const ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ', sect: '§', shy: '',
+  auml: 'ä', ouml: 'ö', uuml: 'ü', Auml: 'Ä', Ouml: 'Ö', Uuml: 'Ü', szlig: 'ß',
+  bdquo: '„', ldquo: '“', rdquo: '”', ndash: '–', mdash: '—', hellip: '…',
+};
+
+/**
+ * Readable text from a decision's HTML rendering
+ */
+export function htmlToText(html: string): string {
+  const body = html.match(/<body\b[^>]*>([\s\S]*)<\/body>/i)?.[1] ?? html;
+  return body
+    .replace(/<(script|style|head)\b[\s\S]*?<\/\1>/gi, '')
+    .replace(BLOCK_TAGS, '\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&(#x?[0-9a-f]+|\w+);/gi, (entity, code: string) => {
+      if (code[0] === '#') {
+        const value = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+        return Number.isFinite(value) ? String.fromCodePoint(value) : entity;
+      }
+      return ENTITIES[code] ?? entity;
+    })
+    .replace(/[ \t ]+/g, ' ')
+    .replace(/ *\n */g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
@@ -0,0 +1,237 @@
+/**
+ * Response cache for upstream API calls
+ *
+ * - In-memory LRU keyed by URL, sorted query params and Accept header
+ * - Separate TTLs for search results and document bodies
+ * - Optional on-disk store (one JSON file per entry) that survives restarts;
+ *   files that can no longer be served and the oldest ones above
+ *   `maxDiskEntries` are pruned at startup and every PRUNE_INTERVAL writes
+ * - Identical in-flight requests share a single upstream call
+ * - Stale-while-error: expired entries are served when the upstream fails,
+ *   as long as they are younger than `maxStale`
+ *
+ * Cached data is copied on the way in and out, so callers may modify the
+ * responses they get without changing what later callers see.
+ */
+
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { logger } from './logger.js';
+
+/** Disk writes between two prunes of the disk store */
+const PRUNE_INTERVAL = 100;
+
+export type CacheKind = 'search' | 'document';
+
+export interface CachedResponse {
+  key: string;
+  data: any;
+  status: number;
+  contentType?: string;
+  storedAt: number;
+  expiresAt: number;
+}
+
+export interface CacheLookup {
+  entry: CachedResponse;
+  stale: boolean;
+}
+
+export interface ResponseCacheOptions {
+  maxEntries: number;
+  searchTtl: number;
+  documentTtl: number;
+  maxStale: number;
+  directory?: string;
+  /** Files kept in the disk store */
+  maxDiskEntries: number;
+}
+
+export class ResponseCache {
+  private readonly options: ResponseCacheOptions;
+  private readonly entries = new Map<string, CachedResponse>();
+  private readonly inflight = new Map<string, Promise<any>>();
+  private directoryReady: Promise<void> | null = null;
+  private pruning: Promise<void> | null = null;
+  private writesSincePrune = 0;
+
+  constructor(options: ResponseCacheOptions) {
+    this.options = options;
+  }
+
+  /**
+   * Build a cache key from the request URL, query params and Accept header.
+   * Params are sorted so that equivalent requests share an entry.
+   */
+  static key(url: string, params?: Record<string, any> | URLSearchParams, accept?: string): string {
+    const pairs: Array<[string, string]> = [];
+    if (params instanceof URLSearchParams) {
+      params.forEach((value, name) => pairs.push([name, value]));
+    } else if (params) {
+      for (const [name, value] of Object.entries(params)) {
+        if (value === undefined || value === null) continue;
+        pairs.push([name, String(value)]);
+      }
+    }
+    pairs.sort(([a, av], [b, bv]) => (a === b ? av.localeCompare(bv) : a.localeCompare(b)));
+
+    const query = pairs.map(([name, value]) => `${encodeURIComponent(name)}=${encodeURIComponent(value)}`).join('&');
+    return `${url}?${query}#${accept || 'application/json'}`;
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * Look up an entry in memory, falling back to the disk store.
+   * Returns entries past their TTL flagged as stale, or null if missing
+   * or older than `maxStale`.
+   */
+  async lookup(key: string): Promise<CacheLookup | null> {
+    let entry = this.entries.get(key);
+    if (entry) {
+      // Refresh LRU position
+      this.entries.delete(key);
+      this.entries.set(key, entry);
+    } else {
+      entry = (await this.readFromDisk(key)) ?? undefined;
+      if (entry) this.remember(entry);
+    }
+
+    if (!entry) return null;
+
+    const now = Date.now();
+    if (now - entry.expiresAt > this.options.maxStale) {
+      this.entries.delete(key);
+      return null;
+    }
+    return { entry: { ...entry, data: structuredClone(entry.data) }, stale: now >= entry.expiresAt };
+  }
+
+  async store(key: string, kind: CacheKind, data: any, status: number, contentType?: string): Promise<CachedResponse> {
+    const ttl = kind === 'search' ? this.options.searchTtl : this.options.documentTtl;
+    const storedAt = Date.now();
+    const entry: CachedResponse = { key, data: structuredClone(data), status, contentType, storedAt, expiresAt: storedAt + ttl };
+
+    this.remember(entry);
+    await this.writeToDisk(entry);
+    return { ...entry, data };
+  }
+
+  /**
+   * Run `fetcher` unless an identical request is already in flight,
+   * in which case each waiting caller gets its own copy of the result.
+   */
+  dedupe<T>(key: string, fetcher: () => Promise<T>): Promise<T> {
+    const pending = this.inflight.get(key);
+    if (pending) return pending.then(result => structuredClone(result));
+
+    const promise = fetcher().finally(() => this.inflight.delete(key));
+    this.inflight.set(key, promise);
+    return promise;
+  }
+
+  private remember(entry: CachedResponse): void {
+    this.entries.delete(entry.key);
+    this.entries.set(entry.key, entry);
+
+    while (this.entries.size > this.options.maxEntries) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest === undefined) break;
+      this.entries.delete(oldest);
+    }
+  }
+
+  private filePath(key: string): string {
+    const hash = createHash('sha256').update(key).digest('hex');
+    return path.join(this.options.directory as string, `${hash}.json`);
+  }
+
+  private async readFromDisk(key: string): Promise<CachedResponse | null> {
+    if (!this.options.directory) return null;
+
+    try {
+      const raw = await fs.readFile(this.filePath(key), 'utf-8');
+      const entry = JSON.parse(raw) as CachedResponse;
+      return entry.key === key ? entry : null;
+    } catch {
+      // Missing or unreadable entries are treated as cache misses
+      return null;
+    }
+  }
+
+  private async writeToDisk(entry: CachedResponse): Promise<void> {
+    if (!this.options.directory) return;
+
+    try {
+      if (!this.directoryReady) {
+        this.directoryReady = fs.mkdir(this.options.directory, { recursive: true }).then(() => {
+          // Startup: clear out what earlier runs left behind
+          this.schedulePrune();
+        });
+      }
+      await this.directoryReady;
+
+      // Write to a temp file first so a crash never leaves a truncated entry
+      const target = this.filePath(entry.key);
+      const temp = `${target}.${process.pid}.tmp`;
+      await fs.writeFile(temp, JSON.stringify(entry), 'utf-8');
+      await fs.rename(temp, target);
+
+      if (++this.writesSincePrune >= PRUNE_INTERVAL) this.schedulePrune();
+    } catch (error) {
+      // The disk store is best-effort; the in-memory cache still works
+      this.directoryReady = null;
+      logger.warn('Response cache: failed to persist entry', { error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  private schedulePrune(): void {
+    if (this.pruning) return;
+    this.writesSincePrune = 0;
+    this.pruning = this.pruneDisk().finally(() => {
+      this.pruning = null;
+    });
+  }
+
+  /**
+   * Delete files older than the longest TTL plus `maxStale` (lookup would
+   * discard them), temp files of interrupted writes and, above
+   * `maxDiskEntries`, the least recently written entries. Ages come from the
+   * file modification time, which is the time the entry was stored.
+   */
+  async pruneDisk(): Promise<void> {
+    const directory = this.options.directory;
+    if (!directory) return;
+
+    try {
+      const now = Date.now();
+      const maxAge = Math.max(this.options.searchTtl, this.options.documentTtl) + this.options.maxStale;
+      const files: Array<{ file: string; modified: number }> = [];
+      const expired: string[] = [];
+
+      for (const name of await fs.readdir(directory)) {
+        if (!name.endsWith('.json') && !name.endsWith('.tmp')) continue;
+        const file = path.join(directory, name);
+        const modified = (await fs.stat(file).catch(() => null))?.mtimeMs;
+        if (modified === undefined) continue;
+        // Temp files are renamed right after writing; an old one is left over from a crash
+        if (now - modified > (name.endsWith('.tmp') ? 60_000 : maxAge)) expired.push(file);
+        else if (name.endsWith('.json')) files.push({ file, modified });
+      }
+
+      files.sort((a, b) => a.modified - b.modified);
+      const surplus = files.slice(0, Math.max(0, files.length - this.options.maxDiskEntries)).map(({ file }) => file);
+
+      const removed = [...expired, ...surplus];
+      await Promise.all(removed.map(file => fs.unlink(file).catch(() => undefined)));
+      if (removed.length > 0) {
+        logger.debug('Response cache: pruned disk store', { expired: expired.length, surplus: surplus.length, kept: files.length - surplus.length });
+      }
+    } catch (error) {
+      logger.warn('Response cache: failed to prune disk store', { error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+}
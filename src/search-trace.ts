@@ -0,0 +1,145 @@
+/**
+ * Search traces (explain mode)
+ *
+ * With `explain: true` the search tools return how they arrived at their
+ * results: detected language and translation, extracted citations, concept
+ * mappings, every API request (URL, parameters, status, latency, hits), the
+ * merge of the responses, ranking scores and why each result was kept or
+ * dropped. The API client records requests into the trace of the tool call it
+ * runs in (AsyncLocalStorage), so parallel calls in HTTP mode stay apart.
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+
+export interface TracedRequest {
+  url: string;
+  params: Record<string, string>;
+  /** HTTP status; missing for network errors and timeouts */
+  status?: number;
+  latencyMs: number;
+  /** Results in the response */
+  hits?: number;
+  totalItems?: number;
+  fromCache: boolean;
+  stale: boolean;
+  error?: string;
+}
+
+export interface TracedSearchTerm {
+  term: string;
+  /** Where the term came from, e.g. "citation", "concept", "expansion", "query" */
+  source: string;
+}
+
+export interface TracedResult {
+  id: string;
+  title: string;
+  kept: boolean;
+  reason: string;
+  /** Raw BM25 score (intelligente_rechtssuche) */
+  score?: number;
+  relevance?: number;
+  foundVia?: string;
+}
+
+export interface SearchTrace {
+  tool: string;
+  language?: { detected: 'de' | 'en'; translatedQuery?: string };
+  citations?: { valid: string[]; invalid: string[] };
+  conceptMappings?: string[];
+  searchTerms?: TracedSearchTerm[];
+  requests: TracedRequest[];
+  merge?: { fetched: number; unique: number; duplicates: number };
+  results: TracedResult[];
+  /** Results beyond MAX_TRACED_RESULTS that are left out */
+  omittedResults?: number;
+  notes: string[];
+}
+
+/** Results listed per trace; long candidate lists are cut */
+const MAX_TRACED_RESULTS = 100;
+/** Results listed in the markdown; the structured trace has all */
+const MAX_LISTED_RESULTS = 20;
+
+const storage = new AsyncLocalStorage<SearchTrace>();
+
+export function createTrace(tool: string): SearchTrace {
+  return { tool, requests: [], results: [], notes: [] };
+}
+
+/**
+ * Run a tool call with its trace as the current one
+ */
+export function runWithTrace<T>(trace: SearchTrace, fn: () => Promise<T>): Promise<T> {
+  return storage.run(trace, fn);
+}
+
+/**
+ * Trace of the running tool call, if it was called with explain
+ */
+export function currentTrace(): SearchTrace | undefined {
+  return storage.getStore();
+}
+
+export function traceResult(trace: SearchTrace, result: TracedResult): void {
+  if (trace.results.length < MAX_TRACED_RESULTS) trace.results.push(result);
+  else trace.omittedResults = (trace.omittedResults ?? 0) + 1;
+}
+
+/**
+ * Request parameters as a plain object
+ */
+export function traceParams(params?: Record<string, any> | URLSearchParams): Record<string, string> {
+  if (!params) return {};
+  const entries = params instanceof URLSearchParams ? [...params.entries()] : Object.entries(params);
+  return Object.fromEntries(entries.filter(([, value]) => value !== undefined).map(([name, value]) => [name, String(value)]));
+}
+
+function formatRequest(request: TracedRequest, index: number): string {
+  const query = new URLSearchParams(request.params).toString();
+  const outcome = request.error
+    ? `❌ ${request.error}`
+    : `${request.status}, ${request.hits ?? 0} hits${request.totalItems !== undefined ? ` of ${request.totalItems}` : ''}`;
+  const cache = request.stale ? ', stale cache' : request.fromCache ? ', cache' : '';
+  return `${index + 1}. GET ${request.url}${query ? `?${query}` : ''} → ${outcome} (${request.latencyMs} ms${cache})`;
+}
+
+function formatResult(result: TracedResult): string {
+  const score = result.score !== undefined ? ` | BM25 ${result.score.toFixed(2)}, relevance ${(result.relevance ?? 0).toFixed(2)}` : '';
+  const via = result.foundVia ? ` | via "${result.foundVia}"` : '';
+  return `${result.kept ? '✅' : '➖'} ${result.title || result.id} (${result.id})${score}${via} – ${result.reason}`;
+}
+
+export function formatTrace(trace: SearchTrace): string {
+  const sections: string[] = [];
+
+  if (trace.language) {
+    sections.push(`**Language:** ${trace.language.detected === 'en' ? `English, translated to "${trace.language.translatedQuery}"` : 'German (no translation)'}`);
+  }
+  if (trace.citations) {
+    const { valid, invalid } = trace.citations;
+    sections.push(`**Citations:** ${valid.length > 0 ? valid.join(', ') : 'none'}${invalid.length > 0 ? ` | without law: ${invalid.join(', ')}` : ''}`);
+  }
+  if (trace.conceptMappings) {
+    sections.push(`**Concept mappings:** ${trace.conceptMappings.length > 0 ? trace.conceptMappings.join('; ') : 'none'}`);
+  }
+  if (trace.searchTerms) {
+    sections.push(`**Search terms:** ${trace.searchTerms.map(({ term, source }) => `"${term}" (${source})`).join(', ') || 'none'}`);
+  }
+  sections.push(`**API requests (${trace.requests.length}):**\n${trace.requests.map(formatRequest).join('\n') || 'none'}`);
+  if (trace.merge) {
+    sections.push(`**Merge:** ${trace.merge.fetched} results fetched, ${trace.merge.duplicates} duplicates removed, ${trace.merge.unique} unique`);
+  }
+
+  const listed = trace.results.slice(0, MAX_LISTED_RESULTS);
+  const more = trace.results.length - listed.length + (trace.omittedResults ?? 0);
+  if (trace.results.length > 0) {
+    const kept = trace.results.filter(result => result.kept).length;
+    sections.push(`**Results (${kept} kept, ${trace.results.length - kept} dropped):**\n${listed.map(formatResult).join('\n')}${more > 0 ? `\n… ${more} more in structuredContent.trace` : ''}`);
+  }
+  if (trace.notes.length > 0) {
+    sections.push(`**Notes:**\n${trace.notes.map(note => `• ${note}`).join('\n')}`);
+  }
+
+  return `🔬 **Explain (${trace.tool})**\n\n${sections.join('\n\n')}`;
+}
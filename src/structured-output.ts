@@ -0,0 +1,786 @@
+/**
+ * Structured tool output
+ *
+ * Tools return their markdown rendering as `content` and the same data as
+ * typed `structuredContent`, described by the `outputSchema` they declare in
+ * tools/list. Downstream consumers read fields from here instead of parsing
+ * the markdown.
+ */
+
+import { AlternativeSource, CoverageState } from './coverage.js';
+import { FacetSummary } from './facets.js';
+import { LawEntrySource } from './law-registry.js';
+import { AmendmentReference, NormSection } from './legaldocml.js';
+import { MetricsSnapshot } from './metrics.js';
+import { NormDiff } from './norm-diff.js';
+import { SearchTrace } from './search-trace.js';
+
+export interface TextMatch {
+  name: string;
+  text: string;
+  location?: string;
+}
+
+export interface SearchHit {
+  /** API @id of the document (work level for legislation) */
+  id: string;
+  /** API @type, e.g. "Legislation" or "Decision" */
+  type: string;
+  title: string;
+  abbreviation?: string;
+  lawType?: string;
+  /** Expression ELI for legislation */
+  eli?: string;
+  workEli?: string;
+  ecli?: string;
+  documentNumber?: string;
+  legislationDate?: string;
+  datePublished?: string;
+  decisionDate?: string;
+  inForce?: boolean;
+  temporalCoverage?: string;
+  court?: string;
+  judicialBody?: string;
+  fileNumbers?: string[];
+  documentType?: string;
+  textMatches: TextMatch[];
+  apiUrl: string;
+  htmlUrl: string;
+  /** Relevance between 0 and 1, where the tool ranks results */
+  confidence?: number;
+  /** Search term that found the result */
+  foundVia?: string;
+}
+
+export interface UnavailableLaw {
+  abbreviation: string;
+  fullName: string;
+  checkedAt?: string;
+  alternatives: Array<{ name: string; url: string }>;
+}
+
+export interface FailedTerm {
+  term: string;
+  /** error: the API failed; timeout: no answer in time; skipped: time budget used up before the search */
+  reason: 'error' | 'timeout' | 'skipped';
+  message: string;
+}
+
+export interface SearchOutput {
+  query: string;
+  /** German query actually searched, if it differs (translation) */
+  effectiveQuery?: string;
+  /** Terms sent to the API */
+  searchTerms?: string[];
+  results: SearchHit[];
+  /** Total hits reported by the API */
+  totalItems?: number;
+  /** Zero-based page of this response */
+  pageIndex?: number;
+  /** Pass as `cursor` to fetch the next page */
+  nextCursor?: string;
+  /** Total hits per search term (intelligente_rechtssuche) */
+  termTotals?: Array<{ term: string; totalItems: number }>;
+  /** Search terms without a response (intelligente_rechtssuche) */
+  failedTerms?: FailedTerm[];
+  /** Laws named in the query that the database does not contain */
+  unavailableLaws: UnavailableLaw[];
+  /** Counts instead of results (facetten mode) */
+  facets?: FacetSummary;
+  /** How the results came about (explain: true) */
+  trace?: SearchTrace;
+  /** True if any response came from an expired cache entry */
+  stale: boolean;
+}
+
+export interface DocumentOutput {
+  documentId: string;
+  found: boolean;
+  format: string;
+  apiUrl?: string;
+  /** HTTP status of a failed retrieval */
+  status?: number;
+  resolvedEcli?: string;
+  /** JSON-LD document (format "json") */
+  document?: Record<string, unknown>;
+  /** Raw HTML or XML (formats "html" and "xml") */
+  content?: string;
+  /** Possible matches for an ambiguous or inexact ECLI */
+  candidates?: SearchHit[];
+  stale: boolean;
+}
+
+export interface LawLookupOutput {
+  abbreviation: string;
+  found: boolean;
+  law?: SearchHit;
+  /** Set when the found law carries a different abbreviation */
+  mismatch?: string;
+  otherMatches: number;
+  unavailable?: UnavailableLaw;
+  stale: boolean;
+}
+
+/** Text match of a decision that cites the requested norm */
+export interface CitingPassage {
+  /** Name of the text match, e.g. "headline" or "guidingPrinciple" */
+  field: string;
+  /** The citation as written in the decision */
+  citation: string;
+  /** Excerpt around the citation, citation in **bold** */
+  excerpt: string;
+}
+
+export interface NormCaseLawOutput {
+  /** Canonical form of the requested norm, e.g. "§ 44 SGB X" */
+  citation: string;
+  searchTerms: string[];
+  /** Terms whose search failed */
+  failedTerms?: string[];
+  /** Decisions, grouped by court and newest first */
+  courts: Array<{ court: string; decisions: Array<SearchHit & { citingPassages: CitingPassage[] }> }>;
+  /** Decisions whose text matches cite the norm */
+  verified: number;
+  /** Search hits dropped because no text match cites the norm */
+  unverified: number;
+  /** How the results came about (explain: true) */
+  trace?: SearchTrace;
+  stale: boolean;
+}
+
+export interface LawByEliOutput {
+  eli: string;
+  found: boolean;
+  /** The requested expression, or the current one for a work-level ELI */
+  law?: SearchHit;
+  /** All expressions of the work, newest first */
+  expressions: SearchHit[];
+  stale: boolean;
+}
+
+export interface TableOfContentsEntry {
+  /** Structure type, e.g. "Abschnitt" or "Paragraph" */
+  type: string;
+  num: string;
+  heading: string;
+  eId: string;
+  /** 1 = top level */
+  depth: number;
+  htmlUrl: string;
+}
+
+export interface TableOfContentsOutput {
+  /** Abbreviation or ELI as requested */
+  requested: string;
+  found: boolean;
+  law?: SearchHit;
+  /** Set when the found law carries a different abbreviation */
+  mismatch?: string;
+  expressionDate?: string;
+  entries: TableOfContentsEntry[];
+  unavailable?: UnavailableLaw;
+  stale: boolean;
+}
+
+export interface NormOutput {
+  /** Citation as requested */
+  citation: string;
+  found: boolean;
+  law?: SearchHit;
+  /** Set when the found law carries a different abbreviation */
+  mismatch?: string;
+  /** Canonical citation of the returned text, e.g. "§ 44 Abs. 1 SGB X" */
+  resolvedCitation?: string;
+  heading?: string;
+  /** eId of the narrowest element containing the text */
+  eId?: string;
+  expressionDate?: string;
+  /** Absätze of the norm, or the Nummer, Buchstabe, Satz or Halbsatz asked for */
+  sections: NormSection[];
+  /** Viewer link to the element */
+  htmlUrl?: string;
+  /** Part of the citation that was not found, e.g. "Abs. 3" */
+  notFound?: string;
+  /** Absätze that all contain the requested Nummer */
+  ambiguousIn?: string[];
+  unavailable?: UnavailableLaw;
+  stale: boolean;
+}
+
+export interface LawVersionEntry {
+  /** Expression ELI */
+  eli: string;
+  pointInTime: string;
+  validFrom: string;
+  /** Last day of validity; unset while the version applies */
+  validTo?: string;
+  /** True when the range was calculated from the next version */
+  derived: boolean;
+  inForce?: boolean;
+  htmlUrl: string;
+}
+
+export interface LawVersionsOutput {
+  /** Abbreviation or ELI as requested */
+  requested: string;
+  found: boolean;
+  law?: SearchHit;
+  /** Set when the found law carries a different abbreviation */
+  mismatch?: string;
+  workEli?: string;
+  /** Newest first */
+  versions: LawVersionEntry[];
+  /** ELI of the version in force today */
+  currentEli?: string;
+  unavailable?: UnavailableLaw;
+  stale: boolean;
+}
+
+export interface LawAtDateOutput {
+  /** Stichtag as YYYY-MM-DD */
+  date: string;
+  /** Abbreviation or ELI of the law */
+  requested: string;
+  /** Whether a version in force on the date was found */
+  found: boolean;
+  /** The version in force on the date */
+  law?: SearchHit;
+  /** Set when the found law carries a different abbreviation */
+  mismatch?: string;
+  version?: LawVersionEntry;
+  /** Earliest version in the database, when none applies on the date */
+  earliestVersion?: LawVersionEntry;
+  /** The requested § in this version (with a citation) */
+  norm?: NormOutput;
+  unavailable?: UnavailableLaw;
+  stale: boolean;
+}
+
+export interface VersionComparisonOutput {
+  /** Compared law or norm, e.g. "SGB X" or "§ 44 SGB X" */
+  subject: string;
+  found: boolean;
+  /** Set when the found law carries a different abbreviation */
+  mismatch?: string;
+  dateFrom?: string;
+  dateTo?: string;
+  /** Older and newer version */
+  from?: SearchHit;
+  to?: SearchHit;
+  /** Points in time of the versions that took effect after `from`, up to and including `to` */
+  intermediate: string[];
+  /** Differing norms; unchanged ones are left out */
+  changes: NormDiff[];
+  /** Amending laws referenced by the newer version only */
+  amendments: AmendmentReference[];
+  /** What was not found, e.g. "§ 44" or a version ELI */
+  notFound?: string;
+  /** Points in time of all versions, when none applies on a date */
+  availableVersions?: string[];
+  unavailable?: UnavailableLaw;
+  stale: boolean;
+}
+
+export interface AvailabilityEntry {
+  requested: string;
+  state: CoverageState;
+  abbreviation?: string;
+  fullName?: string;
+  checkedAt?: string;
+  source?: LawEntrySource;
+  /** Error of the last failed check */
+  error?: string;
+  htmlUrl?: string;
+  alternatives: AlternativeSource[];
+}
+
+export interface AvailabilityOutput {
+  /** The first 20 requested abbreviations */
+  laws: AvailabilityEntry[];
+  liveCheck: boolean;
+  /** Number of laws in the registry */
+  registrySize: number;
+  generatedAt?: string;
+}
+
+/** server_statistik; zeroResultQueries is cut to the requested limit */
+export type StatisticsOutput = MetricsSnapshot;
+
+type JsonSchema = Record<string, unknown>;
+
+export interface OutputSchema {
+  type: 'object';
+  properties: Record<string, JsonSchema>;
+  required?: string[];
+}
+
+const STRING = { type: 'string' };
+const STRING_ARRAY = { type: 'array', items: STRING };
+const NUMBER = { type: 'number' };
+const INTEGER = { type: 'integer' };
+
+const TEXT_MATCH_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: { name: STRING, text: STRING, location: STRING },
+  required: ['name', 'text'],
+};
+
+export const SEARCH_HIT_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    id: STRING,
+    type: STRING,
+    title: STRING,
+    abbreviation: STRING,
+    lawType: STRING,
+    eli: STRING,
+    workEli: STRING,
+    ecli: STRING,
+    documentNumber: STRING,
+    legislationDate: STRING,
+    datePublished: STRING,
+    decisionDate: STRING,
+    inForce: { type: 'boolean' },
+    temporalCoverage: STRING,
+    court: STRING,
+    judicialBody: STRING,
+    fileNumbers: STRING_ARRAY,
+    documentType: STRING,
+    textMatches: { type: 'array', items: TEXT_MATCH_SCHEMA },
+    apiUrl: STRING,
+    htmlUrl: STRING,
+    confidence: { type: 'number', minimum: 0, maximum: 1 },
+    foundVia: STRING,
+  },
+  required: ['id', 'type', 'title', 'textMatches', 'apiUrl', 'htmlUrl'],
+};
+
+const ALTERNATIVES_SCHEMA: JsonSchema = {
+  type: 'array',
+  items: { type: 'object', properties: { name: STRING, url: STRING }, required: ['name', 'url'] },
+};
+
+const UNAVAILABLE_LAW_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    abbreviation: STRING,
+    fullName: STRING,
+    checkedAt: STRING,
+    alternatives: ALTERNATIVES_SCHEMA,
+  },
+  required: ['abbreviation', 'fullName', 'alternatives'],
+};
+
+const FACET_COUNTS_SCHEMA: JsonSchema = {
+  type: 'array',
+  items: { type: 'object', properties: { value: STRING, count: { type: 'integer' } }, required: ['value', 'count'] },
+};
+
+const FACET_SUMMARY_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    filters: { type: 'object', additionalProperties: STRING },
+    scanned: { type: 'integer' },
+    totalItems: { type: 'integer' },
+    complete: { type: 'boolean' },
+    court: FACET_COUNTS_SCHEMA,
+    year: FACET_COUNTS_SCHEMA,
+    documentType: FACET_COUNTS_SCHEMA,
+    lawType: FACET_COUNTS_SCHEMA,
+    citedLaw: FACET_COUNTS_SCHEMA,
+  },
+  required: ['filters', 'scanned', 'complete', 'court', 'year', 'documentType', 'lawType', 'citedLaw'],
+};
+
+const SEARCH_TRACE_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    tool: STRING,
+    language: {
+      type: 'object',
+      properties: { detected: { type: 'string', enum: ['de', 'en'] }, translatedQuery: STRING },
+      required: ['detected'],
+    },
+    citations: { type: 'object', properties: { valid: STRING_ARRAY, invalid: STRING_ARRAY }, required: ['valid', 'invalid'] },
+    conceptMappings: STRING_ARRAY,
+    searchTerms: {
+      type: 'array',
+      items: { type: 'object', properties: { term: STRING, source: STRING }, required: ['term', 'source'] },
+    },
+    requests: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          url: STRING,
+          params: { type: 'object', additionalProperties: STRING },
+          status: { type: 'integer' },
+          latencyMs: NUMBER,
+          hits: { type: 'integer' },
+          totalItems: { type: 'integer' },
+          fromCache: { type: 'boolean' },
+          stale: { type: 'boolean' },
+          error: STRING,
+        },
+        required: ['url', 'params', 'latencyMs', 'fromCache', 'stale'],
+      },
+    },
+    merge: {
+      type: 'object',
+      properties: { fetched: { type: 'integer' }, unique: { type: 'integer' }, duplicates: { type: 'integer' } },
+      required: ['fetched', 'unique', 'duplicates'],
+    },
+    results: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: { id: STRING, title: STRING, kept: { type: 'boolean' }, reason: STRING, score: NUMBER, relevance: NUMBER, foundVia: STRING },
+        required: ['id', 'title', 'kept', 'reason'],
+      },
+    },
+    omittedResults: { type: 'integer' },
+    notes: STRING_ARRAY,
+  },
+  required: ['tool', 'requests', 'results', 'notes'],
+};
+
+export const SEARCH_OUTPUT_SCHEMA: OutputSchema = {
+  type: 'object',
+  properties: {
+    query: STRING,
+    effectiveQuery: STRING,
+    searchTerms: STRING_ARRAY,
+    results: { type: 'array', items: SEARCH_HIT_SCHEMA },
+    totalItems: { type: 'integer' },
+    pageIndex: { type: 'integer' },
+    nextCursor: STRING,
+    termTotals: {
+      type: 'array',
+      items: { type: 'object', properties: { term: STRING, totalItems: { type: 'integer' } }, required: ['term', 'totalItems'] },
+    },
+    failedTerms: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: { term: STRING, reason: { type: 'string', enum: ['error', 'timeout', 'skipped'] }, message: STRING },
+        required: ['term', 'reason', 'message'],
+      },
+    },
+    unavailableLaws: { type: 'array', items: UNAVAILABLE_LAW_SCHEMA },
+    facets: FACET_SUMMARY_SCHEMA,
+    trace: SEARCH_TRACE_SCHEMA,
+    stale: { type: 'boolean' },
+  },
+  required: ['query', 'results', 'unavailableLaws', 'stale'],
+};
+
+/** Formats dokument_details_abrufen can return */
+export const DOCUMENT_FORMATS = ['json', 'html', 'xml'];
+
+export const DOCUMENT_OUTPUT_SCHEMA: OutputSchema = {
+  type: 'object',
+  properties: {
+    documentId: STRING,
+    found: { type: 'boolean' },
+    format: { type: 'string', enum: DOCUMENT_FORMATS },
+    apiUrl: STRING,
+    status: { type: 'integer' },
+    resolvedEcli: STRING,
+    document: { type: 'object' },
+    content: STRING,
+    candidates: { type: 'array', items: SEARCH_HIT_SCHEMA },
+    stale: { type: 'boolean' },
+  },
+  required: ['documentId', 'found', 'format', 'stale'],
+};
+
+export const LAW_LOOKUP_OUTPUT_SCHEMA: OutputSchema = {
+  type: 'object',
+  properties: {
+    abbreviation: STRING,
+    found: { type: 'boolean' },
+    law: SEARCH_HIT_SCHEMA,
+    mismatch: STRING,
+    otherMatches: { type: 'integer' },
+    unavailable: UNAVAILABLE_LAW_SCHEMA,
+    stale: { type: 'boolean' },
+  },
+  required: ['abbreviation', 'found', 'otherMatches', 'stale'],
+};
+
+const CITING_PASSAGE_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: { field: STRING, citation: STRING, excerpt: STRING },
+  required: ['field', 'citation', 'excerpt'],
+};
+
+export const NORM_CASE_LAW_OUTPUT_SCHEMA: OutputSchema = {
+  type: 'object',
+  properties: {
+    citation: STRING,
+    searchTerms: STRING_ARRAY,
+    failedTerms: STRING_ARRAY,
+    courts: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          court: STRING,
+          decisions: {
+            type: 'array',
+            items: {
+              ...SEARCH_HIT_SCHEMA,
+              properties: {
+                ...(SEARCH_HIT_SCHEMA.properties as Record<string, JsonSchema>),
+                citingPassages: { type: 'array', items: CITING_PASSAGE_SCHEMA },
+              },
+              required: [...(SEARCH_HIT_SCHEMA.required as string[]), 'citingPassages'],
+            },
+          },
+        },
+        required: ['court', 'decisions'],
+      },
+    },
+    verified: { type: 'integer' },
+    unverified: { type: 'integer' },
+    trace: SEARCH_TRACE_SCHEMA,
+    stale: { type: 'boolean' },
+  },
+  required: ['citation', 'searchTerms', 'courts', 'verified', 'unverified', 'stale'],
+};
+
+export const LAW_BY_ELI_OUTPUT_SCHEMA: OutputSchema = {
+  type: 'object',
+  properties: {
+    eli: STRING,
+    found: { type: 'boolean' },
+    law: SEARCH_HIT_SCHEMA,
+    expressions: { type: 'array', items: SEARCH_HIT_SCHEMA },
+    stale: { type: 'boolean' },
+  },
+  required: ['eli', 'found', 'expressions', 'stale'],
+};
+
+export const TABLE_OF_CONTENTS_OUTPUT_SCHEMA: OutputSchema = {
+  type: 'object',
+  properties: {
+    requested: STRING,
+    found: { type: 'boolean' },
+    law: SEARCH_HIT_SCHEMA,
+    mismatch: STRING,
+    expressionDate: STRING,
+    entries: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: { type: STRING, num: STRING, heading: STRING, eId: STRING, depth: INTEGER, htmlUrl: STRING },
+        required: ['type', 'num', 'heading', 'eId', 'depth', 'htmlUrl'],
+      },
+    },
+    unavailable: UNAVAILABLE_LAW_SCHEMA,
+    stale: { type: 'boolean' },
+  },
+  required: ['requested', 'found', 'entries', 'stale'],
+};
+
+const NORM_SECTION_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: { eId: STRING, num: STRING, text: STRING },
+  required: ['eId', 'num', 'text'],
+};
+
+export const NORM_OUTPUT_SCHEMA: OutputSchema = {
+  type: 'object',
+  properties: {
+    citation: STRING,
+    found: { type: 'boolean' },
+    law: SEARCH_HIT_SCHEMA,
+    mismatch: STRING,
+    resolvedCitation: STRING,
+    heading: STRING,
+    eId: STRING,
+    expressionDate: STRING,
+    sections: { type: 'array', items: NORM_SECTION_SCHEMA },
+    htmlUrl: STRING,
+    notFound: STRING,
+    ambiguousIn: STRING_ARRAY,
+    unavailable: UNAVAILABLE_LAW_SCHEMA,
+    stale: { type: 'boolean' },
+  },
+  required: ['citation', 'found', 'sections', 'stale'],
+};
+
+const LAW_VERSION_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    eli: STRING,
+    pointInTime: STRING,
+    validFrom: STRING,
+    validTo: STRING,
+    derived: { type: 'boolean' },
+    inForce: { type: 'boolean' },
+    htmlUrl: STRING,
+  },
+  required: ['eli', 'pointInTime', 'validFrom', 'derived', 'htmlUrl'],
+};
+
+export const LAW_VERSIONS_OUTPUT_SCHEMA: OutputSchema = {
+  type: 'object',
+  properties: {
+    requested: STRING,
+    found: { type: 'boolean' },
+    law: SEARCH_HIT_SCHEMA,
+    mismatch: STRING,
+    workEli: STRING,
+    versions: { type: 'array', items: LAW_VERSION_SCHEMA },
+    currentEli: STRING,
+    unavailable: UNAVAILABLE_LAW_SCHEMA,
+    stale: { type: 'boolean' },
+  },
+  required: ['requested', 'found', 'versions', 'stale'],
+};
+
+export const LAW_AT_DATE_OUTPUT_SCHEMA: OutputSchema = {
+  type: 'object',
+  properties: {
+    date: STRING,
+    requested: STRING,
+    found: { type: 'boolean' },
+    law: SEARCH_HIT_SCHEMA,
+    mismatch: STRING,
+    version: LAW_VERSION_SCHEMA,
+    earliestVersion: LAW_VERSION_SCHEMA,
+    norm: { ...NORM_OUTPUT_SCHEMA },
+    unavailable: UNAVAILABLE_LAW_SCHEMA,
+    stale: { type: 'boolean' },
+  },
+  required: ['date', 'requested', 'found', 'stale'],
+};
+
+const CHANGE_TYPE_SCHEMA: JsonSchema = { type: 'string', enum: ['added', 'removed', 'changed', 'unchanged'] };
+
+const NORM_DIFF_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    num: STRING,
+    heading: STRING,
+    eId: STRING,
+    type: CHANGE_TYPE_SCHEMA,
+    headingBefore: STRING,
+    paragraphs: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          num: STRING,
+          type: CHANGE_TYPE_SCHEMA,
+          before: STRING,
+          after: STRING,
+          removedSentences: STRING_ARRAY,
+          addedSentences: STRING_ARRAY,
+        },
+        required: ['num', 'type'],
+      },
+    },
+  },
+  required: ['num', 'heading', 'eId', 'type', 'paragraphs'],
+};
+
+const AMENDMENT_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: { eli: STRING, title: STRING, date: STRING, destinations: STRING_ARRAY },
+  required: ['eli', 'title', 'destinations'],
+};
+
+export const VERSION_COMPARISON_OUTPUT_SCHEMA: OutputSchema = {
+  type: 'object',
+  properties: {
+    subject: STRING,
+    found: { type: 'boolean' },
+    mismatch: STRING,
+    dateFrom: STRING,
+    dateTo: STRING,
+    from: SEARCH_HIT_SCHEMA,
+    to: SEARCH_HIT_SCHEMA,
+    intermediate: STRING_ARRAY,
+    changes: { type: 'array', items: NORM_DIFF_SCHEMA },
+    amendments: { type: 'array', items: AMENDMENT_SCHEMA },
+    notFound: STRING,
+    availableVersions: STRING_ARRAY,
+    unavailable: UNAVAILABLE_LAW_SCHEMA,
+    stale: { type: 'boolean' },
+  },
+  required: ['subject', 'found', 'intermediate', 'changes', 'amendments', 'stale'],
+};
+
+export const AVAILABILITY_OUTPUT_SCHEMA: OutputSchema = {
+  type: 'object',
+  properties: {
+    laws: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          requested: STRING,
+          state: { type: 'string', enum: ['available', 'unavailable', 'unknown'] },
+          abbreviation: STRING,
+          fullName: STRING,
+          checkedAt: STRING,
+          source: { type: 'string', enum: ['availability-check', 'built-in', 'live-check'] },
+          error: STRING,
+          htmlUrl: STRING,
+          alternatives: ALTERNATIVES_SCHEMA,
+        },
+        required: ['requested', 'state', 'alternatives'],
+      },
+    },
+    liveCheck: { type: 'boolean' },
+    registrySize: INTEGER,
+    generatedAt: STRING,
+  },
+  required: ['laws', 'liveCheck', 'registrySize'],
+};
+
+export const STATISTICS_OUTPUT_SCHEMA: OutputSchema = {
+  type: 'object',
+  properties: {
+    startedAt: STRING,
+    uptimeSeconds: INTEGER,
+    tools: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          tool: STRING,
+          calls: INTEGER,
+          errors: INTEGER,
+          zeroResults: INTEGER,
+          averageMs: INTEGER,
+          p50Ms: INTEGER,
+          p95Ms: INTEGER,
+          maxMs: INTEGER,
+        },
+        required: ['tool', 'calls', 'errors', 'zeroResults', 'averageMs', 'p50Ms', 'p95Ms', 'maxMs'],
+      },
+    },
+    upstream: {
+      type: 'array',
+      items: { type: 'object', properties: { endpoint: STRING, status: STRING, count: INTEGER }, required: ['endpoint', 'status', 'count'] },
+    },
+    cache: {
+      type: 'object',
+      properties: { hits: INTEGER, misses: INTEGER, stale: INTEGER, hitRate: { type: ['number', 'null'] } },
+      required: ['hits', 'misses', 'stale', 'hitRate'],
+    },
+    zeroResultQueries: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: { tool: STRING, query: STRING, count: INTEGER, lastSeen: STRING },
+        required: ['tool', 'query', 'count', 'lastSeen'],
+      },
+    },
+    zeroResultQueriesTracked: INTEGER,
+  },
+  required: ['startedAt', 'uptimeSeconds', 'tools', 'upstream', 'cache', 'zeroResultQueries', 'zeroResultQueriesTracked'],
+};
@@ -0,0 +1,97 @@
+/**
+ * Version timelines for laws
+ *
+ * A law (FRBR work) has dated expressions. The API reports a validity
+ * interval (temporalCoverage) for some of them; for the others the range
+ * is derived from the point in time of the next expression.
+ */
+
+export interface VersionInput<T> {
+  eli: string;
+  pointInTime: string;
+  temporalCoverage?: string;
+  inForce?: boolean;
+  item: T;
+}
+
+export interface LawVersion<T> extends VersionInput<T> {
+  validFrom: string;
+  /** Last day of validity, undefined while the version is open-ended */
+  validTo?: string;
+  /** True when the range was derived from neighbouring expressions */
+  derived: boolean;
+}
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+const GERMAN_DATE = /^(\d{1,2})\.(\d{1,2})\.(\d{4})$/;
+
+/**
+ * Whether a YYYY-MM-DD date exists in the calendar (rejects 2021-13-45, 2021-02-29)
+ */
+function isCalendarDate(date: string): boolean {
+  const parsed = new Date(`${date}T00:00:00Z`);
+  return !Number.isNaN(parsed.getTime()) && parsed.toISOString().substring(0, 10) === date;
+}
+
+/**
+ * Accept ISO dates (2021-01-01) and German dates (1.1.2021, 01.01.2021);
+ * null for other formats and dates that do not exist
+ */
+export function normalizeDate(input: string): string | null {
+  const value = (input || '').trim();
+  let date: string | null = null;
+  if (ISO_DATE.test(value)) {
+    date = value;
+  } else {
+    const german = value.match(GERMAN_DATE);
+    if (german) {
+      const [, day, month, year] = german;
+      date = `${year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`;
+    }
+  }
+  return date && isCalendarDate(date) ? date : null;
+}
+
+function previousDay(date: string): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() - 1);
+  return d.toISOString().substring(0, 10);
+}
+
+/**
+ * Deduplicate expressions and sort them into a timeline (oldest first)
+ */
+export function buildVersionTimeline<T>(inputs: VersionInput<T>[]): LawVersion<T>[] {
+  const unique = new Map<string, VersionInput<T>>();
+  for (const input of inputs) {
+    if (input.pointInTime && !unique.has(input.eli)) unique.set(input.eli, input);
+  }
+
+  const sorted = [...unique.values()].sort((a, b) => a.pointInTime.localeCompare(b.pointInTime));
+
+  return sorted.map((version, index) => {
+    const [from, to] = (version.temporalCoverage || '').split('/');
+    const next = sorted[index + 1];
+
+    const coverageFrom = from && from !== '..' ? from : undefined;
+    const coverageTo = to && to !== '..' ? to : undefined;
+    const hasCoverage = !!version.temporalCoverage;
+
+    return {
+      ...version,
+      validFrom: coverageFrom || version.pointInTime,
+      validTo: hasCoverage ? coverageTo : next ? previousDay(next.pointInTime) : undefined,
+      derived: !hasCoverage,
+    };
+  });
+}
+
+/**
+ * Find the version in force on `date` (ISO). Later expressions win when ranges overlap.
+ */
+export function findVersionAt<T>(versions: LawVersion<T>[], date: string): LawVersion<T> | null {
+  const matching = versions.filter(version =>
+    version.validFrom <= date && (!version.validTo || date <= version.validTo)
+  );
+  return matching.length > 0 ? matching[matching.length - 1] : null;
+}
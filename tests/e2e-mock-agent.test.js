@@ -251,7 +251,16 @@ describe('MockMCPClient Unit Tests', () => {
     expect(toolNames).toContain('rechtsprechung_suchen');
     expect(toolNames).toContain('dokument_details_abrufen');
     expect(toolNames).toContain('gesetz_per_abkuerzung_abrufen');
-    expect(toolNames.length).toBe(5); // After tool cleanup in v1.3.0
+    expect(toolNames).toContain('gesetz_per_eli_abrufen');
+    expect(toolNames).toContain('gesetz_inhaltsverzeichnis_abrufen');
+    expect(toolNames).toContain('norm_abrufen');
+    expect(toolNames).toContain('gesetzesfassungen_auflisten');
+    expect(toolNames).toContain('fassung_zum_stichtag_abrufen');
+    expect(toolNames).toContain('fassungsvergleich');
+    expect(toolNames).toContain('verfuegbarkeit_pruefen');
+    expect(toolNames).toContain('rechtsprechung_zur_norm');
+    expect(toolNames).toContain('server_statistik');
+    expect(toolNames.length).toBe(14);
   });
 
   test('Client can get tool definition', async () => {
@@ -0,0 +1,193 @@
+/**
+ * Unit tests for retries and the circuit breaker (src/api-client.ts)
+ *
+ * Requests are answered by a stubbed axios adapter, delays run on Jest's
+ * fake timers. The cache is disabled so every call reaches the adapter.
+ *
+ * Run with: npm run test:unit (after npm run build)
+ */
+
+import { describe, test, expect, jest, beforeEach, afterEach } from '@jest/globals';
+import axios, { AxiosError } from 'axios';
+
+process.env.LOG_LEVEL = 'error';
+const { ApiClient, CircuitOpenError } = await import('../../dist/api-client.js');
+const { config } = await import('../../dist/config.js');
+const { Metrics } = await import('../../dist/metrics.js');
+
+const SETTINGS = {
+  ...config,
+  apiBaseUrl: 'https://api.example.test/v1',
+  portalOrigin: 'https://api.example.test',
+  cacheEnabled: false,
+  rateLimitDelay: 0,
+  maxRetries: 2,
+  retryBaseDelay: 1000,
+  retryMaxDelay: 60000,
+  circuitBreakerThreshold: 2,
+  circuitBreakerCooldown: 10000,
+};
+
+const originalAdapter = axios.defaults.adapter;
+let replies;
+let calls;
+
+/** Queue the answers of the next requests: a status, { status, headers } or a pending promise */
+function reply(...answers) {
+  replies.push(...answers);
+}
+
+function respond(config, answer) {
+  const { status, headers = {} } = typeof answer === 'number' ? { status: answer } : answer;
+  const response = { data: { status }, status, statusText: String(status), headers, config, request: {} };
+  if (status < 400) return response;
+  throw new AxiosError(`Request failed with status code ${status}`, AxiosError.ERR_BAD_RESPONSE, config, {}, response);
+}
+
+function client(overrides = {}) {
+  return new ApiClient({ ...SETTINGS, ...overrides }, new Metrics());
+}
+
+/** Start a request and let it run up to its first timer */
+async function start(api) {
+  const result = api.get('/legislation').then(
+    response => ({ status: response.status }),
+    error => ({ error }),
+  );
+  await jest.advanceTimersByTimeAsync(0);
+  return result;
+}
+
+beforeEach(() => {
+  jest.useFakeTimers();
+  replies = [];
+  calls = 0;
+  axios.defaults.adapter = async config => {
+    calls++;
+    const answer = replies.shift() ?? 200;
+    return respond(config, answer instanceof Promise ? await answer : answer);
+  };
+});
+
+afterEach(() => {
+  axios.defaults.adapter = originalAdapter;
+  jest.useRealTimers();
+});
+
+describe('retries', () => {
+  test('retries 5xx responses until one succeeds', async () => {
+    reply(500, 502);
+    const result = start(client());
+    await jest.advanceTimersByTimeAsync(60000);
+
+    expect(await result).toEqual({ status: 200 });
+    expect(calls).toBe(3);
+  });
+
+  test('gives up after maxRetries and rethrows the last error', async () => {
+    reply(503, 503, 503);
+    const result = start(client());
+    await jest.advanceTimersByTimeAsync(60000);
+
+    const { error } = await result;
+    expect(error.response.status).toBe(503);
+    expect(calls).toBe(3);
+  });
+
+  test('waits as long as Retry-After asks', async () => {
+    reply({ status: 429, headers: { 'retry-after': '5' } });
+    const result = start(client());
+
+    await jest.advanceTimersByTimeAsync(4999);
+    expect(calls).toBe(1);
+    await jest.advanceTimersByTimeAsync(1);
+    expect(calls).toBe(2);
+    expect(await result).toEqual({ status: 200 });
+  });
+
+  test('caps Retry-After at retryMaxDelay', async () => {
+    reply({ status: 503, headers: { 'retry-after': '3600' } });
+    const result = start(client({ retryMaxDelay: 2000 }));
+
+    await jest.advanceTimersByTimeAsync(2000);
+    expect(calls).toBe(2);
+    expect(await result).toEqual({ status: 200 });
+  });
+
+  test('does not retry 4xx responses', async () => {
+    reply(404);
+    const { error } = await start(client());
+
+    expect(error.response.status).toBe(404);
+    expect(calls).toBe(1);
+  });
+});
+
+describe('circuit breaker', () => {
+  test('opens after the threshold, lets one trial through after the cooldown and closes on success', async () => {
+    const api = client({ maxRetries: 0 });
+
+    reply(500, 500);
+    await start(api);
+    expect(api.status().circuit).toBe('closed');
+    await start(api);
+    expect(api.status().circuit).toBe('open');
+
+    // Open: fail fast without calling the API
+    const { error } = await start(api);
+    expect(error).toBeInstanceOf(CircuitOpenError);
+    expect(calls).toBe(2);
+
+    // Half-open: a single trial request, concurrent requests are rejected
+    await jest.advanceTimersByTimeAsync(SETTINGS.circuitBreakerCooldown);
+    let answerTrial;
+    reply(new Promise(resolve => { answerTrial = resolve; }));
+    const trial = start(api);
+    expect(api.status().circuit).toBe('half-open');
+    expect((await start(api)).error).toBeInstanceOf(CircuitOpenError);
+    expect(calls).toBe(3);
+
+    answerTrial(200);
+    expect(await trial).toEqual({ status: 200 });
+    expect(api.status()).toMatchObject({ circuit: 'closed', consecutiveFailures: 0 });
+    expect(await start(api)).toEqual({ status: 200 });
+  });
+
+  test('reopens when the trial request fails', async () => {
+    const api = client({ maxRetries: 0 });
+
+    reply(500, 500);
+    await start(api);
+    await start(api);
+    await jest.advanceTimersByTimeAsync(SETTINGS.circuitBreakerCooldown);
+
+    reply(500);
+    expect((await start(api)).error.response.status).toBe(500);
+    expect(api.status().circuit).toBe('open');
+    expect((await start(api)).error).toBeInstanceOf(CircuitOpenError);
+  });
+
+  test('counts 4xx responses as successes', async () => {
+    const api = client({ maxRetries: 0 });
+
+    reply(500, 404, 500);
+    await start(api);
+    expect(api.status().consecutiveFailures).toBe(1);
+    await start(api);
+    expect(api.status().consecutiveFailures).toBe(0);
+    await start(api);
+    expect(api.status()).toMatchObject({ circuit: 'closed', consecutiveFailures: 1 });
+  });
+
+  test('counts a request as one failure however often it was retried', async () => {
+    const api = client();
+
+    reply(500, 500, 500);
+    const result = start(api);
+    await jest.advanceTimersByTimeAsync(60000);
+    await result;
+
+    expect(calls).toBe(3);
+    expect(api.status()).toMatchObject({ circuit: 'closed', consecutiveFailures: 1 });
+  });
+});
@@ -0,0 +1,80 @@
+/**
+ * Unit tests for the BM25 ranking (src/bm25.ts)
+ *
+ * Run with: npm run test:unit (after npm run build)
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import { rankBm25 } from '../../dist/bm25.js';
+
+const documents = [
+  { id: 'elternzeit', title: 'Bundeselterngeld- und Elternzeitgesetz', text: 'Anspruch auf Elternzeit' },
+  { id: 'kuendigung', title: 'Kündigung des Mietverhältnisses', text: 'Der Vermieter kann kündigen, wenn er ein berechtigtes Interesse an der Kündigung hat.' },
+  { id: 'miete', title: 'Mieterhöhung', text: 'Die Miete kann bis zur ortsüblichen Vergleichsmiete erhöht werden.' },
+  { id: 'leer', title: '', text: '' },
+];
+
+function rank(query, items = documents) {
+  return rankBm25(query, items, item => ({ title: item.title, text: item.text }));
+}
+
+describe('rankBm25', () => {
+  test('the matching document ranks first, matched terms are reported', () => {
+    const [first] = rank('Kündigung durch den Vermieter');
+
+    expect(first.item.id).toBe('kuendigung');
+    expect(first.matchedTerms).toEqual(['kundigung', 'vermiet']);
+  });
+
+  test('umlaut spellings match', () => {
+    expect(rank('Kuendigung')[0].item.id).toBe('kuendigung');
+  });
+
+  test('relevance stays between 0 and 1', () => {
+    for (const query of ['Kündigung', 'Kündigung Kündigung Kündigung', 'Miete Mieterhöhung Vergleichsmiete', 'Elternzeit', 'nichts passt hier']) {
+      for (const ranked of rank(query)) {
+        expect(ranked.relevance).toBeGreaterThanOrEqual(0);
+        expect(ranked.relevance).toBeLessThanOrEqual(1);
+      }
+    }
+  });
+
+  test('documents without a matching term score 0', () => {
+    const ranked = rank('Elternzeit');
+
+    expect(ranked[0].item.id).toBe('elternzeit');
+    expect(ranked[0].relevance).toBeGreaterThan(0);
+    for (const other of ranked.slice(1)) {
+      expect(other.score).toBe(0);
+      expect(other.relevance).toBe(0);
+      expect(other.matchedTerms).toEqual([]);
+    }
+  });
+
+  test('title terms count more than text terms', () => {
+    const [first, second] = rank('Kündigung', [
+      { title: 'Allgemeines', text: 'Regeln zur Kündigung' },
+      { title: 'Kündigung', text: 'Allgemeine Regeln' },
+    ]);
+
+    expect(first.item.title).toBe('Kündigung');
+    expect(first.score).toBeGreaterThan(second.score);
+  });
+
+  test('ties keep their input order', () => {
+    const items = [{ title: 'A', text: 'Urlaub' }, { title: 'B', text: 'Urlaub' }, { title: 'C', text: 'Urlaub' }];
+
+    expect(rank('Urlaub', items).map(ranked => ranked.item.title)).toEqual(['A', 'B', 'C']);
+  });
+
+  test('queries without index terms and empty lists', () => {
+    expect(rank('der die das').every(ranked => ranked.score === 0 && ranked.relevance === 0)).toBe(true);
+    expect(rank('Kündigung', [])).toEqual([]);
+  });
+
+  test('custom analyzer', () => {
+    const ranked = rankBm25('X', [{ t: 'y' }, { t: 'x' }], item => ({ title: item.t, text: '' }), text => text.toLowerCase().split(' '));
+
+    expect(ranked[0].item.t).toBe('x');
+  });
+});
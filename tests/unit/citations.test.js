@@ -0,0 +1,173 @@
+/**
+ * Unit tests for the citation parser (src/citations.ts)
+ *
+ * Run with: npm run test:unit (after npm run build)
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import {
+  findLawAbbreviations,
+  formatCitationChain,
+  formatNormCitation,
+  parseCitations,
+  parseNormCitation,
+  toNormCitations,
+} from '../../dist/citations.js';
+
+function firstCitation(text) {
+  return parseCitations(text)[0]?.citations[0];
+}
+
+describe('parseCitations', () => {
+  test('§§ range', () => {
+    const citation = firstCitation('§§ 44 bis 48 SGB X');
+
+    expect(citation.kind).toBe('paragraph');
+    expect(citation.law).toBe('SGB X');
+    expect(citation.parts).toEqual([{ type: 'range', from: { number: '44' }, to: { number: '48' } }]);
+  });
+
+  test('range with a dash and a list of Absätze', () => {
+    expect(firstCitation('§§ 44-48 SGB X').parts).toEqual([{ type: 'range', from: { number: '44' }, to: { number: '48' } }]);
+    expect(firstCitation('§ 44 Abs. 1 und 2 SGB X').parts).toEqual([
+      { type: 'single', target: { number: '44', absatz: '1' } },
+      { type: 'single', target: { number: '44', absatz: '2' } },
+    ]);
+  });
+
+  test('deep addressing down to Buchstabe and Halbsatz', () => {
+    expect(firstCitation('§ 35 Abs. 1 S. 2 Nr. 3 lit. a EStG').parts[0].target)
+      .toEqual({ number: '35', absatz: '1', satz: '2', nummer: '3', buchstabe: 'a' });
+    expect(firstCitation('§ 7 Abs. 1 Satz 1 2. Halbsatz SGB II').parts[0].target)
+      .toEqual({ number: '7', absatz: '1', satz: '1', halbsatz: '2' });
+  });
+
+  test('f. and ff.', () => {
+    expect(firstCitation('§ 812 ff. BGB').parts[0].target).toEqual({ number: '812', following: 'ff' });
+    expect(firstCitation('§ 15 f. BEEG').parts[0].target).toEqual({ number: '15', following: 'f' });
+    expect(firstCitation('§ 573 Abs. 2 ff. BGB').parts[0].target).toEqual({ number: '573', absatz: '2', following: 'ff' });
+  });
+
+  test('i.V.m. chain shares the law of its last citation', () => {
+    const [chain] = parseCitations('Anspruch aus § 22 Abs. 1 i.V.m. § 7 SGB II');
+
+    expect(chain.citations).toHaveLength(2);
+    expect(chain.citations[0].law).toBe('SGB II');
+    expect(chain.citations[0].lawInherited).toBe(true);
+    expect(chain.citations[1].law).toBe('SGB II');
+    expect(chain.raw).toBe('§ 22 Abs. 1 i.V.m. § 7 SGB II');
+    expect(formatCitationChain(chain)).toBe('§ 22 Abs. 1 i. V. m. § 7 SGB II');
+  });
+
+  test('longer chain with "in Verbindung mit" and iVm', () => {
+    const [chain] = parseCitations('§ 44 Abs. 1 in Verbindung mit § 40 iVm § 330 SGB III');
+
+    expect(chain.citations.map(citation => citation.parts[0].target.number)).toEqual(['44', '40', '330']);
+    expect(chain.citations.every(citation => citation.law === 'SGB III')).toBe(true);
+  });
+
+  test('Art. and Artikel', () => {
+    const article = firstCitation('Art. 3 Abs. 1 GG');
+    expect(article.kind).toBe('article');
+    expect(article.law).toBe('GG');
+    expect(article.parts[0].target).toEqual({ number: '3', absatz: '1' });
+
+    expect(firstCitation('Artikel 20a GG').parts[0].target.number).toBe('20a');
+  });
+
+  test('SGB books in Roman, hyphenated and Arabic notation', () => {
+    expect(firstCitation('§ 44 SGB X').law).toBe('SGB X');
+    expect(firstCitation('§ 44 SGB-X').law).toBe('SGB X');
+    expect(firstCitation('§ 31 SGB 2').law).toBe('SGB 2');
+    expect(firstCitation('§ 1 SGB').law).toBe('SGB');
+  });
+
+  test('law-first style', () => {
+    const citation = firstCitation('siehe BGB § 573 Abs. 2');
+
+    expect(citation.law).toBe('BGB');
+    expect(citation.raw).toBe('BGB § 573 Abs. 2');
+  });
+
+  test('court abbreviations are not laws', () => {
+    expect(firstCitation('BSG § 44').law).toBeUndefined();
+    expect(findLawAbbreviations('Urteil des BGH zu BGB und SGB II')).toEqual(['BGB', 'SGB II']);
+  });
+
+  test('citations without a law', () => {
+    expect(firstCitation('§ 44 Abs. 1').law).toBeUndefined();
+    expect(parseCitations('kein Paragraph hier')).toEqual([]);
+  });
+});
+
+describe('parseNormCitation', () => {
+  test('single norm with Absatz, Satz and Nummer', () => {
+    expect(parseNormCitation('§ 44 Abs. 1 S. 2 Nr. 3 SGB X')).toEqual({
+      kind: 'paragraph',
+      number: '44',
+      absatz: 1,
+      satz: 2,
+      nummer: '3',
+      law: 'SGB X',
+      raw: '§ 44 Abs. 1 S. 2 Nr. 3 SGB X',
+    });
+  });
+
+  test('Art. of the Grundgesetz', () => {
+    const norm = parseNormCitation('Art. 3 Abs. 1 GG');
+
+    expect(norm).toMatchObject({ kind: 'article', number: '3', absatz: 1, law: 'GG' });
+    expect(formatNormCitation(norm)).toBe('Art. 3 Abs. 1 GG');
+  });
+
+  test('f. and ff. are carried through', () => {
+    const norm = parseNormCitation('§ 812 ff. BGB');
+
+    expect(norm).toMatchObject({ number: '812', following: 'ff', law: 'BGB' });
+    expect(formatNormCitation(norm)).toBe('§ 812 ff. BGB');
+  });
+
+  test('first citation of an i.V.m. chain with the inherited law', () => {
+    expect(parseNormCitation('§ 22 i.V.m. § 7 SGB II')).toMatchObject({ number: '22', law: 'SGB II' });
+  });
+
+  test('rejects ranges, lists and citations without a law', () => {
+    expect(parseNormCitation('§§ 44 bis 48 SGB X')).toBeNull();
+    expect(parseNormCitation('§ 44 Abs. 1 und 2 SGB X')).toBeNull();
+    expect(parseNormCitation('§ 44 Abs. 1')).toBeNull();
+    expect(parseNormCitation('')).toBeNull();
+  });
+
+  test('Buchstabe and Halbsatz', () => {
+    const lettered = parseNormCitation('§ 35 Abs. 1 S. 2 Nr. 3 lit. a EStG');
+    const half = parseNormCitation('§ 44 Abs. 1 Satz 1 2. Halbsatz SGB X');
+
+    expect(lettered).toMatchObject({ absatz: 1, satz: 2, nummer: '3', buchstabe: 'a', law: 'EStG' });
+    expect(formatNormCitation(lettered)).toBe('§ 35 Abs. 1 S. 2 Nr. 3 lit. a EStG');
+    expect(half).toMatchObject({ absatz: 1, satz: 1, halbsatz: 2, law: 'SGB X' });
+    expect(formatNormCitation(half)).toBe('§ 44 Abs. 1 S. 1 Hs. 2 SGB X');
+    expect(parseNormCitation('§ 7 Abs. 2 Buchst. b SGB II')).toMatchObject({ buchstabe: 'b', law: 'SGB II' });
+  });
+
+  test('takes a separately named law for citations without one', () => {
+    const norm = parseNormCitation('§ 44 Abs. 1', 'SGB X');
+
+    expect(norm).toMatchObject({ number: '44', absatz: 1, law: 'SGB X' });
+    expect(parseNormCitation('§ 558 BGB', 'SGB X')).toMatchObject({ law: 'BGB' });
+    expect(formatNormCitation(parseNormCitation('§ 44', ''))).toBe('§ 44');
+  });
+});
+
+describe('toNormCitations', () => {
+  test('enumerates short ranges and keeps the endpoints of long ones', () => {
+    const short = toNormCitations(firstCitation('§§ 44 bis 46 SGB X'));
+    expect(short.map(norm => norm.raw)).toEqual(['§ 44 SGB X', '§ 45 SGB X', '§ 46 SGB X']);
+
+    const long = toNormCitations(firstCitation('§§ 1 bis 100 BGB'));
+    expect(long.map(norm => norm.number)).toEqual(['1', '100']);
+  });
+
+  test('citations without a law yield nothing', () => {
+    expect(toNormCitations(firstCitation('§ 44 Abs. 1'))).toEqual([]);
+  });
+});
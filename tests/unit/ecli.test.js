@@ -0,0 +1,63 @@
+/**
+ * Unit tests for the ECLI helpers (src/ecli.ts)
+ *
+ * Run with: npm run test:unit (after npm run build)
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import { ecliToResolve, isSameEcli, parseEcli } from '../../dist/ecli.js';
+
+const BGH = 'ECLI:DE:BGH:2018:150518UVIIZR233.17.0';
+
+describe('parseEcli', () => {
+  test('canonicalizes casing and court codes', () => {
+    expect(parseEcli('ecli:de:bverfg:2025:es20250313.2bve000525')).toEqual({
+      country: 'DE',
+      court: 'BVerfG',
+      year: '2025',
+      ordinal: 'es20250313.2bve000525',
+      ecli: 'ECLI:DE:BVerfG:2025:es20250313.2bve000525',
+    });
+  });
+
+  test('reads slash-form paths and drops file extensions', () => {
+    expect(parseEcli('/v1/case-law/ecli/de/bgh/2018/150518UVIIZR233.17.0.html')?.ecli).toBe(BGH);
+  });
+
+  test('returns null for other IDs', () => {
+    expect(parseEcli('KORE600500000')).toBeNull();
+    expect(parseEcli('')).toBeNull();
+  });
+});
+
+describe('ecliToResolve', () => {
+  test('resolves bare ECLIs in any casing', () => {
+    expect(ecliToResolve(BGH)?.ecli).toBe(BGH);
+    // The ordinal keeps its casing; resolution compares case-insensitively
+    expect(ecliToResolve(` ${BGH.toLowerCase()} `)?.ecli).toBe('ECLI:DE:BGH:2018:150518uviizr233.17.0');
+  });
+
+  test('resolves portal and API URLs with the colon form', () => {
+    expect(ecliToResolve(`https://testphase.rechtsinformationen.bund.de/case-law/ecli/${BGH}`)?.ecli).toBe(BGH);
+    expect(ecliToResolve(`https://testphase.rechtsinformationen.bund.de/v1/case-law/ecli/${BGH}`)?.ecli).toBe(BGH);
+    expect(ecliToResolve(`/v1/case-law/ecli/${encodeURIComponent(BGH)}`)?.ecli).toBe(BGH);
+  });
+
+  test('resolves lowercase URLs', () => {
+    expect(ecliToResolve(`https://testphase.rechtsinformationen.bund.de/case-law/ecli/${BGH.toLowerCase()}`)?.ecli).toBe('ECLI:DE:BGH:2018:150518uviizr233.17.0');
+    expect(ecliToResolve(`HTTPS://TESTPHASE.RECHTSINFORMATIONEN.BUND.DE/CASE-LAW/ECLI/${BGH}`)?.ecli).toBe(BGH);
+  });
+
+  test('leaves slash-form API paths and document numbers to be fetched directly', () => {
+    expect(ecliToResolve('/v1/case-law/ecli/de/bgh/2018/150518UVIIZR233.17.0')).toBeNull();
+    expect(ecliToResolve('https://testphase.rechtsinformationen.bund.de/v1/case-law/ecli/de/bgh/2018/150518UVIIZR233.17.0')).toBeNull();
+    expect(ecliToResolve('KORE600500000')).toBeNull();
+  });
+});
+
+describe('isSameEcli', () => {
+  test('compares case-insensitively across forms', () => {
+    expect(isSameEcli(BGH.toLowerCase(), '/ecli/de/bgh/2018/150518UVIIZR233.17.0')).toBe(true);
+    expect(isSameEcli(BGH, 'ECLI:DE:BGH:2018:150518UVIIZR233.18.0')).toBe(false);
+  });
+});
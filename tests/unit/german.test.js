@@ -0,0 +1,110 @@
+/**
+ * Unit tests for the German text analysis and compound splitting (src/german.ts)
+ *
+ * Run with: npm run test:unit (after npm run build)
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import { analyzeGerman, foldGerman, GermanLexicon, isStopword, stemGerman } from '../../dist/german.js';
+
+describe('foldGerman', () => {
+  test('umlauts, ß and their transliterations meet', () => {
+    expect(foldGerman('Kündigung')).toBe('kundigung');
+    expect(foldGerman('Kuendigung')).toBe('kundigung');
+    expect(foldGerman('Kundigung')).toBe('kundigung');
+    expect(foldGerman('Straße')).toBe('strasse');
+    expect(foldGerman('Ärger Öl')).toBe('arger ol');
+    expect(foldGerman('Aerger Oel')).toBe('arger ol');
+  });
+
+  test('"qu" + e is no transliteration', () => {
+    expect(foldGerman('Quelle')).toBe('quelle');
+  });
+
+  test('empty input', () => {
+    expect(foldGerman('')).toBe('');
+    expect(foldGerman(undefined)).toBe('');
+  });
+});
+
+describe('stemGerman', () => {
+  test('plural and singular share a stem', () => {
+    expect(stemGerman('kundigungen')).toBe('kundigung');
+    expect(stemGerman('kundigung')).toBe('kundigung');
+    expect(stemGerman('mieter')).toBe(stemGerman('mietern'));
+  });
+
+  test('-heiten and -keiten keep their suffix', () => {
+    expect(stemGerman('freiheiten')).toBe('freiheit');
+    expect(stemGerman('moglichkeiten')).toBe('moglichkeit');
+  });
+
+  test('short words and numbers are left alone', () => {
+    expect(stemGerman('amte')).toBe('amte');
+    expect(stemGerman('rente')).toBe('rent');
+    expect(stemGerman('44a')).toBe('44a');
+  });
+});
+
+describe('analyzeGerman', () => {
+  test('drops stopwords, HTML and single characters and stems the rest', () => {
+    expect(analyzeGerman('Wann darf der <mark>Vermieter</mark> die Wohnungen kündigen?'))
+      .toEqual(['vermiet', 'wohnung', 'kundig']);
+  });
+
+  test('keeps numbers, drops a lone §', () => {
+    expect(analyzeGerman('§ 573 BGB')).toEqual(['573', 'bgb']);
+  });
+
+  test('stopwords are folded', () => {
+    expect(isStopword('fur')).toBe(true);
+    expect(analyzeGerman('für über während')).toEqual([]);
+  });
+});
+
+describe('GermanLexicon', () => {
+  const lexicon = new GermanLexicon([]);
+  const lemmas = word => lexicon.decompose(word).map(part => part.lemma);
+
+  test('splits compounds with Fugen-s', () => {
+    expect(lemmas('Kündigungsschutzklage')).toEqual(['Kündigung', 'Schutz', 'Klage']);
+    expect(lemmas('Kuendigungsschutzklage')).toEqual(['Kündigung', 'Schutz', 'Klage']);
+  });
+
+  test('splits compounds with Fugen-es', () => {
+    expect(lemmas('Bundesgesetz')).toEqual(['Bund', 'Gesetz']);
+  });
+
+  test('inflected last parts and stem forms map to the dictionary form', () => {
+    expect(lemmas('Mietverträge')).toEqual(['Miete', 'Vertrag']);
+    expect(lemmas('Arbeitsverträgen')).toEqual(['Arbeit', 'Vertrag']);
+    expect(lemmas('Elterngeldes')).toEqual(['Eltern', 'Geld']);
+  });
+
+  test('part positions exclude the linking element', () => {
+    expect(lexicon.decompose('Kündigungsschutzklage').map(({ start, end }) => [start, end])).toEqual([[0, 9], [10, 16], [16, 21]]);
+  });
+
+  test('known words, short and unknown words are not split', () => {
+    expect(lemmas('Kündigung')).toEqual([]);
+    expect(lemmas('Amtsrat')).toEqual(['Amt', 'Rat']);
+    expect(lemmas('Haft')).toEqual([]);
+    expect(lemmas('Xylophonspieler')).toEqual([]);
+  });
+
+  test('words of the law names extend the dictionary', () => {
+    const names = GermanLexicon.fromNames(['Bundeselterngeld- und Elternzeitgesetz', 'Kündigungsschutzgesetz']);
+
+    expect(names.size).toBeGreaterThan(new GermanLexicon([]).size);
+    expect(names.decompose('Elternzeitgesetz').map(part => part.lemma)).toEqual(['Eltern', 'Zeit', 'Gesetz']);
+  });
+
+  test('analyze adds the stems of compound parts', () => {
+    expect(lexicon.analyze('Kündigungsschutzklage')).toEqual(['kundigungsschutzklag', 'kundigung', 'schutz', 'klag']);
+  });
+
+  test('highlight marks words sharing a term with the query', () => {
+    expect(lexicon.highlight('Die <b>Kündigungsschutzklage</b> ist fristgebunden', 'Klage'))
+      .toBe('Die **Kündigungsschutzklage** ist fristgebunden');
+  });
+});
@@ -0,0 +1,265 @@
+/**
+ * Request-level tests for the HTTP transport (src/http-server.ts)
+ *
+ * Starts McpHttpServer on a free local port with a minimal MCP server behind
+ * it whose only tool returns the client name it was called with.
+ *
+ * Run with: npm run test:unit (after npm run build)
+ */
+
+import { describe, test, expect, afterEach } from '@jest/globals';
+import { createServer } from 'net';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { CallToolRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+
+process.env.LOG_LEVEL = 'error';
+const { McpHttpServer } = await import('../../dist/http-server.js');
+
+const TOKENS = [
+  { name: 'alice', token: 'token-alice' },
+  { name: 'bob', token: 'token-bob', quota: 3 },
+];
+
+let server;
+let baseUrl;
+
+function freePort() {
+  return new Promise((resolve, reject) => {
+    const probe = createServer();
+    probe.once('error', reject);
+    probe.listen(0, '127.0.0.1', () => {
+      const { port } = probe.address();
+      probe.close(() => resolve(port));
+    });
+  });
+}
+
+async function start(options = {}) {
+  const port = await freePort();
+  server = new McpHttpServer({
+    host: '127.0.0.1',
+    port,
+    tokens: TOKENS,
+    allowAnonymous: false,
+    quota: 100,
+    quotaWindow: 60000,
+    corsOrigins: ['https://intranet.example.org'],
+    sessionIdleTimeout: 0,
+    maxSessionsPerClient: 0,
+    async connect(transport) {
+      const mcp = new Server({ name: 'test', version: '1.0.0' }, { capabilities: { tools: {} } });
+      mcp.setRequestHandler(CallToolRequestSchema, async (_request, extra) => ({
+        content: [{ type: 'text', text: extra.authInfo?.clientId ?? 'none' }],
+      }));
+      await mcp.connect(transport);
+    },
+    ...options,
+  });
+  await server.listen();
+  baseUrl = `http://127.0.0.1:${port}`;
+}
+
+/**
+ * POST a JSON-RPC message to /mcp; SSE responses are unwrapped
+ */
+async function post(token, body, headers = {}) {
+  const response = await fetch(`${baseUrl}/mcp`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Accept: 'application/json, text/event-stream',
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      ...headers,
+    },
+    body: JSON.stringify(body),
+  });
+  const text = await response.text();
+  const event = text.split('\n').find(line => line.startsWith('data: '));
+  const json = event ? JSON.parse(event.slice(6)) : text ? JSON.parse(text) : null;
+  return { response, json };
+}
+
+async function openSession(token) {
+  const { response } = await post(token, {
+    jsonrpc: '2.0',
+    id: 1,
+    method: 'initialize',
+    params: { protocolVersion: '2025-06-18', capabilities: {}, clientInfo: { name: 'jest', version: '1.0.0' } },
+  });
+  expect(response.status).toBe(200);
+  const sessionId = response.headers.get('mcp-session-id');
+  await post(token, { jsonrpc: '2.0', method: 'notifications/initialized' }, { 'Mcp-Session-Id': sessionId });
+  return sessionId;
+}
+
+function callTool(token, sessionId) {
+  return post(
+    token,
+    { jsonrpc: '2.0', id: 2, method: 'tools/call', params: { name: 'whoami', arguments: {} } },
+    { 'Mcp-Session-Id': sessionId, 'Mcp-Protocol-Version': '2025-06-18' }
+  );
+}
+
+afterEach(async () => {
+  await server?.close();
+  server = null;
+});
+
+describe('authentication', () => {
+  test('refuses to start without tokens unless anonymous access is allowed', () => {
+    expect(() => new McpHttpServer({ tokens: [], allowAnonymous: false })).toThrow(/HTTP_TOKENS/);
+  });
+
+  test('/health needs no token', async () => {
+    await start();
+    const response = await fetch(`${baseUrl}/health`);
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({ status: 'ok', sessions: 0 });
+  });
+
+  test('401 without a token', async () => {
+    await start();
+    const { response, json } = await post(null, { jsonrpc: '2.0', id: 1, method: 'ping' });
+
+    expect(response.status).toBe(401);
+    expect(response.headers.get('www-authenticate')).toBe('Bearer realm="rechtsinformationen"');
+    expect(json.error.message).toBe('Missing bearer token');
+  });
+
+  test('401 with an unknown token', async () => {
+    await start();
+    const { response, json } = await post('wrong', { jsonrpc: '2.0', id: 1, method: 'ping' });
+
+    expect(response.status).toBe(401);
+    expect(response.headers.get('www-authenticate')).toContain('error="invalid_token"');
+    expect(json.error.message).toBe('Invalid bearer token');
+  });
+
+  test('tool handlers see the client of the token', async () => {
+    await start();
+    const sessionId = await openSession('token-alice');
+    const { json } = await callTool('token-alice', sessionId);
+
+    expect(json.result.content[0].text).toBe('alice');
+  });
+
+  test('anonymous access when allowed and no tokens are set', async () => {
+    await start({ tokens: [], allowAnonymous: true });
+    const sessionId = await openSession(null);
+    const { json } = await callTool(null, sessionId);
+
+    expect(json.result.content[0].text).toBe('anonymous');
+  });
+});
+
+describe('sessions', () => {
+  test('403 when another client uses the session', async () => {
+    await start();
+    const sessionId = await openSession('token-alice');
+    const { response, json } = await callTool('token-bob', sessionId);
+
+    expect(response.status).toBe(403);
+    expect(json.error.message).toBe('Session belongs to a different client');
+  });
+
+  test('404 for an unknown session', async () => {
+    await start();
+    const { response } = await callTool('token-alice', 'no-such-session');
+
+    expect(response.status).toBe(404);
+  });
+
+  test('400 without a session for anything but initialize', async () => {
+    await start();
+    const { response } = await post('token-alice', { jsonrpc: '2.0', id: 1, method: 'tools/list' });
+
+    expect(response.status).toBe(400);
+  });
+
+  test('idle sessions are closed', async () => {
+    await start({ sessionIdleTimeout: 100 });
+    const sessionId = await openSession('token-alice');
+    expect(server.sessionCount).toBe(1);
+
+    await new Promise(resolve => setTimeout(resolve, 350));
+
+    expect(server.sessionCount).toBe(0);
+    expect((await callTool('token-alice', sessionId)).response.status).toBe(404);
+  });
+
+  test('above the limit the least recently used session of the client is closed', async () => {
+    await start({ maxSessionsPerClient: 2 });
+    const first = await openSession('token-alice');
+    const second = await openSession('token-alice');
+    await callTool('token-alice', first);
+    const bobs = await openSession('token-bob');
+    const third = await openSession('token-alice');
+
+    expect(server.sessionCount).toBe(3);
+    expect((await callTool('token-alice', second)).response.status).toBe(404);
+    for (const [token, sessionId] of [['token-alice', first], ['token-alice', third], ['token-bob', bobs]]) {
+      expect((await callTool(token, sessionId)).response.status).toBe(200);
+    }
+  });
+});
+
+describe('quota', () => {
+  test('429 with Retry-After once the token quota is used up', async () => {
+    await start();
+    for (let i = 0; i < 3; i++) {
+      expect((await post('token-bob', { jsonrpc: '2.0', id: 1, method: 'ping' })).response.status).toBe(400);
+    }
+    const { response, json } = await post('token-bob', { jsonrpc: '2.0', id: 1, method: 'ping' });
+
+    expect(response.status).toBe(429);
+    expect(Number(response.headers.get('retry-after'))).toBeGreaterThan(0);
+    expect(json.error.message).toContain('bob');
+    // Quotas are per token
+    expect((await post('token-alice', { jsonrpc: '2.0', id: 1, method: 'ping' })).response.status).toBe(400);
+  });
+});
+
+describe('CORS', () => {
+  test('preflight from an allowed origin', async () => {
+    await start();
+    const response = await fetch(`${baseUrl}/mcp`, { method: 'OPTIONS', headers: { Origin: 'https://intranet.example.org' } });
+
+    expect(response.status).toBe(204);
+    expect(response.headers.get('access-control-allow-origin')).toBe('https://intranet.example.org');
+    expect(response.headers.get('access-control-allow-headers')).toContain('Mcp-Session-Id');
+    expect(response.headers.get('access-control-expose-headers')).toContain('Mcp-Session-Id');
+  });
+
+  test('no CORS headers for other origins', async () => {
+    await start();
+    const response = await fetch(`${baseUrl}/mcp`, { method: 'OPTIONS', headers: { Origin: 'https://evil.example.com' } });
+
+    expect(response.headers.get('access-control-allow-origin')).toBeNull();
+  });
+
+  test('"*" allows any origin, also on rejected requests', async () => {
+    await start({ corsOrigins: ['*'] });
+    const { response } = await post(null, { jsonrpc: '2.0', id: 1, method: 'ping' }, { Origin: 'https://any.example.com' });
+
+    expect(response.status).toBe(401);
+    expect(response.headers.get('access-control-allow-origin')).toBe('*');
+  });
+});
+
+describe('request IDs', () => {
+  test('a usable X-Request-Id is echoed, others are replaced', async () => {
+    await start();
+    const echoed = await fetch(`${baseUrl}/health`, { headers: { 'X-Request-Id': 'abc-123' } });
+    const replaced = await fetch(`${baseUrl}/health`, { headers: { 'X-Request-Id': 'not valid!' } });
+
+    expect(echoed.headers.get('x-request-id')).toBe('abc-123');
+    expect(replaced.headers.get('x-request-id')).toMatch(/^[0-9a-f-]{36}$/);
+  });
+
+  test('404 for unknown paths', async () => {
+    await start();
+
+    expect((await fetch(`${baseUrl}/nope`)).status).toBe(404);
+  });
+});
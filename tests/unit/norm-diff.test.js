@@ -0,0 +1,96 @@
+/**
+ * Unit tests for the version comparison (src/norm-diff.ts)
+ *
+ * Run with: npm run test:unit (after npm run build)
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import { diffLawDocuments, diffNorms } from '../../dist/norm-diff.js';
+import { parseLawDocument } from '../../dist/legaldocml.js';
+
+function norm(num, paragraphs, heading = 'Rücknahme') {
+  return {
+    eId: `art-z${num}`,
+    num: `§ ${num}`,
+    heading,
+    paragraphs: paragraphs.map(([absatz, text]) => ({ eId: `art-z${num}_abs-z${absatz}`, num: `(${absatz})`, text })),
+  };
+}
+
+function law(articles) {
+  const body = articles.map(({ num, heading, paragraphs }) => `
+    <akn:article eId="art-z${num}">
+      <akn:num>§ ${num}</akn:num>
+      <akn:heading>${heading}</akn:heading>
+      ${paragraphs.map(([absatz, text]) => `<akn:paragraph eId="art-z${num}_abs-z${absatz}"><akn:num>(${absatz})</akn:num><akn:content><akn:p>${text}</akn:p></akn:content></akn:paragraph>`).join('')}
+    </akn:article>`).join('');
+  return parseLawDocument(`<akn:akomaNtoso><akn:act><akn:body>${body}</akn:body></akn:act></akn:akomaNtoso>`);
+}
+
+describe('diffNorms', () => {
+  test('reports added, removed and changed Absätze', () => {
+    const before = norm('44', [
+      ['1', 'Der Verwaltungsakt ist zurückzunehmen. Dies gilt nicht bei Vorsatz.'],
+      ['2', 'Im Übrigen kann er zurückgenommen werden.'],
+      ['3', 'Über die Rücknahme entscheidet die Behörde.'],
+    ]);
+    const after = norm('44', [
+      ['1', 'Der Verwaltungsakt ist zurückzunehmen. Dies gilt nicht bei grober Fahrlässigkeit.'],
+      ['2', 'Im Übrigen kann er zurückgenommen werden.'],
+      ['4', 'Leistungen werden für vier Jahre erbracht.'],
+    ]);
+
+    const diff = diffNorms(before, after);
+
+    expect(diff.type).toBe('changed');
+    expect(diff.paragraphs.map(p => [p.num, p.type])).toEqual([
+      ['(1)', 'changed'],
+      ['(2)', 'unchanged'],
+      ['(4)', 'added'],
+      ['(3)', 'removed'],
+    ]);
+    expect(diff.paragraphs[0]).toMatchObject({
+      removedSentences: ['Dies gilt nicht bei Vorsatz.'],
+      addedSentences: ['Dies gilt nicht bei grober Fahrlässigkeit.'],
+    });
+  });
+
+  test('ignores whitespace and reports a changed heading', () => {
+    const before = norm('44', [['1', 'Der  Verwaltungsakt ist zurückzunehmen.']], 'Rücknahme');
+    const after = norm('44', [['1', 'Der Verwaltungsakt ist zurückzunehmen.']], 'Rücknahme eines Verwaltungsaktes');
+
+    const diff = diffNorms(before, after);
+
+    expect(diff.paragraphs[0].type).toBe('unchanged');
+    expect(diff).toMatchObject({ type: 'changed', headingBefore: 'Rücknahme', heading: 'Rücknahme eines Verwaltungsaktes' });
+    expect(diffNorms(before, before).type).toBe('unchanged');
+  });
+
+  test('a missing side makes the whole norm added or removed', () => {
+    const only = norm('45', [['1', 'Neu.']]);
+
+    expect(diffNorms(null, only)).toMatchObject({ type: 'added', num: '§ 45', paragraphs: [{ type: 'added' }] });
+    expect(diffNorms(only, null)).toMatchObject({ type: 'removed', num: '§ 45', paragraphs: [{ type: 'removed' }] });
+  });
+});
+
+describe('diffLawDocuments', () => {
+  test('returns only differing norms, removed ones last', () => {
+    const before = law([
+      { num: '1', heading: 'Anwendungsbereich', paragraphs: [['1', 'Gilt für Behörden.']] },
+      { num: '2', heading: 'Begriffe', paragraphs: [['1', 'Behörde ist jede Stelle.']] },
+      { num: '3', heading: 'Aufgehoben', paragraphs: [['1', 'Alte Regel.']] },
+    ]);
+    const after = law([
+      { num: '1', heading: 'Anwendungsbereich', paragraphs: [['1', 'Gilt für Behörden.']] },
+      { num: '2', heading: 'Begriffe', paragraphs: [['1', 'Behörde ist jede öffentliche Stelle.']] },
+      { num: '2a', heading: 'Digitale Verfahren', paragraphs: [['1', 'Anträge können elektronisch gestellt werden.']] },
+    ]);
+
+    expect(diffLawDocuments(before, after).map(diff => [diff.num, diff.type])).toEqual([
+      ['§ 2', 'changed'],
+      ['§ 2a', 'added'],
+      ['§ 3', 'removed'],
+    ]);
+  });
+});
@@ -0,0 +1,293 @@
+/**
+ * Tool-level tests for the norm and version tools (src/index.ts)
+ *
+ * Runs the built server over stdio against a local mock of the
+ * rechtsinformationen.bund.de API that holds two versions of SGB X.
+ *
+ * Run with: npm run test:unit (after npm run build)
+ */
+
+import { describe, test, expect, beforeAll, afterAll } from '@jest/globals';
+import { createServer } from 'http';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+const WORK = 'eli/bund/bgbl-1/1980/s1469';
+const VERSIONS = [
+  { date: '2020-01-01', until: '2023-12-31', text: 'Ein Verwaltungsakt ist zurückzunehmen.' },
+  { date: '2024-01-01', until: '', text: 'Ein rechtswidriger Verwaltungsakt ist zurückzunehmen.' },
+];
+
+function expression(version) {
+  return `${WORK}/${version.date}/1/deu`;
+}
+
+function item(version) {
+  const id = `/v1/legislation/${expression(version)}`;
+  return {
+    '@id': id,
+    '@type': 'Legislation',
+    name: 'Sozialgesetzbuch (SGB) Zehntes Buch (X) - Sozialverwaltungsverfahren und Sozialdatenschutz -',
+    abbreviation: 'SGB X',
+    legislationIdentifier: WORK,
+    workExample: {
+      '@id': id,
+      legislationIdentifier: expression(version),
+      legislationLegalForce: version.until ? 'NotInForce' : 'InForce',
+      temporalCoverage: `${version.date}/${version.until || '..'}`,
+      encoding: [{ encodingFormat: 'application/xml', contentUrl: `${id}/regelungstext-1.xml` }],
+    },
+  };
+}
+
+function xml(version) {
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<akn:akomaNtoso xmlns:akn="http://Inhaltsdaten.LegalDocML.de/1.7/">
+  <akn:act>
+    <akn:meta>
+      <akn:identification>
+        <akn:FRBRExpression>
+          <akn:FRBRthis value="${expression(version)}/regelungstext-1"/>
+          <akn:FRBRdate date="${version.date}" name="verkuendung"/>
+        </akn:FRBRExpression>
+      </akn:identification>
+    </akn:meta>
+    <akn:preface><akn:longTitle><akn:p><akn:shortTitle>SGB X</akn:shortTitle></akn:p></akn:longTitle></akn:preface>
+    <akn:body>
+      <akn:article eId="art-z44">
+        <akn:num>§ 44</akn:num>
+        <akn:heading>Rücknahme eines rechtswidrigen nicht begünstigenden Verwaltungsaktes</akn:heading>
+        <akn:paragraph eId="art-z44_abs-z1"><akn:num>(1)</akn:num><akn:content><akn:p>${version.text}</akn:p></akn:content></akn:paragraph>
+      </akn:article>
+      <akn:article eId="art-z45">
+        <akn:num>§ 45</akn:num>
+        <akn:heading>Rücknahme eines rechtswidrigen begünstigenden Verwaltungsaktes</akn:heading>
+        <akn:paragraph eId="art-z45_abs-z1"><akn:num>(1)</akn:num><akn:content><akn:p>Der Verwaltungsakt darf zurückgenommen werden; das Vertrauen ist zu prüfen. Die Frist beträgt ein Jahr.</akn:p></akn:content></akn:paragraph>
+        <akn:paragraph eId="art-z45_abs-z2"><akn:num>(2)</akn:num>
+          <akn:list eId="art-z45_abs-z2_untergl-n1">
+            <akn:intro><akn:p>Auf Vertrauen kann sich nicht berufen, wer</akn:p></akn:intro>
+            <akn:point eId="art-z45_abs-z2_untergl-n1_listenelem-n1"><akn:num>1.</akn:num>
+              <akn:list eId="art-z45_abs-z2_untergl-n1_listenelem-n1_untergl-n1">
+                <akn:point eId="art-z45_abs-z2_untergl-n1_listenelem-n1_untergl-n1_listenelem-na"><akn:num>a)</akn:num><akn:content><akn:p>arglistig getäuscht hat,</akn:p></akn:content></akn:point>
+                <akn:point eId="art-z45_abs-z2_untergl-n1_listenelem-n1_untergl-n1_listenelem-nb"><akn:num>b)</akn:num><akn:content><akn:p>gedroht hat,</akn:p></akn:content></akn:point>
+              </akn:list>
+            </akn:point>
+            <akn:point eId="art-z45_abs-z2_untergl-n1_listenelem-n2"><akn:num>2.</akn:num>
+              <akn:list eId="art-z45_abs-z2_untergl-n1_listenelem-n2_untergl-n1">
+                <akn:point eId="art-z45_abs-z2_untergl-n1_listenelem-n2_untergl-n1_listenelem-na"><akn:num>a)</akn:num><akn:content><akn:p>unrichtige Angaben gemacht hat.</akn:p></akn:content></akn:point>
+              </akn:list>
+            </akn:point>
+          </akn:list>
+        </akn:paragraph>
+      </akn:article>
+    </akn:body>
+  </akn:act>
+</akn:akomaNtoso>`;
+}
+
+/** Answers the requests the server makes for SGB X */
+function handle(url) {
+  if (url.pathname === '/v1/legislation') {
+    const eli = url.searchParams.get('eli');
+    const members = !eli || eli === WORK ? VERSIONS.map(item) : [];
+    return { json: { member: members.map(entry => ({ '@type': 'SearchResult', item: entry })), totalItems: members.length } };
+  }
+  for (const version of VERSIONS) {
+    const base = `/v1/legislation/${expression(version)}`;
+    if (url.pathname === base) return { json: item(version) };
+    if (url.pathname === `${base}/regelungstext-1.xml`) return { xml: xml(version) };
+  }
+  return null;
+}
+
+let api;
+let client;
+
+beforeAll(async () => {
+  api = createServer((request, response) => {
+    const answer = handle(new URL(request.url, 'http://localhost'));
+    if (!answer) {
+      response.writeHead(404, { 'Content-Type': 'application/json' }).end('{}');
+    } else if (answer.xml) {
+      response.writeHead(200, { 'Content-Type': 'application/xml' }).end(answer.xml);
+    } else {
+      response.writeHead(200, { 'Content-Type': 'application/json' }).end(JSON.stringify(answer.json));
+    }
+  });
+  await new Promise(resolve => api.listen(0, '127.0.0.1', resolve));
+
+  client = new Client({ name: 'norm-tools-test', version: '1.0.0' });
+  await client.connect(new StdioClientTransport({
+    command: process.execPath,
+    args: [path.join(__dirname, '..', '..', 'dist', 'index.js')],
+    env: {
+      ...process.env,
+      API_BASE_URL: `http://127.0.0.1:${api.address().port}/v1`,
+      CACHE_ENABLED: 'false',
+      RATE_LIMIT_DELAY: '0',
+      LOG_LEVEL: 'error',
+    },
+    stderr: 'ignore',
+  }));
+  // With the tool list known, callTool validates structuredContent against each outputSchema
+  await client.listTools();
+});
+
+afterAll(async () => {
+  await client?.close();
+  await new Promise(resolve => api ? api.close(resolve) : resolve());
+});
+
+async function call(name, args) {
+  const result = await client.callTool({ name, arguments: args });
+  return { isError: !!result.isError, text: result.content.map(part => part.text).join('\n'), structured: result.structuredContent };
+}
+
+describe('citations without a law', () => {
+  test('fassung_zum_stichtag_abrufen takes the law from abbreviation', async () => {
+    const result = await call('fassung_zum_stichtag_abrufen', { citation: '§ 44', abbreviation: 'SGB X', date: '2021-06-01' });
+
+    expect(result.isError).toBe(false);
+    expect(result.text).toContain('Fassung vom 2020-01-01');
+    expect(result.text).toContain('§ 44 SGB X');
+    expect(result.text).toContain('Ein Verwaltungsakt ist zurückzunehmen.');
+  });
+
+  test('fassungsvergleich takes the law from abbreviation', async () => {
+    const result = await call('fassungsvergleich', { citation: '§ 44', abbreviation: 'SGB X', dateFrom: '2021-06-01', dateTo: '2024-06-01' });
+
+    expect(result.isError).toBe(false);
+    expect(result.text).toContain('FASSUNGSVERGLEICH: § 44 SGB X');
+    expect(result.text).toContain('Ein rechtswidriger Verwaltungsakt ist zurückzunehmen.');
+  });
+
+  test('norm_abrufen takes the law from eli', async () => {
+    const result = await call('norm_abrufen', { citation: '§ 44 Abs. 1', eli: expression(VERSIONS[1]) });
+
+    expect(result.isError).toBe(false);
+    expect(result.text).toContain('§ 44 Abs. 1 SGB X');
+    expect(result.text).toContain('Ein rechtswidriger Verwaltungsakt ist zurückzunehmen.');
+  });
+
+  test('without abbreviation or eli the law is required', async () => {
+    const result = await call('norm_abrufen', { citation: '§ 44' });
+
+    expect(result.isError).toBe(true);
+    expect(result.text).toContain('names no law');
+  });
+});
+
+describe('Buchstabe and Halbsatz', () => {
+  test('norm_abrufen narrows to a Buchstabe of a Nummer', async () => {
+    const result = await call('norm_abrufen', { citation: '§ 45 Abs. 2 Nr. 1 lit. b SGB X' });
+
+    expect(result.isError).toBe(false);
+    expect(result.text).toContain('§ 45 Abs. 2 Nr. 1 lit. b SGB X');
+    expect(result.text).toContain('b) gedroht hat,');
+    expect(result.text).not.toContain('arglistig');
+  });
+
+  test('norm_abrufen asks for the Nummer when the Buchstabe recurs', async () => {
+    const result = await call('norm_abrufen', { citation: '§ 45 Abs. 2 Buchst. a SGB X' });
+
+    expect(result.text).toContain('it occurs 2 times');
+  });
+
+  test('norm_abrufen narrows to a Halbsatz', async () => {
+    const result = await call('norm_abrufen', { citation: '§ 45 Abs. 1 S. 1 2. Halbsatz SGB X' });
+
+    expect(result.isError).toBe(false);
+    expect(result.text).toContain('§ 45 Abs. 1 S. 1 Hs. 2 SGB X');
+    expect(result.text).toContain('(1) Satz 1 Halbsatz 2 das Vertrauen ist zu prüfen.');
+    expect(result.text).not.toContain('zurückgenommen werden');
+  });
+});
+
+describe('structured output', () => {
+  test('gesetz_per_eli_abrufen returns the law and its expressions', async () => {
+    const { structured } = await call('gesetz_per_eli_abrufen', { eli: WORK });
+
+    expect(structured).toMatchObject({ eli: WORK, found: true, law: { abbreviation: 'SGB X', eli: expression(VERSIONS[1]), inForce: true } });
+    expect(structured.expressions.map(hit => hit.eli)).toEqual([expression(VERSIONS[1]), expression(VERSIONS[0])]);
+  });
+
+  test('gesetz_inhaltsverzeichnis_abrufen returns the entries with links', async () => {
+    const { structured } = await call('gesetz_inhaltsverzeichnis_abrufen', { eli: expression(VERSIONS[1]) });
+
+    expect(structured).toMatchObject({ requested: expression(VERSIONS[1]), found: true, expressionDate: '2024-01-01' });
+    expect(structured.entries.map(entry => [entry.num, entry.eId])).toEqual([['§ 44', 'art-z44'], ['§ 45', 'art-z45']]);
+    expect(structured.entries[0].htmlUrl).toMatch(/#art-z44$/);
+  });
+
+  test('norm_abrufen returns the narrowed text and what was not found', async () => {
+    const found = await call('norm_abrufen', { citation: '§ 45 Abs. 2 Nr. 1 lit. b SGB X' });
+    const missing = await call('norm_abrufen', { citation: '§ 45 Abs. 3 SGB X' });
+    const unavailable = await call('norm_abrufen', { citation: 'Art. 1 GG' });
+
+    expect(found.structured).toMatchObject({
+      citation: '§ 45 Abs. 2 Nr. 1 lit. b SGB X',
+      found: true,
+      resolvedCitation: '§ 45 Abs. 2 Nr. 1 lit. b SGB X',
+      eId: 'art-z45_abs-z2_untergl-n1_listenelem-n1_untergl-n1_listenelem-nb',
+      sections: [{ num: 'b)', text: 'gedroht hat,' }],
+    });
+    expect(missing.structured).toMatchObject({ found: false, notFound: 'Abs. 3', sections: [], law: { abbreviation: 'SGB X' } });
+    expect(unavailable.structured).toMatchObject({ found: false, unavailable: { abbreviation: 'GG' } });
+  });
+
+  test('gesetzesfassungen_auflisten returns the versions newest first', async () => {
+    const { structured } = await call('gesetzesfassungen_auflisten', { abbreviation: 'SGB X' });
+
+    expect(structured).toMatchObject({ requested: 'SGB X', found: true, workEli: WORK, currentEli: expression(VERSIONS[1]) });
+    expect(structured.versions).toEqual([
+      expect.objectContaining({ eli: expression(VERSIONS[1]), validFrom: '2024-01-01', derived: false, inForce: true }),
+      expect.objectContaining({ eli: expression(VERSIONS[0]), validFrom: '2020-01-01', validTo: '2023-12-31', derived: false }),
+    ]);
+  });
+
+  test('fassung_zum_stichtag_abrufen returns the version and the norm in it', async () => {
+    const { structured } = await call('fassung_zum_stichtag_abrufen', { citation: '§ 44 SGB X', date: '01.06.2021' });
+    const before = await call('fassung_zum_stichtag_abrufen', { abbreviation: 'SGB X', date: '2019-01-01' });
+
+    expect(structured).toMatchObject({
+      date: '2021-06-01',
+      requested: 'SGB X',
+      found: true,
+      version: { eli: expression(VERSIONS[0]), pointInTime: '2020-01-01' },
+      norm: { found: true, resolvedCitation: '§ 44 SGB X', sections: [{ text: VERSIONS[0].text }] },
+    });
+    expect(before.structured).toMatchObject({ found: false, earliestVersion: { pointInTime: '2020-01-01' } });
+  });
+
+  test('fassungsvergleich returns the changed norms', async () => {
+    const { structured } = await call('fassungsvergleich', { abbreviation: 'SGB X', dateFrom: '2021-06-01', dateTo: '2024-06-01' });
+
+    expect(structured).toMatchObject({
+      subject: 'SGB X',
+      found: true,
+      dateFrom: '2021-06-01',
+      dateTo: '2024-06-01',
+      from: { eli: expression(VERSIONS[0]) },
+      to: { eli: expression(VERSIONS[1]) },
+      intermediate: ['2024-01-01'],
+      amendments: [],
+    });
+    expect(structured.changes).toEqual([
+      expect.objectContaining({ num: '§ 44', type: 'changed', paragraphs: [expect.objectContaining({ num: '(1)', type: 'changed' })] }),
+    ]);
+  });
+
+  test('verfuegbarkeit_pruefen returns one entry per abbreviation', async () => {
+    const { structured } = await call('verfuegbarkeit_pruefen', { abbreviation: 'GG, XYZG' });
+
+    expect(structured.liveCheck).toBe(false);
+    expect(structured.laws).toEqual([
+      expect.objectContaining({ requested: 'GG', state: 'unavailable', abbreviation: 'GG' }),
+      expect.objectContaining({ requested: 'XYZG', state: 'unknown', alternatives: expect.any(Array) }),
+    ]);
+  });
+});
@@ -0,0 +1,72 @@
+/**
+ * Unit tests for result pagination (src/pagination.ts)
+ *
+ * Run with: npm run test:unit (after npm run build)
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import { decodeCursor, encodeCursor, mergePages, pageSize, readPageInfo } from '../../dist/pagination.js';
+
+const newestFirst = (a, b) => b.localeCompare(a);
+
+describe('mergePages', () => {
+  test('takes the newest heads up to the page size and reports what each list gave', () => {
+    const bgh = ['2024-05', '2024-03', '2023-12', '2023-06'];
+    const bpatg = ['2024-04', '2023-07'];
+
+    expect(mergePages([bgh, bpatg], 3, newestFirst)).toEqual({
+      merged: ['2024-05', '2024-04', '2024-03'],
+      taken: [2, 1],
+    });
+  });
+
+  test('continuing from the taken counts pages through every result once', () => {
+    const lists = [['2024-05', '2024-03', '2023-12', '2023-06', '2020-01'], ['2024-04', '2023-07', '2019-01']];
+    const offsets = [0, 0];
+    const pages = [];
+
+    while (offsets.some((offset, i) => offset < lists[i].length)) {
+      const { merged, taken } = mergePages(lists.map((list, i) => list.slice(offsets[i], offsets[i] + 3)), 3, newestFirst);
+      pages.push(merged);
+      taken.forEach((count, i) => { offsets[i] += count; });
+    }
+
+    expect(pages).toEqual([
+      ['2024-05', '2024-04', '2024-03'],
+      ['2023-12', '2023-07', '2023-06'],
+      ['2020-01', '2019-01'],
+    ]);
+  });
+
+  test('consumes every list from the front even when it is not sorted', () => {
+    const { merged, taken } = mergePages([['2020-01', '2024-01'], ['2022-01']], 2, newestFirst);
+
+    expect(merged).toEqual(['2022-01', '2020-01']);
+    expect(taken).toEqual([1, 1]);
+  });
+});
+
+describe('readPageInfo', () => {
+  test('prefers the view links, then totalItems, then a full page', () => {
+    expect(readPageInfo({ member: [1], view: { next: '/next' } }, 0, 5).hasNext).toBe(true);
+    expect(readPageInfo({ member: [1, 2], totalItems: 7 }, 1, 2).hasNext).toBe(true);
+    expect(readPageInfo({ member: [1, 2], totalItems: 6 }, 2, 2).hasNext).toBe(false);
+    expect(readPageInfo({ member: [1, 2] }, 0, 2).hasNext).toBe(true);
+  });
+});
+
+describe('cursors', () => {
+  test('round-trip the state and belong to one tool', () => {
+    const cursor = encodeCursor('rechtsprechung_suchen', { pageIndex: 1, offsets: [2, 1] });
+
+    expect(decodeCursor(cursor, 'rechtsprechung_suchen')).toEqual({ pageIndex: 1, offsets: [2, 1] });
+    expect(() => decodeCursor(cursor, 'deutsche_gesetze_suchen')).toThrow('Invalid cursor for deutsche_gesetze_suchen');
+    expect(() => decodeCursor('not a cursor', 'rechtsprechung_suchen')).toThrow('Invalid cursor');
+  });
+
+  test('page sizes are clamped', () => {
+    expect(pageSize('20', 5)).toBe(20);
+    expect(pageSize(500, 5)).toBe(100);
+    expect(pageSize(undefined, 5)).toBe(5);
+  });
+});
@@ -0,0 +1,224 @@
+/**
+ * Unit tests for the response cache (src/response-cache.ts)
+ *
+ * In-memory behaviour runs on Jest's fake clock; the disk store is
+ * exercised in a temporary directory that is removed after each test.
+ *
+ * Run with: npm run test:unit (after npm run build)
+ */
+
+import { describe, test, expect, jest, afterEach } from '@jest/globals';
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+
+process.env.LOG_LEVEL = 'error';
+const { ResponseCache } = await import('../../dist/response-cache.js');
+
+const OPTIONS = {
+  maxEntries: 3,
+  searchTtl: 1000,
+  documentTtl: 5000,
+  maxStale: 10000,
+  maxDiskEntries: 100,
+};
+
+const directories = [];
+
+async function tempDirectory() {
+  const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'response-cache-'));
+  directories.push(directory);
+  return directory;
+}
+
+/** Name of the file an entry is stored in */
+function fileName(key) {
+  return `${createHash('sha256').update(key).digest('hex')}.json`;
+}
+
+async function jsonFiles(directory) {
+  return (await fs.readdir(directory)).filter(name => name.endsWith('.json'));
+}
+
+/** Wait for background work such as a scheduled prune */
+async function waitFor(condition, timeoutMs = 5000) {
+  const deadline = Date.now() + timeoutMs;
+  while (!(await condition())) {
+    if (Date.now() > deadline) throw new Error('Condition not met in time');
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+}
+
+/** Set the modification time of every file in the directory to `ageMs` ago */
+async function age(directory, ageMs, names) {
+  const time = new Date(Date.now() - ageMs);
+  for (const name of names ?? await fs.readdir(directory)) {
+    await fs.utimes(path.join(directory, name), time, time);
+  }
+}
+
+afterEach(async () => {
+  jest.useRealTimers();
+  await Promise.all(directories.splice(0).map(directory => fs.rm(directory, { recursive: true, force: true })));
+});
+
+describe('ResponseCache.key', () => {
+  test('ignores parameter order and empty parameters', () => {
+    const url = 'https://example.test/v1/legislation';
+    expect(ResponseCache.key(url, { b: 2, a: 1, c: undefined })).toBe(ResponseCache.key(url, new URLSearchParams('a=1&b=2')));
+  });
+
+  test('separates Accept headers', () => {
+    const url = 'https://example.test/v1/legislation';
+    expect(ResponseCache.key(url, {}, 'text/html')).not.toBe(ResponseCache.key(url, {}));
+  });
+});
+
+describe('expiry', () => {
+  test('uses the TTL of the entry kind and flags expired entries as stale', async () => {
+    jest.useFakeTimers();
+    const cache = new ResponseCache(OPTIONS);
+    await cache.store('search', 'search', { hits: 1 }, 200);
+    await cache.store('document', 'document', { text: 'x' }, 200);
+
+    jest.advanceTimersByTime(OPTIONS.searchTtl - 1);
+    expect((await cache.lookup('search')).stale).toBe(false);
+
+    jest.advanceTimersByTime(1);
+    expect((await cache.lookup('search')).stale).toBe(true);
+    expect((await cache.lookup('document')).stale).toBe(false);
+  });
+
+  test('keeps serving stale entries until maxStale has passed', async () => {
+    jest.useFakeTimers();
+    const cache = new ResponseCache(OPTIONS);
+    await cache.store('search', 'search', { hits: 1 }, 200);
+
+    jest.advanceTimersByTime(OPTIONS.searchTtl + OPTIONS.maxStale);
+    expect(await cache.lookup('search')).toMatchObject({ stale: true, entry: { data: { hits: 1 } } });
+
+    jest.advanceTimersByTime(1);
+    expect(await cache.lookup('search')).toBeNull();
+    expect(cache.size).toBe(0);
+  });
+});
+
+describe('LRU eviction', () => {
+  test('evicts the least recently used entry above maxEntries', async () => {
+    const cache = new ResponseCache(OPTIONS);
+    await cache.store('a', 'document', 'a', 200);
+    await cache.store('b', 'document', 'b', 200);
+    await cache.store('c', 'document', 'c', 200);
+
+    // Reading "a" makes "b" the least recently used entry
+    await cache.lookup('a');
+    await cache.store('d', 'document', 'd', 200);
+
+    expect(cache.size).toBe(3);
+    expect(await cache.lookup('b')).toBeNull();
+    for (const key of ['a', 'c', 'd']) {
+      expect((await cache.lookup(key)).entry.data).toBe(key);
+    }
+  });
+});
+
+describe('copies', () => {
+  test('changes to stored or returned data do not reach the cache', async () => {
+    const cache = new ResponseCache(OPTIONS);
+    const data = { member: [{ id: 1 }] };
+    await cache.store('a', 'search', data, 200);
+    data.member.push({ id: 2 });
+
+    const first = await cache.lookup('a');
+    first.entry.data.member[0].id = 99;
+
+    expect((await cache.lookup('a')).entry.data).toEqual({ member: [{ id: 1 }] });
+  });
+});
+
+describe('dedupe', () => {
+  test('shares one call between identical requests in flight', async () => {
+    const cache = new ResponseCache(OPTIONS);
+    let calls = 0;
+    let answer;
+    const fetcher = () => {
+      calls++;
+      return new Promise(resolve => { answer = resolve; });
+    };
+
+    const first = cache.dedupe('a', fetcher);
+    const second = cache.dedupe('a', fetcher);
+    answer({ member: [1] });
+
+    const results = await Promise.all([first, second]);
+    expect(calls).toBe(1);
+    expect(results[1]).toEqual(results[0]);
+    expect(results[1]).not.toBe(results[0]);
+  });
+
+  test('calls again once the earlier request has finished or failed', async () => {
+    const cache = new ResponseCache(OPTIONS);
+    let calls = 0;
+
+    await expect(cache.dedupe('a', async () => { calls++; throw new Error('down'); })).rejects.toThrow('down');
+    await cache.dedupe('a', async () => ++calls);
+    expect(calls).toBe(2);
+  });
+});
+
+describe('disk store', () => {
+  test('serves entries written by an earlier instance', async () => {
+    const directory = await tempDirectory();
+    await new ResponseCache({ ...OPTIONS, directory }).store('a', 'document', { text: 'x' }, 200, 'application/json');
+
+    const restarted = new ResponseCache({ ...OPTIONS, directory });
+    expect(await restarted.lookup('a')).toMatchObject({
+      stale: false,
+      entry: { data: { text: 'x' }, status: 200, contentType: 'application/json' },
+    });
+  });
+
+  test('pruneDisk deletes files past TTL plus maxStale and leftover temp files', async () => {
+    const directory = await tempDirectory();
+    const cache = new ResponseCache({ ...OPTIONS, directory });
+    await cache.store('old', 'document', 'old', 200);
+    await age(directory, OPTIONS.documentTtl + OPTIONS.maxStale + 1000);
+    await cache.store('new', 'document', 'new', 200);
+    await fs.writeFile(path.join(directory, 'crashed.json.1.tmp'), '{');
+    await fs.writeFile(path.join(directory, 'writing.json.2.tmp'), '{');
+    await age(directory, 120_000, ['crashed.json.1.tmp']);
+
+    await cache.pruneDisk();
+
+    const restarted = new ResponseCache({ ...OPTIONS, directory });
+    expect(await restarted.lookup('old')).toBeNull();
+    expect(await restarted.lookup('new')).not.toBeNull();
+    expect((await fs.readdir(directory)).filter(name => name.endsWith('.tmp'))).toEqual(['writing.json.2.tmp']);
+  });
+
+  test('pruneDisk keeps the most recently written maxDiskEntries files', async () => {
+    const directory = await tempDirectory();
+    const cache = new ResponseCache({ ...OPTIONS, directory, maxDiskEntries: 2 });
+    for (const [key, ageMs] of [['a', 3000], ['b', 2000], ['c', 1000]]) {
+      await cache.store(key, 'document', key, 200);
+      await age(directory, ageMs, [fileName(key)]);
+    }
+
+    await cache.pruneDisk();
+
+    expect((await jsonFiles(directory)).sort()).toEqual([fileName('b'), fileName('c')].sort());
+  });
+
+  test('prunes at startup and again every 100 writes', async () => {
+    const directory = await tempDirectory();
+    const cache = new ResponseCache({ ...OPTIONS, directory, maxDiskEntries: 10 });
+
+    for (let i = 0; i < 99; i++) await cache.store(`key-${i}`, 'document', i, 200);
+    // The prune scheduled by the first write found nothing to delete
+    expect(await jsonFiles(directory)).toHaveLength(99);
+
+    await cache.store('key-99', 'document', 99, 200);
+    await waitFor(async () => (await jsonFiles(directory)).length === 10);
+  });
+});
@@ -0,0 +1,96 @@
+/**
+ * Unit tests for version timelines (src/versions.ts)
+ *
+ * Run with: npm run test:unit (after npm run build)
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import { buildVersionTimeline, findVersionAt, normalizeDate } from '../../dist/versions.js';
+
+const WORK = 'eli/bund/bgbl-1/1980/s1469';
+
+function version(pointInTime, extra = {}) {
+  return { eli: `${WORK}/${pointInTime}/1/deu`, pointInTime, item: pointInTime, ...extra };
+}
+
+describe('normalizeDate', () => {
+  test('accepts ISO and German dates', () => {
+    expect(normalizeDate('2021-01-01')).toBe('2021-01-01');
+    expect(normalizeDate(' 01.02.2021 ')).toBe('2021-02-01');
+    expect(normalizeDate('1.2.2021')).toBe('2021-02-01');
+  });
+
+  test('accepts Feb 29 only in leap years', () => {
+    expect(normalizeDate('2024-02-29')).toBe('2024-02-29');
+    expect(normalizeDate('29.02.2024')).toBe('2024-02-29');
+    expect(normalizeDate('2023-02-29')).toBeNull();
+    expect(normalizeDate('29.02.2023')).toBeNull();
+    expect(normalizeDate('1900-02-29')).toBeNull();
+  });
+
+  test('rejects dates that do not exist and other formats', () => {
+    expect(normalizeDate('2021-13-01')).toBeNull();
+    expect(normalizeDate('31.04.2021')).toBeNull();
+    expect(normalizeDate('2021/01/01')).toBeNull();
+    expect(normalizeDate('01.01.21')).toBeNull();
+    expect(normalizeDate('')).toBeNull();
+  });
+});
+
+describe('buildVersionTimeline', () => {
+  test('sorts, deduplicates and derives ranges from the next version', () => {
+    const timeline = buildVersionTimeline([version('2024-01-01'), version('2020-01-01'), version('2024-01-01')]);
+
+    expect(timeline.map(v => [v.validFrom, v.validTo, v.derived])).toEqual([
+      ['2020-01-01', '2023-12-31', true],
+      ['2024-01-01', undefined, true],
+    ]);
+  });
+
+  test('prefers the temporal coverage reported by the API', () => {
+    const timeline = buildVersionTimeline([
+      version('2020-01-01', { temporalCoverage: '2020-03-01/2022-06-30' }),
+      version('2024-01-01', { temporalCoverage: '2024-01-01/..' }),
+    ]);
+
+    expect(timeline.map(v => [v.validFrom, v.validTo, v.derived])).toEqual([
+      ['2020-03-01', '2022-06-30', false],
+      ['2024-01-01', undefined, false],
+    ]);
+  });
+
+  test('derives the end of a version before a leap day', () => {
+    const [first] = buildVersionTimeline([version('2024-01-01'), version('2024-03-01')]);
+    expect(first.validTo).toBe('2024-02-29');
+  });
+});
+
+describe('findVersionAt', () => {
+  const timeline = buildVersionTimeline([version('2020-01-01'), version('2022-07-01'), version('2024-01-01')]);
+
+  test('returns null before the first version', () => {
+    expect(findVersionAt(timeline, '2019-12-31')).toBeNull();
+  });
+
+  test('switches versions exactly on the boundary', () => {
+    expect(findVersionAt(timeline, '2022-06-30').pointInTime).toBe('2020-01-01');
+    expect(findVersionAt(timeline, '2022-07-01').pointInTime).toBe('2022-07-01');
+    expect(findVersionAt(timeline, '2020-01-01').pointInTime).toBe('2020-01-01');
+  });
+
+  test('the last version stays in force', () => {
+    expect(findVersionAt(timeline, '2099-01-01').pointInTime).toBe('2024-01-01');
+  });
+
+  test('a German date normalizes to a lookup', () => {
+    expect(findVersionAt(timeline, normalizeDate('01.07.2022')).pointInTime).toBe('2022-07-01');
+  });
+
+  test('later versions win where reported ranges overlap', () => {
+    const overlapping = buildVersionTimeline([
+      version('2020-01-01', { temporalCoverage: '2020-01-01/2023-12-31' }),
+      version('2023-01-01', { temporalCoverage: '2023-01-01/..' }),
+    ]);
+    expect(findVersionAt(overlapping, '2023-06-01').pointInTime).toBe('2023-01-01');
+  });
+});